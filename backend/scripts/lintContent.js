@@ -0,0 +1,40 @@
+// backend/scripts/lintContent.js
+// 教材（parts / questions / answer_patterns）をチェックし、問題があれば一覧を表示します
+// 使用方法: node backend/scripts/lintContent.js [--no-images] [--json]
+//   --no-images : 画像ファイルの有無を確認しない
+//   --json      : 結果を JSON で出力する
+// エラーが 1 件でもあれば終了コード 1（CI やデプロイ前の確認用）
+
+require('dotenv').config();
+const { getRepository } = require('../src/repositories');
+const { lintContent } = require('../src/content/lint');
+
+async function main() {
+  const args = process.argv.slice(2);
+  const checkImages = !args.includes('--no-images');
+
+  const { issues, summary } = await lintContent(getRepository(), { checkImages });
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify({ summary, issues }, null, 2));
+  } else {
+    for (const issue of issues) {
+      const where = [issue.part_id, issue.question_id, issue.answer_id !== undefined ? `answer#${issue.answer_id}` : null]
+        .filter(Boolean)
+        .join(' / ');
+      console.log(`${issue.level === 'error' ? 'ERROR' : 'WARN '} [${issue.code}] ${where}: ${issue.message}`);
+    }
+    console.log(`[lintContent] パート ${summary.parts} / 問題 ${summary.questions} / 正解パターン ${summary.answer_patterns}`);
+    console.log(`[lintContent] エラー ${summary.errors}件, 警告 ${summary.warnings}件`);
+  }
+
+  return summary.errors > 0 ? 1 : 0;
+}
+
+// スクリプト実行
+main()
+  .then(code => process.exit(code))
+  .catch(err => {
+    console.error('[lintContent] 異常終了:', err?.message);
+    process.exit(1);
+  });
@@ -0,0 +1,15 @@
+// backend/src/analytics/index.js
+// 管理画面の集計（回答ログ・スコア・プレイ記録から）
+const { MOST_MISSED_LIMIT, studentProgress } = require('./student');
+const { WRONG_TRANSCRIPT_LIMIT, questionDifficulty } = require('./questions');
+const { SUGGESTION_MIN_SIMILARITY, SUGGESTION_MIN_COUNT, suggestAnswerPatterns } = require('./suggestions');
+
+module.exports = {
+  MOST_MISSED_LIMIT,
+  studentProgress,
+  WRONG_TRANSCRIPT_LIMIT,
+  questionDifficulty,
+  SUGGESTION_MIN_SIMILARITY,
+  SUGGESTION_MIN_COUNT,
+  suggestAnswerPatterns,
+};
@@ -0,0 +1,78 @@
+// backend/src/analytics/questions.js
+// 問題ごとの難しさ（クラス・学年・パートごとの回答ログから）
+//   - 失敗率: 問題が出たプレイのうち、不正解・時間切れが 1 度でもあったプレイの割合（言い直しは数えない）
+//   - 正解までの平均時間: 正解した回答の time_ms の平均
+//   - よくある間違い: 不正解の回答の認識結果（1 番目の候補を正規化したもの）の多い順
+const { normalize } = require('../matching/text');
+
+// よくある間違いの件数（問題ごと）
+const WRONG_TRANSCRIPT_LIMIT = 5;
+
+/**
+ * 問題ごとの難しさ
+ * @param {Object} repo - getRepository() の結果
+ * @param {{ userIds: Set<string>, grade?: number, partId?: string }} filter
+ *   userIds: 対象の生徒、grade / partId: 学年・パートで絞り込み
+ * @returns {Promise<Array<Object>>} 失敗率の高い順（回答の無い問題は含まない）
+ */
+async function questionDifficulty(repo, { userIds, grade = 0, partId = '' }) {
+  const parts = new Map((await repo.parts.list()).map(p => [p.part_id, p]));
+  const questions = (await repo.questions.list()).filter(q => {
+    const part = parts.get(q.part_id);
+    return part && (!grade || part.grade_id === grade) && (!partId || q.part_id === partId);
+  });
+  const questionIds = new Set(questions.map(q => q.question_id));
+  const attempts = (await repo.attempts.list(partId ? { part_id: partId } : {}))
+    .filter(a => questionIds.has(a.question_id) && userIds.has(a.user_id) && a.result !== 'unclear');
+
+  // 問題ごとに、プレイ単位の結果・正解までの時間・間違いの認識結果を集める
+  const stats = new Map();
+  const statsOf = (questionId) => stats.get(questionId)
+    ?? stats.set(questionId, { plays: new Map(), students: new Set(), correct_ms: [], wrong: new Map() }).get(questionId);
+  for (const a of attempts) {
+    const s = statsOf(a.question_id);
+    const missed = a.result === 'wrong' || a.result === 'timeout';
+    s.plays.set(a.session_id, (s.plays.get(a.session_id) ?? false) || missed);
+    s.students.add(a.user_id);
+    if (a.result === 'correct' && a.time_ms > 0) s.correct_ms.push(a.time_ms);
+    if (a.result === 'wrong') {
+      const heard = normalize(a.transcripts[0] ?? '');
+      if (heard) s.wrong.set(heard, (s.wrong.get(heard) || 0) + 1);
+    }
+  }
+
+  const rows = [];
+  for (const q of questions) {
+    const s = stats.get(q.question_id);
+    if (!s) continue;
+    const part = parts.get(q.part_id);
+    const missed = [...s.plays.values()].filter(Boolean).length;
+    rows.push({
+      question_id: q.question_id,
+      part_id: q.part_id,
+      grade_id: part.grade_id,
+      part_no: part.part_no,
+      subpart_no: part.subpart_no,
+      display_order: q.display_order,
+      is_demo: q.is_demo,
+      question_text: q.question_text,
+      plays: s.plays.size,
+      students: s.students.size,
+      missed,
+      failure_rate: missed / s.plays.size,
+      avg_correct_ms: s.correct_ms.length
+        ? Math.round(s.correct_ms.reduce((sum, ms) => sum + ms, 0) / s.correct_ms.length)
+        : null,
+      wrong_transcripts: [...s.wrong.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, WRONG_TRANSCRIPT_LIMIT)
+        .map(([text, count]) => ({ text, count })),
+    });
+  }
+  return rows.sort((a, b) => b.failure_rate - a.failure_rate || b.plays - a.plays);
+}
+
+module.exports = {
+  WRONG_TRANSCRIPT_LIMIT,
+  questionDifficulty,
+};
@@ -0,0 +1,178 @@
+// backend/src/analytics/student.js
+// 生徒ごとの学習状況（管理画面の生徒の詳細）
+//   - 日ごとのプレイ数・クリア数・プレイ時間
+//   - パートごとのスコアの推移・クリアまでの挑戦回数・プレイ時間
+//   - 所属クラスの中での進捗（中央値との比較）
+//   - よく間違える問題
+// プレイ時間は終了済みプレイの開始から終了まで（途中でやめたプレイは含まない）
+// 練習はプレイ数・クリア数・クリアまでの挑戦回数に含めず、practice として別に数える
+const { parseTS, formatTS } = require('../utils/time');
+const { isPartUnlocked } = require('../progression');
+const { outcomesByQuestion } = require('../review');
+const { classIdsOf } = require('../classes');
+
+// よく間違える問題の件数
+const MOST_MISSED_LIMIT = 10;
+
+// 'YYYY/MM/DD HH:mm:ss' → 'YYYY/MM/DD'（"2026/1/5" のような 0 埋めの無い日付もそろえる。読めない場合は空文字）
+function dateOf(ts) {
+  const ms = parseTS(ts);
+  return Number.isFinite(ms) ? formatTS(ms).slice(0, 10) : '';
+}
+
+// プレイ時間（ミリ秒。日時が読めない場合は 0）
+function durationOf(session) {
+  const ms = parseTS(session.finished_at) - parseTS(session.started_at);
+  return Number.isFinite(ms) && ms > 0 ? ms : 0;
+}
+
+const byPosition = (a, b) => (a.grade_id - b.grade_id) || (a.part_no - b.part_no) || (a.subpart_no - b.subpart_no);
+
+// 進捗までのパートの数（パートの並び順での位置）
+const progressIndex = (user, parts) => parts.filter(p => isPartUnlocked(user, p)).length;
+
+const positionOf = (user) => ({ grade: user.current_grade, part: user.current_part, subpart: user.current_subpart });
+
+/**
+ * 所属クラスの中での進捗
+ * 中央値は、クラスの生徒の進捗（パートの並び順での位置）の中央（偶数人の場合は下側）
+ * @returns {Promise<Array<{ class_id: string, name: string, students: number, rank: number, median: Object, parts_ahead: number }>>}
+ *   rank: 進捗の順位（1 が最も先）、parts_ahead: 中央値より何パート先か（負は後ろ）
+ */
+async function classComparison(repo, user, parts) {
+  const classIds = await classIdsOf(repo, user.user_id);
+  if (classIds.length === 0) return [];
+
+  const users = new Map((await repo.users.list()).map(u => [u.user_id, u]));
+  const own = progressIndex(user, parts);
+  const result = [];
+  for (const classId of classIds) {
+    const cls = await repo.classes.findById(classId);
+    if (!cls) continue;
+    const classmates = (await repo.classes.listMembers({ class_id: classId, role: 'student' }))
+      .map(m => users.get(m.user_id))
+      .filter(Boolean);
+    const indexes = classmates.map(u => ({ user: u, index: progressIndex(u, parts) }))
+      .sort((a, b) => a.index - b.index);
+    const median = indexes[Math.floor((indexes.length - 1) / 2)];
+    result.push({
+      class_id: classId,
+      name: cls.name,
+      students: indexes.length,
+      rank: 1 + indexes.filter(i => i.index > own).length,
+      median: positionOf(median.user),
+      parts_ahead: own - median.index,
+    });
+  }
+  return result;
+}
+
+/**
+ * よく間違える問題（1 回のプレイで 1 度でも不正解・時間切れがあれば「間違えた」）
+ */
+async function mostMissed(repo, userId) {
+  const attempts = await repo.attempts.list({ user_id: String(userId) });
+  const questions = new Map((await repo.questions.list()).map(q => [q.question_id, q]));
+  const rows = [];
+  for (const [question_id, outcomes] of outcomesByQuestion(attempts)) {
+    const missed = outcomes.filter(o => o.missed);
+    if (missed.length === 0) continue;
+    rows.push({
+      question_id,
+      part_id: outcomes[outcomes.length - 1].part_id,
+      question_text: questions.get(question_id)?.question_text ?? '',
+      plays: outcomes.length,
+      missed: missed.length,
+      miss_rate: missed.length / outcomes.length,
+      last_missed_at: missed[missed.length - 1].at,
+    });
+  }
+  return rows
+    .sort((a, b) => b.missed - a.missed || b.miss_rate - a.miss_rate || b.last_missed_at - a.last_missed_at)
+    .slice(0, MOST_MISSED_LIMIT)
+    .map(row => ({ ...row, last_missed_at: formatTS(row.last_missed_at) }));
+}
+
+/**
+ * 生徒の学習状況
+ * @param {Object} repo - getRepository() の結果
+ * @param {Object} user - users の行
+ */
+async function studentProgress(repo, user) {
+  const parts = (await repo.parts.list()).slice().sort(byPosition);
+  const scores = await repo.scores.listByUser(user.user_id);
+  const sessions = await repo.sessions.listFinishedByUser(user.user_id);
+  const sessionByScore = new Map(sessions.filter(s => s.score_id).map(s => [s.score_id, s]));
+
+  // 日ごと
+  const days = new Map();
+  const dayOf = (date) => days.get(date)
+    ?? days.set(date, { date, plays: 0, practice: 0, clears: 0, time_ms: 0 }).get(date);
+  for (const s of scores) {
+    const day = dayOf(dateOf(s.play_date));
+    if (s.mode === 'practice') {
+      day.practice++;
+      continue;
+    }
+    day.plays++;
+    if (s.clear) day.clears++;
+  }
+  for (const s of sessions) {
+    dayOf(dateOf(s.finished_at)).time_ms += durationOf(s);
+  }
+
+  // パートごと（プレイしたパートのみ、パートの並び順）
+  const partRows = [];
+  for (const part of parts) {
+    const played = scores.filter(s => s.part_id === part.part_id);
+    if (played.length === 0) continue;
+    const counted = played.filter(s => s.mode !== 'practice');
+    const firstClear = counted.findIndex(s => s.clear);
+    partRows.push({
+      part_id: part.part_id,
+      grade_id: part.grade_id,
+      part_no: part.part_no,
+      subpart_no: part.subpart_no,
+      plays: counted.length,
+      practice: played.length - counted.length,
+      clears: counted.filter(s => s.clear).length,
+      attempts_to_clear: firstClear === -1 ? null : firstClear + 1,
+      best: Math.max(...played.map(s => s.scores)),
+      time_ms: sessions.filter(s => s.part_id === part.part_id).reduce((sum, s) => sum + durationOf(s), 0),
+      history: played.map(s => ({
+        score_id: s.score_id,
+        play_date: s.play_date,
+        scores: s.scores,
+        total: sessionByScore.get(s.score_id)?.total ?? null,
+        clear: s.clear,
+        mode: s.mode || 'play',
+      })),
+    });
+  }
+
+  return {
+    user: {
+      user_id: user.user_id,
+      nickname: user.nickname,
+      real_name: user.real_name,
+      current: positionOf(user),
+    },
+    totals: {
+      plays: scores.filter(s => s.mode !== 'practice').length,
+      practice: scores.filter(s => s.mode === 'practice').length,
+      clears: scores.filter(s => s.clear && s.mode !== 'practice').length,
+      parts_played: partRows.length,
+      parts_cleared: partRows.filter(p => p.clears > 0).length,
+      time_ms: sessions.reduce((sum, s) => sum + durationOf(s), 0),
+    },
+    daily: [...days.values()].sort((a, b) => a.date.localeCompare(b.date)),
+    parts: partRows,
+    classes: await classComparison(repo, user, parts),
+    most_missed: await mostMissed(repo, user.user_id),
+  };
+}
+
+module.exports = {
+  MOST_MISSED_LIMIT,
+  studentProgress,
+};
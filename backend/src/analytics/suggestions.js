@@ -0,0 +1,113 @@
+// backend/src/analytics/suggestions.js
+// 正解パターンの候補（不正解になった認識結果のうち、正解パターンに近かったものをまとめる）
+//   - 不正解の回答の認識結果（1 番目の候補）を、いまの正解パターン・判定設定で判定し直す
+//     （すでに正解になるもの＝追加済みのパターンで救われるものは除く）
+//   - 正解パターンとの類似度（文字・単語・発音の最大）が SUGGESTION_MIN_SIMILARITY 以上のものを候補にする
+//   - 似た認識結果（文字の類似度が CLUSTER_SIMILARITY 以上）は 1 つの候補にまとめ、最も多いものを代表にする
+const { normalize, simLevenshtein } = require('../matching/text');
+const { evaluateAnswer, resolveMatchConfig } = require('../matching');
+
+// 正解パターンとの類似度の下限（これ未満は単なる間違いとみなす）
+const SUGGESTION_MIN_SIMILARITY = 0.45;
+// 同じ候補にまとめる認識結果どうしの類似度の下限
+const CLUSTER_SIMILARITY = 0.8;
+// 候補にする回答数の下限（1 回だけの言い間違いは出さない）
+const SUGGESTION_MIN_COUNT = 2;
+// 問題ごとの候補数
+const SUGGESTIONS_PER_QUESTION = 3;
+
+/**
+ * 正解パターンの候補
+ * @param {Object} repo - getRepository() の結果
+ * @param {{ userIds: Set<string>, grade?: number, partId?: string }} filter
+ *   userIds: 対象の生徒、grade / partId: 学年・パートで絞り込み
+ * @returns {Promise<Array<Object>>} 候補のある問題（候補の回答数の多い順）
+ */
+async function suggestAnswerPatterns(repo, { userIds, grade = 0, partId = '' }) {
+  const parts = new Map((await repo.parts.list()).map(p => [p.part_id, p]));
+  const questions = (await repo.questions.list()).filter(q => {
+    const part = parts.get(q.part_id);
+    return part && (!grade || part.grade_id === grade) && (!partId || q.part_id === partId);
+  });
+  const questionIds = new Set(questions.map(q => q.question_id));
+  const attempts = (await repo.attempts.list(partId ? { part_id: partId } : {}))
+    .filter(a => a.result === 'wrong' && questionIds.has(a.question_id) && userIds.has(a.user_id));
+
+  // 問題ごとに、不正解の認識結果（正規化済み）の回数と回答した生徒を集める
+  const heardByQuestion = new Map();
+  for (const a of attempts) {
+    const text = normalize(a.transcripts[0] ?? '');
+    if (!text) continue;
+    const heard = heardByQuestion.get(a.question_id) ?? heardByQuestion.set(a.question_id, new Map()).get(a.question_id);
+    const entry = heard.get(text) ?? heard.set(text, { text, count: 0, students: new Set() }).get(text);
+    entry.count++;
+    entry.students.add(a.user_id);
+  }
+
+  const answersByQ = await repo.answers.groupByQuestion([...heardByQuestion.keys()]);
+  const rows = [];
+  for (const q of questions) {
+    const heard = heardByQuestion.get(q.question_id);
+    const answers = answersByQ.get(q.question_id) || [];
+    if (!heard || answers.length === 0) continue;
+    const part = parts.get(q.part_id);
+    const patterns = answers.map(r => ({
+      text: r.expected_text,
+      config: resolveMatchConfig(part.match_config, q.match_config, r.match_config),
+    }));
+
+    // いまの正解パターンでも不正解で、正解パターンに近いもの
+    const close = [];
+    for (const entry of heard.values()) {
+      const match = evaluateAnswer([entry.text], patterns);
+      if (match.correct) continue;
+      const similarity = Math.max(match.levenshtein, match.jaccard, match.phonetic);
+      if (similarity >= SUGGESTION_MIN_SIMILARITY) close.push({ ...entry, similarity });
+    }
+
+    // 回数の多い順に、代表と似ている認識結果を同じ候補にまとめる
+    const clusters = [];
+    for (const entry of close.sort((a, b) => b.count - a.count || a.text.localeCompare(b.text))) {
+      const cluster = clusters.find(c => simLevenshtein(c.text, entry.text) >= CLUSTER_SIMILARITY);
+      if (cluster) {
+        cluster.count += entry.count;
+        entry.students.forEach(id => cluster.students.add(id));
+        cluster.variants.push({ text: entry.text, count: entry.count });
+      } else {
+        clusters.push({
+          text: entry.text,
+          count: entry.count,
+          students: new Set(entry.students),
+          similarity: Math.round(entry.similarity * 100) / 100,
+          variants: [{ text: entry.text, count: entry.count }],
+        });
+      }
+    }
+
+    const suggestions = clusters
+      .filter(c => c.count >= SUGGESTION_MIN_COUNT)
+      .sort((a, b) => b.count - a.count || b.similarity - a.similarity)
+      .slice(0, SUGGESTIONS_PER_QUESTION)
+      .map(c => ({ ...c, students: c.students.size, variants: c.variants.slice(1) }));
+    if (suggestions.length === 0) continue;
+
+    rows.push({
+      question_id: q.question_id,
+      part_id: q.part_id,
+      grade_id: part.grade_id,
+      part_no: part.part_no,
+      subpart_no: part.subpart_no,
+      display_order: q.display_order,
+      question_text: q.question_text,
+      answers: answers.map(r => r.expected_text),
+      suggestions,
+    });
+  }
+  return rows.sort((a, b) => b.suggestions[0].count - a.suggestions[0].count);
+}
+
+module.exports = {
+  SUGGESTION_MIN_SIMILARITY,
+  SUGGESTION_MIN_COUNT,
+  suggestAnswerPatterns,
+};
@@ -8,7 +8,14 @@ const playGameRouter = require('./routes/playGame');
 const selectRouter = require('./routes/select');
 const ttsRouter = require('./routes/tts');
 const adminRouter = require('./routes/admin');
+const adminContentRouter = require('./routes/adminContent');
+const adminProgressionRouter = require('./routes/adminProgression');
+const adminClassesRouter = require('./routes/adminClasses');
+const adminAnalyticsRouter = require('./routes/adminAnalytics');
+const adminReportsRouter = require('./routes/adminReports');
+const asrRouter = require('./routes/asr');
 const { sanitizeError } = require('./middleware/validation');
+const { IMAGE_UPLOAD_DIR, UPLOADS_PATH } = require('./services/imageStorage');
 
 const app = express();
 
@@ -46,6 +53,7 @@ app.use(cors({
   credentials: true, // クッキーを含むリクエストを許可
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization'],
+  exposedHeaders: ['Content-Disposition'], // ダウンロードのファイル名（レポート）
   maxAge: 86400 // プリフライトリクエストのキャッシュ（24時間）
 }));
 
@@ -66,13 +74,22 @@ app.use((req, res, next) => {
 // 動作確認用
 app.get('/health', (req, res) => res.json({ ok: true }));
 
+// アップロードされた問題画像（IMAGE_STORAGE=local の場合）。ファイル名に内容のハッシュを含むため長期キャッシュ
+app.use(UPLOADS_PATH, express.static(IMAGE_UPLOAD_DIR, { maxAge: '365d', immutable: true }));
+
 // ルーターをマウント
 app.use('/auth',    loginRouter);   // 例: POST /auth/login
 app.use('/ranking', rankingRouter); // 例: GET  /ranking
 app.use('/game',    playGameRouter);
 app.use('/select',  selectRouter);
 app.use('/api/tts', ttsRouter);
+app.use('/admin/content', adminContentRouter); // 例: GET /admin/content/parts（教材の編集）
+app.use('/admin/progression', adminProgressionRouter); // 例: PUT /admin/progression/rules（進級ルール）
+app.use('/admin/classes', adminClassesRouter); // 例: POST /admin/classes/:classId/members（クラスの所属）
+app.use('/admin/analytics', adminAnalyticsRouter); // 例: GET /admin/analytics/students/:userId（生徒の学習状況）
+app.use('/admin/reports', adminReportsRouter); // 例: GET /admin/reports/classes/:classId?format=pdf（レポート）
 app.use('/admin',   adminRouter);   // 例: GET  /admin/users, POST /admin/users
+app.use('/asr',     asrRouter);     // 例: POST /asr/recognize（録音した音声）
 
 // 404ハンドラー - 定義されていないルートへのアクセス
 app.use((req, res, next) => {
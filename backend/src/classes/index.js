@@ -0,0 +1,77 @@
+// backend/src/classes/index.js
+// クラスと、管理画面で扱える範囲（先生は担当クラスの生徒だけ、管理者はすべて）
+// ユーザーの権限は users.role（空の場合は is_admin から決める）
+//   - student: 生徒
+//   - teacher: 先生（class_members で role: 'teacher' として所属するクラスを担当）
+//   - admin  : 管理者（すべてのクラス・生徒と、教材・進級ルールなど全体の設定を管理）
+
+const ROLES = ['student', 'teacher', 'admin'];
+const MEMBER_ROLES = ['student', 'teacher'];
+
+/**
+ * ユーザーの権限
+ * @param {Object} user - users の行、またはトークンの内容（req.user）
+ * @returns {'student'|'teacher'|'admin'}
+ */
+function userRole(user) {
+  if (ROLES.includes(user?.role)) return user.role;
+  return user?.is_admin ? 'admin' : 'student';
+}
+
+const isSuperAdmin = (user) => userRole(user) === 'admin';
+
+/**
+ * 管理画面で扱える範囲
+ * @param {Object} user - トークンの内容（req.user）
+ * @returns {Promise<{ all: boolean, class_ids: Set<string>, user_ids: Set<string> }>}
+ *   all: すべて（管理者）。先生は担当クラスの class_id と、その生徒の user_id
+ */
+async function adminScope(repo, user) {
+  if (isSuperAdmin(user)) {
+    return { all: true, class_ids: new Set(), user_ids: new Set() };
+  }
+  const own = await repo.classes.listMembers({ user_id: String(user.userId), role: 'teacher' });
+  const class_ids = new Set(own.map(m => m.class_id));
+  const students = (await repo.classes.listMembers({ role: 'student' })).filter(m => class_ids.has(m.class_id));
+  return { all: false, class_ids, user_ids: new Set(students.map(m => m.user_id)) };
+}
+
+// 範囲内の生徒・クラスか
+const inScope = (scope, userId) => scope.all || scope.user_ids.has(String(userId));
+const classInScope = (scope, classId) => scope.all || scope.class_ids.has(String(classId));
+
+/**
+ * 集計の対象にする生徒の user_id
+ * class_id を指定した場合はそのクラスの生徒（範囲内かは呼び出し側で確認する）、
+ * 指定しない場合は範囲内のすべての生徒（管理者は権限が student のユーザー全員）
+ * @returns {Promise<Set<string>>}
+ */
+async function scopedStudentIds(repo, scope, classId = '') {
+  if (classId) {
+    const members = await repo.classes.listMembers({ class_id: String(classId), role: 'student' });
+    return new Set(members.map(m => m.user_id));
+  }
+  if (!scope.all) return new Set(scope.user_ids);
+  const users = await repo.users.list();
+  return new Set(users.filter(u => userRole(u) === 'student').map(u => u.user_id));
+}
+
+/**
+ * 生徒として所属するクラスの class_id
+ */
+async function classIdsOf(repo, userId) {
+  const members = await repo.classes.listMembers({ user_id: String(userId), role: 'student' });
+  return members.map(m => m.class_id);
+}
+
+module.exports = {
+  ROLES,
+  MEMBER_ROLES,
+  userRole,
+  isSuperAdmin,
+  adminScope,
+  inScope,
+  classInScope,
+  scopedStudentIds,
+  classIdsOf,
+};
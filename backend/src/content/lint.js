@@ -0,0 +1,205 @@
+// backend/src/content/lint.js
+// 教材データのチェック（プレイ中に初めて分かる問題を、事前に見つけるため）
+//   - 各パートの問題数がパートの question_count ちょうどか（多い分は出題されず、少ないとプレイが短くなる）
+//   - パートの設定（問題数・クリアに必要な正解数・制限時間）が範囲内か
+//   - 1 問目がデモか
+//   - 正解パターンが空の問題・空の正解パターン・不正な match_config
+//   - display_order の重複
+//   - 画像ファイルが無い問題・画像のディレクトリの外を指す image_url
+//   - 問題の無い正解パターン・パートの無い問題
+//   - /game/advance が進む順序（学年・パート・サブパート順）で、位置の重複や抜けが無いか
+const fs = require('fs/promises');
+const path = require('path');
+const { IMAGE_UPLOAD_DIR, UPLOADS_PATH } = require('../services/imageStorage');
+const { isValidMatchConfig, partSettings, partSettingProblems } = require('./rules');
+
+// /questions/... の画像を探すディレクトリ（フロントエンドの public）
+const CONTENT_PUBLIC_DIR = process.env.CONTENT_PUBLIC_DIR || path.join(__dirname, '../../../frontend/public');
+
+const positionOf = (p) => `${p.grade_id}-${p.part_no}-${p.subpart_no}`;
+
+/**
+ * image_url が指すファイルのパス
+ * @returns {{ dir: string, file: string } | null} 確認できない URL（外部の URL など）は null
+ */
+function imageLocation(url) {
+  let dir = null;
+  let rel = null;
+  if (url.startsWith(`${UPLOADS_PATH}/`)) {
+    dir = IMAGE_UPLOAD_DIR;
+    rel = url.slice(UPLOADS_PATH.length + 1);
+  } else if (url.startsWith('/')) {
+    dir = CONTENT_PUBLIC_DIR;
+    rel = url.slice(1);
+  }
+  if (!dir) return null;
+  const root = path.resolve(dir);
+  return { dir: root, file: path.resolve(root, rel) };
+}
+
+// ★ .. や // でディレクトリの外を指すか（外のファイルの有無をチェックで調べられないように）
+function isOutside({ dir, file }) {
+  const rel = path.relative(dir, file);
+  return rel === '..' || rel.startsWith(`..${path.sep}`) || path.isAbsolute(rel);
+}
+
+/**
+ * image_url が指すファイルがあるか（isOutside の場所は調べない）
+ * @returns {Promise<boolean|null>} 確認できない URL（外部の URL など）は null
+ */
+async function imageExists({ dir, file }) {
+  // ★ フロントエンドと別のサーバーで動かしている場合など、ディレクトリ自体が無ければ確認しない
+  if (!(await fs.stat(dir).then(st => st.isDirectory(), () => false))) return null;
+  try {
+    return (await fs.stat(file)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * /game/advance の順序で、次のパートとして自然か（サブパート・パート・学年が 1 つずつ進むか）
+ */
+function isNextPosition(prev, next) {
+  if (next.grade_id === prev.grade_id && next.part_no === prev.part_no) {
+    return next.subpart_no === prev.subpart_no + 1;
+  }
+  if (next.grade_id === prev.grade_id) {
+    return next.part_no === prev.part_no + 1 && next.subpart_no === 1;
+  }
+  return next.grade_id === prev.grade_id + 1 && next.part_no === 1 && next.subpart_no === 1;
+}
+
+/**
+ * 教材をチェックする
+ * @param {Object} repo - getRepository() の結果
+ * @param {{ checkImages?: boolean }} options - checkImages: 画像ファイルの有無も確認する（既定: true）
+ * @returns {Promise<{ issues: Array<{ level: 'error'|'warning', code: string, part_id?: string, question_id?: string, answer_id?: number, message: string }>, summary: Object }>}
+ */
+async function lintContent(repo, { checkImages = true } = {}) {
+  const issues = [];
+  const add = (level, code, refs, message) => issues.push({ level, code, ...refs, message });
+
+  const parts = await repo.parts.list();
+  const questions = await repo.questions.list();
+  const answers = await repo.answers.list();
+
+  const partIds = new Set(parts.map(p => p.part_id));
+  const questionIds = new Set(questions.map(q => q.question_id));
+  const answersByQuestion = new Map();
+  for (const a of answers) {
+    (answersByQuestion.get(a.question_id) ?? answersByQuestion.set(a.question_id, []).get(a.question_id)).push(a);
+  }
+
+  // パートの並び（/game/advance は parts.list() の順で次のパートに進む）
+  parts.forEach((part, i) => {
+    if (!isValidMatchConfig(part.match_config)) {
+      add('error', 'invalid_match_config', { part_id: part.part_id }, 'パートの match_config が JSON オブジェクトではありません');
+    }
+    for (const problem of partSettingProblems(part)) {
+      add('error', 'invalid_part_setting', { part_id: part.part_id }, problem);
+    }
+    if (i === 0) {
+      if (positionOf(part) !== '1-1-1') {
+        add('warning', 'sequence_gap', { part_id: part.part_id }, `最初のパートが 1-1-1 ではありません（${positionOf(part)}）`);
+      }
+      return;
+    }
+    const prev = parts[i - 1];
+    if (positionOf(prev) === positionOf(part)) {
+      add('error', 'duplicate_position', { part_id: part.part_id },
+        `${prev.part_id} と同じ位置（${positionOf(part)}）です（どちらかに進めなくなります）`);
+    } else if (!isNextPosition(prev, part)) {
+      add('warning', 'sequence_gap', { part_id: part.part_id }, `${positionOf(prev)} の次が ${positionOf(part)} です（間が抜けています）`);
+    }
+  });
+
+  // パートごとの問題
+  for (const part of parts) {
+    const list = questions
+      .filter(q => q.part_id === part.part_id)
+      .sort((a, b) => a.display_order - b.display_order);
+    const refs = { part_id: part.part_id };
+    const { question_count } = partSettings(part);
+
+    if (list.length === 0) {
+      add('error', 'question_count', refs, '問題がありません');
+      continue;
+    }
+    if (list.length > question_count) {
+      add('error', 'question_count', refs, `問題が ${list.length} 問あります（${question_count} 問目より後は出題されません）`);
+    } else if (list.length < question_count) {
+      add('error', 'question_count', refs, `問題が ${list.length} 問しかありません（${question_count} 問必要です）`);
+    }
+    if (!list[0].is_demo) {
+      add('error', 'first_not_demo', { ...refs, question_id: list[0].question_id }, '1 問目がデモ問題ではありません');
+    }
+
+    const orders = new Map();
+    for (const q of list) {
+      if (orders.has(q.display_order)) {
+        add('error', 'duplicate_display_order', { ...refs, question_id: q.question_id },
+          `display_order ${q.display_order} が ${orders.get(q.display_order)} と重複しています`);
+      } else {
+        orders.set(q.display_order, q.question_id);
+      }
+    }
+  }
+
+  // 問題ごと
+  for (const q of questions) {
+    const refs = { part_id: q.part_id, question_id: q.question_id };
+    if (!partIds.has(q.part_id)) {
+      add('error', 'orphan_question', refs, `part_id ${q.part_id} のパートがありません`);
+    }
+    if (!String(q.question_text || '').trim()) {
+      add('warning', 'empty_question_text', refs, '問題文が空です');
+    }
+    if (!isValidMatchConfig(q.match_config)) {
+      add('error', 'invalid_match_config', refs, '問題の match_config が JSON オブジェクトではありません');
+    }
+
+    const patterns = answersByQuestion.get(q.question_id) || [];
+    if (patterns.filter(a => String(a.expected_text || '').trim()).length === 0) {
+      add('error', 'no_answers', refs, '正解パターンがありません（どの回答も不正解になります）');
+    }
+
+    const location = q.image_url ? imageLocation(q.image_url) : null;
+    if (location && isOutside(location)) {
+      add('error', 'invalid_image_url', refs, `画像の URL が画像のディレクトリの外を指しています（${q.image_url}）`);
+    } else if (checkImages && location && (await imageExists(location)) === false) {
+      add('error', 'missing_image', refs, `画像ファイルがありません（${q.image_url}）`);
+    }
+  }
+
+  // 正解パターンごと
+  for (const a of answers) {
+    const refs = { question_id: a.question_id, answer_id: a.id };
+    if (!questionIds.has(a.question_id)) {
+      add('warning', 'orphan_answer', refs, `question_id ${a.question_id} の問題がありません`);
+      continue;
+    }
+    if (!String(a.expected_text || '').trim()) {
+      add('error', 'empty_answer', refs, '正解パターンが空です');
+    }
+    if (!isValidMatchConfig(a.match_config)) {
+      add('error', 'invalid_match_config', refs, '正解パターンの match_config が JSON オブジェクトではありません');
+    }
+  }
+
+  return {
+    issues,
+    summary: {
+      parts: parts.length,
+      questions: questions.length,
+      answer_patterns: answers.length,
+      errors: issues.filter(i => i.level === 'error').length,
+      warnings: issues.filter(i => i.level === 'warning').length,
+    },
+  };
+}
+
+module.exports = {
+  CONTENT_PUBLIC_DIR,
+  lintContent,
+};
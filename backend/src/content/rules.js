@@ -0,0 +1,101 @@
+// backend/src/content/rules.js
+// 教材（parts / questions / answer_patterns）の入力ルール
+// 管理画面の編集・インポートで同じ条件を使う
+
+// パートの設定（parts の question_count / correct_to_clear / time_limit）が空の場合の既定値
+//   question_count   : 1回のプレイの問題数（1 問目のデモを含む。多い分は出題しない）
+//   correct_to_clear : クリアに必要な正解数（デモを除く）
+//   time_limit       : 1 問の制限時間（秒）
+// shuffle（true: デモ以外の問題をプレイごとに並べ替える）は既定で false
+const DEFAULT_QUESTION_COUNT = 8;
+const DEFAULT_CORRECT_TO_CLEAR = 5;
+const DEFAULT_TIME_LIMIT = 30;
+
+// 設定できる範囲
+const PART_SETTING_LIMITS = {
+  question_count: { min: 2, max: 50 },
+  correct_to_clear: { min: 1, max: 49 },
+  time_limit: { min: 5, max: 600 },
+};
+
+// part_id / question_id に使える文字
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// 画像は public 配下のパス（/questions/1_10_1_01.png）か http(s) の URL
+const IMAGE_URL_PATTERN = /^(\/[\w\-./]+|https?:\/\/\S+)$/;
+
+/**
+ * match_config が空か JSON オブジェクトかを確認する（判定時は不正な値が無視されるため、保存前に弾く）
+ */
+function isValidMatchConfig(raw) {
+  if (raw === undefined || raw === null || raw === '') return true;
+  try {
+    const value = JSON.parse(raw);
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * パートの設定を取得（空・0 の項目は既定値）
+ * クリアに必要な正解数は、デモを除いた問題数を超えないようにする
+ * @param {Object|null} part - parts の行
+ * @returns {{ question_count: number, correct_to_clear: number, time_limit: number, shuffle: boolean }}
+ */
+function partSettings(part) {
+  const question_count = part?.question_count || DEFAULT_QUESTION_COUNT;
+  return {
+    question_count,
+    correct_to_clear: Math.min(part?.correct_to_clear || DEFAULT_CORRECT_TO_CLEAR, question_count - 1),
+    time_limit: part?.time_limit || DEFAULT_TIME_LIMIT,
+    shuffle: !!part?.shuffle,
+  };
+}
+
+/**
+ * パートの設定の入力チェック（0 は既定値を使う）
+ * @returns {string[]} 問題点（無ければ空配列）
+ */
+function partSettingProblems(part) {
+  const problems = [];
+  for (const [key, { min, max }] of Object.entries(PART_SETTING_LIMITS)) {
+    const value = Number(part?.[key] || 0);
+    if (value !== 0 && !(Number.isInteger(value) && value >= min && value <= max)) {
+      problems.push(`${key} は ${min}〜${max} の整数で入力してください（空欄は既定値）`);
+    }
+  }
+  const { question_count } = partSettings(part);
+  if (part?.correct_to_clear && part.correct_to_clear > question_count - 1) {
+    problems.push(`correct_to_clear はデモを除いた問題数（${question_count - 1}）以下にしてください`);
+  }
+  return problems;
+}
+
+/**
+ * 既定の part_id（part_{学年}_{パート}_{サブパート}）
+ */
+function defaultPartId(grade, part, subpart) {
+  return `part_${grade}_${part}_${subpart}`;
+}
+
+/**
+ * 既定の question_id（{学年}_{パート}_{サブパート}_{順番2桁}。画像ファイル名と同じ形式）
+ */
+function defaultQuestionId(part, order) {
+  return `${part.grade_id}_${part.part_no}_${part.subpart_no}_${String(order).padStart(2, '0')}`;
+}
+
+module.exports = {
+  DEFAULT_QUESTION_COUNT,
+  DEFAULT_CORRECT_TO_CLEAR,
+  DEFAULT_TIME_LIMIT,
+  PART_SETTING_LIMITS,
+  ID_PATTERN,
+  IMAGE_URL_PATTERN,
+  isValidMatchConfig,
+  partSettings,
+  partSettingProblems,
+  defaultPartId,
+  defaultQuestionId,
+};
@@ -0,0 +1,430 @@
+// backend/src/content/transfer.js
+// 教材（parts / questions / answer_patterns）のインポート・エクスポート
+// 複数の学校で同じ教材を使うため、シート間で行をコピーする代わりに CSV / JSON でやり取りする
+//   parts / questions : part_id / question_id が同じ行を上書きし、無い行は追加する（ファイルに無い行は消さない）
+//   answer_patterns   : ファイルに含まれる問題ごとに、正解パターンをファイルの内容にそろえる
+//                       （question_id と expected_text で照合。id は学校ごとに違うため使わない）
+const { PARTS_HEADER, QUESTIONS_HEADER, ANSWERS_HEADER, assertHeader } = require('../repositories/drivers/sheets');
+const { requiredColumnCount, coerceRow } = require('../repositories/schema');
+const { toCsv, parseCsv } = require('../utils/csv');
+const { ID_PATTERN, IMAGE_URL_PATTERN, isValidMatchConfig, partSettingProblems } = require('./rules');
+
+// ★ 列名・順序はシートのヘッダーと同じ（シートからコピーした CSV をそのまま読み込めるように）
+const HEADERS = {
+  parts: PARTS_HEADER,
+  questions: QUESTIONS_HEADER,
+  answer_patterns: ANSWERS_HEADER,
+};
+const TRANSFER_TABLES = Object.keys(HEADERS);
+
+// インポート時に照合する列（主キー）
+const KEYS = {
+  parts: 'part_id',
+  questions: 'question_id',
+};
+
+/* ---------- エクスポート ---------- */
+
+const byPosition = (a, b) => a.grade_id - b.grade_id || a.part_no - b.part_no || a.subpart_no - b.subpart_no;
+
+// ヘッダーの列だけを順序どおりに取り出す
+function pickColumns(table, row) {
+  return Object.fromEntries(HEADERS[table].map(col => [col, row[col]]));
+}
+
+/**
+ * 教材をエクスポートする
+ * @param {Object} repo - getRepository() の結果
+ * @param {{ partIds?: string[] }} options - 指定した場合はそのパートだけ
+ * @returns {Promise<{ parts: Object[], questions: Object[], answer_patterns: Object[] }>}
+ */
+async function exportContent(repo, { partIds } = {}) {
+  const wanted = partIds && partIds.length > 0 ? new Set(partIds.map(String)) : null;
+  const parts = (await repo.parts.list())
+    .filter(p => !wanted || wanted.has(p.part_id))
+    .sort(byPosition);
+  const partOrder = new Map(parts.map((p, i) => [p.part_id, i]));
+
+  const questions = (await repo.questions.list())
+    .filter(q => partOrder.has(q.part_id))
+    .sort((a, b) => partOrder.get(a.part_id) - partOrder.get(b.part_id) || a.display_order - b.display_order);
+  const questionIds = new Set(questions.map(q => q.question_id));
+
+  const answers = (await repo.answers.list()).filter(a => questionIds.has(a.question_id));
+
+  return {
+    parts: parts.map(p => pickColumns('parts', p)),
+    questions: questions.map(q => pickColumns('questions', q)),
+    answer_patterns: answers.map(a => pickColumns('answer_patterns', a)),
+  };
+}
+
+/**
+ * 1 テーブル分を CSV にする（1 行目はシートと同じヘッダー）
+ */
+function tableToCsv(table, rows) {
+  const header = HEADERS[table];
+  return toCsv([
+    header,
+    ...rows.map(row => header.map(col => {
+      const value = row[col];
+      // image_variants は JSON 文字列で出力（シートと同じ形式）
+      if (Array.isArray(value)) return value.length > 0 ? JSON.stringify(value) : '';
+      return value;
+    })),
+  ]);
+}
+
+/* ---------- インポート：読み込み ---------- */
+
+// image_variants（JSON 文字列または配列）を配列にする（不正な場合は null）
+function parseVariants(value) {
+  if (Array.isArray(value)) return value;
+  if (value === undefined || value === null || String(value).trim() === '') return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 1 テーブル分の入力（CSV 文字列または行オブジェクトの配列）を読み込む
+ * @returns {{ rows: Array<{ line: number, row: Object, columns: string[] }>, errors: Object[] } | null} 指定が無い場合は null
+ *   columns: 入力に含まれていた列（含まれない列は更新しない）
+ */
+function readTable(table, value) {
+  if (value === undefined || value === null || value === '') return null;
+
+  const header = HEADERS[table];
+  const errors = [];
+  const raws = [];
+
+  if (typeof value === 'string') {
+    let lines;
+    try {
+      lines = parseCsv(value);
+    } catch (err) {
+      return { rows: [], errors: [{ table, message: err.message }] };
+    }
+    if (lines.length === 0) {
+      return { rows: [], errors: [{ table, message: 'ヘッダー行がありません' }] };
+    }
+
+    let width;
+    try {
+      width = assertHeader(table, lines[0]);
+    } catch {
+      return { rows: [], errors: [{ table, line: 1, message: `ヘッダーが一致しません（${header.join(',')}）` }] };
+    }
+    const columns = header.slice(0, width);
+    lines.slice(1).forEach((cells, i) => {
+      raws.push({ line: i + 2, raw: Object.fromEntries(columns.map((col, c) => [col, cells[c] ?? ''])), columns });
+    });
+  } else if (Array.isArray(value)) {
+    const required = header.slice(0, requiredColumnCount(table));
+    value.forEach((item, i) => {
+      const line = i + 1;
+      if (!item || typeof item !== 'object' || Array.isArray(item)) {
+        errors.push({ table, line, message: '行はオブジェクトで指定してください' });
+        return;
+      }
+      const unknown = Object.keys(item).filter(k => !header.includes(k));
+      const missing = required.filter(k => !(k in item));
+      if (unknown.length > 0) errors.push({ table, line, message: `不明な列があります: ${unknown.join(', ')}` });
+      if (missing.length > 0) errors.push({ table, line, message: `列が足りません: ${missing.join(', ')}` });
+      if (unknown.length === 0 && missing.length === 0) {
+        raws.push({ line, raw: item, columns: header.filter(k => k in item) });
+      }
+    });
+  } else {
+    return { rows: [], errors: [{ table, message: 'CSV 文字列か行の配列で指定してください' }] };
+  }
+
+  const rows = [];
+  for (const { line, raw, columns } of raws) {
+    const row = coerceRow(table, raw);
+    if (table === 'questions') {
+      const variants = parseVariants(raw.image_variants);
+      if (!variants) {
+        errors.push({ table, line, message: 'image_variants は JSON 配列で指定してください' });
+        continue;
+      }
+      row.image_variants = variants;
+    }
+    rows.push({ line, row, columns });
+  }
+  return { rows, errors };
+}
+
+/* ---------- インポート：検証 ---------- */
+
+const isPositiveInt = (n) => Number.isInteger(n) && n >= 1;
+
+function validatePart({ row }) {
+  const problems = [];
+  if (!ID_PATTERN.test(row.part_id)) problems.push('part_id は英数字・_・- で入力してください');
+  if (![row.grade_id, row.part_no, row.subpart_no].every(isPositiveInt)) problems.push('grade_id / part_no / subpart_no は 1 以上の整数で入力してください');
+  if (!row.requirement.trim()) problems.push('requirement が空です');
+  if (!isValidMatchConfig(row.match_config)) problems.push('match_config が JSON オブジェクトではありません');
+  problems.push(...partSettingProblems(row));
+  return problems;
+}
+
+function validateQuestion({ row }) {
+  const problems = [];
+  if (!ID_PATTERN.test(row.question_id)) problems.push('question_id は英数字・_・- で入力してください');
+  if (!isPositiveInt(row.display_order)) problems.push('display_order は 1 以上の整数で入力してください');
+  if (!row.question_text.trim()) problems.push('question_text が空です');
+  if (row.image_url && !IMAGE_URL_PATTERN.test(row.image_url)) problems.push('image_url は /questions/... のパスか URL で入力してください');
+  if (!isValidMatchConfig(row.match_config)) problems.push('match_config が JSON オブジェクトではありません');
+  return problems;
+}
+
+function validateAnswer({ row }) {
+  const problems = [];
+  if (!row.expected_text.trim()) problems.push('expected_text が空です');
+  if (!isValidMatchConfig(row.match_config)) problems.push('match_config が JSON オブジェクトではありません');
+  return problems;
+}
+
+/* ---------- インポート：差分 ---------- */
+
+const sameValue = (a, b) => JSON.stringify(a) === JSON.stringify(b);
+
+// 入力に含まれていた列のうち、値が変わる列
+function changesOf(before, row, columns, key) {
+  const changes = {};
+  for (const col of columns) {
+    if (col === key) continue;
+    if (!sameValue(before[col], row[col])) changes[col] = { from: before[col], to: row[col] };
+  }
+  return changes;
+}
+
+const patchOf = (changes, side) => Object.fromEntries(Object.entries(changes).map(([col, c]) => [col, c[side]]));
+
+// parts / questions：主キーで照合して追加・更新
+function diffByKey(table, rows, existing, diff, ops) {
+  const key = KEYS[table];
+  const byKey = new Map(existing.map(r => [r[key], r]));
+  const result = { create: [], update: [], unchanged: 0 };
+
+  for (const { row, columns } of rows) {
+    const before = byKey.get(row[key]);
+    if (!before) {
+      result.create.push(row[key]);
+      ops.push({ table, action: 'create', key: row[key], row });
+      continue;
+    }
+    const changes = changesOf(before, row, columns, key);
+    if (Object.keys(changes).length === 0) {
+      result.unchanged++;
+      continue;
+    }
+    result.update.push({ key: row[key], changes });
+    ops.push({ table, action: 'update', key: row[key], patch: patchOf(changes, 'to'), before: patchOf(changes, 'from') });
+  }
+  diff[table] = result;
+}
+
+// answer_patterns：問題ごとに expected_text で照合して追加・更新・削除
+function diffAnswers(rows, existing, diff, ops) {
+  const result = { create: [], update: [], remove: [], unchanged: 0 };
+  let nextId = existing.reduce((max, r) => Math.max(max, Number(r.id) || 0), 0) + 1;
+
+  const imported = new Map();
+  for (const entry of rows) {
+    const qid = entry.row.question_id;
+    (imported.get(qid) ?? imported.set(qid, []).get(qid)).push(entry);
+  }
+
+  const removes = [];
+  for (const [questionId, entries] of imported) {
+    const current = existing.filter(a => a.question_id === questionId);
+    const byText = new Map(current.map(a => [a.expected_text.trim(), a]));
+    const kept = new Set();
+
+    for (const { row, columns } of entries) {
+      const text = row.expected_text.trim();
+      const before = byText.get(text);
+      if (!before) {
+        const created = { ...row, id: nextId++, expected_text: text };
+        result.create.push({ question_id: questionId, expected_text: text });
+        ops.push({ table: 'answer_patterns', action: 'create', key: created.id, row: created });
+        continue;
+      }
+      kept.add(before.id);
+      const changes = changesOf(before, row, columns.filter(c => c === 'match_config'), 'id');
+      if (Object.keys(changes).length === 0) {
+        result.unchanged++;
+        continue;
+      }
+      result.update.push({ key: before.id, question_id: questionId, expected_text: text, changes });
+      ops.push({ table: 'answer_patterns', action: 'update', key: before.id, patch: patchOf(changes, 'to'), before: patchOf(changes, 'from') });
+    }
+
+    for (const a of current.filter(a => !kept.has(a.id))) {
+      result.remove.push({ key: a.id, question_id: questionId, expected_text: a.expected_text });
+      removes.push({ table: 'answer_patterns', action: 'remove', key: a.id, before: a });
+    }
+  }
+
+  // ★ 削除を先に行う（同じ問題で追加と削除がある場合に、一時的に重複しないように）
+  const firstAnswerOp = ops.findIndex(op => op.table === 'answer_patterns');
+  ops.splice(firstAnswerOp === -1 ? ops.length : firstAnswerOp, 0, ...removes);
+  diff.answer_patterns = result;
+}
+
+/**
+ * インポートの内容を検証し、差分と適用手順を作る（この時点では何も書き込まない）
+ * @param {Object} repo - getRepository() の結果
+ * @param {{ parts?: string|Object[], questions?: string|Object[], answer_patterns?: string|Object[] }} input
+ *   各テーブルは CSV 文字列（1 行目はヘッダー）か、行オブジェクトの配列
+ * @returns {Promise<{ errors: Array<{ table?: string, line?: number, message: string }>, diff: Object|null, ops: Object[] }>}
+ */
+async function planImport(repo, input = {}) {
+  const errors = [];
+  const tables = {};
+  for (const table of TRANSFER_TABLES) {
+    const read = readTable(table, input[table]);
+    if (!read) continue;
+    tables[table] = read.rows;
+    errors.push(...read.errors);
+  }
+  if (Object.keys(tables).length === 0) {
+    errors.push({ message: 'parts / questions / answer_patterns のいずれかを指定してください' });
+  }
+
+  const check = (table, validate) => {
+    const seen = new Map();
+    for (const entry of tables[table] || []) {
+      for (const message of validate(entry)) errors.push({ table, line: entry.line, message });
+      const key = KEYS[table];
+      if (!key) continue;
+      if (seen.has(entry.row[key])) {
+        errors.push({ table, line: entry.line, message: `${key} ${entry.row[key]} が ${seen.get(entry.row[key])} 行目と重複しています` });
+      }
+      seen.set(entry.row[key], entry.line);
+    }
+  };
+  check('parts', validatePart);
+  check('questions', validateQuestion);
+  check('answer_patterns', validateAnswer);
+
+  const existingParts = await repo.parts.list();
+  const existingQuestions = await repo.questions.list();
+  const existingAnswers = await repo.answers.list();
+
+  // インポート後のパート・問題（参照先と、学年・パート番号の重複の確認用）
+  const finalParts = new Map(existingParts.map(p => [p.part_id, p]));
+  for (const { row, columns } of tables.parts || []) {
+    const before = finalParts.get(row.part_id);
+    finalParts.set(row.part_id, before ? { ...before, ...Object.fromEntries(columns.map(c => [c, row[c]])) } : row);
+  }
+  const positions = new Map();
+  for (const p of finalParts.values()) {
+    const position = `${p.grade_id}-${p.part_no}-${p.subpart_no}`;
+    if (positions.has(position)) {
+      errors.push({ table: 'parts', message: `学年${p.grade_id} パート${p.part_no}-${p.subpart_no} が ${positions.get(position)} と ${p.part_id} で重複しています` });
+    }
+    positions.set(position, p.part_id);
+  }
+
+  const finalQuestions = new Set(existingQuestions.map(q => q.question_id));
+  for (const { line, row } of tables.questions || []) {
+    if (!finalParts.has(row.part_id)) {
+      errors.push({ table: 'questions', line, message: `part_id ${row.part_id} がありません` });
+    }
+    finalQuestions.add(row.question_id);
+  }
+
+  const answerTexts = new Map();
+  for (const { line, row } of tables.answer_patterns || []) {
+    if (!finalQuestions.has(row.question_id)) {
+      errors.push({ table: 'answer_patterns', line, message: `question_id ${row.question_id} がありません` });
+    }
+    const textKey = `${row.question_id}\n${row.expected_text.trim()}`;
+    if (answerTexts.has(textKey)) {
+      errors.push({ table: 'answer_patterns', line, message: `同じ問題の expected_text が ${answerTexts.get(textKey)} 行目と重複しています` });
+    }
+    answerTexts.set(textKey, line);
+  }
+
+  if (errors.length > 0) {
+    return { errors, diff: null, ops: [] };
+  }
+
+  const diff = {};
+  const ops = [];
+  if (tables.parts) diffByKey('parts', tables.parts, existingParts, diff, ops);
+  if (tables.questions) diffByKey('questions', tables.questions, existingQuestions, diff, ops);
+  if (tables.answer_patterns) diffAnswers(tables.answer_patterns, existingAnswers, diff, ops);
+  return { errors: [], diff, ops };
+}
+
+/* ---------- インポート：適用 ---------- */
+
+const REPO_OF = {
+  parts: 'parts',
+  questions: 'questions',
+  answer_patterns: 'answers',
+};
+
+async function runOp(repo, op) {
+  const target = repo[REPO_OF[op.table]];
+  switch (op.action) {
+    case 'create':
+      return target.create(op.row);
+    case 'update':
+      return target.update(op.key, op.patch);
+    case 'remove':
+      return target.remove(op.key);
+  }
+}
+
+// 適用済みの手順を取り消す手順
+function invert(op) {
+  switch (op.action) {
+    case 'create':
+      return { table: op.table, action: 'remove', key: op.key };
+    case 'update':
+      return { table: op.table, action: 'update', key: op.key, patch: op.before };
+    case 'remove':
+      return { table: op.table, action: 'create', key: op.key, row: op.before };
+  }
+}
+
+/**
+ * planImport の手順を適用する
+ * ストレージにトランザクションが無いため、途中で失敗した場合は適用済みの手順を逆順に取り消してから例外を投げる
+ * @throws 適用に失敗した場合（取り消しにも失敗した場合は err.rollbackFailed = true）
+ */
+async function applyImport(repo, ops) {
+  const done = [];
+  try {
+    for (const op of ops) {
+      await runOp(repo, op);
+      done.push(op);
+    }
+  } catch (err) {
+    for (const op of done.reverse()) {
+      try {
+        await runOp(repo, invert(op));
+      } catch (rollbackErr) {
+        console.error('[ContentTransfer] Rollback failed:', op.table, op.action, op.key, rollbackErr?.message);
+        err.rollbackFailed = true;
+      }
+    }
+    throw err;
+  }
+}
+
+module.exports = {
+  TRANSFER_TABLES,
+  exportContent,
+  tableToCsv,
+  planImport,
+  applyImport,
+};
@@ -0,0 +1,94 @@
+// backend/src/matching/config.js
+// 判定設定（match_config）の読み込みと合成
+// parts / questions / answer_patterns の match_config 列に JSON で記述する
+//   例: {"strategies":["exact","phonetic"],"phonetic":0.85}
+//       {"levenshtein":0.8,"keywords":["cats"]}
+//       {"normalizers":["contractions","numbers"]}（to / two を区別する問題など）
+const { NORMALIZERS } = require('./normalize');
+
+// 使用できる判定方法
+//   exact       : 正規化後の完全一致
+//   levenshtein : 文字単位の編集距離による類似度 >= levenshtein
+//   jaccard     : 単語集合の Jaccard 係数 >= jaccard
+//   phonetic    : 単語ごとの発音キー（Double Metaphone）の類似度 >= phonetic
+//   keywords    : keywords の単語がすべて含まれていれば正解
+const STRATEGIES = ['exact', 'levenshtein', 'jaccard', 'phonetic', 'keywords'];
+
+// 既定値: 正規化後の完全一致 or 類似度 0.62 以上 or 発音がほぼ同じ（完全一致以外は内容語がそろっていること）
+const DEFAULT_MATCH_CONFIG = Object.freeze({
+  strategies: ['exact', 'levenshtein', 'jaccard', 'phonetic'],
+  levenshtein: 0.62,
+  jaccard: 0.62,
+  phonetic: 0.8,
+  // levenshtein / jaccard / phonetic で正解にするには、正解の内容語（機能語以外）それぞれに
+  // 綴りの類似度がこれ以上の単語が認識結果に含まれ、否定語（not / no / never）がそろっていること（0 で確認しない）
+  content_words: 0.75,
+  // ここに挙げた単語がすべて含まれない回答は、どの判定方法でも不正解
+  keywords: [],
+  // 照合前に両辺へ適用する正規化（normalize.js）
+  normalizers: NORMALIZERS,
+  // 不正解かつ認識の信頼度がこれ未満なら「もう一度言ってね」とする
+  min_confidence: 0.5,
+});
+
+const THRESHOLD_KEYS = ['levenshtein', 'jaccard', 'phonetic', 'content_words', 'min_confidence'];
+
+/**
+ * match_config 列の値を読み込む（不正な値は無視して空の設定を返す）
+ * @param {string|Object} raw
+ * @returns {Object} 指定された項目だけを持つ部分設定
+ */
+function parseMatchConfig(raw) {
+  if (!raw) return {};
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      console.warn('[Matching] Invalid match_config (not JSON):', raw);
+      return {};
+    }
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    console.warn('[Matching] Invalid match_config (not an object):', raw);
+    return {};
+  }
+
+  const config = {};
+  if (Array.isArray(value.strategies)) {
+    const strategies = value.strategies.map(String).filter(s => STRATEGIES.includes(s));
+    if (strategies.length > 0) config.strategies = strategies;
+  }
+  for (const key of THRESHOLD_KEYS) {
+    const n = Number(value[key]);
+    if (value[key] !== undefined && Number.isFinite(n)) {
+      config[key] = Math.min(1, Math.max(0, n));
+    }
+  }
+  // キーワードは照合時に正解パターンと同じ正規化をかける
+  if (Array.isArray(value.keywords)) {
+    config.keywords = value.keywords.map(k => String(k).trim()).filter(Boolean);
+  }
+  if (Array.isArray(value.normalizers)) {
+    config.normalizers = value.normalizers.map(String).filter(n => NORMALIZERS.includes(n));
+  }
+  return config;
+}
+
+/**
+ * 既定値 ← パート ← 問題 ← 正解パターン の順に設定を重ねる（後のものが優先）
+ * @param {...(string|Object)} layers - match_config の値
+ */
+function resolveMatchConfig(...layers) {
+  return layers.reduce(
+    (config, layer) => ({ ...config, ...parseMatchConfig(layer) }),
+    { ...DEFAULT_MATCH_CONFIG }
+  );
+}
+
+module.exports = {
+  STRATEGIES,
+  DEFAULT_MATCH_CONFIG,
+  parseMatchConfig,
+  resolveMatchConfig,
+};
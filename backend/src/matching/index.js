@@ -0,0 +1,144 @@
+// backend/src/matching/index.js
+// 音声認識結果と正解パターンの照合（サーバー側で正誤判定するため）
+const { tokens, contentWords, negations, simLevenshtein, jaccard } = require('./text');
+const { phoneticSimilarity } = require('./phonetic');
+const { NORMALIZERS, normalizeText } = require('./normalize');
+const { STRATEGIES, DEFAULT_MATCH_CONFIG, parseMatchConfig, resolveMatchConfig } = require('./config');
+const { scorePronunciation, wrongAnswerFeedback } = require('./pronunciation');
+
+/**
+ * 正解の内容語がすべて認識結果に含まれ、否定語がそろっているか（綴りが近い単語も可）
+ * ★ 発音キー（Double Metaphone）は母音を区別しない（dogs / ducks, big / bag）ため、単語の一致には使わない
+ * @param {string} h - 正規化済みの認識結果
+ * @param {string} a - 正規化済みの正解パターン
+ * @param {number} threshold - 単語の綴りの類似度のしきい値（0 は確認しない）
+ * @returns {boolean}
+ */
+function hasContentWords(h, a, threshold) {
+  if (threshold <= 0) return true;
+  if (negations(h).join(' ') !== negations(a).join(' ')) return false;
+  const heard = tokens(h);
+  return contentWords(a).every(w => heard.some(x => simLevenshtein(x, w) >= threshold));
+}
+
+/**
+ * 認識結果 1 件と正解パターン 1 件を設定に従って照合する
+ * @param {string} h - 正規化済みの認識結果
+ * @param {string} a - 正規化済みの正解パターン
+ * @param {string[]} keywords - 正規化済みの必須キーワード
+ * @param {Object} config - resolveMatchConfig の結果
+ * @returns {{ pass: boolean, strategy: string, levenshtein: number, jaccard: number, phonetic: number }}
+ */
+function matchOne(h, a, keywords, config) {
+  const scores = { levenshtein: 0, jaccard: 0, phonetic: 0 };
+  const words = tokens(h).join(' ');
+  // 複数語のキーワード（例: "ice cream"）も扱えるよう単語境界で探す
+  const hasKeywords = keywords.every(k => ` ${words} `.includes(` ${k} `));
+  // 類似度による判定は、内容語が違う回答（I like dogs / I like cats）を正解にしない
+  let contentOk;
+  const similar = (score, threshold) => {
+    if (score < threshold) return false;
+    contentOk ??= hasContentWords(h, a, config.content_words);
+    return contentOk;
+  };
+
+  for (const strategy of config.strategies) {
+    let pass = false;
+    switch (strategy) {
+      case 'exact':
+        pass = h === a;
+        if (pass) Object.assign(scores, { levenshtein: 1, jaccard: 1, phonetic: 1 });
+        break;
+      case 'levenshtein':
+        scores.levenshtein = simLevenshtein(h, a);
+        pass = similar(scores.levenshtein, config.levenshtein);
+        break;
+      case 'jaccard':
+        scores.jaccard = jaccard(h, a);
+        pass = similar(scores.jaccard, config.jaccard);
+        break;
+      case 'phonetic':
+        scores.phonetic = phoneticSimilarity(h, a);
+        pass = similar(scores.phonetic, config.phonetic);
+        break;
+      case 'keywords':
+        pass = keywords.length > 0;
+        break;
+    }
+    if (pass && hasKeywords) {
+      return { pass: true, strategy, ...scores };
+    }
+  }
+  return { pass: false, strategy: '', ...scores };
+}
+
+/**
+ * 認識結果を { transcript, confidence } にそろえる
+ * confidence が 0 や不明（途中結果など）の場合は null
+ */
+function toAlternative(item) {
+  if (item && typeof item === 'object') {
+    const confidence = Number(item.confidence);
+    return {
+      transcript: String(item.transcript ?? ''),
+      confidence: Number.isFinite(confidence) && confidence > 0 ? Math.min(1, confidence) : null,
+    };
+  }
+  return { transcript: String(item ?? ''), confidence: null };
+}
+
+/**
+ * 認識結果のいずれか（候補すべて）が正解パターンに一致するか判定する
+ * @param {Array<string|{ transcript: string, confidence?: number }>} transcripts - 認識結果（候補と信頼度）
+ * @param {Array<{ text: string, config?: Object }>} patterns - 正解パターンと判定設定
+ * @returns {{ correct: boolean, retry: boolean, matchedAnswer: string, strategy: string, levenshtein: number, jaccard: number, phonetic: number, confidence: number|null }}
+ *   不正解の場合も最も近かった類似度を返す（回答ログ用）
+ *   retry: 不正解だが認識の信頼度が低く、言い直しを求めるべき場合
+ */
+function evaluateAnswer(transcripts, patterns) {
+  const alternatives = (transcripts || []).map(toAlternative).filter(a => a.transcript.trim());
+  const expected = (patterns || [])
+    .map(p => {
+      const config = { ...DEFAULT_MATCH_CONFIG, ...p.config };
+      const norm = (s) => normalizeText(s, config.normalizers);
+      return { text: norm(p.text), keywords: config.keywords.map(norm).filter(Boolean), norm, config };
+    })
+    .filter(p => p.text);
+  const best = { correct: false, retry: false, matchedAnswer: '', strategy: '', levenshtein: 0, jaccard: 0, phonetic: 0 };
+  const closeness = (r) => Math.max(r.levenshtein, r.jaccard, r.phonetic);
+
+  for (const alt of alternatives) {
+    for (const p of expected) {
+      // ★ 認識結果は正解パターンと同じ正規化をかけてから比較
+      const h = p.norm(alt.transcript);
+      if (!h) continue;
+      const { pass, ...result } = matchOne(h, p.text, p.keywords, p.config);
+      if (pass) {
+        return { correct: true, retry: false, matchedAnswer: p.text, ...result, confidence: alt.confidence };
+      }
+      if (closeness(result) > closeness(best)) {
+        Object.assign(best, result);
+      }
+    }
+  }
+
+  // ★ 信頼度が分かる候補がすべて低い場合は、聞き取れなかったものとして言い直しを求める
+  const known = alternatives.map(a => a.confidence).filter(c => c !== null);
+  const confidence = known.length > 0 ? Math.max(...known) : null;
+  const minConfidence = expected[0]?.config.min_confidence ?? DEFAULT_MATCH_CONFIG.min_confidence;
+  best.confidence = confidence;
+  best.retry = confidence !== null && confidence < minConfidence;
+  return best;
+}
+
+module.exports = {
+  STRATEGIES,
+  NORMALIZERS,
+  DEFAULT_MATCH_CONFIG,
+  parseMatchConfig,
+  resolveMatchConfig,
+  evaluateAnswer,
+  normalizeText,
+  scorePronunciation,
+  wrongAnswerFeedback,
+};
@@ -0,0 +1,177 @@
+// backend/src/matching/normalize.js
+// 照合前の正規化パイプライン
+// 子どもの発話を音声認識すると、同音異義語（two / too / to）や
+// 短縮形（I'm / I am）、数字と単語（2 / two）の揺れが出るため、両辺を同じ形にそろえてから比較する
+const { normalize } = require('./text');
+
+// 使用できる正規化処理（match_config の normalizers で選択）
+//   contractions : 短縮形を展開（I'm → i am, don't → do not）
+//   numbers      : 数字を英単語に変換（2 → two, 7:30 → seven thirty, 3rd → third）
+//   homophones   : 同音異義語を代表の単語にそろえる（too / to → two）
+const NORMALIZERS = ['contractions', 'numbers', 'homophones'];
+
+/* ---------- 短縮形 ---------- */
+
+// 個別に展開する短縮形（規則で展開できないもの）
+const CONTRACTIONS = {
+  "can't": 'can not',
+  "won't": 'will not',
+  "shan't": 'shall not',
+  "let's": 'let us',
+  "ain't": 'is not',
+  "y'all": 'you all',
+};
+
+// 's を is として展開する単語（それ以外は所有格として残す: Tom's bag）
+const S_AS_IS = new Set(['he', 'she', 'it', 'that', 'what', 'where', 'who', 'there', 'here', 'how', 'when', 'why']);
+
+const CONTRACTION_SUFFIXES = [
+  [/n't$/, ' not'],
+  [/'re$/, ' are'],
+  [/'ve$/, ' have'],
+  [/'ll$/, ' will'],
+  [/'m$/, ' am'],
+  [/'d$/, ' would'],
+];
+
+function expandContractions(s) {
+  return s.replace(/[a-z]+'[a-z]+/g, (word) => {
+    if (CONTRACTIONS[word]) return CONTRACTIONS[word];
+    for (const [pattern, replacement] of CONTRACTION_SUFFIXES) {
+      if (pattern.test(word)) return word.replace(pattern, replacement);
+    }
+    if (word.endsWith("'s")) {
+      const base = word.slice(0, -2);
+      if (S_AS_IS.has(base)) return `${base} is`;
+    }
+    return word;
+  }).replace(/\bcannot\b/g, 'can not');
+}
+
+/* ---------- 数字 ---------- */
+
+const ONES = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine',
+  'ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES = [[1e9, 'billion'], [1e6, 'million'], [1e3, 'thousand']];
+
+/**
+ * 整数を英単語に変換（例: 21 → "twenty one"）
+ */
+function numberToWords(n) {
+  if (n < 20) return ONES[n];
+  if (n < 100) return TENS[Math.floor(n / 10)] + (n % 10 ? ` ${ONES[n % 10]}` : '');
+  if (n < 1000) {
+    return `${ONES[Math.floor(n / 100)]} hundred` + (n % 100 ? ` ${numberToWords(n % 100)}` : '');
+  }
+  for (const [size, name] of SCALES) {
+    if (n >= size) {
+      return `${numberToWords(Math.floor(n / size))} ${name}` + (n % size ? ` ${numberToWords(n % size)}` : '');
+    }
+  }
+  return String(n);
+}
+
+const ORDINAL_IRREGULAR = { one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth' };
+
+/**
+ * 序数に変換（例: 21 → "twenty first"）
+ */
+function ordinalToWords(n) {
+  const words = numberToWords(n).split(' ');
+  const last = words.pop();
+  const ordinal = ORDINAL_IRREGULAR[last] || (last.endsWith('y') ? `${last.slice(0, -1)}ieth` : `${last}th`);
+  return [...words, ordinal].join(' ');
+}
+
+function expandNumbers(s) {
+  return s
+    // 時刻: 7:00 → seven o'clock, 7:05 → seven oh five, 7:30 → seven thirty
+    .replace(/\b(\d{1,2}):(\d{2})\b/g, (_, h, m) => {
+      const hour = numberToWords(Number(h));
+      const min = Number(m);
+      if (min === 0) return `${hour} o'clock`;
+      return min < 10 ? `${hour} oh ${ONES[min]}` : `${hour} ${numberToWords(min)}`;
+    })
+    // 序数: 1st / 2nd / 3rd / 4th
+    .replace(/\b(\d+)(st|nd|rd|th)\b/g, (_, d) => ordinalToWords(Number(d)))
+    // 小数: 3.5 → three point five
+    .replace(/\b(\d+)\.(\d+)\b/g, (_, i, f) => `${numberToWords(Number(i))} point ${f.split('').map(c => ONES[Number(c)]).join(' ')}`)
+    // 桁区切り: 1,000 → 1000
+    .replace(/\b(\d{1,3}(?:,\d{3})+)\b/g, (d) => d.replace(/,/g, ''))
+    .replace(/\b\d+\b/g, (d) => (d.length > 12 ? d : numberToWords(Number(d))));
+}
+
+/* ---------- 同音異義語 ---------- */
+
+// 各グループの先頭の単語にそろえる
+const HOMOPHONE_GROUPS = [
+  ['two', 'to', 'too'],
+  ['four', 'for', 'fore'],
+  ['eight', 'ate'],
+  ['one', 'won'],
+  ['there', 'their'],
+  ['right', 'write'],
+  ['see', 'sea'],
+  ['here', 'hear'],
+  ['know', 'no'],
+  ['buy', 'by', 'bye'],
+  ['blue', 'blew'],
+  ['sun', 'son'],
+  ['new', 'knew'],
+  ['flower', 'flour'],
+  ['meat', 'meet'],
+  ['pear', 'pair'],
+  ['where', 'wear'],
+  ['weather', 'whether'],
+  ['week', 'weak'],
+  ['our', 'hour'],
+  ['hole', 'whole'],
+  ['night', 'knight'],
+  ['deer', 'dear'],
+  ['piece', 'peace'],
+  ['bee', 'be'],
+  ['tea', 'tee'],
+  ['aunt', 'ant'],
+  ['bear', 'bare'],
+  ['mail', 'male'],
+  ['plane', 'plain'],
+  ['road', 'rode'],
+  ['wait', 'weight'],
+  ['way', 'weigh'],
+  ['tail', 'tale'],
+  ['okay', 'ok'],
+];
+
+const HOMOPHONES = new Map(
+  HOMOPHONE_GROUPS.flatMap(([head, ...rest]) => rest.map(w => [w, head]))
+);
+
+function foldHomophones(s) {
+  return s.split(' ').map(w => HOMOPHONES.get(w) || w).join(' ');
+}
+
+/* ---------- パイプライン ---------- */
+
+/**
+ * 正規化パイプラインを適用する
+ * 小文字化 → 短縮形 → 数字 → 記号除去（normalize） → 同音異義語
+ * @param {string} s
+ * @param {string[]} normalizers - 有効にする正規化処理（NORMALIZERS の部分集合）
+ * @returns {string}
+ */
+function normalizeText(s, normalizers = NORMALIZERS) {
+  const enabled = new Set(normalizers);
+  let out = String(s ?? '').toLowerCase().replace(/[‘’ʼ`]/g, "'");
+  if (enabled.has('contractions')) out = expandContractions(out);
+  if (enabled.has('numbers')) out = expandNumbers(out);
+  out = normalize(out);
+  if (enabled.has('homophones')) out = foldHomophones(out);
+  return out;
+}
+
+module.exports = {
+  NORMALIZERS,
+  normalizeText,
+  numberToWords,
+};
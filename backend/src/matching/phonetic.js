@@ -0,0 +1,37 @@
+// backend/src/matching/phonetic.js
+// Double Metaphone による発音の近さの判定
+const doubleMetaphone = require('double-metaphone');
+const { tokens, levSequence } = require('./text');
+
+/**
+ * 単語ごとの発音キー（primary / secondary）
+ * @param {string} s - 正規化済みの文字列
+ * @returns {Array<[string, string]>}
+ */
+function phoneticKeys(s) {
+  return tokens(s).map(w => {
+    const [primary, secondary] = doubleMetaphone(w);
+    // 数字など発音キーが空になる単語はそのまま比較する
+    return primary ? [primary, secondary || primary] : [w, w];
+  });
+}
+
+// primary / secondary のどちらかが一致すれば同じ発音とみなす
+const sameSound = (a, b) => a[0] === b[0] || a[0] === b[1] || a[1] === b[0] || a[1] === b[1];
+
+/**
+ * 発音キー列の類似度（0〜1）
+ * 単語単位のレーベンシュタイン距離で比較する
+ */
+function phoneticSimilarity(a, b) {
+  const A = phoneticKeys(a);
+  const B = phoneticKeys(b);
+  if (A.length === 0 && B.length === 0) return 1;
+  const d = levSequence(A, B, sameSound);
+  return 1 - d / Math.max(A.length, B.length);
+}
+
+module.exports = {
+  phoneticKeys,
+  phoneticSimilarity,
+};
@@ -0,0 +1,76 @@
+// backend/src/matching/pronunciation.js
+// 発音の近さのスコア（正誤とは別に、先生がどのくらい言えていたかを確認するため）
+// 正解（answers[0]）と認識結果を単語単位で対応付け、欠落・余分・言い間違いの単語を返す
+const { tokens, alignSequence, simLevenshtein } = require('./text');
+const { normalizeText } = require('./normalize');
+const { DEFAULT_MATCH_CONFIG } = require('./config');
+
+/**
+ * 単語単位の対応付けとスコア
+ * @param {string} expected - 正規化済みの正解
+ * @param {string} heard - 正規化済みの認識結果
+ * @returns {{ score: number, words: Array<{ op: string, expected?: string, heard?: string }> }}
+ *   score: 0〜100。言い間違いの単語は文字単位の類似度で部分点、余分な単語は減点
+ */
+function alignWords(expected, heard) {
+  const ops = alignSequence(tokens(expected), tokens(heard));
+  let credit = 0;
+  let extra = 0;
+  const words = ops.map(({ op, a, b }) => {
+    if (op === 'match') credit += 1;
+    if (op === 'substitute') credit += simLevenshtein(a, b);
+    if (op === 'extra') extra += 1;
+    return { op, expected: a, heard: b };
+  });
+  const denominator = tokens(expected).length + extra;
+  const score = denominator > 0 ? Math.round((credit / denominator) * 100) : 0;
+  return { score, words };
+}
+
+/**
+ * 認識結果のうち最も近いものについて発音スコアを計算する
+ * @param {{ text: string, config?: Object }} pattern - 正解パターン（answers[0]）と判定設定
+ * @param {string[]} transcripts - 認識結果（候補）
+ * @returns {{ score: number, transcript: string, words: Array<{ op: string, expected?: string, heard?: string }> }|null}
+ *   正解パターンか認識結果が無い場合は null
+ */
+function scorePronunciation(pattern, transcripts) {
+  if (!pattern) return null;
+  const { normalizers } = { ...DEFAULT_MATCH_CONFIG, ...pattern.config };
+  const expected = normalizeText(pattern.text, normalizers);
+  if (!expected) return null;
+
+  let best = null;
+  for (const transcript of transcripts || []) {
+    const heard = normalizeText(transcript, normalizers);
+    if (!heard) continue;
+    const result = alignWords(expected, heard);
+    if (!best || result.score > best.score) {
+      best = { ...result, transcript: String(transcript) };
+    }
+  }
+  return best;
+}
+
+/**
+ * 不正解時のフィードバック用に、最も近い正解パターンとの単語の対応付けを返す
+ * ★ 解答は時間切れまで公開しないため、正解側の単語（抜け・言い間違いの正しい単語）は含めない
+ * @param {Array<{ text: string, config?: Object }>} patterns - 正解パターンと判定設定
+ * @param {string[]} transcripts - 認識結果（候補）
+ * @returns {Array<{ op: string, heard?: string }>|null} 近い正解パターンが無い場合は null
+ */
+function wrongAnswerFeedback(patterns, transcripts) {
+  let best = null;
+  for (const pattern of patterns || []) {
+    const result = scorePronunciation(pattern, transcripts);
+    if (result && (!best || result.score > best.score)) best = result;
+  }
+  if (!best) return null;
+  return best.words.map(({ op, heard }) => (op === 'missing' ? { op } : { op, heard }));
+}
+
+module.exports = {
+  alignWords,
+  scorePronunciation,
+  wrongAnswerFeedback,
+};
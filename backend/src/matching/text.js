@@ -0,0 +1,199 @@
+// backend/src/matching/text.js
+// 文字列の正規化と類似度計算
+
+// 正規表現を事前にコンパイル（性能最適化）
+const NORMALIZE_REGEX_1 = /[^a-z0-9\s]/g;
+const NORMALIZE_REGEX_2 = /\s+/g;
+
+/**
+ * 小文字化・記号除去・空白の正規化
+ * @param {string} s
+ * @returns {string}
+ */
+function normalize(s) {
+  return String(s ?? '').toLowerCase().replace(NORMALIZE_REGEX_1, '').replace(NORMALIZE_REGEX_2, ' ').trim();
+}
+
+/**
+ * 単語に分割
+ * @param {string} s - 正規化済みの文字列
+ * @returns {string[]}
+ */
+function tokens(s) {
+  return s.split(' ').filter(Boolean);
+}
+
+// 機能語（冠詞・代名詞・be 動詞・助動詞・前置詞など）。これ以外の単語を内容語として扱う
+// 短い文は 1 語違っても類似度が高くなる（I like cats / I like dogs）ため、内容語が合っているかを別に確かめる
+// ★ 否定語（NEGATIONS）は意味が逆になるため機能語に含めない
+const FUNCTION_WORDS = new Set([
+  'a', 'an', 'the',
+  'i', 'you', 'he', 'she', 'it', 'we', 'they', 'me', 'him', 'her', 'us', 'them',
+  'my', 'your', 'his', 'its', 'our', 'their', 'this', 'that', 'these', 'those',
+  'am', 'is', 'are', 'was', 'were', 'be', 'been', 'do', 'does', 'did',
+  'can', 'will', 'would', 'shall', 'should', 'have', 'has', 'had',
+  'to', 'of', 'in', 'on', 'at', 'for', 'with', 'from', 'and', 'or', 'but', 'so',
+]);
+
+// 否定語（正解と認識結果で数がそろっていなければ不正解。cannot は contractions で can not になる）
+const NEGATIONS = new Set(['not', 'no', 'never', 'cannot']);
+
+/**
+ * 否定語（出てくる順）
+ * @param {string} s - 正規化済みの文字列
+ * @returns {string[]}
+ */
+function negations(s) {
+  return tokens(s).filter(w => NEGATIONS.has(w));
+}
+
+/**
+ * 内容語（機能語以外の単語）
+ * @param {string} s - 正規化済みの文字列
+ * @returns {string[]}
+ */
+function contentWords(s) {
+  return tokens(s).filter(w => !FUNCTION_WORDS.has(w));
+}
+
+/**
+ * レーベンシュタイン距離
+ * @param {string} a
+ * @param {string} b
+ * @param {number} [maxDistance] - これを超えたら早期終了（maxDistance + 1 を返す）
+ * @returns {number}
+ */
+function lev(a, b, maxDistance) {
+  const m = a.length, n = b.length;
+
+  // 性能最適化: 長さの差が大きすぎる場合は早期終了
+  if (maxDistance !== undefined && Math.abs(m - n) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  // 性能最適化: 空文字列のケース
+  if (m === 0) return n;
+  if (n === 0) return m;
+
+  const dp = Array.from({ length: m + 1 }, () => new Array(n + 1).fill(0));
+  for (let i = 0; i <= m; i++) dp[i][0] = i;
+  for (let j = 0; j <= n; j++) dp[0][j] = j;
+
+  for (let i = 1; i <= m; i++) {
+    let minInRow = Infinity;
+    for (let j = 1; j <= n; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      dp[i][j] = Math.min(
+        dp[i - 1][j] + 1,
+        dp[i][j - 1] + 1,
+        dp[i - 1][j - 1] + cost
+      );
+      minInRow = Math.min(minInRow, dp[i][j]);
+    }
+    // 性能最適化: この行の最小値が閾値を超えたら早期終了
+    if (maxDistance !== undefined && minInRow > maxDistance) {
+      return maxDistance + 1;
+    }
+  }
+  return dp[m][n];
+}
+
+/**
+ * 要素列どうしのレーベンシュタイン距離（単語列・発音キー列の比較用）
+ * @param {Array} a
+ * @param {Array} b
+ * @param {(x: *, y: *) => boolean} same - 要素が等しいか
+ * @returns {number}
+ */
+function levSequence(a, b, same = (x, y) => x === y) {
+  const m = a.length, n = b.length;
+  if (m === 0) return n;
+  if (n === 0) return m;
+
+  let prev = Array.from({ length: n + 1 }, (_, j) => j);
+  for (let i = 1; i <= m; i++) {
+    const cur = [i];
+    for (let j = 1; j <= n; j++) {
+      const cost = same(a[i - 1], b[j - 1]) ? 0 : 1;
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = cur;
+  }
+  return prev[n];
+}
+
+/**
+ * 要素列どうしの対応付け（levSequence と同じ編集距離で、どの要素が一致・置換・欠落・余分かを返す）
+ * @param {Array} a - 期待する列（正解）
+ * @param {Array} b - 実際の列（認識結果）
+ * @param {(x: *, y: *) => boolean} same - 要素が等しいか
+ * @returns {Array<{ op: 'match'|'substitute'|'missing'|'extra', a?: *, b?: * }>}
+ */
+function alignSequence(a, b, same = (x, y) => x === y) {
+  const m = a.length, n = b.length;
+  const dp = Array.from({ length: m + 1 }, () => new Array(n + 1).fill(0));
+  for (let i = 0; i <= m; i++) dp[i][0] = i;
+  for (let j = 0; j <= n; j++) dp[0][j] = j;
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      const cost = same(a[i - 1], b[j - 1]) ? 0 : 1;
+      dp[i][j] = Math.min(dp[i - 1][j] + 1, dp[i][j - 1] + 1, dp[i - 1][j - 1] + cost);
+    }
+  }
+
+  // 末尾からたどって操作列を復元（一致・置換を優先）
+  const ops = [];
+  let i = m, j = n;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const isSame = same(a[i - 1], b[j - 1]);
+      if (dp[i][j] === dp[i - 1][j - 1] + (isSame ? 0 : 1)) {
+        ops.push({ op: isSame ? 'match' : 'substitute', a: a[i - 1], b: b[j - 1] });
+        i--; j--;
+        continue;
+      }
+    }
+    if (i > 0 && dp[i][j] === dp[i - 1][j] + 1) {
+      ops.push({ op: 'missing', a: a[i - 1] });
+      i--;
+    } else {
+      ops.push({ op: 'extra', b: b[j - 1] });
+      j--;
+    }
+  }
+  return ops.reverse();
+}
+
+/**
+ * レーベンシュタイン距離を 0〜1 の類似度に変換
+ */
+function simLevenshtein(a, b) {
+  if (!a.length && !b.length) return 1;
+  const d = lev(a, b);
+  return 1 - d / Math.max(a.length, b.length);
+}
+
+/**
+ * 単語集合の Jaccard 係数
+ */
+function jaccard(a, b) {
+  const A = new Set(tokens(a));
+  const B = new Set(tokens(b));
+  if (A.size === 0 && B.size === 0) return 1;
+  let inter = 0;
+  A.forEach(w => { if (B.has(w)) inter++; });
+  const uni = A.size + B.size - inter;
+  return inter / uni;
+}
+
+module.exports = {
+  normalize,
+  tokens,
+  contentWords,
+  negations,
+  lev,
+  levSequence,
+  alignSequence,
+  simLevenshtein,
+  jaccard,
+};
@@ -1,6 +1,7 @@
 // backend/src/middleware/auth.js
 const jwt = require('jsonwebtoken');
 const crypto = require('crypto');
+const { isSuperAdmin } = require('../classes');
 
 // 本番環境では環境変数が必須、開発環境ではランダム生成
 let JWT_SECRET = process.env.JWT_SECRET;
@@ -91,11 +92,36 @@ function optionalAuth(req, res, next) {
   next();
 }
 
+/**
+ * 管理者チェックのミドルウェア（authenticateToken の後に使う）
+ */
+function requireAdmin(req, res, next) {
+  const user = req.user;
+  if (!user || !user.is_admin) {
+    return res.status(403).json({ ok: false, message: '管理者権限が必要です' });
+  }
+  next();
+}
+
+/**
+ * 管理者（先生ではなく、すべてを管理できる権限）チェックのミドルウェア（authenticateToken の後に使う）
+ * 教材・進級ルールなど、全クラス共通の設定の変更に使う
+ */
+function requireSuperAdmin(req, res, next) {
+  const user = req.user;
+  if (!user || !user.is_admin || !isSuperAdmin(user)) {
+    return res.status(403).json({ ok: false, message: 'この操作は管理者のみ行えます' });
+  }
+  next();
+}
+
 module.exports = {
   generateToken,
   authenticateToken,
   verifyToken: authenticateToken, // エイリアス
   optionalAuth,
+  requireAdmin,
+  requireSuperAdmin,
   JWT_SECRET,
   JWT_EXPIRES_IN
 };
@@ -123,6 +123,16 @@ function validateBody(schema) {
           if (typeof value !== 'object' || Array.isArray(value)) {
             errors.push(`${key} はオブジェクトである必要があります`);
           }
+        } else if (rules.type === 'array') {
+          if (!Array.isArray(value)) {
+            errors.push(`${key} は配列である必要があります`);
+            continue;
+          }
+
+          // 要素数チェック
+          if (rules.maxItems !== undefined && value.length > rules.maxItems) {
+            errors.push(`${key} は${rules.maxItems}件以下である必要があります`);
+          }
         }
       }
     }
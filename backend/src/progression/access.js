@@ -0,0 +1,102 @@
+// backend/src/progression/access.js
+// パートを選択・プレイできるか（進捗 + 先生によるロック・解放・上限）
+// 進捗までのパートを基準に、全員 → クラス → 生徒 の順で設定を重ね、より個別の設定を優先する
+// 同じ範囲の設定どうしでは ロック → 上限 → 解放 の順に優先する
+const { parseTS } = require('../utils/time');
+const { classIdsOf } = require('../classes');
+
+// 設定の範囲（後ろほど個別で優先）
+const LOCK_SCOPES = ['all', 'class', 'user'];
+const LOCK_KINDS = ['lock', 'unlock', 'ceiling'];
+
+/**
+ * ユーザーの進捗（現在の学年・パート・サブパート）までに含まれるパートか
+ * @param {Object} user - users の行
+ * @param {Object} part - parts の行
+ */
+function isPartUnlocked(user, part) {
+  if (part.grade_id !== user.current_grade) return part.grade_id < user.current_grade;
+  if (part.part_no !== user.current_part) return part.part_no < user.current_part;
+  return part.subpart_no <= user.current_subpart;
+}
+
+// 期限が切れていないか（expires_at が空なら期限なし）
+const isActive = (lock, now) => !lock.expires_at || !(parseTS(lock.expires_at) <= now);
+
+// 設定がユーザーにかかるか（classIds: 生徒として所属するクラス）
+const appliesTo = (lock, user, classIds) =>
+  lock.scope === 'all'
+  || (lock.scope === 'class' && classIds.includes(lock.target))
+  || (lock.scope === 'user' && lock.target === String(user.user_id));
+
+/**
+ * 設定の位置（学年・パート・サブパート。0 はすべて）にパートが含まれるか
+ */
+function coversPart(lock, part) {
+  return lock.grade_id === part.grade_id
+    && (!lock.part_no || lock.part_no === part.part_no)
+    && (!lock.subpart_no || lock.subpart_no === part.subpart_no);
+}
+
+/**
+ * 上限の位置より先のパートか（パート・サブパートの 0 は、その学年・パートの最後まで）
+ */
+function isPastCeiling(lock, part) {
+  if (part.grade_id !== lock.grade_id) return part.grade_id > lock.grade_id;
+  if (!lock.part_no) return false;
+  if (part.part_no !== lock.part_no) return part.part_no > lock.part_no;
+  return !!lock.subpart_no && part.subpart_no > lock.subpart_no;
+}
+
+/**
+ * ユーザーにかかる有効な設定を取得（期限切れは除く）
+ */
+async function loadPartLocks(repo, user, { now = Date.now() } = {}) {
+  const locks = await repo.partLocks.list();
+  const classIds = await classIdsOf(repo, user.user_id);
+  return locks.filter(l => isActive(l, now) && appliesTo(l, user, classIds));
+}
+
+/**
+ * パートを選択・プレイできるか
+ * @param {Object[]} locks - loadPartLocks の結果
+ * @returns {{ unlocked: boolean, reason: 'progress'|'lock'|'ceiling'|'unlock', lock_id?: string }}
+ *   reason: 判定を決めたもの（progress は進捗のみで判定）
+ */
+function partAccess(user, part, locks) {
+  let result = { unlocked: isPartUnlocked(user, part), reason: 'progress' };
+  for (const scope of LOCK_SCOPES) {
+    const scoped = locks.filter(l => l.scope === scope);
+    const hit = scoped.find(l => l.kind === 'lock' && coversPart(l, part))
+      || scoped.find(l => l.kind === 'ceiling' && isPastCeiling(l, part))
+      || scoped.find(l => l.kind === 'unlock' && coversPart(l, part));
+    if (hit) result = { unlocked: hit.kind === 'unlock', reason: hit.kind, lock_id: hit.lock_id };
+  }
+  return result;
+}
+
+/**
+ * パートを選択・プレイできるか（設定の読み込みを含む）
+ */
+async function checkPartAccess(repo, user, part) {
+  return partAccess(user, part, await loadPartLocks(repo, user));
+}
+
+/**
+ * 選択・プレイできない理由（ユーザー向け）
+ */
+function accessMessage(access) {
+  if (access.reason === 'lock') return 'このステージは先生がロックしています';
+  if (access.reason === 'ceiling') return 'このステージはまだ先生が解放していません';
+  return 'まだ選べないステージです';
+}
+
+module.exports = {
+  LOCK_SCOPES,
+  LOCK_KINDS,
+  isPartUnlocked,
+  loadPartLocks,
+  partAccess,
+  checkPartAccess,
+  accessMessage,
+};
@@ -0,0 +1,135 @@
+// backend/src/progression/index.js
+// 次のパートに進めるかの判定（/game/advance 用）
+// ルールは パート → 学年 → 全体 の順で最初に見つかったものを使い、無ければ既定値（rules.js）
+// ★ 練習（mode: 'practice'）のプレイは判定に使わない
+const { RULE_TYPES, MODES, DEFAULT_PROGRESSION, parseProgression } = require('./rules');
+const { LOCK_SCOPES, LOCK_KINDS, isPartUnlocked, loadPartLocks, partAccess, checkPartAccess, accessMessage } = require('./access');
+
+const percent = (ratio) => `${Math.round(ratio * 100)}%`;
+
+/**
+ * パートに適用する進級ルールを取得
+ * 保存済みのルールが壊れている場合は既定値を使う（保存時に確認しているため通常は起きない）
+ * @returns {Promise<{ rule_id: string, progression: { mode: string, rules: Object[] } }>}
+ */
+async function resolveProgression(repo, part) {
+  const row = await repo.progressionRules.findForPart(part.grade_id, part.part_no);
+  if (row) {
+    const { progression, problems } = parseProgression(row.rules);
+    if (progression) return { rule_id: row.rule_id, progression };
+    console.warn('[Progression] Invalid rules, using default:', row.rule_id, problems);
+  }
+  return { rule_id: 'builtin', progression: DEFAULT_PROGRESSION };
+}
+
+/**
+ * 判定に使う記録を集める
+ * @returns {Promise<{ attempts: number, clears: number, accuracies: number[], approved: boolean }>}
+ *   accuracies: 終了済みプレイの正答率（古い順）
+ */
+async function loadProgressStats(repo, userId, partId) {
+  const scores = (await repo.scores.listByUserPart(userId, partId)).filter(s => s.mode !== 'practice');
+  const sessions = (await repo.sessions.listFinished(userId, partId)).filter(s => s.mode !== 'practice');
+  const approval = await repo.approvals.find(userId, partId);
+  return {
+    attempts: scores.length,
+    clears: scores.filter(s => s.clear).length,
+    accuracies: sessions.filter(s => s.total > 0).map(s => s.correct / s.total),
+    approved: !!approval,
+  };
+}
+
+/**
+ * ルール 1 つを判定する
+ * @returns {{ type: string, satisfied: boolean, current: number, required: number, remaining: number, message: string }}
+ *   remaining: あと何回（accuracy はプレイ回数が足りない場合のみ。正答率が足りない場合は 0）
+ */
+function evaluateRule(rule, stats) {
+  switch (rule.type) {
+    case 'clear': {
+      const remaining = Math.max(0, rule.count - stats.clears);
+      return {
+        ...rule, satisfied: remaining === 0, current: stats.clears, required: rule.count, remaining,
+        message: remaining === 0 ? `${rule.count} 回クリアしました` : `あと ${remaining} 回クリア`,
+      };
+    }
+    case 'accuracy': {
+      const recent = stats.accuracies.slice(-rule.last);
+      const average = recent.length > 0 ? recent.reduce((a, b) => a + b, 0) / recent.length : 0;
+      const remaining = Math.max(0, rule.last - recent.length);
+      const satisfied = remaining === 0 && average >= rule.min;
+      let message;
+      if (satisfied) message = `直近 ${rule.last} 回の平均正答率 ${percent(average)}`;
+      else if (remaining > 0) message = `あと ${remaining} 回プレイ（直近 ${rule.last} 回の平均正答率 ${percent(rule.min)} 以上）`;
+      else message = `直近 ${rule.last} 回の平均正答率 ${percent(average)}（${percent(rule.min)} 以上が必要）`;
+      return {
+        ...rule, satisfied, current: Math.round(average * 100) / 100, required: rule.min, remaining, message,
+      };
+    }
+    case 'attempts': {
+      const remaining = Math.max(0, rule.count - stats.attempts);
+      return {
+        ...rule, satisfied: remaining === 0, current: stats.attempts, required: rule.count, remaining,
+        message: remaining === 0 ? `${rule.count} 回挑戦しました` : `あと ${remaining} 回挑戦`,
+      };
+    }
+    case 'approval':
+      return {
+        ...rule, satisfied: stats.approved, current: stats.approved ? 1 : 0, required: 1, remaining: stats.approved ? 0 : 1,
+        message: stats.approved ? '先生が承認しました' : '先生の承認',
+      };
+    default:
+      return { ...rule, satisfied: false, current: 0, required: 0, remaining: 0, message: `未対応のルールです: ${rule.type}` };
+  }
+}
+
+/**
+ * 進級ルールを判定する
+ * @param {{ mode: string, rules: Object[] }} progression
+ * @param {Object} stats - loadProgressStats の結果
+ * @returns {{ mode: string, satisfied: boolean, satisfied_by: Object|null, results: Object[], message: string }}
+ *   satisfied_by: 満たしたルール（all の場合は最後のルール）、message: 満たしたルールか、残りの条件の説明
+ */
+function evaluateProgression(progression, stats) {
+  const results = progression.rules.map(rule => evaluateRule(rule, stats));
+  const pending = results.filter(r => !r.satisfied);
+  const satisfied = progression.mode === 'all' ? pending.length === 0 : pending.length < results.length;
+  const satisfied_by = satisfied
+    ? (progression.mode === 'all' ? results.at(-1) : results.find(r => r.satisfied))
+    : null;
+
+  let message;
+  if (satisfied) {
+    message = progression.mode === 'all' ? 'すべての条件を満たしました' : satisfied_by.message;
+  } else {
+    message = pending.map(r => r.message).join(progression.mode === 'all' ? '、' : ' または ');
+  }
+  return { mode: progression.mode, satisfied, satisfied_by, results, message };
+}
+
+/**
+ * ユーザーがパートの進級ルールを満たしているか判定する
+ * @returns {Promise<{ rule_id: string, stats: Object } & ReturnType<typeof evaluateProgression>>}
+ */
+async function checkProgression(repo, userId, part) {
+  const { rule_id, progression } = await resolveProgression(repo, part);
+  const stats = await loadProgressStats(repo, userId, part.part_id);
+  return { rule_id, stats, ...evaluateProgression(progression, stats) };
+}
+
+module.exports = {
+  RULE_TYPES,
+  MODES,
+  DEFAULT_PROGRESSION,
+  parseProgression,
+  resolveProgression,
+  evaluateProgression,
+  checkProgression,
+  LOCK_SCOPES,
+  LOCK_KINDS,
+  isPartUnlocked,
+  loadPartLocks,
+  partAccess,
+  checkPartAccess,
+  accessMessage,
+};
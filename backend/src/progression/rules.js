@@ -0,0 +1,95 @@
+// backend/src/progression/rules.js
+// 進級ルール（progression_rules の rules 列）の読み込みと入力チェック
+//   例: {"mode":"any","rules":[{"type":"clear","count":1},{"type":"attempts","count":10}]}
+//       {"mode":"all","rules":[{"type":"clear","count":2},{"type":"accuracy","min":0.8,"last":3}]}
+
+// ルールの種類
+//   clear    : このパートを count 回クリアした
+//   accuracy : 直近 last 回のプレイの平均正答率が min 以上（プレイが last 回に満たない場合は未達）
+//   attempts : このパートに count 回挑戦した（クリアできない子の救済）
+//   approval : 先生（管理者）が承認した
+const RULE_TYPES = ['clear', 'accuracy', 'attempts', 'approval'];
+
+// mode: any（いずれかを満たせば進む） | all（すべて満たせば進む）
+const MODES = ['any', 'all'];
+
+// 既定値: 1回クリア or 10回挑戦（従来の動作）
+const DEFAULT_PROGRESSION = Object.freeze({
+  mode: 'any',
+  rules: [
+    { type: 'clear', count: 1 },
+    { type: 'attempts', count: 10 },
+  ],
+});
+
+// 数値の項目と範囲（省略時は default）
+const RULE_PARAMS = {
+  clear: { count: { min: 1, max: 100, integer: true, default: 1 } },
+  accuracy: {
+    min: { min: 0, max: 1, integer: false, default: 0.8 },
+    last: { min: 1, max: 50, integer: true, default: 3 },
+  },
+  attempts: { count: { min: 1, max: 1000, integer: true, default: 10 } },
+  approval: {},
+};
+
+/**
+ * 進級ルールを読み込んで入力チェックする
+ * @param {string|Object} raw - rules 列の値（JSON 文字列）またはオブジェクト
+ * @returns {{ progression: { mode: string, rules: Object[] }|null, problems: string[] }}
+ */
+function parseProgression(raw) {
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return { progression: null, problems: ['進級ルールが JSON ではありません'] };
+    }
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { progression: null, problems: ['進級ルールは { mode, rules } で指定してください'] };
+  }
+
+  const problems = [];
+  const mode = value.mode === undefined ? 'any' : String(value.mode);
+  if (!MODES.includes(mode)) problems.push(`mode は ${MODES.join(' / ')} のいずれかにしてください`);
+  if (!Array.isArray(value.rules) || value.rules.length === 0) {
+    problems.push('rules に 1 つ以上のルールを指定してください');
+    return { progression: null, problems };
+  }
+
+  const rules = [];
+  value.rules.forEach((item, i) => {
+    const type = String(item?.type || '');
+    if (!RULE_TYPES.includes(type)) {
+      problems.push(`rules[${i}] の type は ${RULE_TYPES.join(' / ')} のいずれかにしてください`);
+      return;
+    }
+    if (rules.some(r => r.type === type)) {
+      problems.push(`rules[${i}] の ${type} が重複しています`);
+      return;
+    }
+    const rule = { type };
+    for (const [key, spec] of Object.entries(RULE_PARAMS[type])) {
+      const n = item[key] === undefined ? spec.default : Number(item[key]);
+      if (!Number.isFinite(n) || n < spec.min || n > spec.max || (spec.integer && !Number.isInteger(n))) {
+        problems.push(`rules[${i}] の ${key} は ${spec.min}〜${spec.max} の${spec.integer ? '整数' : '数値'}にしてください`);
+        continue;
+      }
+      rule[key] = n;
+    }
+    rules.push(rule);
+  });
+
+  return problems.length > 0
+    ? { progression: null, problems }
+    : { progression: { mode, rules }, problems };
+}
+
+module.exports = {
+  RULE_TYPES,
+  MODES,
+  DEFAULT_PROGRESSION,
+  parseProgression,
+};
@@ -0,0 +1,176 @@
+// backend/src/reports/index.js
+// 保護者・学校の記録用のレポート（生徒ごと・クラスごと。期間を指定）
+//   - プレイ数・練習数・クリア数: scores の行（play_date が期間内）。練習はプレイ数・クリア数に含めない
+//   - 正答率: 期間内の回答（attempts）のうち正解の割合（聞き取れなかった回答は数えない）
+//   - 現在の位置: 出力した時点の進捗（期間に関係なく）
+// 形式は CSV / XLSX / PDF（印刷用）。どれも同じ内容（見出し・説明の行・表）
+const { toCsv } = require('../utils/csv');
+const { toXlsx } = require('../utils/xlsx');
+const { toPdf } = require('../utils/pdf');
+const { classIdsOf } = require('../classes');
+const { withinDays } = require('../utils/time');
+
+const REPORT_FORMATS = ['csv', 'xlsx', 'pdf'];
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+};
+
+/**
+ * 期間（'YYYY-MM-DD'。省略は制限なし）
+ * @returns {{ from: string, to: string, contains: (ts: string) => boolean, label: string, suffix: string }}
+ *   label: 説明の行に出す期間、suffix: ファイル名に付ける期間
+ */
+function dateRange(from = '', to = '') {
+  const f = from.replace(/-/g, '/');
+  const t = to.replace(/-/g, '/');
+  return {
+    from,
+    to,
+    contains: withinDays(from, to),
+    label: f || t ? `${f || '最初'} 〜 ${t || '現在'}` : 'すべて',
+    suffix: f || t ? `-${from || 'start'}_${to || 'now'}` : '',
+  };
+}
+
+const positionLabel = (u) => `${u.current_grade}-${u.current_part}-${u.current_subpart}`;
+
+// 正答率（%、小数 1 桁。回答が無い場合は空欄）
+const accuracyOf = (correct, answers) => (answers > 0 ? Math.round((correct / answers) * 1000) / 10 : '');
+
+/**
+ * 期間内の scores / attempts の集計（生徒全体、またはパートごと）
+ */
+function summarize(scores, attempts) {
+  const plays = scores.filter(s => s.mode !== 'practice');
+  const answered = attempts.filter(a => a.result !== 'unclear');
+  const correct = answered.filter(a => a.result === 'correct').length;
+  return {
+    plays: plays.length,
+    practice: scores.length - plays.length,
+    clears: plays.filter(s => s.clear).length,
+    parts_cleared: new Set(plays.filter(s => s.clear).map(s => s.part_id)).size,
+    best: scores.reduce((max, s) => Math.max(max, Number(s.scores) || 0), 0),
+    answers: answered.length,
+    correct,
+    accuracy: accuracyOf(correct, answered.length),
+    last_played: scores.reduce((last, s) => (s.play_date > last ? s.play_date : last), ''),
+  };
+}
+
+/**
+ * 生徒ごとのレポート（パートごとの表と合計）
+ * @param {Object} repo - getRepository() の結果
+ * @param {Object} user - users の行
+ * @param {ReturnType<typeof dateRange>} range
+ */
+async function studentReport(repo, user, range) {
+  const scores = (await repo.scores.listByUser(user.user_id)).filter(s => range.contains(s.play_date));
+  const attempts = (await repo.attempts.list({ user_id: String(user.user_id) })).filter(a => range.contains(a.created_at));
+  const parts = (await repo.parts.list()).slice()
+    .sort((a, b) => (a.grade_id - b.grade_id) || (a.part_no - b.part_no) || (a.subpart_no - b.subpart_no));
+  const classes = await Promise.all((await classIdsOf(repo, user.user_id)).map(id => repo.classes.findById(id)));
+
+  const rows = [];
+  for (const p of parts) {
+    const partScores = scores.filter(s => s.part_id === p.part_id);
+    const partAttempts = attempts.filter(a => a.part_id === p.part_id);
+    if (partScores.length === 0 && partAttempts.length === 0) continue;
+    const s = summarize(partScores, partAttempts);
+    rows.push([`${p.grade_id}-${p.part_no}-${p.subpart_no}`, s.plays, s.practice, s.clears, s.best, s.answers, s.correct, s.accuracy]);
+  }
+  const total = summarize(scores, attempts);
+  rows.push(['合計', total.plays, total.practice, total.clears, '', total.answers, total.correct, total.accuracy]);
+
+  return {
+    title: `学習レポート（${user.real_name || user.nickname || user.user_id}）`,
+    lines: [
+      `ユーザーID: ${user.user_id}　ニックネーム: ${user.nickname || ''}`,
+      `クラス: ${classes.filter(Boolean).map(c => c.name).join('、') || 'なし'}`,
+      `期間: ${range.label}`,
+      `現在の位置: ${positionLabel(user)}　クリアしたパート: ${total.parts_cleared}　最後のプレイ: ${total.last_played || 'なし'}`,
+    ],
+    columns: ['パート', 'プレイ', '練習', 'クリア', '最高正解数', '回答数', '正解数', '正答率（%）'],
+    rows,
+    filename: `report-student-${user.user_id}${range.suffix}`,
+  };
+}
+
+/**
+ * クラスごとのレポート（生徒ごとの表と合計）
+ * @param {Object} repo - getRepository() の結果
+ * @param {Object} cls - classes の行
+ * @param {ReturnType<typeof dateRange>} range
+ */
+async function classReport(repo, cls, range) {
+  const memberIds = new Set((await repo.classes.listMembers({ class_id: cls.class_id, role: 'student' })).map(m => m.user_id));
+  const students = (await repo.users.list())
+    .filter(u => memberIds.has(u.user_id))
+    .sort((a, b) => String(a.user_id).localeCompare(String(b.user_id), undefined, { numeric: true }));
+
+  // 全員分を 1 度だけ読み、生徒ごとに分ける
+  const scoresByUser = new Map();
+  for (const s of await repo.scores.list()) {
+    if (!memberIds.has(s.user_id) || !range.contains(s.play_date)) continue;
+    (scoresByUser.get(s.user_id) ?? scoresByUser.set(s.user_id, []).get(s.user_id)).push(s);
+  }
+  const attemptsByUser = new Map();
+  for (const a of await repo.attempts.list()) {
+    if (!memberIds.has(a.user_id) || !range.contains(a.created_at)) continue;
+    (attemptsByUser.get(a.user_id) ?? attemptsByUser.set(a.user_id, []).get(a.user_id)).push(a);
+  }
+
+  const rows = students.map(u => {
+    const s = summarize(scoresByUser.get(u.user_id) || [], attemptsByUser.get(u.user_id) || []);
+    return [u.user_id, u.real_name, u.nickname, positionLabel(u), s.plays, s.practice, s.clears, s.parts_cleared,
+      s.answers, s.correct, s.accuracy, s.last_played];
+  });
+  const total = summarize([...scoresByUser.values()].flat(), [...attemptsByUser.values()].flat());
+  rows.push(['合計', '', '', '', total.plays, total.practice, total.clears, '', total.answers, total.correct, total.accuracy, '']);
+
+  return {
+    title: `クラスレポート（${cls.name}）`,
+    lines: [
+      `期間: ${range.label}`,
+      `生徒: ${students.length} 人`,
+    ],
+    columns: ['ユーザーID', '名前', 'ニックネーム', '現在の位置', 'プレイ', '練習', 'クリア', 'クリアしたパート',
+      '回答数', '正解数', '正答率（%）', '最後のプレイ'],
+    rows,
+    filename: `report-class-${cls.class_id}${range.suffix}`,
+  };
+}
+
+/**
+ * レポートを指定の形式にする
+ * @param {{ title: string, lines: string[], columns: string[], rows: Array<Array<*>>, filename: string }} report
+ * @param {'csv'|'xlsx'|'pdf'} format
+ * @returns {{ body: string|Buffer, contentType: string, filename: string }}
+ */
+function renderReport(report, format) {
+  const table = [[report.title], ...report.lines.map(l => [l]), [], report.columns, ...report.rows];
+  let body;
+  if (format === 'xlsx') {
+    body = toXlsx(table, report.title);
+  } else if (format === 'pdf') {
+    body = toPdf(report);
+  } else {
+    // Excel で開いても文字化けしないよう BOM を付ける
+    body = '\uFEFF' + toCsv(table);
+  }
+  return {
+    body,
+    contentType: CONTENT_TYPES[format],
+    filename: `${report.filename.replace(/[^\w.-]/g, '_')}.${format}`,
+  };
+}
+
+module.exports = {
+  REPORT_FORMATS,
+  dateRange,
+  studentReport,
+  classReport,
+  renderReport,
+};
@@ -0,0 +1,97 @@
+// backend/src/repositories/answers.js
+// answer_patterns テーブルのリポジトリ
+
+/**
+ * answers リポジトリを作成
+ * @param {Object} store - ストレージドライバ
+ */
+function createAnswersRepository(store) {
+  return {
+    /**
+     * 全正解パターンを id 順で取得（教材のエクスポート用）
+     */
+    async list() {
+      const rows = await store.select('answer_patterns');
+      return rows.sort((a, b) => a.id - b.id);
+    },
+
+    /**
+     * 問題ごとの正解パターンを取得
+     * @param {string[]} questionIds - 対象の question_id
+     * @returns {Promise<Map<string, Object[]>>} question_id -> answer_patterns の行（登録順）
+     */
+    async groupByQuestion(questionIds) {
+      const wanted = new Set(questionIds.map(String));
+      const rows = await store.select('answer_patterns');
+      const byQuestion = new Map();
+      for (const row of rows) {
+        const qid = row.question_id;
+        if (!qid || !wanted.has(qid)) continue;
+        (byQuestion.get(qid) ?? byQuestion.set(qid, []).get(qid)).push(row);
+      }
+      return byQuestion;
+    },
+
+    /**
+     * 問題の正解パターンを登録順（id 順）で取得
+     */
+    async listByQuestion(questionId) {
+      const rows = await store.select('answer_patterns', { question_id: String(questionId) });
+      return rows.sort((a, b) => a.id - b.id);
+    },
+
+    /**
+     * id で正解パターンを取得
+     */
+    async findById(id) {
+      const rows = await store.select('answer_patterns', { id: Number(id) });
+      return rows[0] || null;
+    },
+
+    /**
+     * 正解パターンを追加（id 省略時は自動採番）
+     * @param {Object} input - { id, question_id, expected_text, match_config }
+     */
+    async create({ id, question_id, expected_text, match_config = '' }) {
+      const rows = await store.select('answer_patterns');
+      const nextId = rows.reduce((max, r) => Math.max(max, Number(r.id) || 0), 0) + 1;
+      return store.insert('answer_patterns', {
+        id: id ?? nextId,
+        question_id: String(question_id),
+        expected_text,
+        match_config,
+      });
+    },
+
+    /**
+     * 正解パターンを更新（id・question_id は変更しない）
+     * @returns {Promise<boolean>} 更新できたか
+     */
+    async update(id, { expected_text, match_config }) {
+      const patch = {};
+      if (expected_text !== undefined) patch.expected_text = expected_text;
+      if (match_config !== undefined) patch.match_config = match_config;
+      const count = await store.update('answer_patterns', { id: Number(id) }, patch);
+      return count > 0;
+    },
+
+    /**
+     * 正解パターンを削除
+     * @returns {Promise<boolean>} 削除できたか
+     */
+    async remove(id) {
+      const count = await store.remove('answer_patterns', { id: Number(id) });
+      return count > 0;
+    },
+
+    /**
+     * 問題の正解パターンをすべて削除（問題の削除時）
+     * @returns {Promise<number>} 削除した件数
+     */
+    async removeByQuestion(questionId) {
+      return store.remove('answer_patterns', { question_id: String(questionId) });
+    },
+  };
+}
+
+module.exports = { createAnswersRepository };
@@ -0,0 +1,54 @@
+// backend/src/repositories/approvals.js
+// part_approvals テーブル（先生による進級の承認）のリポジトリ
+const crypto = require('crypto');
+const { nowTS } = require('../utils/time');
+
+/**
+ * approvals リポジトリを作成
+ * @param {Object} store - ストレージドライバ
+ */
+function createApprovalsRepository(store) {
+  return {
+    /**
+     * 承認を取得（条件は approval_id / user_id / part_id の AND）
+     */
+    async list(where = {}) {
+      const rows = await store.select('part_approvals', where);
+      return rows.sort((a, b) => a.created_at.localeCompare(b.created_at));
+    },
+
+    /**
+     * ユーザーのパートへの承認を取得
+     * @returns {Promise<Object|null>}
+     */
+    async find(userId, partId) {
+      const rows = await store.select('part_approvals', { user_id: String(userId), part_id: String(partId) });
+      return rows[0] || null;
+    },
+
+    /**
+     * 承認を追加（approval_id はランダムな UUID）
+     * @param {Object} input - { user_id, part_id, approved_by }
+     */
+    async create({ user_id, part_id, approved_by }) {
+      return store.insert('part_approvals', {
+        approval_id: crypto.randomUUID(),
+        user_id: String(user_id),
+        part_id: String(part_id),
+        approved_by: String(approved_by),
+        created_at: nowTS(),
+      });
+    },
+
+    /**
+     * 承認を取り消す
+     * @returns {Promise<boolean>} 削除できたか
+     */
+    async remove(approvalId) {
+      const count = await store.remove('part_approvals', { approval_id: String(approvalId) });
+      return count > 0;
+    },
+  };
+}
+
+module.exports = { createApprovalsRepository };
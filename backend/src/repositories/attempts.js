@@ -0,0 +1,85 @@
+// backend/src/repositories/attempts.js
+// attempts テーブル（問題ごとの回答ログ）のリポジトリ
+const { nowTS } = require('../utils/time');
+
+// listBySession の結果をプロセス内に残すプレイの数（古いものから捨てる）
+// ★ 回答のたびに attempts 全体（Sheets ではシート全体）を読まないため。回答ログの追加はこのリポジトリの add だけで行う
+const SESSION_CACHE_LIMIT = 500;
+
+// JSON 文字列の列を配列に復元（壊れている場合は空配列）
+function parseList(value) {
+  try {
+    const parsed = JSON.parse(value || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 保存済みの行を API 向けの形に戻す（transcripts / word_diff を配列に復元）
+ */
+function toAttempt(row) {
+  return {
+    ...row,
+    transcripts: parseList(row.transcripts).map(String),
+    word_diff: parseList(row.word_diff),
+  };
+}
+
+/**
+ * attempts リポジトリを作成
+ * @param {Object} store - ストレージドライバ
+ */
+function createAttemptsRepository(store) {
+  // session_id → 回答順の回答ログ
+  const bySession = new Map();
+  const remember = (sessionId, attempts) => {
+    bySession.delete(sessionId);
+    bySession.set(sessionId, attempts);
+    if (bySession.size > SESSION_CACHE_LIMIT) bySession.delete(bySession.keys().next().value);
+  };
+
+  return {
+    /**
+     * 回答ログを取得（条件は user_id / session_id / part_id / question_id の AND）
+     */
+    async list(where = {}) {
+      const rows = await store.select('attempts', where);
+      return rows.map(toAttempt);
+    },
+
+    /**
+     * 1回のプレイ分の回答ログを回答順に取得
+     * 2 回目からはプロセス内に残した結果を返す（add した回答ログも含む）
+     */
+    async listBySession(sessionId) {
+      const key = String(sessionId);
+      if (!bySession.has(key)) {
+        const rows = await this.list({ session_id: key });
+        remember(key, rows.sort((a, b) => a.attempt_no - b.attempt_no));
+      }
+      return [...bySession.get(key)];
+    },
+
+    /**
+     * 回答ログを追加
+     * attempt_id は session_id と attempt_no から決まるため、全件走査での採番は行わない
+     * @param {Object} input - { session_id, user_id, part_id, question_id, attempt_no, result, transcripts, matched_answer, levenshtein, jaccard, time_ms, confidence, pronunciation, word_diff }
+     */
+    async add(input) {
+      const saved = await store.insert('attempts', {
+        ...input,
+        attempt_id: `${input.session_id}-${input.attempt_no}`,
+        transcripts: JSON.stringify(input.transcripts || []),
+        word_diff: JSON.stringify(input.word_diff || []),
+        created_at: nowTS(),
+      });
+      const attempt = toAttempt(saved);
+      bySession.get(String(input.session_id))?.push(attempt);
+      return attempt;
+    },
+  };
+}
+
+module.exports = { createAttemptsRepository };
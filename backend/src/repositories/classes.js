@@ -0,0 +1,96 @@
+// backend/src/repositories/classes.js
+// classes / class_members テーブル（クラスと所属）のリポジトリ
+const crypto = require('crypto');
+const { nowTS } = require('../utils/time');
+
+/**
+ * classes リポジトリを作成
+ * @param {Object} store - ストレージドライバ
+ */
+function createClassesRepository(store) {
+  return {
+    /**
+     * 全クラスを名前順で取得
+     */
+    async list() {
+      const rows = await store.select('classes');
+      return rows.sort((a, b) => a.name.localeCompare(b.name, 'ja'));
+    },
+
+    /**
+     * class_id でクラスを取得
+     * @returns {Promise<Object|null>}
+     */
+    async findById(classId) {
+      const rows = await store.select('classes', { class_id: String(classId) });
+      return rows[0] || null;
+    },
+
+    /**
+     * クラスを追加（class_id はランダムな UUID）
+     * @param {Object} input - { name, created_by }
+     */
+    async create({ name, created_by }) {
+      return store.insert('classes', {
+        class_id: crypto.randomUUID(),
+        name,
+        created_by: String(created_by),
+        created_at: nowTS(),
+      });
+    },
+
+    /**
+     * クラス名を変更
+     * @returns {Promise<boolean>} 更新対象が存在した場合はtrue
+     */
+    async update(classId, { name }) {
+      const count = await store.update('classes', { class_id: String(classId) }, { name });
+      return count > 0;
+    },
+
+    /**
+     * クラスと、その所属をすべて削除
+     * @returns {Promise<boolean>} 削除できたか
+     */
+    async remove(classId) {
+      const count = await store.remove('classes', { class_id: String(classId) });
+      if (count > 0) {
+        await store.remove('class_members', { class_id: String(classId) });
+      }
+      return count > 0;
+    },
+
+    /**
+     * 所属を取得（条件は class_id / user_id / role の AND）
+     */
+    async listMembers(where = {}) {
+      const rows = await store.select('class_members', where);
+      return rows.sort((a, b) => a.user_id.localeCompare(b.user_id));
+    },
+
+    /**
+     * クラスに追加（member_id はランダムな UUID）
+     * @param {Object} input - { class_id, user_id, role: 'student' | 'teacher' }
+     */
+    async addMember({ class_id, user_id, role }) {
+      return store.insert('class_members', {
+        member_id: crypto.randomUUID(),
+        class_id: String(class_id),
+        user_id: String(user_id),
+        role,
+        created_at: nowTS(),
+      });
+    },
+
+    /**
+     * クラスから外す
+     * @returns {Promise<boolean>} 削除できたか
+     */
+    async removeMember(classId, userId) {
+      const count = await store.remove('class_members', { class_id: String(classId), user_id: String(userId) });
+      return count > 0;
+    },
+  };
+}
+
+module.exports = { createClassesRepository };
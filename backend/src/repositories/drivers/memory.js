@@ -0,0 +1,74 @@
+// backend/src/repositories/drivers/memory.js
+// プロセス内メモリに保持するストレージドライバ（テスト・デモ用）
+const fs = require('fs');
+const { TABLES, coerceRow, coercePatch, matchesWhere } = require('../schema');
+
+/**
+ * メモリストレージドライバを作成
+ * @param {Object} seed - { テーブル名: 行オブジェクト[] } の初期データ
+ */
+function createMemoryStore(seed = {}) {
+  const data = {};
+  for (const name of Object.keys(TABLES)) {
+    data[name] = (seed[name] || []).map(row => coerceRow(name, row));
+  }
+
+  const tableOf = (table) => {
+    if (!data[table]) {
+      throw new Error(`Unknown table: ${table}`);
+    }
+    return data[table];
+  };
+
+  return {
+    kind: 'memory',
+
+    async select(table, where) {
+      return tableOf(table).filter(row => matchesWhere(row, where)).map(row => ({ ...row }));
+    },
+
+    async insert(table, row) {
+      const record = coerceRow(table, row);
+      tableOf(table).push(record);
+      return { ...record };
+    },
+
+    async update(table, where, patch) {
+      const changes = coercePatch(table, patch);
+      let count = 0;
+      for (const row of tableOf(table)) {
+        if (matchesWhere(row, where)) {
+          Object.assign(row, changes);
+          count++;
+        }
+      }
+      return count;
+    },
+
+    async remove(table, where) {
+      const rows = tableOf(table);
+      const kept = rows.filter(row => !matchesWhere(row, where));
+      const count = rows.length - kept.length;
+      data[table] = kept;
+      return count;
+    },
+  };
+}
+
+/**
+ * JSON ファイルから初期データを読み込む（MEMORY_SEED_PATH）
+ */
+function loadSeed(seedPath) {
+  if (!seedPath) return {};
+  try {
+    return JSON.parse(fs.readFileSync(seedPath, 'utf8'));
+  } catch (err) {
+    console.error('[Memory] Failed to load seed file:', err.message);
+    return {};
+  }
+}
+
+module.exports = {
+  createMemoryStore,
+  loadSeed,
+};
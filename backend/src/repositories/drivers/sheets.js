@@ -0,0 +1,287 @@
+// backend/src/repositories/drivers/sheets.js
+// Google Sheets をテーブルとして扱うストレージドライバ
+// シートのヘッダー検証はこのドライバだけで行う
+const { getSheetsClient, SPREADSHEET_ID } = require('../../services/google');
+const { getCache, setCache, deleteCache, getSheetsKey } = require('../../services/redis');
+const { columnNames, requiredColumnCount, coerceRow, coercePatch, matchesWhere } = require('../schema');
+
+const USERS_HEADER     = columnNames('users');           // id | user_id | password | nickname | real_name | current_grade | current_part | current_subpart | is_admin | created_at | updated_at | (role)
+const PARTS_HEADER     = columnNames('parts');           // part_id | grade_id | part_no | subpart_no | requirement | (match_config) | (question_count) | (correct_to_clear) | (time_limit) | (shuffle)
+const QUESTIONS_HEADER = columnNames('questions');       // question_id | part_id | display_order | is_demo | question_text | image_url | (match_config) | (image_variants)
+const ANSWERS_HEADER   = columnNames('answer_patterns'); // id | question_id | expected_text | (match_config)
+const SCORES_HEADER    = columnNames('scores');          // score_id | user_id | part_id | scores | clear | play_date | (input_mode) | (mode)
+const SESSIONS_HEADER  = columnNames('play_sessions');   // session_id | user_id | part_id | status | correct | total | clear | score_id | started_at | finished_at | (input_mode) | (mode) | (question_ids)
+const ATTEMPTS_HEADER  = columnNames('attempts');        // attempt_id | session_id | user_id | part_id | question_id | attempt_no | result | transcripts | matched_answer | levenshtein | jaccard | time_ms | created_at | (confidence) | (pronunciation) | (word_diff)
+const PROGRESSION_RULES_HEADER = columnNames('progression_rules'); // rule_id | grade_id | part_no | rules | updated_by | updated_at
+const APPROVALS_HEADER = columnNames('part_approvals');  // approval_id | user_id | part_id | approved_by | created_at
+const CLASSES_HEADER   = columnNames('classes');         // class_id | name | created_by | created_at
+const CLASS_MEMBERS_HEADER = columnNames('class_members'); // member_id | class_id | user_id | role | created_at
+const LOCKS_HEADER     = columnNames('part_locks');      // lock_id | scope | target | kind | grade_id | part_no | subpart_no | expires_at | note | created_by | created_at
+
+const HEADERS = {
+  users: USERS_HEADER,
+  parts: PARTS_HEADER,
+  questions: QUESTIONS_HEADER,
+  answer_patterns: ANSWERS_HEADER,
+  scores: SCORES_HEADER,
+  play_sessions: SESSIONS_HEADER,
+  attempts: ATTEMPTS_HEADER,
+  progression_rules: PROGRESSION_RULES_HEADER,
+  part_approvals: APPROVALS_HEADER,
+  classes: CLASSES_HEADER,
+  class_members: CLASS_MEMBERS_HEADER,
+  part_locks: LOCKS_HEADER,
+};
+
+// ★ scores は数値・boolean・日時をシート側で解釈させるため USER_ENTERED
+// その他は user_id の先頭ゼロ（例: 00002）を保持するため RAW
+const VALUE_INPUT_OPTION = {
+  scores: 'USER_ENTERED',
+};
+
+// 読み取り結果をキャッシュするテーブル（秒）
+// ログインのたびに users 全体を取得しないため
+const CACHE_TTL = {
+  users: 60,
+};
+
+function columnLetter(index) {
+  let n = index + 1;
+  let s = '';
+  while (n > 0) {
+    const m = (n - 1) % 26;
+    s = String.fromCharCode(65 + m) + s;
+    n = Math.floor((n - 1) / 26);
+  }
+  return s;
+}
+
+function headerOf(table) {
+  const header = HEADERS[table];
+  if (!header) {
+    throw new Error(`Unknown sheet: ${table}`);
+  }
+  return header;
+}
+
+function lastColumn(table) {
+  return columnLetter(headerOf(table).length - 1);
+}
+
+/**
+ * ヘッダー行が想定と一致するか確認する（列名・順序固定）
+ * 末尾の任意列（後から追加した列）は無くてもよい
+ * @returns {number} シート上の列数
+ */
+function assertHeader(table, headerRow) {
+  const expected = headerOf(table);
+  const header = (headerRow || []).map(v => String(v ?? '').trim());
+  while (header.length > 0 && header[header.length - 1] === '') header.pop();
+  const ok = header.length >= requiredColumnCount(table) &&
+    header.length <= expected.length &&
+    header.every((h, i) => h === expected[i]);
+  if (!ok) {
+    console.error(`[Sheets] ${table} header mismatch`, { expected, actual: header });
+    throw new Error(`${table} ヘッダ不一致`);
+  }
+  return header.length;
+}
+
+function ensureSpreadsheetId() {
+  if (!SPREADSHEET_ID) {
+    throw new Error('SHEET_ID が未設定です');
+  }
+}
+
+/**
+ * シート全体を読み込み、行オブジェクトとシート上の行番号を返す
+ */
+async function loadTable(table) {
+  ensureSpreadsheetId();
+
+  const cacheKey = getSheetsKey(table, 'rows');
+  if (CACHE_TTL[table]) {
+    const cached = await getCache(cacheKey);
+    if (cached) return cached;
+  }
+
+  const sheets = await getSheetsClient(true);
+  // ★ FORMATTED_VALUE を使用して user_id の先頭ゼロを保持（例: 00002）
+  const resp = await sheets.spreadsheets.values.get({
+    spreadsheetId: SPREADSHEET_ID,
+    range: `${table}!A1:${lastColumn(table)}`,
+    valueRenderOption: 'FORMATTED_VALUE',
+  });
+  const values = resp.data.values || [];
+
+  // 空シート（ヘッダーのみ作成前）は空テーブルとして扱う
+  const width = values.length > 0 ? assertHeader(table, values[0]) : headerOf(table).length;
+
+  const header = headerOf(table).slice(0, width);
+  const rows = [];
+  values.slice(1).forEach((r, i) => {
+    if (!r || r.every(v => String(v ?? '').trim() === '')) return;
+    const raw = {};
+    header.forEach((col, c) => { raw[col] = r[c]; });
+    rows.push({ rowNumber: i + 2, row: coerceRow(table, raw) });
+  });
+
+  const result = { rows, width, nextRowNumber: values.length + 1 };
+  if (CACHE_TTL[table]) {
+    await setCache(cacheKey, result, CACHE_TTL[table]);
+  }
+  return result;
+}
+
+async function invalidate(table) {
+  if (CACHE_TTL[table]) {
+    await deleteCache(getSheetsKey(table, 'rows'));
+  }
+}
+
+// シートに無い任意列は書き込まない（既定値以外を書き込む場合は先に ensureColumns で列を追加する）
+function toSheetRow(table, row, width) {
+  return headerOf(table).slice(0, width).map(col => row[col]);
+}
+
+/**
+ * 書き込む行に、シートに無い任意列の値（読み込み時の既定値以外）があれば、ヘッダーに列を追加する
+ * SQL ドライバの ALTER TABLE ADD COLUMN に相当
+ * ★ 列を落として書き込むと role / mode / question_ids などが黙って失われるため、追加できない場合は書き込まずに失敗させる
+ * @returns {Promise<number>} 書き込み後のシート上の列数
+ */
+async function ensureColumns(table, width, rows) {
+  const header = headerOf(table);
+  const defaults = coerceRow(table, {});
+  const needed = rows.reduce((max, row) => {
+    const last = header.findLastIndex(col => row[col] !== undefined && row[col] !== defaults[col]);
+    return Math.max(max, last + 1);
+  }, width);
+  if (needed <= width) return width;
+
+  const missing = header.slice(width, needed);
+  try {
+    const sheets = await getSheetsClient(false);
+    await sheets.spreadsheets.values.update({
+      spreadsheetId: SPREADSHEET_ID,
+      range: `${table}!${columnLetter(width)}1:${columnLetter(needed - 1)}1`,
+      valueInputOption: 'RAW',
+      requestBody: { values: [missing] },
+    });
+  } catch (err) {
+    console.error(`[Sheets] ${table} failed to add columns`, { missing, message: err?.message });
+    throw new Error(`${table} シートに ${missing.join(', ')} 列がありません（列の追加に失敗しました）`);
+  }
+  console.info(`[Sheets] ${table} added columns`, { missing });
+  await invalidate(table);
+  return needed;
+}
+
+function hasOptionalColumns(table) {
+  return requiredColumnCount(table) < headerOf(table).length;
+}
+
+/**
+ * Sheets ストレージドライバを作成
+ */
+function createSheetsStore() {
+  // テーブル → シート上の列数（読み込み・列の追加のたびに更新）
+  // ★ 追加（回答ログなど）のたびに列数を知るためだけにシート全体を読まない
+  const widths = new Map();
+  const load = async (table) => {
+    const result = await loadTable(table);
+    widths.set(table, result.width);
+    return result;
+  };
+  const widthOf = async (table) => widths.get(table) ?? (await load(table)).width;
+  const addColumns = async (table, width, rows) => {
+    const newWidth = await ensureColumns(table, width, rows);
+    widths.set(table, newWidth);
+    return newWidth;
+  };
+
+  return {
+    kind: 'sheets',
+
+    async select(table, where) {
+      const { rows } = await load(table);
+      return rows.map(r => r.row).filter(row => matchesWhere(row, where));
+    },
+
+    async insert(table, row) {
+      ensureSpreadsheetId();
+      const data = coerceRow(table, row);
+      const width = hasOptionalColumns(table)
+        ? await addColumns(table, await widthOf(table), [data])
+        : headerOf(table).length;
+      const sheets = await getSheetsClient(false);
+      await sheets.spreadsheets.values.append({
+        spreadsheetId: SPREADSHEET_ID,
+        range: `${table}!A:${lastColumn(table)}`,
+        valueInputOption: VALUE_INPUT_OPTION[table] || 'RAW',
+        insertDataOption: 'INSERT_ROWS',
+        requestBody: { values: [toSheetRow(table, data, width)] },
+      });
+      await invalidate(table);
+      return data;
+    },
+
+    async update(table, where, patch) {
+      const { rows, width } = await load(table);
+      const targets = rows.filter(r => matchesWhere(r.row, where));
+      if (targets.length === 0) return 0;
+
+      const changes = coercePatch(table, patch);
+      const updated = targets.map(({ rowNumber, row }) => ({ rowNumber, row: { ...row, ...changes } }));
+      const newWidth = await addColumns(table, width, updated.map(u => u.row));
+      const sheets = await getSheetsClient(false);
+      await sheets.spreadsheets.values.batchUpdate({
+        spreadsheetId: SPREADSHEET_ID,
+        requestBody: {
+          valueInputOption: VALUE_INPUT_OPTION[table] || 'RAW',
+          data: updated.map(({ rowNumber, row }) => ({
+            range: `${table}!A${rowNumber}:${lastColumn(table)}${rowNumber}`,
+            values: [toSheetRow(table, row, newWidth)],
+          })),
+        },
+      });
+      await invalidate(table);
+      return targets.length;
+    },
+
+    // ★ 行を削除すると以降の行番号がずれるため、値を消して空行にする（空行は読み込み時に無視される）
+    async remove(table, where) {
+      const { rows } = await load(table);
+      const targets = rows.filter(r => matchesWhere(r.row, where));
+      if (targets.length === 0) return 0;
+
+      const sheets = await getSheetsClient(false);
+      await sheets.spreadsheets.values.batchClear({
+        spreadsheetId: SPREADSHEET_ID,
+        requestBody: {
+          ranges: targets.map(({ rowNumber }) => `${table}!A${rowNumber}:${lastColumn(table)}${rowNumber}`),
+        },
+      });
+      await invalidate(table);
+      return targets.length;
+    },
+  };
+}
+
+module.exports = {
+  createSheetsStore,
+  assertHeader,
+  HEADERS,
+  USERS_HEADER,
+  PARTS_HEADER,
+  QUESTIONS_HEADER,
+  ANSWERS_HEADER,
+  SCORES_HEADER,
+  SESSIONS_HEADER,
+  ATTEMPTS_HEADER,
+  PROGRESSION_RULES_HEADER,
+  APPROVALS_HEADER,
+  CLASSES_HEADER,
+  CLASS_MEMBERS_HEADER,
+  LOCKS_HEADER,
+};
@@ -0,0 +1,181 @@
+// backend/src/repositories/drivers/sql.js
+// SQLite / PostgreSQL 共通のストレージドライバ
+// ドライバ（better-sqlite3 / pg）は選択された場合のみ読み込む
+const fs = require('fs');
+const path = require('path');
+const { TABLES, getTable, coerceRow, coercePatch } = require('../schema');
+
+const SQL_TYPES = {
+  string: 'TEXT',
+  integer: 'INTEGER',
+  number: 'DOUBLE PRECISION',
+  boolean: 'BOOLEAN',
+};
+
+const quote = (name) => `"${String(name).replace(/"/g, '""')}"`;
+
+/**
+ * CREATE TABLE 文を生成
+ */
+function createTableSql(name) {
+  const { key, columns } = getTable(name);
+  const defs = columns.map(([col, type]) =>
+    `${quote(col)} ${SQL_TYPES[type]}${col === key ? ' PRIMARY KEY' : ''}`
+  );
+  return `CREATE TABLE IF NOT EXISTS ${quote(name)} (${defs.join(', ')})`;
+}
+
+/**
+ * where オブジェクトから WHERE 句とパラメータを生成（列名はスキーマで検証済みのもののみ）
+ */
+function whereClause(name, where = {}) {
+  const known = new Set(getTable(name).columns.map(([col]) => col));
+  const entries = Object.entries(where);
+  for (const [col] of entries) {
+    if (!known.has(col)) {
+      throw new Error(`Unknown column: ${name}.${col}`);
+    }
+  }
+  if (entries.length === 0) return { sql: '', params: [] };
+  return {
+    sql: ' WHERE ' + entries.map(([col]) => `${quote(col)} = ?`).join(' AND '),
+    params: entries.map(([, value]) => value),
+  };
+}
+
+/* ---------- 接続 ---------- */
+
+function connectSqlite(filename) {
+  const Database = require('better-sqlite3');
+  fs.mkdirSync(path.dirname(filename), { recursive: true });
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+
+  // better-sqlite3 は boolean をバインドできないため 0/1 に変換
+  const bind = (params) => params.map(v => (typeof v === 'boolean' ? (v ? 1 : 0) : v));
+
+  return {
+    async all(sql, params = []) {
+      return db.prepare(sql).all(...bind(params));
+    },
+    async run(sql, params = []) {
+      return db.prepare(sql).run(...bind(params)).changes;
+    },
+    async exec(sql) {
+      db.exec(sql);
+    },
+    async columns(table) {
+      return db.prepare(`PRAGMA table_info(${quote(table)})`).all().map(c => c.name);
+    },
+  };
+}
+
+function connectPostgres(connectionString) {
+  const { Pool } = require('pg');
+  const pool = new Pool({ connectionString });
+
+  // ? プレースホルダを $1, $2 ... に変換
+  const toPg = (sql) => {
+    let i = 0;
+    return sql.replace(/\?/g, () => `$${++i}`);
+  };
+
+  return {
+    async all(sql, params = []) {
+      const result = await pool.query(toPg(sql), params);
+      return result.rows;
+    },
+    async run(sql, params = []) {
+      const result = await pool.query(toPg(sql), params);
+      return result.rowCount;
+    },
+    async exec(sql) {
+      await pool.query(sql);
+    },
+    async columns(table) {
+      const result = await pool.query(
+        'SELECT column_name FROM information_schema.columns WHERE table_name = $1',
+        [table]
+      );
+      return result.rows.map(r => r.column_name);
+    },
+  };
+}
+
+/**
+ * SQL ストレージドライバを作成
+ * @param {Object} options - { client: 'sqlite' | 'postgres', filename, connectionString }
+ */
+function createSqlStore(options = {}) {
+  const client = options.client || 'sqlite';
+  const conn = client === 'postgres'
+    ? connectPostgres(options.connectionString)
+    : connectSqlite(options.filename);
+
+  // 初回アクセス時にテーブルを作成（既存テーブルには後から追加された列を足す）
+  let ready = null;
+  const migrate = () => {
+    if (!ready) {
+      ready = (async () => {
+        for (const name of Object.keys(TABLES)) {
+          await conn.exec(createTableSql(name));
+          const existing = new Set(await conn.columns(name));
+          for (const [col, type] of getTable(name).columns) {
+            if (!existing.has(col)) {
+              await conn.exec(`ALTER TABLE ${quote(name)} ADD COLUMN ${quote(col)} ${SQL_TYPES[type]}`);
+              console.log(`[SQL] Added column ${name}.${col}`);
+            }
+          }
+        }
+        console.log(`[SQL] Schema ready (${client})`);
+      })();
+    }
+    return ready;
+  };
+
+  return {
+    kind: client,
+
+    async select(table, where) {
+      await migrate();
+      const w = whereClause(table, where);
+      const { key } = getTable(table);
+      const rows = await conn.all(`SELECT * FROM ${quote(table)}${w.sql} ORDER BY ${quote(key)}`, w.params);
+      return rows.map(row => coerceRow(table, row));
+    },
+
+    async insert(table, row) {
+      await migrate();
+      const data = coerceRow(table, row);
+      const cols = Object.keys(data);
+      await conn.run(
+        `INSERT INTO ${quote(table)} (${cols.map(quote).join(', ')}) VALUES (${cols.map(() => '?').join(', ')})`,
+        cols.map(c => data[c])
+      );
+      return data;
+    },
+
+    async update(table, where, patch) {
+      await migrate();
+      const changes = coercePatch(table, patch);
+      const cols = Object.keys(changes);
+      if (cols.length === 0) return 0;
+      const w = whereClause(table, where);
+      return conn.run(
+        `UPDATE ${quote(table)} SET ${cols.map(c => `${quote(c)} = ?`).join(', ')}${w.sql}`,
+        [...cols.map(c => changes[c]), ...w.params]
+      );
+    },
+
+    async remove(table, where) {
+      await migrate();
+      const w = whereClause(table, where);
+      return conn.run(`DELETE FROM ${quote(table)}${w.sql}`, w.params);
+    },
+  };
+}
+
+module.exports = {
+  createSqlStore,
+  createTableSql,
+};
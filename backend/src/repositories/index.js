@@ -0,0 +1,99 @@
+// backend/src/repositories/index.js
+// ストレージ層のエントリポイント
+// STORAGE_BACKEND 環境変数でドライバを選択する
+//   sheets   : Google Sheets（デフォルト）
+//   sqlite   : SQLite ファイル（SQLITE_PATH）
+//   postgres : PostgreSQL（DATABASE_URL）
+//   memory   : プロセス内メモリ（MEMORY_SEED_PATH から初期データを読み込み可能）
+const path = require('path');
+const { createSheetsStore } = require('./drivers/sheets');
+const { createMemoryStore, loadSeed } = require('./drivers/memory');
+const { createUsersRepository } = require('./users');
+const { createPartsRepository } = require('./parts');
+const { createQuestionsRepository } = require('./questions');
+const { createAnswersRepository } = require('./answers');
+const { createScoresRepository } = require('./scores');
+const { createSessionsRepository } = require('./sessions');
+const { createAttemptsRepository } = require('./attempts');
+const { createProgressionRulesRepository } = require('./progressionRules');
+const { createApprovalsRepository } = require('./approvals');
+const { createPartLocksRepository } = require('./partLocks');
+const { createClassesRepository } = require('./classes');
+
+/**
+ * ストレージドライバからリポジトリ一式を作成
+ * @param {Object} store - select / insert / update / remove を持つストレージドライバ
+ */
+function createRepository(store) {
+  return {
+    kind: store.kind,
+    users: createUsersRepository(store),
+    parts: createPartsRepository(store),
+    questions: createQuestionsRepository(store),
+    answers: createAnswersRepository(store),
+    scores: createScoresRepository(store),
+    sessions: createSessionsRepository(store),
+    attempts: createAttemptsRepository(store),
+    progressionRules: createProgressionRulesRepository(store),
+    approvals: createApprovalsRepository(store),
+    partLocks: createPartLocksRepository(store),
+    classes: createClassesRepository(store),
+  };
+}
+
+/**
+ * 環境変数からストレージドライバを作成
+ */
+function createStoreFromEnv(env = process.env) {
+  const backend = String(env.STORAGE_BACKEND || 'sheets').toLowerCase();
+
+  switch (backend) {
+    case 'sheets':
+      return createSheetsStore();
+    case 'sqlite': {
+      const { createSqlStore } = require('./drivers/sql');
+      return createSqlStore({
+        client: 'sqlite',
+        filename: env.SQLITE_PATH || path.join(__dirname, '../../data/game.db'),
+      });
+    }
+    case 'postgres': {
+      if (!env.DATABASE_URL) {
+        throw new Error('DATABASE_URL が未設定です');
+      }
+      const { createSqlStore } = require('./drivers/sql');
+      return createSqlStore({ client: 'postgres', connectionString: env.DATABASE_URL });
+    }
+    case 'memory':
+      return createMemoryStore(loadSeed(env.MEMORY_SEED_PATH));
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND: ${backend}`);
+  }
+}
+
+let repository = null;
+
+/**
+ * アプリ全体で共有するリポジトリを取得（初回呼び出し時に作成）
+ */
+function getRepository() {
+  if (!repository) {
+    repository = createRepository(createStoreFromEnv());
+    console.log(`[Repository] Using storage backend: ${repository.kind}`);
+  }
+  return repository;
+}
+
+/**
+ * 共有リポジトリを差し替える（テストでメモリストアを注入する場合など）
+ */
+function setRepository(repo) {
+  repository = repo;
+}
+
+module.exports = {
+  createRepository,
+  createStoreFromEnv,
+  getRepository,
+  setRepository,
+};
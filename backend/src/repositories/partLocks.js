@@ -0,0 +1,54 @@
+// backend/src/repositories/partLocks.js
+// part_locks テーブル（先生によるパートのロック・解放・上限）のリポジトリ
+const crypto = require('crypto');
+const { nowTS } = require('../utils/time');
+
+/**
+ * partLocks リポジトリを作成
+ * @param {Object} store - ストレージドライバ
+ */
+function createPartLocksRepository(store) {
+  return {
+    /**
+     * 設定を 学年 → パート → サブパート の順で取得（条件は lock_id / scope / target / kind の AND）
+     */
+    async list(where = {}) {
+      const rows = await store.select('part_locks', where);
+      return rows.sort((a, b) =>
+        (a.grade_id - b.grade_id) || (a.part_no - b.part_no) || (a.subpart_no - b.subpart_no) ||
+        a.created_at.localeCompare(b.created_at)
+      );
+    },
+
+    /**
+     * 設定を追加（lock_id はランダムな UUID）
+     * @param {Object} input - { scope, target, kind, grade_id, part_no, subpart_no, expires_at, note, created_by }
+     */
+    async create({ scope, target = '', kind, grade_id, part_no = 0, subpart_no = 0, expires_at = '', note = '', created_by }) {
+      return store.insert('part_locks', {
+        lock_id: crypto.randomUUID(),
+        scope,
+        target: String(target),
+        kind,
+        grade_id,
+        part_no,
+        subpart_no,
+        expires_at,
+        note,
+        created_by: String(created_by),
+        created_at: nowTS(),
+      });
+    },
+
+    /**
+     * 設定を削除
+     * @returns {Promise<boolean>} 削除できたか
+     */
+    async remove(lockId) {
+      const count = await store.remove('part_locks', { lock_id: String(lockId) });
+      return count > 0;
+    },
+  };
+}
+
+module.exports = { createPartLocksRepository };
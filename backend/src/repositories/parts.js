@@ -0,0 +1,74 @@
+// backend/src/repositories/parts.js
+// parts テーブルのリポジトリ
+
+const byPosition = (a, b) =>
+  (a.grade_id - b.grade_id) || (a.part_no - b.part_no) || (a.subpart_no - b.subpart_no);
+
+/**
+ * parts リポジトリを作成
+ * @param {Object} store - ストレージドライバ
+ */
+function createPartsRepository(store) {
+  return {
+    /**
+     * 全パートを grade → part → subpart 順で取得
+     */
+    async list() {
+      const rows = await store.select('parts');
+      return rows.sort(byPosition);
+    },
+
+    /**
+     * part_id でパートを取得
+     */
+    async findById(partId) {
+      const rows = await store.select('parts', { part_id: String(partId) });
+      return rows[0] || null;
+    },
+
+    /**
+     * grade / part / subpart の組み合わせでパートを取得
+     */
+    async findByPosition(grade, part, subpart) {
+      const rows = await store.select('parts', {
+        grade_id: Number(grade),
+        part_no: Number(part),
+        subpart_no: Number(subpart),
+      });
+      return rows[0] || null;
+    },
+
+    /**
+     * パートを追加（part_id 省略時は part_{grade}_{part}_{subpart}）
+     * @param {Object} input - { part_id, grade_id, part_no, subpart_no, requirement, match_config, question_count, correct_to_clear, time_limit, shuffle }
+     */
+    async create(input) {
+      return store.insert('parts', {
+        match_config: '',
+        ...input,
+        part_id: input.part_id || `part_${input.grade_id}_${input.part_no}_${input.subpart_no}`,
+      });
+    },
+
+    /**
+     * パートを更新（part_id は変更しない）
+     * @returns {Promise<boolean>} 更新できたか
+     */
+    async update(partId, patch) {
+      const { part_id: _ignored, ...changes } = patch;
+      const count = await store.update('parts', { part_id: String(partId) }, changes);
+      return count > 0;
+    },
+
+    /**
+     * パートを削除
+     * @returns {Promise<boolean>} 削除できたか
+     */
+    async remove(partId) {
+      const count = await store.remove('parts', { part_id: String(partId) });
+      return count > 0;
+    },
+  };
+}
+
+module.exports = { createPartsRepository, byPosition };
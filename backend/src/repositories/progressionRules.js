@@ -0,0 +1,60 @@
+// backend/src/repositories/progressionRules.js
+// progression_rules テーブル（進級ルール）のリポジトリ
+const { nowTS } = require('../utils/time');
+
+/**
+ * 学年・パートから rule_id を作る（0 は「すべて」）
+ */
+function ruleIdOf(gradeId, partNo) {
+  if (!gradeId) return 'default';
+  return partNo ? `g${gradeId}p${partNo}` : `g${gradeId}`;
+}
+
+/**
+ * progressionRules リポジトリを作成
+ * @param {Object} store - ストレージドライバ
+ */
+function createProgressionRulesRepository(store) {
+  return {
+    /**
+     * 全ルールを 全体 → 学年 → パート の順で取得
+     */
+    async list() {
+      const rows = await store.select('progression_rules');
+      return rows.sort((a, b) => (a.grade_id - b.grade_id) || (a.part_no - b.part_no));
+    },
+
+    /**
+     * パートに適用するルールを取得（パート → 学年 → 全体 の順で最初に見つかったもの）
+     * @returns {Promise<Object|null>} 設定が無ければ null
+     */
+    async findForPart(gradeId, partNo) {
+      const rows = await store.select('progression_rules');
+      const byId = new Map(rows.map(r => [r.rule_id, r]));
+      return byId.get(ruleIdOf(gradeId, partNo)) || byId.get(ruleIdOf(gradeId, 0)) || byId.get('default') || null;
+    },
+
+    /**
+     * ルールを保存（同じ学年・パートのルールがあれば置き換える）
+     * @param {Object} input - { grade_id, part_no, rules, updated_by }（rules は JSON 文字列）
+     */
+    async save({ grade_id, part_no, rules, updated_by }) {
+      const rule_id = ruleIdOf(grade_id, part_no);
+      const row = { rule_id, grade_id: grade_id || 0, part_no: grade_id ? part_no || 0 : 0, rules, updated_by, updated_at: nowTS() };
+      const count = await store.update('progression_rules', { rule_id }, row);
+      if (count === 0) await store.insert('progression_rules', row);
+      return row;
+    },
+
+    /**
+     * ルールを削除
+     * @returns {Promise<boolean>} 削除できたか
+     */
+    async remove(ruleId) {
+      const count = await store.remove('progression_rules', { rule_id: String(ruleId) });
+      return count > 0;
+    },
+  };
+}
+
+module.exports = { createProgressionRulesRepository, ruleIdOf };
@@ -0,0 +1,95 @@
+// backend/src/repositories/questions.js
+// questions テーブルのリポジトリ
+
+// image_variants（JSON 文字列）を配列に復元（壊れている場合は空配列）
+function parseVariants(value) {
+  try {
+    const parsed = JSON.parse(value || '[]');
+    return Array.isArray(parsed) ? parsed.filter(v => v && v.url) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 保存済みの行を API 向けの形に戻す（image_variants を配列に復元）
+ */
+function toQuestion(row) {
+  return { ...row, image_variants: parseVariants(row.image_variants) };
+}
+
+// image_variants は JSON 文字列で保存
+function toRow(input) {
+  if (input.image_variants === undefined) return input;
+  return { ...input, image_variants: JSON.stringify(input.image_variants || []) };
+}
+
+/**
+ * questions リポジトリを作成
+ * @param {Object} store - ストレージドライバ
+ */
+function createQuestionsRepository(store) {
+  return {
+    /**
+     * 全問題を取得（教材のエクスポート用）
+     */
+    async list() {
+      const rows = await store.select('questions');
+      return rows.map(toQuestion);
+    },
+
+    /**
+     * パートの問題を display_order 順で取得
+     */
+    async listByPart(partId) {
+      const rows = await store.select('questions', { part_id: String(partId) });
+      return rows.sort((a, b) => a.display_order - b.display_order).map(toQuestion);
+    },
+
+    /**
+     * question_id で問題を取得
+     */
+    async findById(questionId) {
+      const rows = await store.select('questions', { question_id: String(questionId) });
+      return rows[0] ? toQuestion(rows[0]) : null;
+    },
+
+    /**
+     * 問題を追加
+     * @param {Object} input - { question_id, part_id, display_order, is_demo, question_text, image_url, match_config, image_variants }
+     */
+    async create(input) {
+      const saved = await store.insert('questions', toRow({
+        image_url: '',
+        match_config: '',
+        image_variants: [],
+        ...input,
+        question_id: String(input.question_id),
+        part_id: String(input.part_id),
+      }));
+      return toQuestion(saved);
+    },
+
+    /**
+     * 問題を更新（question_id は変更しない）
+     * @param {Object} patch - image_variants は [{ width, url }] の配列
+     * @returns {Promise<boolean>} 更新できたか
+     */
+    async update(questionId, patch) {
+      const { question_id: _ignored, ...changes } = patch;
+      const count = await store.update('questions', { question_id: String(questionId) }, toRow(changes));
+      return count > 0;
+    },
+
+    /**
+     * 問題を削除
+     * @returns {Promise<boolean>} 削除できたか
+     */
+    async remove(questionId) {
+      const count = await store.remove('questions', { question_id: String(questionId) });
+      return count > 0;
+    },
+  };
+}
+
+module.exports = { createQuestionsRepository };
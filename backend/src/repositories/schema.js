@@ -0,0 +1,287 @@
+// backend/src/repositories/schema.js
+// ストレージ共通のテーブル定義
+// 列の順序は Google Sheets のヘッダー順と一致させること
+
+/**
+ * テーブル定義
+ * columns: [列名, 型, オプション] の配列（型: 'string' | 'integer' | 'number' | 'boolean'）
+ *   オプション { optional: true } の列は後から追加した列で、既存のシートに無くてもよい（末尾にまとめること）
+ * key: 主キー列
+ */
+const TABLES = {
+  users: {
+    key: 'user_id',
+    columns: [
+      ['id', 'integer'],
+      ['user_id', 'string'],
+      ['password', 'string'],
+      ['nickname', 'string'],
+      ['real_name', 'string'],
+      ['current_grade', 'integer'],
+      ['current_part', 'integer'],
+      ['current_subpart', 'integer'],
+      ['is_admin', 'boolean'],
+      ['created_at', 'string'],
+      ['updated_at', 'string'],
+      // 'student' | 'teacher'（担当クラスの生徒だけを管理） | 'admin'（すべてを管理）
+      // 空の場合は is_admin から決める（TRUE は admin、FALSE は student）
+      ['role', 'string', { optional: true }],
+    ],
+  },
+  parts: {
+    key: 'part_id',
+    columns: [
+      ['part_id', 'string'],
+      ['grade_id', 'integer'],
+      ['part_no', 'integer'],
+      ['subpart_no', 'integer'],
+      ['requirement', 'string'],
+      ['match_config', 'string', { optional: true }],
+      // 空（0）の場合は既定値（content/rules.js の partSettings）
+      ['question_count', 'integer', { optional: true }],
+      ['correct_to_clear', 'integer', { optional: true }],
+      ['time_limit', 'integer', { optional: true }],
+      // true の場合、デモ以外の問題をプレイごとに並べ替えて出題する
+      ['shuffle', 'boolean', { optional: true }],
+    ],
+  },
+  questions: {
+    key: 'question_id',
+    columns: [
+      ['question_id', 'string'],
+      ['part_id', 'string'],
+      ['display_order', 'integer'],
+      ['is_demo', 'boolean'],
+      ['question_text', 'string'],
+      ['image_url', 'string'],
+      ['match_config', 'string', { optional: true }],
+      ['image_variants', 'string', { optional: true }],
+    ],
+  },
+  answer_patterns: {
+    key: 'id',
+    columns: [
+      ['id', 'integer'],
+      ['question_id', 'string'],
+      ['expected_text', 'string'],
+      ['match_config', 'string', { optional: true }],
+    ],
+  },
+  scores: {
+    key: 'score_id',
+    columns: [
+      ['score_id', 'integer'],
+      ['user_id', 'string'],
+      ['part_id', 'string'],
+      ['scores', 'number'],
+      ['clear', 'boolean'],
+      ['play_date', 'string'],
+      // 回答方法 'voice'（音声） | 'typed'（キーボード）。空は voice として扱う
+      ['input_mode', 'string', { optional: true }],
+      // 'play'（通常） | 'practice'（練習。進級・挑戦回数のランキングに使わない）。空は play として扱う
+      ['mode', 'string', { optional: true }],
+    ],
+  },
+  // 1回のプレイ（正誤判定と集計はサーバー側で行う）
+  // status: 'active'（プレイ中） | 'finished'（scores に記録済み）
+  // mode: 'play'（パートのプレイ。空は play として扱う） | 'practice'（練習。scores に mode: practice で記録）
+  //       | 'review'（復習。part_id は空で、scores には記録しない）
+  // question_ids は出題した問題の question_id の配列（出題順。JSON 文字列）
+  play_sessions: {
+    key: 'session_id',
+    columns: [
+      ['session_id', 'string'],
+      ['user_id', 'string'],
+      ['part_id', 'string'],
+      ['status', 'string'],
+      ['correct', 'integer'],
+      ['total', 'integer'],
+      ['clear', 'boolean'],
+      ['score_id', 'integer'],
+      ['started_at', 'string'],
+      ['finished_at', 'string'],
+      ['input_mode', 'string', { optional: true }],
+      ['mode', 'string', { optional: true }],
+      ['question_ids', 'string', { optional: true }],
+    ],
+  },
+  // 1回のプレイ（session_id）内の回答ごとの記録
+  // transcripts は認識結果の配列を JSON 文字列で保持
+  // pronunciation は answers[0] との発音スコア（0〜100）、word_diff は単語ごとの対応付け（JSON 文字列）
+  attempts: {
+    key: 'attempt_id',
+    columns: [
+      ['attempt_id', 'string'],
+      ['session_id', 'string'],
+      ['user_id', 'string'],
+      ['part_id', 'string'],
+      ['question_id', 'string'],
+      ['attempt_no', 'integer'],
+      ['result', 'string'],
+      ['transcripts', 'string'],
+      ['matched_answer', 'string'],
+      ['levenshtein', 'number'],
+      ['jaccard', 'number'],
+      ['time_ms', 'integer'],
+      ['created_at', 'string'],
+      ['confidence', 'number', { optional: true }],
+      ['pronunciation', 'number', { optional: true }],
+      ['word_diff', 'string', { optional: true }],
+    ],
+  },
+  // 進級ルール（/game/advance で次のパートに進む条件。src/progression/ を参照）
+  // rule_id: 'default'（全体） | 'g{学年}'（学年） | 'g{学年}p{パート}'（パート。サブパートすべて）
+  // grade_id / part_no の 0 は「すべて」。rules は { mode, rules } の JSON 文字列
+  progression_rules: {
+    key: 'rule_id',
+    columns: [
+      ['rule_id', 'string'],
+      ['grade_id', 'integer'],
+      ['part_no', 'integer'],
+      ['rules', 'string'],
+      ['updated_by', 'string'],
+      ['updated_at', 'string'],
+    ],
+  },
+  // 先生（管理者）による進級の承認（進級ルールの approval で使用）
+  part_approvals: {
+    key: 'approval_id',
+    columns: [
+      ['approval_id', 'string'],
+      ['user_id', 'string'],
+      ['part_id', 'string'],
+      ['approved_by', 'string'],
+      ['created_at', 'string'],
+    ],
+  },
+  // クラス（先生の担当と生徒の所属。src/classes/ を参照）
+  classes: {
+    key: 'class_id',
+    columns: [
+      ['class_id', 'string'],
+      ['name', 'string'],
+      ['created_by', 'string'],
+      ['created_at', 'string'],
+    ],
+  },
+  // クラスの所属（role: 'student'（生徒） | 'teacher'（担当の先生））
+  class_members: {
+    key: 'member_id',
+    columns: [
+      ['member_id', 'string'],
+      ['class_id', 'string'],
+      ['user_id', 'string'],
+      ['role', 'string'],
+      ['created_at', 'string'],
+    ],
+  },
+  // 先生によるパートのロック・解放・上限（src/progression/access.js を参照）
+  // scope: 'all'（全員） | 'class'（target の class_id のクラスの生徒） | 'user'（target の user_id の生徒）
+  // kind: 'lock'（ロック） | 'unlock'（進捗に関係なく解放） | 'ceiling'（この位置より先をロック）
+  // part_no / subpart_no の 0 は「すべて」。expires_at が空なら期限なし
+  part_locks: {
+    key: 'lock_id',
+    columns: [
+      ['lock_id', 'string'],
+      ['scope', 'string'],
+      ['target', 'string'],
+      ['kind', 'string'],
+      ['grade_id', 'integer'],
+      ['part_no', 'integer'],
+      ['subpart_no', 'integer'],
+      ['expires_at', 'string'],
+      ['note', 'string'],
+      ['created_by', 'string'],
+      ['created_at', 'string'],
+    ],
+  },
+};
+
+/**
+ * テーブル定義を取得（未定義のテーブル名はエラー）
+ */
+function getTable(name) {
+  const table = TABLES[name];
+  if (!table) {
+    throw new Error(`Unknown table: ${name}`);
+  }
+  return table;
+}
+
+/**
+ * テーブルの列名一覧を取得
+ */
+function columnNames(name) {
+  return getTable(name).columns.map(([col]) => col);
+}
+
+/**
+ * 必須列（optional でない列）の数
+ */
+function requiredColumnCount(name) {
+  return getTable(name).columns.filter(([, , opts]) => !opts?.optional).length;
+}
+
+/**
+ * 値を列の型に変換する
+ * ストレージごとの表現差（"TRUE" / 1 / true など）を吸収する
+ */
+function coerceValue(type, value) {
+  if (value === undefined || value === null) {
+    return type === 'boolean' ? false : type === 'string' ? '' : 0;
+  }
+  switch (type) {
+    case 'integer':
+    case 'number': {
+      const n = Number(String(value).replace(/,/g, ''));
+      if (!Number.isFinite(n)) return 0;
+      return type === 'integer' ? Math.trunc(n) : n;
+    }
+    case 'boolean':
+      return value === true || value === 1 || ['true', '1'].includes(String(value).trim().toLowerCase());
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * 行オブジェクトを列定義に従って正規化する（未知の列は捨てる）
+ */
+function coerceRow(name, raw) {
+  const row = {};
+  for (const [col, type] of getTable(name).columns) {
+    row[col] = coerceValue(type, raw?.[col]);
+  }
+  return row;
+}
+
+/**
+ * 部分更新用: patch に含まれる列だけを型変換する
+ */
+function coercePatch(name, patch) {
+  const out = {};
+  for (const [col, type] of getTable(name).columns) {
+    if (patch && Object.prototype.hasOwnProperty.call(patch, col)) {
+      out[col] = coerceValue(type, patch[col]);
+    }
+  }
+  return out;
+}
+
+/**
+ * where 条件（列 = 値 の AND）に行が一致するか
+ */
+function matchesWhere(row, where = {}) {
+  return Object.entries(where).every(([col, value]) => String(row[col]) === String(value));
+}
+
+module.exports = {
+  TABLES,
+  getTable,
+  columnNames,
+  requiredColumnCount,
+  coerceValue,
+  coerceRow,
+  coercePatch,
+  matchesWhere,
+};
@@ -0,0 +1,64 @@
+// backend/src/repositories/scores.js
+// scores テーブルのリポジトリ
+const { nowTS } = require('../utils/time');
+
+/**
+ * scores リポジトリを作成
+ * @param {Object} store - ストレージドライバ
+ */
+function createScoresRepository(store) {
+  return {
+    /**
+     * 全スコアを取得
+     */
+    async list() {
+      return store.select('scores');
+    },
+
+    /**
+     * ユーザーのスコアを記録順で取得
+     */
+    async listByUser(userId) {
+      const rows = await store.select('scores', { user_id: String(userId) });
+      return rows.sort((a, b) => a.score_id - b.score_id);
+    },
+
+    /**
+     * ユーザーの指定パートのスコアを記録順で取得
+     */
+    async listByUserPart(userId, partId) {
+      const rows = await store.select('scores', { user_id: String(userId), part_id: String(partId) });
+      return rows.sort((a, b) => a.score_id - b.score_id);
+    },
+
+    /**
+     * ユーザーの指定パートへの挑戦回数（練習は数えない）
+     */
+    async countAttempts(userId, partId) {
+      const rows = await this.listByUserPart(userId, partId);
+      return rows.filter(r => r.mode !== 'practice').length;
+    },
+
+    /**
+     * スコアを追加（score_id は自動採番、play_date は現在時刻）
+     * @param {Object} input - { user_id, part_id, scores, clear, input_mode, mode }
+     */
+    async add({ user_id, part_id, scores, clear, input_mode = 'voice', mode = 'play' }) {
+      const rows = await store.select('scores');
+      const nextId = rows.reduce((max, r) => Math.max(max, Number(r.score_id) || 0), 0) + 1;
+
+      return store.insert('scores', {
+        score_id: nextId,
+        user_id: String(user_id),
+        part_id: String(part_id),
+        scores,
+        clear,
+        play_date: nowTS(),
+        input_mode,
+        mode,
+      });
+    },
+  };
+}
+
+module.exports = { createScoresRepository };
@@ -0,0 +1,87 @@
+// backend/src/repositories/sessions.js
+// play_sessions テーブル（1回のプレイ）のリポジトリ
+const crypto = require('crypto');
+const { nowTS } = require('../utils/time');
+
+/**
+ * sessions リポジトリを作成
+ * @param {Object} store - ストレージドライバ
+ */
+function createSessionsRepository(store) {
+  return {
+    /**
+     * session_id でセッションを取得
+     * @returns {Promise<Object|null>}
+     */
+    async findById(sessionId) {
+      const rows = await store.select('play_sessions', { session_id: String(sessionId) });
+      return rows[0] || null;
+    },
+
+    /**
+     * ユーザーの終了済みプレイを終了順で取得（練習・復習を含む。mode で区別する）
+     */
+    async listFinishedByUser(userId) {
+      const rows = await store.select('play_sessions', { user_id: String(userId), status: 'finished' });
+      return rows.sort((a, b) => a.finished_at.localeCompare(b.finished_at));
+    },
+
+    /**
+     * 全ユーザーの終了済みプレイを取得（練習・復習を含む。mode で区別する）
+     */
+    async listAllFinished() {
+      return store.select('play_sessions', { status: 'finished' });
+    },
+
+    /**
+     * ユーザーの指定パートの終了済みプレイを終了順で取得（練習を含む。mode で区別する）
+     */
+    async listFinished(userId, partId) {
+      const rows = await store.select('play_sessions', {
+        user_id: String(userId),
+        part_id: String(partId),
+        status: 'finished',
+      });
+      return rows.sort((a, b) => a.finished_at.localeCompare(b.finished_at));
+    },
+
+    /**
+     * プレイ開始（session_id はランダムな UUID）
+     * @param {Object} input - { user_id, part_id, total, input_mode, mode, question_ids }
+     */
+    async start({ user_id, part_id, total, input_mode = 'voice', mode = 'play', question_ids = [] }) {
+      return store.insert('play_sessions', {
+        session_id: crypto.randomUUID(),
+        user_id: String(user_id),
+        part_id: String(part_id),
+        status: 'active',
+        correct: 0,
+        total,
+        clear: false,
+        score_id: 0,
+        started_at: nowTS(),
+        finished_at: '',
+        input_mode,
+        mode,
+        question_ids: JSON.stringify(question_ids),
+      });
+    },
+
+    /**
+     * プレイ終了（集計結果と scores の score_id を記録）
+     * @param {Object} result - { correct, clear, score_id }
+     */
+    async finish(sessionId, { correct, clear, score_id }) {
+      const count = await store.update('play_sessions', { session_id: String(sessionId) }, {
+        status: 'finished',
+        correct,
+        clear,
+        score_id,
+        finished_at: nowTS(),
+      });
+      return count > 0;
+    },
+  };
+}
+
+module.exports = { createSessionsRepository };
@@ -0,0 +1,76 @@
+// backend/src/repositories/users.js
+// users テーブルのリポジトリ
+
+/**
+ * users リポジトリを作成
+ * @param {Object} store - ストレージドライバ
+ */
+function createUsersRepository(store) {
+  return {
+    /**
+     * 全ユーザーを取得（登録順）
+     */
+    async list() {
+      return store.select('users');
+    },
+
+    /**
+     * user_id でユーザーを取得
+     * @returns {Promise<Object|null>}
+     */
+    async findByUserId(userId) {
+      const rows = await store.select('users', { user_id: String(userId) });
+      return rows[0] || null;
+    },
+
+    /**
+     * ユーザーを新規作成（id と user_id は自動採番）
+     * @param {Object} input - { password, nickname, real_name }
+     */
+    async create({ password, nickname, real_name }) {
+      const rows = await store.select('users');
+
+      // 次のIDとuser_idを計算
+      let nextId = 1;
+      let nextUserId = '00001';
+
+      if (rows.length > 0) {
+        const lastId = rows.reduce((max, r) => Math.max(max, Number(r.id) || 0), 0);
+        nextId = lastId + 1;
+        nextUserId = String(nextId).padStart(5, '0');
+
+        // 最上位桁が0の場合、1にする
+        if (nextUserId[0] === '0') {
+          nextUserId = '1' + nextUserId.slice(1);
+        }
+      }
+
+      const timestamp = new Date().toISOString();
+      return store.insert('users', {
+        id: nextId,
+        user_id: nextUserId,
+        password,
+        nickname,
+        real_name,
+        current_grade: 1,
+        current_part: 1,
+        current_subpart: 1,
+        is_admin: false,
+        created_at: timestamp,
+        updated_at: timestamp,
+      });
+    },
+
+    /**
+     * ユーザー情報を部分更新（updated_at は未指定なら現在時刻）
+     * @returns {Promise<boolean>} 更新対象が存在した場合はtrue
+     */
+    async update(userId, patch) {
+      const changes = { updated_at: new Date().toISOString(), ...patch };
+      const count = await store.update('users', { user_id: String(userId) }, changes);
+      return count > 0;
+    },
+  };
+}
+
+module.exports = { createUsersRepository };
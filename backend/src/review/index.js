@@ -0,0 +1,107 @@
+// backend/src/review/index.js
+// 復習モード（クリア済みのパートで間違えた問題を、間隔を空けて出題する）
+// 問題ごとの回答ログ（attempts）から次に復習する日を決める
+//   - 1 回のプレイでの結果: 不正解・時間切れが 1 度でもあれば「間違えた」、無ければ「覚えていた」（言い直しは数えない）
+//   - 間違えるとレベル 0 に戻り、その後覚えていたプレイごとにレベルが 1 つ上がる
+//   - 次の復習は最後のプレイから REVIEW_INTERVAL_DAYS[レベル] 日後（レベル 0 はすぐ）
+//   - 一度も間違えていない問題は対象外
+const { parseTS } = require('../utils/time');
+
+const REVIEW_INTERVAL_DAYS = [0, 1, 3, 7, 14, 30];
+
+// 1 回の復習の問題数（デモは無し）
+const REVIEW_QUESTION_COUNT = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 回答ログを「プレイ × 問題」ごとの結果にまとめ、問題ごとに古い順で返す
+ * @returns {Map<string, Array<{ part_id: string, missed: boolean, at: number }>>} question_id → 結果
+ */
+function outcomesByQuestion(attempts) {
+  const byPlay = new Map();
+  for (const a of attempts) {
+    if (a.result === 'unclear') continue;
+    const key = `${a.session_id}:${a.question_id}`;
+    const entry = byPlay.get(key)
+      ?? byPlay.set(key, { question_id: a.question_id, part_id: a.part_id, missed: false, at: 0 }).get(key);
+    if (a.result === 'wrong' || a.result === 'timeout') entry.missed = true;
+    entry.at = Math.max(entry.at, parseTS(a.created_at) || 0);
+  }
+
+  const byQuestion = new Map();
+  for (const { question_id, ...outcome } of byPlay.values()) {
+    (byQuestion.get(question_id) ?? byQuestion.set(question_id, []).get(question_id)).push(outcome);
+  }
+  for (const list of byQuestion.values()) {
+    list.sort((a, b) => a.at - b.at);
+  }
+  return byQuestion;
+}
+
+/**
+ * 1 問の復習スケジュール
+ * @param {Array<{ missed: boolean, at: number }>} outcomes - 古い順
+ * @returns {{ level: number, lapses: number, last_at: number, due_at: number } | null} 間違えたことが無い場合は null
+ */
+function scheduleOf(outcomes) {
+  let level = 0;
+  let lapses = 0;
+  for (const o of outcomes) {
+    if (o.missed) {
+      level = 0;
+      lapses++;
+    } else if (lapses > 0) {
+      level = Math.min(level + 1, REVIEW_INTERVAL_DAYS.length - 1);
+    }
+  }
+  if (lapses === 0) return null;
+  const last_at = outcomes[outcomes.length - 1].at;
+  return { level, lapses, last_at, due_at: last_at + REVIEW_INTERVAL_DAYS[level] * DAY_MS };
+}
+
+/**
+ * ユーザーの復習スケジュール（クリア済みのパートで、間違えたことのある問題）
+ * 復習の時期が来た問題を優先度の高い順に並べる（間違えた回数が多く、予定を過ぎている問題ほど先）
+ * @param {Object} repo - getRepository() の結果
+ * @param {{ now?: number }} options
+ * @returns {Promise<{ due: Array<{ question_id: string, part_id: string, level: number, lapses: number, due_at: number, weight: number }>, next_due_at: number|null }>}
+ *   next_due_at: 時期がまだ来ていない問題のうち、最も早い復習の時期（無ければ null）
+ */
+async function reviewSchedule(repo, userId, { now = Date.now() } = {}) {
+  const scores = await repo.scores.listByUser(userId);
+  const clearedParts = new Set(scores.filter(s => s.clear).map(s => s.part_id));
+  const attempts = (await repo.attempts.list({ user_id: String(userId) }))
+    .filter(a => clearedParts.has(a.part_id));
+
+  const due = [];
+  let next_due_at = null;
+  for (const [question_id, outcomes] of outcomesByQuestion(attempts)) {
+    const schedule = scheduleOf(outcomes);
+    if (!schedule) continue;
+    if (schedule.due_at > now) {
+      next_due_at = next_due_at === null ? schedule.due_at : Math.min(next_due_at, schedule.due_at);
+      continue;
+    }
+    const interval = Math.max(REVIEW_INTERVAL_DAYS[schedule.level], 1);
+    const overdue = (now - schedule.due_at) / DAY_MS;
+    due.push({
+      question_id,
+      part_id: outcomes[outcomes.length - 1].part_id,
+      level: schedule.level,
+      lapses: schedule.lapses,
+      due_at: schedule.due_at,
+      weight: schedule.lapses * (1 + overdue / interval),
+    });
+  }
+  due.sort((a, b) => b.weight - a.weight || a.due_at - b.due_at);
+  return { due, next_due_at };
+}
+
+module.exports = {
+  REVIEW_INTERVAL_DAYS,
+  REVIEW_QUESTION_COUNT,
+  outcomesByQuestion,
+  scheduleOf,
+  reviewSchedule,
+};
@@ -1,27 +1,12 @@
 // backend/src/routes/admin.js
 const express = require('express');
 const router = express.Router();
-const { getSheetsClient, SPREADSHEET_ID } = require('../services/google');
+const { getRepository } = require('../repositories');
 const { hashPassword, generatePassword } = require('../utils/password');
-const { validateBody } = require('../middleware/validation');
-const { verifyToken } = require('../middleware/auth');
-
-const USER_SHEET_NAME = 'users';
-
-// 固定の列インデックス（0始まり）
-const COL = {
-  id: 0,
-  user_id: 1,
-  password: 2,
-  nickname: 3,
-  real_name: 4,
-  current_grade: 5,
-  current_part: 6,
-  current_subpart: 7,
-  is_admin: 8,
-  created_at: 9,
-  updated_at: 10,
-};
+const { withinDays } = require('../utils/time');
+const { validateQuery, validateBody } = require('../middleware/validation');
+const { verifyToken, requireAdmin } = require('../middleware/auth');
+const { ROLES, userRole, isSuperAdmin, adminScope, inScope, classInScope, scopedStudentIds } = require('../classes');
 
 /* ---------- ログ補助 ---------- */
 const NS = 'admin';
@@ -31,49 +16,33 @@ const logInfo  = (id, msg, extra) => console.info(`[${now()}] [${NS}] [${id}] IN
 const logWarn  = (id, msg, extra) => console.warn(`[${now()}] [${NS}] [${id}] WARN  ${msg}${extra ? ' ' + JSON.stringify(extra) : ''}`);
 const logError = (id, msg, extra) => console.error(`[${now()}] [${NS}] [${id}] ERROR ${msg}${extra ? ' ' + JSON.stringify(extra) : ''}`);
 
-/* ---------- ミドルウェア：管理者チェック ---------- */
-const requireAdmin = (req, res, next) => {
-  const user = req.user;
-  if (!user || !user.is_admin) {
-    return res.status(403).json({ ok: false, message: '管理者権限が必要です' });
-  }
-  next();
-};
-
 /* ---------- ルート ---------- */
 
-// ユーザー一覧取得
+// ユーザー一覧取得（先生は担当クラスの生徒のみ）
+// role: 権限、class_ids: 生徒として所属するクラス
+// ★ password（ハッシュ）は返さない
 router.get('/users', verifyToken, requireAdmin, async (req, res) => {
   const reqId = rid();
   logInfo(reqId, 'get users request');
 
   try {
-    const sheets = await getSheetsClient(true);
-
-    const resp = await sheets.spreadsheets.values.get({
-      spreadsheetId: SPREADSHEET_ID,
-      range: `${USER_SHEET_NAME}!A1:K`,
-      valueRenderOption: 'FORMATTED_VALUE',
-    });
-
-    const rows = resp.data.values || [];
-    if (rows.length < 2) {
-      return res.json({ ok: true, users: [] });
-    }
-
-    const dataRows = rows.slice(1);
-    const users = dataRows.map((row) => ({
-      id: Number(row[COL.id] || 0),
-      user_id: String(row[COL.user_id] || ''),
-      password: String(row[COL.password] || ''),
-      nickname: String(row[COL.nickname] || ''),
-      real_name: String(row[COL.real_name] || ''),
-      current_grade: Number(row[COL.current_grade] || 1),
-      current_part: Number(row[COL.current_part] || 1),
-      current_subpart: Number(row[COL.current_subpart] || 1),
-      is_admin: row[COL.is_admin] === true || String(row[COL.is_admin] || '').toLowerCase() === 'true',
-      created_at: String(row[COL.created_at] || ''),
-      updated_at: String(row[COL.updated_at] || ''),
+    const repo = getRepository();
+    const scope = await adminScope(repo, req.user);
+    const members = await repo.classes.listMembers({ role: 'student' });
+    const rows = (await repo.users.list()).filter(row => inScope(scope, row.user_id));
+    const users = rows.map((row) => ({
+      id: row.id,
+      user_id: row.user_id,
+      nickname: row.nickname,
+      real_name: row.real_name,
+      is_admin: row.is_admin,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+      role: userRole(row),
+      class_ids: members.filter(m => m.user_id === row.user_id).map(m => m.class_id),
+      current_grade: row.current_grade || 1,
+      current_part: row.current_part || 1,
+      current_subpart: row.current_subpart || 1,
     }));
 
     logInfo(reqId, 'users fetched', { count: users.length });
@@ -84,19 +53,21 @@ router.get('/users', verifyToken, requireAdmin, async (req, res) => {
   }
 });
 
-// 新規ユーザー登録
+// 新規ユーザー登録（class_id を指定するとそのクラスの生徒にする。先生は担当クラスの指定が必須）
 router.post('/users',
   verifyToken,
   requireAdmin,
   validateBody({
     nickname: { type: 'string', required: true, minLength: 1, maxLength: 100 },
-    real_name: { type: 'string', required: true, minLength: 1, maxLength: 100 }
+    real_name: { type: 'string', required: true, minLength: 1, maxLength: 100 },
+    class_id: { type: 'string', required: false, maxLength: 100 }
   }),
   async (req, res) => {
   const reqId = rid();
   const { nickname, real_name } = req.body || {};
+  const class_id = req.body?.class_id ? String(req.body.class_id) : '';
 
-  logInfo(reqId, 'register user request', { nickname, real_name });
+  logInfo(reqId, 'register user request', { nickname, real_name, class_id });
 
   if (!nickname || !real_name) {
     logWarn(reqId, 'missing params');
@@ -104,70 +75,30 @@ router.post('/users',
   }
 
   try {
-    const sheets = await getSheetsClient(false);
-
-    // 既存のユーザーを取得
-    const resp = await sheets.spreadsheets.values.get({
-      spreadsheetId: SPREADSHEET_ID,
-      range: `${USER_SHEET_NAME}!A1:K`,
-      valueRenderOption: 'FORMATTED_VALUE',
-    });
-
-    const rows = resp.data.values || [];
-    if (rows.length < 1) {
-      logError(reqId, 'no header row');
-      return res.status(500).json({ ok: false, message: 'usersシートにヘッダーがありません' });
+    const repo = getRepository();
+    const scope = await adminScope(repo, req.user);
+    if (!scope.all && !class_id) {
+      return res.status(400).json({ ok: false, message: 'クラスを選択してください' });
     }
-
-    const dataRows = rows.slice(1);
-
-    // 次のIDとuser_idを計算
-    let nextId = 1;
-    let nextUserId = '00001';
-
-    if (dataRows.length > 0) {
-      const lastRow = dataRows[dataRows.length - 1];
-      const lastId = Number(lastRow[COL.id] || 0);
-      nextId = lastId + 1;
-      nextUserId = String(nextId).padStart(5, '0');
-
-      // 最上位桁が0の場合、1にする
-      if (nextUserId[0] === '0') {
-        nextUserId = '1' + nextUserId.slice(1);
-      }
+    if (class_id && (!classInScope(scope, class_id) || !(await repo.classes.findById(class_id)))) {
+      logWarn(reqId, 'class not found', { class_id });
+      return res.status(404).json({ ok: false, message: 'クラスが見つかりません' });
     }
 
     // パスワードを自動生成
     const plainPassword = generatePassword(8);
     const hashedPassword = await hashPassword(plainPassword);
 
-    // タイムスタンプ
-    const timestamp = new Date().toISOString();
-
-    // 新しい行を追加
-    const newRow = [
-      nextId,                 // id
-      nextUserId,             // user_id
-      hashedPassword,         // password (ハッシュ化)
-      nickname,               // nickname
-      real_name,              // real_name
-      1,                      // current_grade
-      1,                      // current_part
-      1,                      // current_subpart
-      false,                  // is_admin
-      timestamp,              // created_at
-      timestamp,              // updated_at
-    ];
-
-    await sheets.spreadsheets.values.append({
-      spreadsheetId: SPREADSHEET_ID,
-      range: `${USER_SHEET_NAME}!A:K`,
-      valueInputOption: 'RAW',
-      insertDataOption: 'INSERT_ROWS',
-      requestBody: {
-        values: [newRow],
-      },
+    // id と user_id はリポジトリで採番
+    const created = await repo.users.create({
+      password: hashedPassword, // ハッシュ化
+      nickname,
+      real_name,
     });
+    const nextUserId = created.user_id;
+    if (class_id) {
+      await repo.classes.addMember({ class_id, user_id: nextUserId, role: 'student' });
+    }
 
     logInfo(reqId, 'user registered', { user_id: nextUserId });
 
@@ -182,74 +113,65 @@ router.post('/users',
   }
 });
 
-// ユーザー情報更新
+// ユーザー情報更新（role の変更は管理者のみ）
 router.put('/users/:userId',
   verifyToken,
   requireAdmin,
   validateBody({
     current_grade: { type: 'number', required: false },
     current_part: { type: 'number', required: false },
-    current_subpart: { type: 'number', required: false }
+    current_subpart: { type: 'number', required: false },
+    role: { type: 'string', required: false, pattern: new RegExp(`^(${ROLES.join('|')})$`) }
   }),
   async (req, res) => {
   const reqId = rid();
   const { userId } = req.params;
-  const { current_grade, current_part, current_subpart } = req.body || {};
+  const { current_grade, current_part, current_subpart, role } = req.body || {};
 
-  logInfo(reqId, 'update user request', { userId, current_grade, current_part, current_subpart  });
+  logInfo(reqId, 'update user request', { userId, current_grade, current_part, current_subpart, role });
 
   if (!userId) {
     return res.status(400).json({ ok: false, message: 'userId が必要です' });
   }
+  if (role !== undefined && !isSuperAdmin(req.user)) {
+    return res.status(403).json({ ok: false, message: '権限の変更は管理者のみ行えます' });
+  }
+  if (role !== undefined && userId === String(req.user.userId)) {
+    return res.status(400).json({ ok: false, message: '自分の権限は変更できません' });
+  }
 
   try {
-    const sheets = await getSheetsClient(false);
+    const repo = getRepository();
 
-    // 既存のユーザーを取得
-    const resp = await sheets.spreadsheets.values.get({
-      spreadsheetId: SPREADSHEET_ID,
-      range: `${USER_SHEET_NAME}!A1:K`,
-      valueRenderOption: 'FORMATTED_VALUE',
-    });
-
-    const rows = resp.data.values || [];
-    if (rows.length < 2) {
-      return res.status(404).json({ ok: false, message: 'ユーザーが見つかりません' });
-    }
-
-    const dataRows = rows.slice(1);
-
-    // user_idが一致する行を探す
-    const rowIndex = dataRows.findIndex(r => String(r[COL.user_id] || '') === String(userId));
-    if (rowIndex === -1) {
+    // 既存のユーザーを取得（先生は担当クラスの生徒のみ）
+    const user = await repo.users.findByUserId(userId);
+    if (!user || !inScope(await adminScope(repo, req.user), userId)) {
       logWarn(reqId, 'user not found', { userId });
       return res.status(404).json({ ok: false, message: 'ユーザーが見つかりません' });
     }
 
-    // 更新する行（実際のシートの行番号は2から始まる + rowIndex）
-    const sheetRowNumber = rowIndex + 2;
-    const row = dataRows[rowIndex];
-
     // 更新値を設定
-    const updatedGrade = current_grade !== undefined ? current_grade : Number(row[COL.current_grade] || 1);
-    const updatedPart = current_part !== undefined ? current_part : Number(row[COL.current_part] || 1);
-    const updatedSubpart  = current_subpart  !== undefined ? current_subpart  : Number(row[COL.current_subpart] || 1);
-    const timestamp = new Date().toISOString();
-
-    // 行全体を更新
-    const updatedRow = [...row];
-    updatedRow[COL.current_grade] = updatedGrade;
-    updatedRow[COL.current_part] = updatedPart;
-    updatedRow[COL.current_subpart] = updatedSubpart;
-    updatedRow[COL.updated_at] = timestamp;
-
-    await sheets.spreadsheets.values.update({
-      spreadsheetId: SPREADSHEET_ID,
-      range: `${USER_SHEET_NAME}!A${sheetRowNumber}:K${sheetRowNumber}`,
-      valueInputOption: 'RAW',
-      requestBody: {
-        values: [updatedRow],
-      },
+    const updatedGrade = current_grade !== undefined ? current_grade : (user.current_grade || 1);
+    const updatedPart = current_part !== undefined ? current_part : (user.current_part || 1);
+    const updatedSubpart  = current_subpart  !== undefined ? current_subpart  : (user.current_subpart || 1);
+
+    // 権限は先に role だけを書き込み、保存されたことを確かめてから is_admin を合わせる（先生も管理画面を使う）
+    // ★ role が保存されずに is_admin だけ TRUE になると、先生にするつもりが管理者（全体を操作できる）になるため
+    const roleChanges = {};
+    if (role !== undefined) {
+      await repo.users.update(userId, { role });
+      if ((await repo.users.findByUserId(userId))?.role !== role) {
+        logError(reqId, 'role not saved', { userId, role });
+        return res.status(409).json({ ok: false, message: 'users に role 列が無いため権限を変更できません' });
+      }
+      roleChanges.is_admin = role !== 'student';
+    }
+
+    await repo.users.update(userId, {
+      current_grade: updatedGrade,
+      current_part: updatedPart,
+      current_subpart: updatedSubpart,
+      ...roleChanges,
     });
 
     logInfo(reqId, 'user updated', { userId });
@@ -279,51 +201,21 @@ router.post('/reset-password',
   }
 
   try {
-    const sheets = await getSheetsClient(false);
-
-    // 既存のユーザーを取得
-    const resp = await sheets.spreadsheets.values.get({
-      spreadsheetId: SPREADSHEET_ID,
-      range: `${USER_SHEET_NAME}!A1:K`,
-      valueRenderOption: 'FORMATTED_VALUE',
-    });
+    const repo = getRepository();
 
-    const rows = resp.data.values || [];
-    if (rows.length < 2) {
-      return res.status(404).json({ ok: false, message: 'ユーザーが見つかりません' });
-    }
-
-    const dataRows = rows.slice(1);
-
-    // user_idが一致する行を探す
-    const rowIndex = dataRows.findIndex(r => String(r[COL.user_id] || '') === String(user_id));
-    if (rowIndex === -1) {
+    // 既存のユーザーを取得（先生は担当クラスの生徒のみ）
+    const user = await repo.users.findByUserId(user_id);
+    if (!user || !inScope(await adminScope(repo, req.user), user_id)) {
       logWarn(reqId, 'user not found', { user_id });
       return res.status(404).json({ ok: false, message: 'ユーザーが見つかりません' });
     }
 
-    // 更新する行（実際のシートの行番号は2から始まる + rowIndex）
-    const sheetRowNumber = rowIndex + 2;
-    const row = dataRows[rowIndex];
-
     // 新しいパスワードを生成
     const plainPassword = generatePassword(8);
     const hashedPassword = await hashPassword(plainPassword);
-    const timestamp = new Date().toISOString();
 
     // パスワードとupdated_atを更新
-    const updatedRow = [...row];
-    updatedRow[COL.password] = hashedPassword;
-    updatedRow[COL.updated_at] = timestamp;
-
-    await sheets.spreadsheets.values.update({
-      spreadsheetId: SPREADSHEET_ID,
-      range: `${USER_SHEET_NAME}!A${sheetRowNumber}:K${sheetRowNumber}`,
-      valueInputOption: 'RAW',
-      requestBody: {
-        values: [updatedRow],
-      },
-    });
+    await repo.users.update(user_id, { password: hashedPassword });
 
     logInfo(reqId, 'password reset', { user_id });
 
@@ -338,78 +230,81 @@ router.post('/reset-password',
   }
 });
 
-// パート別ミス数取得
-router.get('/failure-stats', verifyToken, requireAdmin, async (req, res) => {
+// パート別ミス数の 1 ページの生徒数
+const FAILURE_STATS_PAGE_SIZE = 50;
+const FAILURE_STATS_MAX_PAGE_SIZE = 200;
+
+// パート別ミス数取得（先生は担当クラスの生徒のみ）
+// 期間（from / to。YYYY-MM-DD）・学年・クラスで絞り込み、生徒は user_id 順でページ分け（page は 1 から）
+// stats は user_id → part_id → クリアできなかった回数
+router.get('/failure-stats',
+  verifyToken,
+  requireAdmin,
+  validateQuery({
+    from: { type: 'string', pattern: /^\d{4}-\d{2}-\d{2}$/ },
+    to: { type: 'string', pattern: /^\d{4}-\d{2}-\d{2}$/ },
+    grade: { type: 'number', min: 1, max: 99 },
+    class_id: { type: 'string', maxLength: 100 },
+    page: { type: 'number', min: 1 },
+    page_size: { type: 'number', min: 1, max: FAILURE_STATS_MAX_PAGE_SIZE },
+  }),
+  async (req, res) => {
   const reqId = rid();
-  logInfo(reqId, 'get failure-stats request');
+  const from = req.query.from ? String(req.query.from) : '';
+  const to = req.query.to ? String(req.query.to) : '';
+  const grade = Number(req.query.grade) || 0;
+  const classId = req.query.class_id ? String(req.query.class_id) : '';
+  const page = Math.floor(Number(req.query.page)) || 1;
+  const pageSize = Math.floor(Number(req.query.page_size)) || FAILURE_STATS_PAGE_SIZE;
+  logInfo(reqId, 'get failure-stats request', { from, to, grade, classId, page, pageSize });
+
+  if (from && to && from > to) {
+    return res.status(400).json({ ok: false, message: '期間の開始は終了より前の日付にしてください' });
+  }
 
   try {
-    const sheets = await getSheetsClient(true);
-
-    // 1. usersシートから非管理者ユーザーを取得
-    const uResp = await sheets.spreadsheets.values.get({
-      spreadsheetId: SPREADSHEET_ID,
-      range: `${USER_SHEET_NAME}!A1:K`,
-      valueRenderOption: 'UNFORMATTED_VALUE',
-    });
-    const uRows = uResp.data.values || [];
-    if (uRows.length < 2) {
-      return res.json({ ok: true, users: [], parts: [], stats: {} });
+    const repo = getRepository();
+    const scope = await adminScope(repo, req.user);
+    if (classId && (!classInScope(scope, classId) || !(await repo.classes.findById(classId)))) {
+      logWarn(reqId, 'class not found', { classId });
+      return res.status(404).json({ ok: false, message: 'クラスが見つかりません' });
     }
 
-    const nonAdminUsers = uRows.slice(1)
-      .filter(row => {
-        const isAdmin = row[COL.is_admin] === true || String(row[COL.is_admin] || '').toLowerCase() === 'true';
-        return !isAdmin;
-      })
-      .map(row => ({
-        user_id: String(row[COL.user_id] || ''),
-        real_name: String(row[COL.real_name] || ''),
-      }));
-
-    // 2. partsシートからpart_idリストを取得
-    const pResp = await sheets.spreadsheets.values.get({
-      spreadsheetId: SPREADSHEET_ID,
-      range: 'parts!A1:A',
-      valueRenderOption: 'UNFORMATTED_VALUE',
-    });
-    const pRows = pResp.data.values || [];
-    const parts = pRows.slice(1).map(row => String(row[0] || '')).filter(p => p);
-
-    // 3. scoresシートから失敗データを取得
-    // ★ FORMATTED_VALUE を使用して user_id の先頭ゼロを保持（例: 00002）
-    const sResp = await sheets.spreadsheets.values.get({
-      spreadsheetId: SPREADSHEET_ID,
-      range: 'scores!A1:F',
-      valueRenderOption: 'FORMATTED_VALUE',
-    });
-    const sRows = sResp.data.values || [];
-
-    // scoresの列インデックス: 0:score_id, 1:user_id, 2:part_id, 3:scores, 4:clear, 5:play_date
-    const failureScores = sRows.slice(1).filter(row => {
-      const clear = row[4] === true || String(row[4] || '').toLowerCase() === 'true';
-      return !clear; // clearがfalseのもののみ
-    });
-
-    // 4. 統計データを作成
-    const stats = {};
-    for (const user of nonAdminUsers) {
-      stats[user.real_name] = {};
-      for (const part of parts) {
-        const count = failureScores.filter(
-          row => String(row[1]) === user.user_id && String(row[2]) === part
-        ).length;
-        stats[user.real_name][part] = count;
-      }
+    // 1. 対象の生徒（user_id 順）から 1 ページ分
+    const studentIds = await scopedStudentIds(repo, scope, classId);
+    const students = (await repo.users.list())
+      .filter(user => studentIds.has(user.user_id) && userRole(user) === 'student')
+      .sort((a, b) => String(a.user_id).localeCompare(String(b.user_id), undefined, { numeric: true }));
+    const pageUsers = students.slice((page - 1) * pageSize, page * pageSize)
+      .map(user => ({ user_id: user.user_id, real_name: user.real_name, nickname: user.nickname }));
+
+    // 2. part_idリスト（学年で絞り込み）
+    const parts = (await repo.parts.list())
+      .filter(p => p.part_id && (!grade || p.grade_id === grade))
+      .map(p => p.part_id);
+
+    // 3. クリアできなかったスコアを 1 回たどって数える
+    // ★ 練習（mode: 'practice'）のプレイは数えない（進級の判定と同じく、通常のプレイのミスだけ）
+    const stats = Object.fromEntries(pageUsers.map(u => [u.user_id, Object.fromEntries(parts.map(p => [p, 0]))]));
+    const inPeriod = withinDays(from, to);
+    for (const row of await repo.scores.list()) {
+      if (row.clear || row.mode === 'practice') continue;
+      const counts = stats[row.user_id];
+      if (!counts || counts[row.part_id] === undefined) continue;
+      if (!inPeriod(row.play_date)) continue;
+      counts[row.part_id]++;
     }
 
-    logInfo(reqId, 'failure-stats fetched', { userCount: nonAdminUsers.length, partCount: parts.length });
+    logInfo(reqId, 'failure-stats fetched', { userCount: pageUsers.length, total: students.length, partCount: parts.length });
 
     return res.json({
       ok: true,
-      users: nonAdminUsers.map(u => u.real_name),
+      users: pageUsers,
       parts,
       stats,
+      total: students.length,
+      page,
+      page_size: pageSize,
     });
   } catch (err) {
     logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
@@ -417,4 +312,49 @@ router.get('/failure-stats', verifyToken, requireAdmin, async (req, res) => {
   }
 });
 
+// 問題ごとの回答ログ取得（user_id / session_id / part_id で絞り込み。先生は担当クラスの生徒のみ）
+router.get('/attempts',
+  verifyToken,
+  requireAdmin,
+  validateQuery({
+    user_id: { type: 'string', required: false, maxLength: 100 },
+    session_id: { type: 'string', required: false, maxLength: 100 },
+    part_id: { type: 'string', required: false, maxLength: 100 },
+  }),
+  async (req, res) => {
+  const reqId = rid();
+  const { user_id, session_id, part_id } = req.query;
+  logInfo(reqId, 'get attempts request', { user_id, session_id, part_id });
+
+  if (!user_id && !session_id) {
+    logWarn(reqId, 'missing filter');
+    return res.status(400).json({ ok: false, message: 'user_id または session_id は必須です' });
+  }
+
+  try {
+    const repo = getRepository();
+    const scope = await adminScope(repo, req.user);
+    if (user_id && !inScope(scope, user_id)) {
+      logWarn(reqId, 'user out of scope', { user_id });
+      return res.status(404).json({ ok: false, message: 'ユーザーが見つかりません' });
+    }
+
+    const where = {};
+    if (user_id) where.user_id = user_id;
+    if (session_id) where.session_id = session_id;
+    if (part_id) where.part_id = part_id;
+
+    const attempts = (await repo.attempts.list(where))
+      .filter(a => inScope(scope, a.user_id))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.attempt_no - b.attempt_no);
+
+    logInfo(reqId, 'attempts fetched', { count: attempts.length });
+
+    return res.json({ ok: true, attempts });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
 module.exports = router;
@@ -0,0 +1,129 @@
+// backend/src/routes/adminAnalytics.js
+// 学習状況の集計（管理者用。先生は担当クラスの生徒のみ）
+const express = require('express');
+const router = express.Router();
+const { getRepository } = require('../repositories');
+const { validateQuery } = require('../middleware/validation');
+const { verifyToken, requireAdmin } = require('../middleware/auth');
+const { adminScope, inScope, classInScope, scopedStudentIds } = require('../classes');
+const { studentProgress, questionDifficulty, suggestAnswerPatterns } = require('../analytics');
+
+/* ---------- ログ補助 ---------- */
+const NS = 'admin-analytics';
+const now = () => new Date().toISOString();
+const rid = () => Math.random().toString(36).slice(2, 8);
+const logInfo  = (id, msg, extra) => console.info(`[${now()}] [${NS}] [${id}] INFO  ${msg}${extra ? ' ' + JSON.stringify(extra) : ''}`);
+const logWarn  = (id, msg, extra) => console.warn(`[${now()}] [${NS}] [${id}] WARN  ${msg}${extra ? ' ' + JSON.stringify(extra) : ''}`);
+const logError = (id, msg, extra) => console.error(`[${now()}] [${NS}] [${id}] ERROR ${msg}${extra ? ' ' + JSON.stringify(extra) : ''}`);
+
+// 集計の絞り込み（クラス・学年・パート）
+const FILTER_QUERY = {
+  class_id: { type: 'string', maxLength: 100 },
+  grade: { type: 'number', min: 1, max: 99 },
+  part_id: { type: 'string', maxLength: 100 },
+};
+
+const parseFilter = (query) => ({
+  classId: query.class_id ? String(query.class_id) : '',
+  grade: Number(query.grade) || 0,
+  partId: query.part_id ? String(query.part_id) : '',
+});
+
+/**
+ * 集計の対象の生徒（class_id を省略すると範囲内のすべての生徒）
+ * @returns {Promise<Set<string>|null>} 範囲外・存在しないクラスは null
+ */
+async function filterStudentIds(repo, user, classId) {
+  const scope = await adminScope(repo, user);
+  if (classId && (!classInScope(scope, classId) || !(await repo.classes.findById(classId)))) {
+    return null;
+  }
+  return scopedStudentIds(repo, scope, classId);
+}
+
+/* =========================
+   生徒ごと
+   ========================= */
+
+// 生徒の学習状況（日ごとのプレイ・パートごとの推移・クラスの中での進捗・よく間違える問題）
+router.get('/students/:userId', verifyToken, requireAdmin, async (req, res) => {
+  const reqId = rid();
+  const { userId } = req.params;
+  logInfo(reqId, 'get student progress request', { userId });
+
+  try {
+    const repo = getRepository();
+    const user = await repo.users.findByUserId(userId);
+    if (!user || !inScope(await adminScope(repo, req.user), userId)) {
+      logWarn(reqId, 'user not found', { userId });
+      return res.status(404).json({ ok: false, message: 'ユーザーが見つかりません' });
+    }
+
+    const progress = await studentProgress(repo, user);
+    logInfo(reqId, 'student progress fetched', { userId, parts: progress.parts.length });
+    return res.json({ ok: true, ...progress });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+/* =========================
+   問題ごと
+   ========================= */
+
+// 問題ごとの難しさ（失敗率の高い順。class_id を省略すると範囲内のすべての生徒）
+router.get('/questions',
+  verifyToken,
+  requireAdmin,
+  validateQuery(FILTER_QUERY),
+  async (req, res) => {
+  const reqId = rid();
+  const { classId, grade, partId } = parseFilter(req.query);
+  logInfo(reqId, 'get question difficulty request', { classId, grade, partId });
+
+  try {
+    const repo = getRepository();
+    const userIds = await filterStudentIds(repo, req.user, classId);
+    if (!userIds) {
+      logWarn(reqId, 'class not found', { classId });
+      return res.status(404).json({ ok: false, message: 'クラスが見つかりません' });
+    }
+
+    const questions = await questionDifficulty(repo, { userIds, grade, partId });
+    logInfo(reqId, 'question difficulty fetched', { students: userIds.size, questions: questions.length });
+    return res.json({ ok: true, students: userIds.size, questions });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+// 正解パターンの候補（不正解になったが正解パターンに近かった認識結果。追加は POST /admin/content/questions/:questionId/answers）
+router.get('/suggestions',
+  verifyToken,
+  requireAdmin,
+  validateQuery(FILTER_QUERY),
+  async (req, res) => {
+  const reqId = rid();
+  const { classId, grade, partId } = parseFilter(req.query);
+  logInfo(reqId, 'get answer suggestions request', { classId, grade, partId });
+
+  try {
+    const repo = getRepository();
+    const userIds = await filterStudentIds(repo, req.user, classId);
+    if (!userIds) {
+      logWarn(reqId, 'class not found', { classId });
+      return res.status(404).json({ ok: false, message: 'クラスが見つかりません' });
+    }
+
+    const questions = await suggestAnswerPatterns(repo, { userIds, grade, partId });
+    logInfo(reqId, 'answer suggestions fetched', { students: userIds.size, questions: questions.length });
+    return res.json({ ok: true, questions });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,220 @@
+// backend/src/routes/adminClasses.js
+// クラスと所属の管理（管理者用）
+// クラスの作成・変更・削除と先生の割り当ては管理者のみ。先生は担当クラスの生徒の出し入れのみ
+const express = require('express');
+const router = express.Router();
+const { getRepository } = require('../repositories');
+const { validateBody } = require('../middleware/validation');
+const { verifyToken, requireAdmin, requireSuperAdmin } = require('../middleware/auth');
+const { MEMBER_ROLES, userRole, adminScope, inScope, classInScope } = require('../classes');
+
+/* ---------- ログ補助 ---------- */
+const NS = 'admin-classes';
+const now = () => new Date().toISOString();
+const rid = () => Math.random().toString(36).slice(2, 8);
+const logInfo  = (id, msg, extra) => console.info(`[${now()}] [${NS}] [${id}] INFO  ${msg}${extra ? ' ' + JSON.stringify(extra) : ''}`);
+const logWarn  = (id, msg, extra) => console.warn(`[${now()}] [${NS}] [${id}] WARN  ${msg}${extra ? ' ' + JSON.stringify(extra) : ''}`);
+const logError = (id, msg, extra) => console.error(`[${now()}] [${NS}] [${id}] ERROR ${msg}${extra ? ' ' + JSON.stringify(extra) : ''}`);
+
+/* =========================
+   クラス
+   ========================= */
+
+// クラス一覧（先生は担当クラスのみ。teachers / students に所属するユーザー）
+router.get('/', verifyToken, requireAdmin, async (req, res) => {
+  const reqId = rid();
+  logInfo(reqId, 'get classes request');
+
+  try {
+    const repo = getRepository();
+    const scope = await adminScope(repo, req.user);
+    const users = new Map((await repo.users.list()).map(u => [u.user_id, u]));
+    const members = await repo.classes.listMembers();
+    const memberOf = (classId, role) => members
+      .filter(m => m.class_id === classId && m.role === role)
+      .map(m => ({
+        user_id: m.user_id,
+        nickname: users.get(m.user_id)?.nickname ?? '',
+        real_name: users.get(m.user_id)?.real_name ?? '',
+      }));
+
+    const classes = (await repo.classes.list())
+      .filter(c => classInScope(scope, c.class_id))
+      .map(c => ({ ...c, teachers: memberOf(c.class_id, 'teacher'), students: memberOf(c.class_id, 'student') }));
+
+    logInfo(reqId, 'classes fetched', { count: classes.length });
+    return res.json({ ok: true, classes });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+// クラスの作成
+router.post('/',
+  verifyToken,
+  requireSuperAdmin,
+  validateBody({
+    name: { type: 'string', required: true, minLength: 1, maxLength: 100 },
+  }),
+  async (req, res) => {
+  const reqId = rid();
+  const name = String(req.body.name).trim();
+  logInfo(reqId, 'create class request', { name });
+
+  if (!name) {
+    return res.status(400).json({ ok: false, message: 'クラス名を入力してください' });
+  }
+
+  try {
+    const created = await getRepository().classes.create({ name, created_by: req.user.userId });
+    logInfo(reqId, 'class created', { class_id: created.class_id });
+    return res.status(201).json({ ok: true, class: created });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+// クラス名の変更
+router.put('/:classId',
+  verifyToken,
+  requireSuperAdmin,
+  validateBody({
+    name: { type: 'string', required: true, minLength: 1, maxLength: 100 },
+  }),
+  async (req, res) => {
+  const reqId = rid();
+  const { classId } = req.params;
+  const name = String(req.body.name).trim();
+  logInfo(reqId, 'update class request', { classId, name });
+
+  if (!name) {
+    return res.status(400).json({ ok: false, message: 'クラス名を入力してください' });
+  }
+
+  try {
+    if (!(await getRepository().classes.update(classId, { name }))) {
+      return res.status(404).json({ ok: false, message: 'クラスが見つかりません' });
+    }
+    logInfo(reqId, 'class updated', { classId });
+    return res.json({ ok: true });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+// クラスの削除（所属と、クラスへのパートのロックも削除）
+router.delete('/:classId', verifyToken, requireSuperAdmin, async (req, res) => {
+  const reqId = rid();
+  const { classId } = req.params;
+  logInfo(reqId, 'delete class request', { classId });
+
+  try {
+    const repo = getRepository();
+    if (!(await repo.classes.remove(classId))) {
+      return res.status(404).json({ ok: false, message: 'クラスが見つかりません' });
+    }
+    const locks = await repo.partLocks.list({ scope: 'class', target: classId });
+    for (const lock of locks) {
+      await repo.partLocks.remove(lock.lock_id);
+    }
+    logInfo(reqId, 'class deleted', { classId, locks: locks.length });
+    return res.json({ ok: true });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+/* =========================
+   所属
+   ========================= */
+
+// クラスに追加（role: 'teacher' は管理者のみ。先生は、どのクラスにも所属していない生徒か担当クラスの生徒を追加できる）
+router.post('/:classId/members',
+  verifyToken,
+  requireAdmin,
+  validateBody({
+    user_id: { type: 'string', required: true, minLength: 1, maxLength: 100 },
+    role: { type: 'string', required: true, pattern: new RegExp(`^(${MEMBER_ROLES.join('|')})$`) },
+  }),
+  async (req, res) => {
+  const reqId = rid();
+  const { classId } = req.params;
+  const user_id = String(req.body.user_id).trim();
+  const { role } = req.body;
+  logInfo(reqId, 'add member request', { classId, user_id, role });
+
+  try {
+    const repo = getRepository();
+    const scope = await adminScope(repo, req.user);
+    if (!classInScope(scope, classId) || !(await repo.classes.findById(classId))) {
+      return res.status(404).json({ ok: false, message: 'クラスが見つかりません' });
+    }
+    if (role === 'teacher' && !scope.all) {
+      return res.status(403).json({ ok: false, message: '先生の割り当ては管理者のみ行えます' });
+    }
+
+    const user = await repo.users.findByUserId(user_id);
+    if (!user) {
+      return res.status(404).json({ ok: false, message: 'ユーザーが見つかりません' });
+    }
+    if (userRole(user) !== role) {
+      logWarn(reqId, 'role mismatch', { user_id, role, actual: userRole(user) });
+      return res.status(400).json({
+        ok: false,
+        message: role === 'teacher' ? '先生の権限のユーザーを指定してください' : '生徒のユーザーを指定してください',
+      });
+    }
+
+    const memberships = await repo.classes.listMembers({ user_id });
+    if (memberships.some(m => m.class_id === classId)) {
+      return res.status(409).json({ ok: false, message: '既にこのクラスに所属しています' });
+    }
+    // 先生は他のクラスの生徒を取り込めない
+    if (!scope.all && memberships.length > 0 && !inScope(scope, user_id)) {
+      logWarn(reqId, 'student in other class', { user_id });
+      return res.status(403).json({ ok: false, message: '他のクラスの生徒は追加できません' });
+    }
+
+    const member = await repo.classes.addMember({ class_id: classId, user_id, role });
+    logInfo(reqId, 'member added', { member_id: member.member_id });
+    return res.status(201).json({ ok: true, member });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+// クラスから外す（先生を外すのは管理者のみ）
+router.delete('/:classId/members/:userId', verifyToken, requireAdmin, async (req, res) => {
+  const reqId = rid();
+  const { classId, userId } = req.params;
+  logInfo(reqId, 'remove member request', { classId, userId });
+
+  try {
+    const repo = getRepository();
+    const scope = await adminScope(repo, req.user);
+    if (!classInScope(scope, classId)) {
+      return res.status(404).json({ ok: false, message: 'クラスが見つかりません' });
+    }
+    const [member] = await repo.classes.listMembers({ class_id: classId, user_id: userId });
+    if (!member) {
+      return res.status(404).json({ ok: false, message: 'クラスに所属していません' });
+    }
+    if (member.role === 'teacher' && !scope.all) {
+      return res.status(403).json({ ok: false, message: '先生の割り当ては管理者のみ変更できます' });
+    }
+
+    await repo.classes.removeMember(classId, userId);
+    logInfo(reqId, 'member removed', { classId, userId });
+    return res.json({ ok: true });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+module.exports = router;
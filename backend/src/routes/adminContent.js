@@ -0,0 +1,655 @@
+// backend/src/routes/adminContent.js
+// 教材（parts / questions / answer_patterns）の編集（管理者用）
+// 教材は全クラス共通のため、先生は参照のみ（変更は管理者のみ）
+const express = require('express');
+const router = express.Router();
+const { getRepository } = require('../repositories');
+const { validateQuery, validateBody } = require('../middleware/validation');
+const { verifyToken, requireAdmin, requireSuperAdmin } = require('../middleware/auth');
+const { deleteCachePattern } = require('../services/redis');
+const { IMAGE_MAX_BYTES, isImageUploadAvailable, storeQuestionImage, removeQuestionImages } = require('../services/imageStorage');
+const { ID_PATTERN, IMAGE_URL_PATTERN, isValidMatchConfig, partSettingProblems, defaultPartId, defaultQuestionId } = require('../content/rules');
+const { TRANSFER_TABLES, exportContent, tableToCsv, planImport, applyImport } = require('../content/transfer');
+const { lintContent } = require('../content/lint');
+
+/* ---------- ログ補助 ---------- */
+const NS = 'admin-content';
+const now = () => new Date().toISOString();
+const rid = () => Math.random().toString(36).slice(2, 8);
+const logInfo  = (id, msg, extra) => console.info(`[${now()}] [${NS}] [${id}] INFO  ${msg}${extra ? ' ' + JSON.stringify(extra) : ''}`);
+const logWarn  = (id, msg, extra) => console.warn(`[${now()}] [${NS}] [${id}] WARN  ${msg}${extra ? ' ' + JSON.stringify(extra) : ''}`);
+const logError = (id, msg, extra) => console.error(`[${now()}] [${NS}] [${id}] ERROR ${msg}${extra ? ' ' + JSON.stringify(extra) : ''}`);
+
+/* ---------- 入力チェック ---------- */
+const PART_FIELDS = {
+  grade_id: { type: 'number', min: 1, max: 99 },
+  part_no: { type: 'number', min: 1, max: 99 },
+  subpart_no: { type: 'number', min: 1, max: 99 },
+  requirement: { type: 'string', maxLength: 500 },
+  match_config: { type: 'string', maxLength: 2000 },
+  // 0 は既定値（範囲は content/rules.js の PART_SETTING_LIMITS で確認）
+  question_count: { type: 'number', min: 0, max: 999 },
+  correct_to_clear: { type: 'number', min: 0, max: 999 },
+  time_limit: { type: 'number', min: 0, max: 9999 },
+  shuffle: { type: 'boolean' },
+};
+
+const QUESTION_FIELDS = {
+  display_order: { type: 'number', min: 1, max: 999 },
+  is_demo: { type: 'boolean' },
+  question_text: { type: 'string', maxLength: 500 },
+  image_url: { type: 'string', maxLength: 500, pattern: IMAGE_URL_PATTERN },
+  match_config: { type: 'string', maxLength: 2000 },
+};
+
+const ANSWER_FIELDS = {
+  expected_text: { type: 'string', maxLength: 500 },
+  match_config: { type: 'string', maxLength: 2000 },
+};
+
+const required = (fields, keys) =>
+  Object.fromEntries(Object.entries(fields).map(([k, rule]) => [k, keys.includes(k) ? { ...rule, required: true } : rule]));
+
+// body から指定した項目だけを取り出す（未指定の項目は更新しない）
+function pick(body, keys) {
+  const out = {};
+  for (const key of keys) {
+    if (body[key] !== undefined) out[key] = body[key];
+  }
+  return out;
+}
+
+// プレイ画面のキャッシュ（パート・問題）を破棄
+async function invalidateContentCache() {
+  await Promise.all([
+    deleteCachePattern('sheets:parts:*'),
+    deleteCachePattern('sheets:questions:*'),
+  ]);
+}
+
+// 画像の読み込み（大きすぎる場合は 413）
+const readImage = express.raw({ type: ['image/png', 'image/jpeg', 'image/webp', 'image/gif'], limit: IMAGE_MAX_BYTES });
+function parseImage(req, res, next) {
+  readImage(req, res, (err) => {
+    if (!err) return next();
+    logWarn(rid(), 'invalid image body', { type: err.type, status: err.status });
+    const tooLarge = err.status === 413;
+    res.status(tooLarge ? 413 : 400).json({
+      ok: false,
+      message: tooLarge ? '画像が大きすぎます' : '画像を読み込めませんでした'
+    });
+  });
+}
+
+/* =========================
+   パート
+   ========================= */
+
+// パート一覧
+router.get('/parts', verifyToken, requireAdmin, async (req, res) => {
+  const reqId = rid();
+  try {
+    const parts = (await getRepository().parts.list())
+      .sort((a, b) => a.grade_id - b.grade_id || a.part_no - b.part_no || a.subpart_no - b.subpart_no);
+    logInfo(reqId, 'parts fetched', { count: parts.length });
+    return res.json({ ok: true, parts });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+// パート追加
+router.post('/parts',
+  verifyToken,
+  requireSuperAdmin,
+  validateBody({
+    part_id: { type: 'string', maxLength: 100, pattern: ID_PATTERN },
+    ...required(PART_FIELDS, ['grade_id', 'part_no', 'subpart_no', 'requirement']),
+  }),
+  async (req, res) => {
+  const reqId = rid();
+  const body = req.body;
+  logInfo(reqId, 'create part request', pick(body, ['part_id', 'grade_id', 'part_no', 'subpart_no']));
+
+  if (!isValidMatchConfig(body.match_config)) {
+    return res.status(400).json({ ok: false, message: 'match_config は JSON オブジェクトで指定してください' });
+  }
+  const settingProblems = partSettingProblems(body);
+  if (settingProblems.length > 0) {
+    return res.status(400).json({ ok: false, message: settingProblems[0] });
+  }
+
+  try {
+    const repo = getRepository();
+    const grade = Number(body.grade_id), part = Number(body.part_no), subpart = Number(body.subpart_no);
+    const partId = body.part_id || defaultPartId(grade, part, subpart);
+
+    if (await repo.parts.findById(partId)) {
+      logWarn(reqId, 'part_id already exists', { partId });
+      return res.status(409).json({ ok: false, message: `part_id ${partId} は既に存在します` });
+    }
+    if (await repo.parts.findByPosition(grade, part, subpart)) {
+      logWarn(reqId, 'position already exists', { grade, part, subpart });
+      return res.status(409).json({ ok: false, message: `学年${grade} パート${part}-${subpart} は既に存在します` });
+    }
+
+    const created = await repo.parts.create({
+      ...pick(body, ['requirement', 'match_config', 'question_count', 'correct_to_clear', 'time_limit', 'shuffle']),
+      part_id: partId,
+      grade_id: grade,
+      part_no: part,
+      subpart_no: subpart,
+    });
+    await invalidateContentCache();
+
+    logInfo(reqId, 'part created', { partId });
+    return res.status(201).json({ ok: true, part: created });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+// パート更新
+router.put('/parts/:partId',
+  verifyToken,
+  requireSuperAdmin,
+  validateBody(PART_FIELDS),
+  async (req, res) => {
+  const reqId = rid();
+  const { partId } = req.params;
+  const patch = pick(req.body, Object.keys(PART_FIELDS));
+  logInfo(reqId, 'update part request', { partId, fields: Object.keys(patch) });
+
+  if (!isValidMatchConfig(patch.match_config)) {
+    return res.status(400).json({ ok: false, message: 'match_config は JSON オブジェクトで指定してください' });
+  }
+
+  try {
+    const repo = getRepository();
+    const current = await repo.parts.findById(partId);
+    if (!current) {
+      return res.status(404).json({ ok: false, message: 'パートが見つかりません' });
+    }
+
+    // 学年・パート番号を変える場合は、移動先が空いているか確認
+    const next = { ...current, ...patch };
+    const settingProblems = partSettingProblems(next);
+    if (settingProblems.length > 0) {
+      return res.status(400).json({ ok: false, message: settingProblems[0] });
+    }
+    const grade = Number(next.grade_id), part = Number(next.part_no), subpart = Number(next.subpart_no);
+    const existing = await repo.parts.findByPosition(grade, part, subpart);
+    if (existing && existing.part_id !== partId) {
+      logWarn(reqId, 'position already exists', { grade, part, subpart });
+      return res.status(409).json({ ok: false, message: `学年${grade} パート${part}-${subpart} は既に存在します` });
+    }
+
+    if (Object.keys(patch).length > 0) {
+      await repo.parts.update(partId, patch);
+      await invalidateContentCache();
+    }
+
+    logInfo(reqId, 'part updated', { partId });
+    return res.json({ ok: true, part: await repo.parts.findById(partId) });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+// パート削除（問題が残っている場合は削除しない）
+router.delete('/parts/:partId', verifyToken, requireSuperAdmin, async (req, res) => {
+  const reqId = rid();
+  const { partId } = req.params;
+  logInfo(reqId, 'delete part request', { partId });
+
+  try {
+    const repo = getRepository();
+    if (!(await repo.parts.findById(partId))) {
+      return res.status(404).json({ ok: false, message: 'パートが見つかりません' });
+    }
+    const questions = await repo.questions.listByPart(partId);
+    if (questions.length > 0) {
+      logWarn(reqId, 'part has questions', { partId, count: questions.length });
+      return res.status(409).json({ ok: false, message: '問題が登録されているパートは削除できません。先に問題を削除してください' });
+    }
+
+    await repo.parts.remove(partId);
+    await invalidateContentCache();
+
+    logInfo(reqId, 'part deleted', { partId });
+    return res.json({ ok: true });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+/* =========================
+   問題
+   ========================= */
+
+// パートの問題一覧（正解パターン付き）
+router.get('/parts/:partId/questions', verifyToken, requireAdmin, async (req, res) => {
+  const reqId = rid();
+  const { partId } = req.params;
+
+  try {
+    const repo = getRepository();
+    const part = await repo.parts.findById(partId);
+    if (!part) {
+      return res.status(404).json({ ok: false, message: 'パートが見つかりません' });
+    }
+
+    const questions = await repo.questions.listByPart(partId);
+    const answers = await repo.answers.groupByQuestion(questions.map(q => q.question_id));
+    const withAnswers = questions.map(q => ({
+      ...q,
+      answers: (answers.get(q.question_id) || []).sort((a, b) => a.id - b.id),
+    }));
+
+    logInfo(reqId, 'questions fetched', { partId, count: questions.length });
+    return res.json({ ok: true, part, questions: withAnswers });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+// 問題追加（question_id 省略時は {学年}_{パート}_{サブパート}_{順番2桁}。画像ファイル名と同じ形式）
+router.post('/questions',
+  verifyToken,
+  requireSuperAdmin,
+  validateBody({
+    question_id: { type: 'string', maxLength: 100, pattern: ID_PATTERN },
+    part_id: { type: 'string', required: true, maxLength: 100, pattern: ID_PATTERN },
+    ...required(QUESTION_FIELDS, ['display_order', 'question_text']),
+  }),
+  async (req, res) => {
+  const reqId = rid();
+  const body = req.body;
+  logInfo(reqId, 'create question request', pick(body, ['question_id', 'part_id', 'display_order']));
+
+  if (!isValidMatchConfig(body.match_config)) {
+    return res.status(400).json({ ok: false, message: 'match_config は JSON オブジェクトで指定してください' });
+  }
+
+  try {
+    const repo = getRepository();
+    const part = await repo.parts.findById(body.part_id);
+    if (!part) {
+      return res.status(404).json({ ok: false, message: 'パートが見つかりません' });
+    }
+
+    const order = Number(body.display_order);
+    const questionId = body.question_id || defaultQuestionId(part, order);
+    if (await repo.questions.findById(questionId)) {
+      logWarn(reqId, 'question_id already exists', { questionId });
+      return res.status(409).json({ ok: false, message: `question_id ${questionId} は既に存在します` });
+    }
+
+    const created = await repo.questions.create({
+      ...pick(body, ['question_text', 'image_url', 'match_config']),
+      question_id: questionId,
+      part_id: part.part_id,
+      display_order: order,
+      is_demo: body.is_demo === true || body.is_demo === 'true' || body.is_demo === 1,
+    });
+    await invalidateContentCache();
+
+    logInfo(reqId, 'question created', { questionId });
+    return res.status(201).json({ ok: true, question: { ...created, answers: [] } });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+// 問題更新
+router.put('/questions/:questionId',
+  verifyToken,
+  requireSuperAdmin,
+  validateBody(QUESTION_FIELDS),
+  async (req, res) => {
+  const reqId = rid();
+  const { questionId } = req.params;
+  const patch = pick(req.body, Object.keys(QUESTION_FIELDS));
+  logInfo(reqId, 'update question request', { questionId, fields: Object.keys(patch) });
+
+  if (!isValidMatchConfig(patch.match_config)) {
+    return res.status(400).json({ ok: false, message: 'match_config は JSON オブジェクトで指定してください' });
+  }
+
+  try {
+    const repo = getRepository();
+    const current = await repo.questions.findById(questionId);
+    if (!current) {
+      return res.status(404).json({ ok: false, message: '問題が見つかりません' });
+    }
+
+    // 画像の URL を直接変えた場合は、アップロード済みの画像を削除
+    const replacedImages = patch.image_url !== undefined && patch.image_url !== current.image_url
+      ? current.image_variants
+      : [];
+    if (replacedImages.length > 0) patch.image_variants = [];
+
+    if (patch.is_demo !== undefined) {
+      patch.is_demo = patch.is_demo === true || patch.is_demo === 'true' || patch.is_demo === 1;
+    }
+    if (Object.keys(patch).length > 0) {
+      await repo.questions.update(questionId, patch);
+      await invalidateContentCache();
+    }
+    await removeQuestionImages(replacedImages);
+
+    const question = await repo.questions.findById(questionId);
+    logInfo(reqId, 'question updated', { questionId });
+    return res.json({ ok: true, question: { ...question, answers: await repo.answers.listByQuestion(questionId) } });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+// 問題削除（正解パターンも削除）
+router.delete('/questions/:questionId', verifyToken, requireSuperAdmin, async (req, res) => {
+  const reqId = rid();
+  const { questionId } = req.params;
+  logInfo(reqId, 'delete question request', { questionId });
+
+  try {
+    const repo = getRepository();
+    const question = await repo.questions.findById(questionId);
+    if (!question) {
+      return res.status(404).json({ ok: false, message: '問題が見つかりません' });
+    }
+
+    const removedAnswers = await repo.answers.removeByQuestion(questionId);
+    await repo.questions.remove(questionId);
+    await invalidateContentCache();
+    await removeQuestionImages(question.image_variants);
+
+    logInfo(reqId, 'question deleted', { questionId, removedAnswers });
+    return res.json({ ok: true });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+// 問題画像のアップロード（本文: 画像そのもの。Content-Type: image/png など）
+// 幅ごとの WebP に変換して保存し、image_url / image_variants を書き換える
+router.post('/questions/:questionId/image',
+  verifyToken,
+  requireSuperAdmin,
+  parseImage,
+  async (req, res) => {
+  const reqId = rid();
+  const { questionId } = req.params;
+
+  try {
+    if (!isImageUploadAvailable()) {
+      logWarn(reqId, 'image processing is not available (sharp is not installed)');
+      return res.status(503).json({ ok: false, message: '画像の変換ができないため、アップロードできません' });
+    }
+
+    const image = req.body;
+    if (!Buffer.isBuffer(image) || image.length === 0) {
+      logWarn(reqId, 'empty image', { questionId, contentType: req.headers['content-type'] });
+      return res.status(400).json({ ok: false, message: '画像がありません（PNG / JPEG / WebP / GIF）' });
+    }
+
+    const repo = getRepository();
+    const current = await repo.questions.findById(questionId);
+    if (!current) {
+      return res.status(404).json({ ok: false, message: '問題が見つかりません' });
+    }
+
+    let stored;
+    try {
+      stored = await storeQuestionImage(questionId, image);
+    } catch (err) {
+      if (err.code !== 'INVALID_IMAGE') throw err;
+      logWarn(reqId, 'invalid image', { questionId, message: err.message });
+      return res.status(400).json({ ok: false, message: '画像として読み込めませんでした' });
+    }
+
+    await repo.questions.update(questionId, stored);
+    await invalidateContentCache();
+    // 同じ画像を再アップロードした場合は同じ URL になるため、残す
+    const kept = new Set(stored.image_variants.map(v => v.url));
+    await removeQuestionImages(current.image_variants.filter(v => !kept.has(v.url)));
+
+    logInfo(reqId, 'image uploaded', { questionId, bytes: image.length, variants: stored.image_variants.map(v => v.width) });
+    const question = await repo.questions.findById(questionId);
+    return res.json({ ok: true, question: { ...question, answers: await repo.answers.listByQuestion(questionId) } });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+/* =========================
+   正解パターン
+   ========================= */
+
+// 正解パターン追加
+router.post('/questions/:questionId/answers',
+  verifyToken,
+  requireSuperAdmin,
+  validateBody(required(ANSWER_FIELDS, ['expected_text'])),
+  async (req, res) => {
+  const reqId = rid();
+  const { questionId } = req.params;
+  const { expected_text, match_config } = req.body;
+  logInfo(reqId, 'create answer request', { questionId, expected_text });
+
+  if (!String(expected_text).trim()) {
+    return res.status(400).json({ ok: false, message: '正解の文を入力してください' });
+  }
+  if (!isValidMatchConfig(match_config)) {
+    return res.status(400).json({ ok: false, message: 'match_config は JSON オブジェクトで指定してください' });
+  }
+
+  try {
+    const repo = getRepository();
+    if (!(await repo.questions.findById(questionId))) {
+      return res.status(404).json({ ok: false, message: '問題が見つかりません' });
+    }
+
+    const created = await repo.answers.create({
+      question_id: questionId,
+      expected_text: String(expected_text).trim(),
+      match_config: match_config || '',
+    });
+    await invalidateContentCache();
+
+    logInfo(reqId, 'answer created', { questionId, id: created.id });
+    return res.status(201).json({ ok: true, answer: created });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+// 正解パターン更新
+router.put('/answers/:id',
+  verifyToken,
+  requireSuperAdmin,
+  validateBody(ANSWER_FIELDS),
+  async (req, res) => {
+  const reqId = rid();
+  const id = Number(req.params.id);
+  const patch = pick(req.body, Object.keys(ANSWER_FIELDS));
+  logInfo(reqId, 'update answer request', { id, fields: Object.keys(patch) });
+
+  if (patch.expected_text !== undefined && !String(patch.expected_text).trim()) {
+    return res.status(400).json({ ok: false, message: '正解の文を入力してください' });
+  }
+  if (!isValidMatchConfig(patch.match_config)) {
+    return res.status(400).json({ ok: false, message: 'match_config は JSON オブジェクトで指定してください' });
+  }
+
+  try {
+    const repo = getRepository();
+    if (!Number.isInteger(id) || !(await repo.answers.findById(id))) {
+      return res.status(404).json({ ok: false, message: '正解パターンが見つかりません' });
+    }
+
+    if (patch.expected_text !== undefined) patch.expected_text = String(patch.expected_text).trim();
+    if (Object.keys(patch).length > 0) {
+      await repo.answers.update(id, patch);
+      await invalidateContentCache();
+    }
+
+    logInfo(reqId, 'answer updated', { id });
+    return res.json({ ok: true, answer: await repo.answers.findById(id) });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+// 正解パターン削除
+router.delete('/answers/:id', verifyToken, requireSuperAdmin, async (req, res) => {
+  const reqId = rid();
+  const id = Number(req.params.id);
+  logInfo(reqId, 'delete answer request', { id });
+
+  try {
+    const repo = getRepository();
+    if (!Number.isInteger(id) || !(await repo.answers.findById(id))) {
+      return res.status(404).json({ ok: false, message: '正解パターンが見つかりません' });
+    }
+
+    await repo.answers.remove(id);
+    await invalidateContentCache();
+
+    logInfo(reqId, 'answer deleted', { id });
+    return res.json({ ok: true });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+/* =========================
+   インポート・エクスポート
+   ========================= */
+
+// エクスポート（format=json: 3 テーブルをまとめて / format=csv: table で指定した 1 テーブル）
+// part_id（カンマ区切り）を指定した場合はそのパートと、その問題・正解パターンだけ
+router.get('/export',
+  verifyToken,
+  requireAdmin,
+  validateQuery({
+    format: { type: 'string', pattern: /^(json|csv)$/ },
+    table: { type: 'string', pattern: new RegExp(`^(${TRANSFER_TABLES.join('|')})$`) },
+    part_id: { type: 'string', maxLength: 2000 },
+  }),
+  async (req, res) => {
+  const reqId = rid();
+  const { format = 'json', table, part_id } = req.query;
+  const partIds = part_id ? String(part_id).split(',').map(s => s.trim()).filter(Boolean) : [];
+  logInfo(reqId, 'export request', { format, table, partIds });
+
+  if (format === 'csv' && !table) {
+    return res.status(400).json({ ok: false, message: `CSV の場合は table（${TRANSFER_TABLES.join(' / ')}）を指定してください` });
+  }
+
+  try {
+    const content = await exportContent(getRepository(), { partIds });
+    logInfo(reqId, 'content exported', Object.fromEntries(TRANSFER_TABLES.map(t => [t, content[t].length])));
+
+    if (format === 'csv') {
+      res.set('Content-Type', 'text/csv; charset=utf-8');
+      res.set('Content-Disposition', `attachment; filename="${table}.csv"`);
+      return res.send(tableToCsv(table, content[table]));
+    }
+    res.set('Content-Disposition', 'attachment; filename="content.json"');
+    return res.json({ ok: true, ...content });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+// インポート（本文: { parts, questions, answer_patterns }。各テーブルは CSV 文字列か行の配列。省略したテーブルは変更しない）
+// dry_run=true の場合は差分だけを返す。1 行でも問題があれば何も書き込まない
+router.post('/import',
+  verifyToken,
+  requireSuperAdmin,
+  validateQuery({
+    dry_run: { type: 'string', pattern: /^(true|false|1|0)$/ },
+  }),
+  async (req, res) => {
+  const reqId = rid();
+  const dryRun = ['true', '1'].includes(String(req.query.dry_run));
+  logInfo(reqId, 'import request', { dryRun, tables: TRANSFER_TABLES.filter(t => req.body?.[t] !== undefined) });
+
+  try {
+    const repo = getRepository();
+    const { errors, diff, ops } = await planImport(repo, req.body || {});
+    if (errors.length > 0) {
+      logWarn(reqId, 'import rejected', { errors: errors.length });
+      // ★ 行ごとの問題は管理者が直すための情報なので、本番環境でも返す
+      return res.status(400).json({ ok: false, message: 'インポートできない行があります', errors });
+    }
+
+    if (dryRun || ops.length === 0) {
+      logInfo(reqId, 'import planned', { dryRun, ops: ops.length });
+      return res.json({ ok: true, dry_run: dryRun, applied: false, diff });
+    }
+
+    try {
+      await applyImport(repo, ops);
+    } catch (err) {
+      logError(reqId, 'import failed', { message: err?.message, rollbackFailed: !!err.rollbackFailed });
+      await invalidateContentCache();
+      return res.status(500).json({
+        ok: false,
+        message: err.rollbackFailed
+          ? 'インポートに失敗し、元に戻せなかった変更があります。エクスポートして内容を確認してください'
+          : 'インポートに失敗したため、変更を元に戻しました'
+      });
+    }
+    await invalidateContentCache();
+
+    logInfo(reqId, 'content imported', { ops: ops.length });
+    return res.json({ ok: true, dry_run: false, applied: true, diff });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+/* =========================
+   チェック
+   ========================= */
+
+// 教材のチェック（問題数・デモ・正解パターン・画像・パートの並びなど。content/lint.js）
+// images=false の場合は画像ファイルの有無を確認しない
+router.get('/lint',
+  verifyToken,
+  requireAdmin,
+  validateQuery({
+    images: { type: 'string', pattern: /^(true|false|1|0)$/ },
+  }),
+  async (req, res) => {
+  const reqId = rid();
+  const checkImages = !['false', '0'].includes(String(req.query.images));
+  logInfo(reqId, 'lint request', { checkImages });
+
+  try {
+    const { issues, summary } = await lintContent(getRepository(), { checkImages });
+    logInfo(reqId, 'content linted', summary);
+    return res.json({ ok: true, summary, issues });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,360 @@
+// backend/src/routes/adminProgression.js
+// 進級ルール（次のパートに進む条件）・先生の承認・パートのロックの管理（管理者用）
+// 進級ルールと全員へのロックは全クラス共通のため管理者のみ変更できる。先生は担当クラスとその生徒の分のみ
+const express = require('express');
+const router = express.Router();
+const { getRepository } = require('../repositories');
+const { validateQuery, validateBody } = require('../middleware/validation');
+const { verifyToken, requireAdmin, requireSuperAdmin } = require('../middleware/auth');
+const {
+  MODES, DEFAULT_PROGRESSION, parseProgression, LOCK_SCOPES, LOCK_KINDS, loadPartLocks, partAccess,
+} = require('../progression');
+const { parseTS, formatTS } = require('../utils/time');
+const { adminScope, inScope, classInScope, classIdsOf } = require('../classes');
+
+/* ---------- ログ補助 ---------- */
+const NS = 'admin-progression';
+const now = () => new Date().toISOString();
+const rid = () => Math.random().toString(36).slice(2, 8);
+const logInfo  = (id, msg, extra) => console.info(`[${now()}] [${NS}] [${id}] INFO  ${msg}${extra ? ' ' + JSON.stringify(extra) : ''}`);
+const logWarn  = (id, msg, extra) => console.warn(`[${now()}] [${NS}] [${id}] WARN  ${msg}${extra ? ' ' + JSON.stringify(extra) : ''}`);
+const logError = (id, msg, extra) => console.error(`[${now()}] [${NS}] [${id}] ERROR ${msg}${extra ? ' ' + JSON.stringify(extra) : ''}`);
+
+// 保存済みの行を API 向けの形にする（rules を { mode, rules } に復元）
+const toRule = (row) => ({ ...row, rules: parseProgression(row.rules).progression });
+
+// ロックの設定を変更できるか（全員への設定は管理者のみ）
+const canManageLock = (scope, lock) =>
+  lock.scope === 'all' ? scope.all
+    : lock.scope === 'class' ? classInScope(scope, lock.target)
+      : inScope(scope, lock.target);
+
+/* =========================
+   進級ルール
+   ========================= */
+
+// ルール一覧（default: どのルールも無い場合に使う既定値）
+router.get('/rules', verifyToken, requireAdmin, async (req, res) => {
+  const reqId = rid();
+  logInfo(reqId, 'get rules request');
+
+  try {
+    const rows = await getRepository().progressionRules.list();
+    logInfo(reqId, 'rules fetched', { count: rows.length });
+    return res.json({ ok: true, default: DEFAULT_PROGRESSION, rules: rows.map(toRule) });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+// ルールの保存（grade_id / part_no の 0 は「すべて」。同じ学年・パートのルールは置き換える）
+router.put('/rules',
+  verifyToken,
+  requireSuperAdmin,
+  validateBody({
+    grade_id: { type: 'number', required: true, min: 0, max: 99 },
+    part_no: { type: 'number', required: true, min: 0, max: 99 },
+    mode: { type: 'string', required: true, pattern: new RegExp(`^(${MODES.join('|')})$`) },
+    rules: { type: 'array', required: true, maxItems: 10 },
+  }),
+  async (req, res) => {
+  const reqId = rid();
+  const grade_id = Number(req.body.grade_id);
+  const part_no = Number(req.body.part_no);
+  logInfo(reqId, 'save rule request', { grade_id, part_no });
+
+  if (!grade_id && part_no) {
+    return res.status(400).json({ ok: false, message: 'パートを指定する場合は学年も指定してください' });
+  }
+  const { progression, problems } = parseProgression({ mode: req.body.mode, rules: req.body.rules });
+  if (!progression) {
+    logWarn(reqId, 'invalid rules', { problems });
+    return res.status(400).json({ ok: false, message: problems[0], errors: problems });
+  }
+
+  try {
+    const saved = await getRepository().progressionRules.save({
+      grade_id,
+      part_no,
+      rules: JSON.stringify(progression),
+      updated_by: req.user.userId,
+    });
+    logInfo(reqId, 'rule saved', { rule_id: saved.rule_id });
+    return res.json({ ok: true, rule: toRule(saved) });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+// ルールの削除（削除後は学年 → 全体 → 既定値の順で適用される）
+router.delete('/rules/:ruleId', verifyToken, requireSuperAdmin, async (req, res) => {
+  const reqId = rid();
+  const { ruleId } = req.params;
+  logInfo(reqId, 'delete rule request', { ruleId });
+
+  try {
+    if (!(await getRepository().progressionRules.remove(ruleId))) {
+      return res.status(404).json({ ok: false, message: 'ルールが見つかりません' });
+    }
+    logInfo(reqId, 'rule deleted', { ruleId });
+    return res.json({ ok: true });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+/* =========================
+   先生の承認（ルールに approval がある場合に使う）
+   ========================= */
+
+// 承認一覧（user_id / part_id で絞り込み）
+router.get('/approvals',
+  verifyToken,
+  requireAdmin,
+  validateQuery({
+    user_id: { type: 'string', maxLength: 100 },
+    part_id: { type: 'string', maxLength: 100 },
+  }),
+  async (req, res) => {
+  const reqId = rid();
+  const where = {};
+  if (req.query.user_id) where.user_id = String(req.query.user_id);
+  if (req.query.part_id) where.part_id = String(req.query.part_id);
+  logInfo(reqId, 'get approvals request', where);
+
+  try {
+    const repo = getRepository();
+    const scope = await adminScope(repo, req.user);
+    const approvals = (await repo.approvals.list(where)).filter(a => inScope(scope, a.user_id));
+    return res.json({ ok: true, approvals });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+// 承認（次にそのパートをプレイし終えたときに進級ルールで判定される）
+router.post('/approvals',
+  verifyToken,
+  requireAdmin,
+  validateBody({
+    user_id: { type: 'string', required: true, minLength: 1, maxLength: 100 },
+    part_id: { type: 'string', required: true, minLength: 1, maxLength: 100 },
+  }),
+  async (req, res) => {
+  const reqId = rid();
+  const user_id = String(req.body.user_id);
+  const part_id = String(req.body.part_id);
+  logInfo(reqId, 'approve request', { user_id, part_id });
+
+  try {
+    const repo = getRepository();
+    if (!(await repo.users.findByUserId(user_id)) || !inScope(await adminScope(repo, req.user), user_id)) {
+      return res.status(404).json({ ok: false, message: 'ユーザーが見つかりません' });
+    }
+    if (!(await repo.parts.findById(part_id))) {
+      return res.status(404).json({ ok: false, message: 'パートが見つかりません' });
+    }
+    if (await repo.approvals.find(user_id, part_id)) {
+      logWarn(reqId, 'already approved', { user_id, part_id });
+      return res.status(409).json({ ok: false, message: '既に承認済みです' });
+    }
+
+    const approval = await repo.approvals.create({ user_id, part_id, approved_by: req.user.userId });
+    logInfo(reqId, 'approved', { approval_id: approval.approval_id });
+    return res.status(201).json({ ok: true, approval });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+// 承認の取り消し
+router.delete('/approvals/:approvalId', verifyToken, requireAdmin, async (req, res) => {
+  const reqId = rid();
+  const { approvalId } = req.params;
+  logInfo(reqId, 'revoke approval request', { approvalId });
+
+  try {
+    const repo = getRepository();
+    const [approval] = await repo.approvals.list({ approval_id: approvalId });
+    if (!approval || !inScope(await adminScope(repo, req.user), approval.user_id)) {
+      return res.status(404).json({ ok: false, message: '承認が見つかりません' });
+    }
+    await repo.approvals.remove(approvalId);
+    logInfo(reqId, 'approval revoked', { approvalId });
+    return res.json({ ok: true });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+/* =========================
+   パートのロック・解放・上限（/select/options・/select/validate・プレイ開始・/game/advance で反映）
+   ========================= */
+
+// 設定一覧（user_id を指定すると、その生徒にかかる設定。先生は全員への設定と、担当クラス・生徒への設定）
+router.get('/locks',
+  verifyToken,
+  requireAdmin,
+  validateQuery({
+    user_id: { type: 'string', maxLength: 100 },
+  }),
+  async (req, res) => {
+  const reqId = rid();
+  const userId = req.query.user_id ? String(req.query.user_id) : '';
+  logInfo(reqId, 'get locks request', { userId });
+
+  try {
+    const repo = getRepository();
+    const scope = await adminScope(repo, req.user);
+    const classIds = userId ? await classIdsOf(repo, userId) : [];
+    const locks = (await repo.partLocks.list())
+      .filter(l => l.scope === 'all' || canManageLock(scope, l))
+      .filter(l => !userId || l.scope === 'all'
+        || (l.scope === 'class' && classIds.includes(l.target))
+        || (l.scope === 'user' && l.target === userId));
+    return res.json({ ok: true, locks });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+// 設定の追加（scope: 'class' は class_id、'user' は user_id が必須。part_no / subpart_no の 0 は「すべて」）
+router.post('/locks',
+  verifyToken,
+  requireAdmin,
+  validateBody({
+    scope: { type: 'string', required: true, pattern: new RegExp(`^(${LOCK_SCOPES.join('|')})$`) },
+    class_id: { type: 'string', maxLength: 100 },
+    user_id: { type: 'string', maxLength: 100 },
+    kind: { type: 'string', required: true, pattern: new RegExp(`^(${LOCK_KINDS.join('|')})$`) },
+    grade_id: { type: 'number', required: true, min: 1, max: 99 },
+    part_no: { type: 'number', min: 0, max: 99 },
+    subpart_no: { type: 'number', min: 0, max: 99 },
+    expires_at: { type: 'string', maxLength: 30 },
+    note: { type: 'string', maxLength: 200 },
+  }),
+  async (req, res) => {
+  const reqId = rid();
+  const { scope, kind } = req.body;
+  const target = scope === 'user' ? String(req.body.user_id || '').trim()
+    : scope === 'class' ? String(req.body.class_id || '').trim()
+      : '';
+  const grade_id = Number(req.body.grade_id);
+  const part_no = Number(req.body.part_no) || 0;
+  const subpart_no = Number(req.body.subpart_no) || 0;
+  logInfo(reqId, 'create lock request', { scope, target, kind, grade_id, part_no, subpart_no });
+
+  if (scope === 'user' && !target) {
+    return res.status(400).json({ ok: false, message: '生徒のユーザーIDを入力してください' });
+  }
+  if (scope === 'class' && !target) {
+    return res.status(400).json({ ok: false, message: 'クラスを選択してください' });
+  }
+  if (subpart_no && !part_no) {
+    return res.status(400).json({ ok: false, message: 'サブパートを指定する場合はパートも指定してください' });
+  }
+  let expires_at = '';
+  if (req.body.expires_at) {
+    const ms = parseTS(req.body.expires_at);
+    if (Number.isNaN(ms)) {
+      return res.status(400).json({ ok: false, message: '期限は YYYY/MM/DD HH:mm:ss の形式で入力してください' });
+    }
+    expires_at = formatTS(ms);
+  }
+
+  try {
+    const repo = getRepository();
+    const scopeOfAdmin = await adminScope(repo, req.user);
+    if (scope === 'all' && !scopeOfAdmin.all) {
+      return res.status(403).json({ ok: false, message: '全員への設定は管理者のみ行えます' });
+    }
+    if (scope === 'user' && (!(await repo.users.findByUserId(target)) || !inScope(scopeOfAdmin, target))) {
+      return res.status(404).json({ ok: false, message: 'ユーザーが見つかりません' });
+    }
+    if (scope === 'class' && (!(await repo.classes.findById(target)) || !classInScope(scopeOfAdmin, target))) {
+      return res.status(404).json({ ok: false, message: 'クラスが見つかりません' });
+    }
+
+    const lock = await repo.partLocks.create({
+      scope, target, kind, grade_id, part_no, subpart_no, expires_at,
+      note: String(req.body.note || '').trim(),
+      created_by: req.user.userId,
+    });
+    logInfo(reqId, 'lock created', { lock_id: lock.lock_id });
+    return res.status(201).json({ ok: true, lock });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+// 設定の削除
+router.delete('/locks/:lockId', verifyToken, requireAdmin, async (req, res) => {
+  const reqId = rid();
+  const { lockId } = req.params;
+  logInfo(reqId, 'delete lock request', { lockId });
+
+  try {
+    const repo = getRepository();
+    const [lock] = await repo.partLocks.list({ lock_id: lockId });
+    if (!lock) {
+      return res.status(404).json({ ok: false, message: '設定が見つかりません' });
+    }
+    if (!canManageLock(await adminScope(repo, req.user), lock)) {
+      logWarn(reqId, 'lock out of scope', { lockId, scope: lock.scope });
+      return res.status(403).json({ ok: false, message: 'この設定は削除できません' });
+    }
+    await repo.partLocks.remove(lockId);
+    logInfo(reqId, 'lock deleted', { lockId });
+    return res.json({ ok: true });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+// 生徒が選択できるパート（進捗と設定を反映した結果の確認用）
+router.get('/access',
+  verifyToken,
+  requireAdmin,
+  validateQuery({
+    user_id: { type: 'string', required: true, minLength: 1, maxLength: 100 },
+  }),
+  async (req, res) => {
+  const reqId = rid();
+  const userId = String(req.query.user_id);
+  logInfo(reqId, 'get access request', { userId });
+
+  try {
+    const repo = getRepository();
+    const user = await repo.users.findByUserId(userId);
+    if (!user || !inScope(await adminScope(repo, req.user), userId)) {
+      return res.status(404).json({ ok: false, message: 'ユーザーが見つかりません' });
+    }
+    const locks = await loadPartLocks(repo, user);
+    const parts = (await repo.parts.list()).map(p => ({
+      part_id: p.part_id,
+      grade_id: p.grade_id,
+      part_no: p.part_no,
+      subpart_no: p.subpart_no,
+      ...partAccess(user, p, locks),
+    }));
+    return res.json({
+      ok: true,
+      current: { grade: user.current_grade, part: user.current_part, subpart: user.current_subpart },
+      parts,
+    });
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+module.exports = router;
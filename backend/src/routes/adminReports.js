@@ -0,0 +1,106 @@
+// backend/src/routes/adminReports.js
+// レポートの出力（管理者用。先生は担当クラスとその生徒のみ）
+const express = require('express');
+const router = express.Router();
+const { getRepository } = require('../repositories');
+const { validateQuery } = require('../middleware/validation');
+const { verifyToken, requireAdmin } = require('../middleware/auth');
+const { adminScope, inScope, classInScope } = require('../classes');
+const { REPORT_FORMATS, dateRange, studentReport, classReport, renderReport } = require('../reports');
+
+/* ---------- ログ補助 ---------- */
+const NS = 'admin-reports';
+const now = () => new Date().toISOString();
+const rid = () => Math.random().toString(36).slice(2, 8);
+const logInfo  = (id, msg, extra) => console.info(`[${now()}] [${NS}] [${id}] INFO  ${msg}${extra ? ' ' + JSON.stringify(extra) : ''}`);
+const logWarn  = (id, msg, extra) => console.warn(`[${now()}] [${NS}] [${id}] WARN  ${msg}${extra ? ' ' + JSON.stringify(extra) : ''}`);
+const logError = (id, msg, extra) => console.error(`[${now()}] [${NS}] [${id}] ERROR ${msg}${extra ? ' ' + JSON.stringify(extra) : ''}`);
+
+// 期間（YYYY-MM-DD。省略は制限なし）と形式
+const REPORT_QUERY = {
+  from: { type: 'string', pattern: /^\d{4}-\d{2}-\d{2}$/ },
+  to: { type: 'string', pattern: /^\d{4}-\d{2}-\d{2}$/ },
+  format: { type: 'string', pattern: new RegExp(`^(${REPORT_FORMATS.join('|')})$`) },
+};
+
+// 期間の確認（開始が終了より後なら null）
+function parseRange(query) {
+  const from = query.from ? String(query.from) : '';
+  const to = query.to ? String(query.to) : '';
+  return from && to && from > to ? null : dateRange(from, to);
+}
+
+function sendReport(res, report, format) {
+  const { body, contentType, filename } = renderReport(report, format);
+  res.set('Content-Type', contentType);
+  res.set('Content-Disposition', `attachment; filename="${filename}"`);
+  return res.send(body);
+}
+
+// 生徒ごとのレポート（パートごとのプレイ数・クリア数・正答率）
+router.get('/students/:userId',
+  verifyToken,
+  requireAdmin,
+  validateQuery(REPORT_QUERY),
+  async (req, res) => {
+  const reqId = rid();
+  const { userId } = req.params;
+  const format = req.query.format ? String(req.query.format) : 'csv';
+  logInfo(reqId, 'student report request', { userId, from: req.query.from, to: req.query.to, format });
+
+  const range = parseRange(req.query);
+  if (!range) {
+    return res.status(400).json({ ok: false, message: '期間の開始は終了より前の日付にしてください' });
+  }
+
+  try {
+    const repo = getRepository();
+    const user = await repo.users.findByUserId(userId);
+    if (!user || !inScope(await adminScope(repo, req.user), userId)) {
+      logWarn(reqId, 'user not found', { userId });
+      return res.status(404).json({ ok: false, message: 'ユーザーが見つかりません' });
+    }
+
+    const report = await studentReport(repo, user, range);
+    logInfo(reqId, 'student report generated', { userId, rows: report.rows.length, format });
+    return sendReport(res, report, format);
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+// クラスごとのレポート（生徒ごとのプレイ数・クリア数・正答率・現在の位置）
+router.get('/classes/:classId',
+  verifyToken,
+  requireAdmin,
+  validateQuery(REPORT_QUERY),
+  async (req, res) => {
+  const reqId = rid();
+  const { classId } = req.params;
+  const format = req.query.format ? String(req.query.format) : 'csv';
+  logInfo(reqId, 'class report request', { classId, from: req.query.from, to: req.query.to, format });
+
+  const range = parseRange(req.query);
+  if (!range) {
+    return res.status(400).json({ ok: false, message: '期間の開始は終了より前の日付にしてください' });
+  }
+
+  try {
+    const repo = getRepository();
+    const cls = await repo.classes.findById(classId);
+    if (!cls || !classInScope(await adminScope(repo, req.user), classId)) {
+      logWarn(reqId, 'class not found', { classId });
+      return res.status(404).json({ ok: false, message: 'クラスが見つかりません' });
+    }
+
+    const report = await classReport(repo, cls, range);
+    logInfo(reqId, 'class report generated', { classId, rows: report.rows.length, format });
+    return sendReport(res, report, format);
+  } catch (err) {
+    logError(reqId, 'exception', { message: err?.message, stack: err?.stack });
+    return res.status(500).json({ ok: false, message: 'サーバーエラーが発生しました' });
+  }
+});
+
+module.exports = router;
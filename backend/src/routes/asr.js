@@ -0,0 +1,88 @@
+// backend/src/routes/asr.js
+const express = require('express');
+const router = express.Router();
+const { authenticateToken } = require('../middleware/auth');
+const { ASR_MAX_AUDIO_BYTES, getEngineName, recognize } = require('../services/asr');
+
+// ログヘルパー
+const log = {
+  info: (route, message, data = {}) => {
+    console.log(`[${new Date().toISOString()}] [INFO] [${route}] ${message}`, data);
+  },
+  error: (route, message, error) => {
+    console.error(`[${new Date().toISOString()}] [ERROR] [${route}] ${message}`, error?.message || error);
+  },
+  warn: (route, message, data = {}) => {
+    console.warn(`[${new Date().toISOString()}] [WARN] [${route}] ${message}`, data);
+  }
+};
+
+// 録音データの読み込み（大きすぎる場合は 413）
+const readAudio = express.raw({ type: ['audio/*', 'video/webm', 'video/mp4', 'application/octet-stream'], limit: ASR_MAX_AUDIO_BYTES });
+function parseAudio(req, res, next) {
+  readAudio(req, res, (err) => {
+    if (!err) return next();
+    log.warn('POST /asr/recognize', 'Invalid audio body', { type: err.type, status: err.status });
+    const tooLarge = err.status === 413;
+    res.status(tooLarge ? 413 : 400).json({
+      ok: false,
+      message: tooLarge ? '録音が長すぎます' : '音声データを読み込めませんでした'
+    });
+  });
+}
+
+/* =========================
+   GET /asr/status
+   サーバー側の音声認識が使えるか
+   ========================= */
+router.get('/status', authenticateToken, (req, res) => {
+  const engine = getEngineName();
+  res.json({ ok: true, available: !!engine, engine });
+});
+
+/* =========================
+   POST /asr/recognize  （本文: 録音した音声。Content-Type: audio/webm など）
+   Web Speech API が使えないブラウザ（Firefox / Safari）の録音を認識する
+   ========================= */
+router.post('/recognize',
+  authenticateToken,
+  parseAudio,
+  async (req, res) => {
+  const routeName = 'POST /asr/recognize';
+  try {
+    if (!getEngineName()) {
+      log.warn(routeName, 'Speech recognition engine is not configured');
+      return res.status(503).json({ ok: false, message: '音声認識サーバーが設定されていません' });
+    }
+
+    const audio = req.body;
+    if (!Buffer.isBuffer(audio) || audio.length === 0) {
+      log.warn(routeName, 'Empty audio', { contentType: req.headers['content-type'] });
+      return res.status(400).json({ ok: false, message: '音声データがありません' });
+    }
+
+    const startedAt = Date.now();
+    const { engine, transcripts } = await recognize(audio);
+
+    log.info(routeName, 'Audio recognized', {
+      userId: req.user.userId,
+      engine,
+      bytes: audio.length,
+      elapsedMs: Date.now() - startedAt,
+      transcripts,
+    });
+
+    // ローカルエンジンは信頼度を返さないため confidences は空（判定側では不明として扱う）
+    res.json({ ok: true, engine, transcripts, confidences: [] });
+  } catch (e) {
+    // ★ 同時に認識できる数を超えた場合は 503（busy: true。設定が無い場合の 503 と区別し、言い直してもらう）
+    if (e.code === 'ASR_BUSY') {
+      log.warn(routeName, 'Speech recognition is busy', { userId: req.user.userId });
+      return res.status(503).set('Retry-After', '1').json({ ok: false, busy: true, message: '音声認識が混み合っています。もう一度話してください' });
+    }
+    log.error(routeName, 'Error', e);
+    res.status(500).json({ ok: false, message: '音声認識に失敗しました' });
+  }
+});
+
+module.exports = router;
@@ -1,43 +1,11 @@
 // backend/src/routes/logInPage.js
 const express = require("express");
 const router = express.Router();
-const { getSheetsClient, SPREADSHEET_ID } = require("../services/google");
+const { getRepository } = require("../repositories");
 const { verifyPassword, isPasswordHashed } = require("../utils/password");
 const { generateToken } = require("../middleware/auth");
 const { validateBody } = require("../middleware/validation");
-const { getCache, setCache, getSheetsKey } = require("../services/redis");
-
-const USER_SHEET_NAME = "users";
-
-// 期待するヘッダー（列順も固定）
-const EXPECTED_HEADER = [
-  "id",
-  "user_id",
-  "password",
-  "nickname",
-  "real_name",
-  "current_grade",
-  "current_part",
-  "current_subpart",
-  "is_admin",
-  "created_at",
-  "updated_at",
-];
-
-// 固定の列インデックス（0始まり）
-const COL = {
-  id: 0,
-  user_id: 1,
-  password: 2,
-  nickname: 3,
-  real_name: 4,
-  current_grade: 5,
-  current_part: 6,
-  current_subpart: 7,
-  is_admin: 8,
-  created_at: 9,
-  updated_at: 10,
-};
+const { userRole } = require("../classes");
 
 /* ---------- ログ補助 ---------- */
 const NS = "auth/login";
@@ -87,83 +55,19 @@ router.post(
         .status(400)
         .json({ ok: false, message: "userId と password は必須です" });
     }
-    if (!SPREADSHEET_ID) {
-      logError(reqId, "SHEET_ID not set");
-      return res
-        .status(500)
-        .json({ ok: false, message: "SHEET_ID が未設定です" });
-    }
 
     try {
-      // Redisキャッシュを確認
-      const cacheKey = getSheetsKey(USER_SHEET_NAME, "A1:K");
-      let rows = await getCache(cacheKey);
-
-      if (rows) {
-        logInfo(reqId, "users fetched from cache", { totalRows: rows.length });
-      } else {
-        const sheets = await getSheetsClient(true);
-        logInfo(reqId, "sheets client obtained");
-
-        // A〜K列まで取得（列は固定）
-        // ★ FORMATTED_VALUE を使用して user_id の先頭ゼロを保持（例: 00002）
-        const resp = await sheets.spreadsheets.values.get({
-          spreadsheetId: SPREADSHEET_ID,
-          range: `${USER_SHEET_NAME}!A1:K`,
-          valueRenderOption: "FORMATTED_VALUE",
-        });
-
-        rows = resp.data.values || [];
-        if (rows.length > 0) {
-          // キャッシュに保存 (TTL 60秒)
-          await setCache(cacheKey, rows, 60);
-        }
-        logInfo(reqId, "users fetched from API", { totalRows: rows.length });
-      }
-      logInfo(reqId, "users fetched", { totalRows: rows.length });
-
-      if (rows.length < 2) {
-        logWarn(reqId, "no data rows");
-        return res
-          .status(500)
-          .json({ ok: false, message: "ユーザーデータが存在しません" });
-      }
-
-      // ヘッダー一致チェック（列名＆順序）
-      const header = (rows[0] || []).map((v) => String(v || "").trim());
-      const headerOk =
-        EXPECTED_HEADER.length === header.length &&
-        EXPECTED_HEADER.every((name, i) => header[i] === name);
-
-      if (!headerOk) {
-        logError(reqId, "header mismatch", {
-          got: header,
-          expected: EXPECTED_HEADER,
-        });
-        return res
-          .status(500)
-          .json({
-            ok: false,
-            message: "usersヘッダが想定と異なります（列名・順序固定）",
-          });
-      }
-
-      const dataRows = rows.slice(1);
-
-      // user_id が完全一致する行を探す（固定列 index=1）
-      const rowIndex = dataRows.findIndex(
-        (r) => String(r[COL.user_id] || "") === String(userId),
-      );
-      if (rowIndex === -1) {
+      // user_id が完全一致するユーザーを探す
+      const row = await getRepository().users.findByUserId(userId);
+      if (!row) {
         logWarn(reqId, "user not found", { userId: maskUser(userId) });
         return res
           .status(401)
           .json({ ok: false, message: "認証に失敗しました" });
       }
-      const row = dataRows[rowIndex];
 
-      // パスワード検証（固定列 index=2）
-      const storedPassword = String(row[COL.password] || "");
+      // パスワード検証
+      const storedPassword = row.password;
       let passwordMatch = false;
 
       if (isPasswordHashed(storedPassword)) {
@@ -197,18 +101,17 @@ router.post(
           .json({ ok: false, message: "認証に失敗しました" });
       }
 
-      // 表示名は nickname（固定列 index=3）
-      const name = String(row[COL.nickname] || "");
+      // 表示名は nickname
+      const name = row.nickname;
 
-      // 進捗（数値化して返す）
-      const current_grade = Number(row[COL.current_grade] ?? 0) || 0;
-      const current_part = Number(row[COL.current_part] ?? 0) || 0;
-      const current_subpart = Number(row[COL.current_subpart] ?? 0) || 0;
+      // 進捗
+      const current_grade = row.current_grade;
+      const current_part = row.current_part;
+      const current_subpart = row.current_subpart;
 
-      // 管理者フラグ（固定列 index=8）
-      const is_admin =
-        row[COL.is_admin] === true ||
-        String(row[COL.is_admin] || "").toLowerCase() === "true";
+      // 権限（先生も管理画面を使うため is_admin は student 以外で true）
+      const role = userRole(row);
+      const is_admin = role !== "student";
 
       const ms = Date.now() - t0;
       logInfo(reqId, "login success", {
@@ -217,7 +120,7 @@ router.post(
         current_grade,
         current_part,
         current_subpart,
-        is_admin,
+        role,
         durationMs: ms,
       });
 
@@ -229,6 +132,7 @@ router.post(
         current_part,
         current_subpart,
         is_admin,
+        role,
       });
 
       // HttpOnlyクッキーにトークンを設定
@@ -258,6 +162,7 @@ router.post(
           current_part,
           current_subpart,
           is_admin,
+          role,
         },
       });
     } catch (err) {
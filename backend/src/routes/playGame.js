@@ -1,25 +1,26 @@
 // backend/src/routes/playGame.js
 const express = require('express');
 const router = express.Router();
-const { getSheetsClient, SPREADSHEET_ID } = require('../services/google');
+const { getRepository } = require('../repositories');
 const { authenticateToken } = require('../middleware/auth');
 const { validateQuery, validateBody } = require('../middleware/validation');
 const { getCache, setCache, getSheetsKey, DEFAULT_TTL } = require('../services/redis');
+const { nowTS, formatTS } = require('../utils/time');
+const { evaluateAnswer, resolveMatchConfig, scorePronunciation, wrongAnswerFeedback } = require('../matching');
+const { partSettings } = require('../content/rules');
+const { checkProgression, checkPartAccess, accessMessage } = require('../progression');
+const { reviewSchedule, REVIEW_QUESTION_COUNT } = require('../review');
 
-const PARTS_SHEET     = 'parts';           // part_id | grade_id | part_no | subpart_no | requirement
-const QUESTIONS_SHEET = 'questions';       // question_id | part_id | display_order | is_demo | question_text | image_url
-const ANSWERS_SHEET   = 'answer_patterns'; // id | question_id | expected_text
-const SCORES_SHEET    = 'scores';          // score_id | user_id | part_id | scores | clear | play_date
-const USERS_SHEET     = 'users';           // id | user_id | password | nickname | real_name | current_grade | current_part | current_subpart | is_admin | created_at | updated_at
+// ★ 問題数・クリアに必要な正解数・制限時間・問題の並べ替えはパートごとの設定（parts。空の場合は content/rules.js の既定値）
 
-const PARTS_HEADER     = ['part_id','grade_id','part_no','subpart_no','requirement'];
-const QUESTIONS_HEADER = ['question_id','part_id','display_order','is_demo','question_text','image_url'];
-const ANSWERS_HEADER   = ['id','question_id','expected_text'];
-const SCORES_HEADER    = ['score_id','user_id','part_id','scores','clear','play_date'];
-const USERS_HEADER     = ['id','user_id','password','nickname','real_name','current_grade','current_part','current_subpart','is_admin','created_at','updated_at'];
+// 回答方法（音声 / キーボード入力）。scores には別々に記録する
+const INPUT_MODES = ['voice', 'typed'];
 
-// ★ 10回挑戦で解放
-const REQUIRED_ATTEMPTS = 10;
+// プレイの種類
+//   play     : パートのプレイ
+//   practice : 練習（進捗までのパートのみ。scores に mode: practice で記録し、進級・挑戦回数のランキングには使わない）
+//   review   : 復習（scores に記録せず、進級にも使わない）
+const SESSION_MODES = ['play', 'practice', 'review'];
 
 // ログヘルパー
 const log = {
@@ -34,10 +35,169 @@ const log = {
   }
 };
 
-function nowTS() {
-  const d = new Date();
-  const z = (n) => String(n).padStart(2,'0');
-  return `${d.getFullYear()}/${z(d.getMonth()+1)}/${z(d.getDate())} ${z(d.getHours())}:${z(d.getMinutes())}:${z(d.getSeconds())}`;
+/**
+ * パートの問題を解答付きで取得（サーバー内部用。クライアントへは解答を除いて返す）
+ * patterns には パート → 問題 → 正解パターン の match_config を重ねた判定設定を付ける
+ */
+async function loadPartQuestions(part_id, routeName) {
+  // Redisキャッシュをチェック
+  const cacheKey = getSheetsKey('questions', `${part_id}:with-patterns`);
+  const cachedData = await getCache(cacheKey);
+
+  if (cachedData) {
+    log.info(routeName, 'Returning cached questions', { part_id });
+    return cachedData;
+  }
+
+  const repo = getRepository();
+
+  // 問題
+  let questions = await repo.questions.listByPart(part_id);
+  log.info(routeName, 'Questions data fetched', { total: questions.length });
+
+  // パートの問題数に調整
+  const part = await repo.parts.findById(part_id);
+  const { question_count } = partSettings(part);
+  if (questions.length > question_count) {
+    log.warn(routeName, `Too many questions, trimming to ${question_count}`, { original: questions.length });
+    questions = questions.slice(0, question_count);
+  } else if (questions.length < question_count) {
+    log.warn(routeName, `Less than ${question_count} questions found`, { actual: questions.length });
+  }
+
+  // 解答と判定設定
+  const answersByQ = await repo.answers.groupByQuestion(questions.map(q => q.question_id));
+
+  const withAns = questions.map(q => {
+    const rows = answersByQ.get(q.question_id) || [];
+    return {
+      ...q,
+      answers: rows.map(r => r.expected_text),
+      patterns: rows.map(r => ({
+        text: r.expected_text,
+        config: resolveMatchConfig(part?.match_config, q.match_config, r.match_config),
+      })),
+    };
+  });
+
+  // Redisキャッシュに保存
+  await setCache(cacheKey, withAns, DEFAULT_TTL.SHEETS_DATA);
+  return withAns;
+}
+
+// ★ 解答（と解答が分かる判定設定）は公開前にクライアントへ渡さない
+const withoutAnswers = ({ answers: _answers, patterns: _patterns, match_config: _config, ...question }) => question;
+
+/**
+ * デモ以外の問題を並べ替える（デモ問題の位置はそのまま。Fisher-Yates）
+ */
+function shuffleQuestions(questions) {
+  const slots = questions.map((q, i) => (q.is_demo ? -1 : i)).filter(i => i >= 0);
+  const picked = slots.map(i => questions[i]);
+  for (let i = picked.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [picked[i], picked[j]] = [picked[j], picked[i]];
+  }
+  const result = [...questions];
+  slots.forEach((slot, i) => { result[slot] = picked[i]; });
+  return result;
+}
+
+// play_sessions.question_ids（JSON 文字列）を配列に復元
+function parseQuestionIds(value) {
+  try {
+    const parsed = JSON.parse(value || '[]');
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * セッションで出題した問題を出題順に取得（解答付き）
+ * question_ids の無い以前のセッションは、パートの問題をそのまま使う
+ * 復習（part_id が空）は問題ごとにパートが異なるため、問題のパートを調べて読み込む
+ */
+async function loadSessionQuestions(session, routeName) {
+  const ids = parseQuestionIds(session.question_ids);
+  if (ids.length === 0) return loadPartQuestions(session.part_id, routeName);
+
+  let partIds = [session.part_id];
+  if (!session.part_id) {
+    const wanted = new Set(ids);
+    const rows = await getRepository().questions.list();
+    partIds = [...new Set(rows.filter(q => wanted.has(q.question_id)).map(q => q.part_id))];
+  }
+  const byId = new Map();
+  for (const partId of partIds) {
+    for (const q of await loadPartQuestions(partId, routeName)) byId.set(q.question_id, q);
+  }
+  return ids.map(id => byId.get(id)).filter(Boolean);
+}
+
+// プレイごとの処理待ちの末尾（session_id → Promise）
+const sessionQueues = new Map();
+
+/**
+ * 同じプレイへの回答・時間切れ・終了を、届いた順に 1 つずつ処理するミドルウェア
+ * ★ attempt_no は記録済みの回答ログの数から決めるため、二重送信を並行して処理すると同じ番号（attempt_id）になる
+ *   前の処理のレスポンスを返し終えてから次の処理を始める（1 つのプロセスの中で。複数プロセスでは同じプレイを同じプロセスに送る前提）
+ */
+function serializeSession(req, res, next) {
+  const key = String(req.params.sessionId);
+  const previous = sessionQueues.get(key) || Promise.resolve();
+  let ended = false;
+  const done = new Promise(resolve => {
+    const end = () => { ended = true; resolve(); };
+    res.once('finish', end);
+    res.once('close', end);
+  });
+  // 順番を待つ間に接続が切れた場合は処理しない
+  const tail = previous.then(() => {
+    if (!ended) next();
+    return done;
+  });
+  sessionQueues.set(key, tail);
+  tail.then(() => {
+    if (sessionQueues.get(key) === tail) sessionQueues.delete(key);
+  });
+}
+
+/**
+ * 自分のプレイ中セッションを取得（見つからない・他人・終了済みはエラーレスポンス）
+ */
+async function loadActiveSession(req, res, routeName) {
+  const session = await getRepository().sessions.findById(req.params.sessionId);
+  if (!session || session.user_id !== req.user.userId) {
+    log.warn(routeName, 'Session not found', { sessionId: req.params.sessionId, userId: req.user.userId });
+    res.status(404).json({ ok:false, message:'プレイが見つかりません' });
+    return null;
+  }
+  if (session.status !== 'active') {
+    log.warn(routeName, 'Session already finished', { sessionId: session.session_id });
+    res.status(409).json({ ok:false, message:'このプレイは終了しています' });
+    return null;
+  }
+  // 復習（part_id が空）は question_ids が無いと問題を読み込めない（列の無いシートに記録された以前のセッション）
+  if (!session.part_id && parseQuestionIds(session.question_ids).length === 0) {
+    log.warn(routeName, 'Session has no questions', { sessionId: session.session_id });
+    res.status(409).json({ ok:false, message:'問題の記録が無いため、このプレイは続けられません。はじめからやり直してください' });
+    return null;
+  }
+  return session;
+}
+
+/**
+ * セッション内の問題を取得し、既に終了した問題（正解・時間切れ）かどうかを判定
+ */
+async function loadSessionQuestion(session, question_id, routeName) {
+  const questions = await loadSessionQuestions(session, routeName);
+  const question = questions.find(q => q.question_id === String(question_id)) || null;
+  const attempts = await getRepository().attempts.listBySession(session.session_id);
+  const closed = attempts.some(a =>
+    a.question_id === String(question_id) && (a.result === 'correct' || a.result === 'timeout')
+  );
+  return { questions, question, attempts, closed };
 }
 
 /* =========================
@@ -56,17 +216,13 @@ router.get('/part',
     const { grade, part, subpart } = req.query;
     log.info(routeName, 'Request received', { grade, part, subpart });
 
-    if (!SPREADSHEET_ID) {
-      log.error(routeName, 'SHEET_ID not configured');
-      return res.status(500).json({ ok:false, message:'SHEET_ID 未設定' });
-    }
     if (!grade || !part || !subpart) {
       log.warn(routeName, 'Missing required parameters', { grade, part, subpart });
       return res.status(400).json({ ok:false, message:'grade/part/subpart は必須' });
     }
 
     // Redisキャッシュをチェック
-    const cacheKey = getSheetsKey(PARTS_SHEET, `${grade}-${part}-${subpart}`);
+    const cacheKey = getSheetsKey('parts', `${grade}-${part}-${subpart}`);
     const cachedData = await getCache(cacheKey);
 
     if (cachedData) {
@@ -74,39 +230,20 @@ router.get('/part',
       return res.json(cachedData);
     }
 
-    const sheets = await getSheetsClient(true);
-    const resp = await sheets.spreadsheets.values.get({
-      spreadsheetId: SPREADSHEET_ID,
-      range: `${PARTS_SHEET}!A1:E`,
-      valueRenderOption: 'UNFORMATTED_VALUE',
-    });
-    const rows = resp.data.values || [];
-    log.info(routeName, 'Parts data fetched', { totalRows: rows.length });
-
-    const header = (rows[0]||[]).map(v=>String(v??'').trim());
-    const ok = header.length===PARTS_HEADER.length && PARTS_HEADER.every((h,i)=>h===header[i]);
-    if (!ok) {
-      log.error(routeName, 'Header mismatch', { expected: PARTS_HEADER, actual: header });
-      return res.status(500).json({ ok:false, message:'parts ヘッダ不一致' });
-    }
-
-    const hit = rows.slice(1).find(r =>
-      String(r[1])===String(grade) &&
-      String(r[2])===String(part)  &&
-      String(r[3])===String(subpart)
-    );
+    const hit = await getRepository().parts.findByPosition(grade, part, subpart);
     if (!hit) {
       log.warn(routeName, 'Part not found', { grade, part, subpart });
       return res.status(404).json({ ok:false, message:'該当 part が見つかりません' });
     }
 
-    const part_id = String(hit[0]);
-    const requirement = String(hit[4] ?? '');
+    const part_id = hit.part_id;
+    const requirement = hit.requirement;
+    const settings = partSettings(hit);
 
-    log.info(routeName, 'Part found successfully', { part_id, requirement });
+    log.info(routeName, 'Part found successfully', { part_id, requirement, ...settings });
 
     // Redisキャッシュに保存
-    const result = { ok:true, part:{ part_id, requirement } };
+    const result = { ok:true, part:{ part_id, requirement, ...settings } };
     await setCache(cacheKey, result, DEFAULT_TTL.SHEETS_DATA);
 
     res.json(result);
@@ -133,221 +270,428 @@ router.get('/questions',
     const { part_id } = req.query;
     log.info(routeName, 'Request received', { part_id });
 
-    if (!SPREADSHEET_ID) {
-      log.error(routeName, 'SHEET_ID not configured');
-      return res.status(500).json({ ok:false, message:'SHEET_ID 未設定' });
-    }
     if (!part_id) {
       log.warn(routeName, 'Missing part_id');
       return res.status(400).json({ ok:false, message:'part_id は必須' });
     }
 
-    // Redisキャッシュをチェック
-    const cacheKey = getSheetsKey(QUESTIONS_SHEET, part_id);
-    const cachedData = await getCache(cacheKey);
+    const withAns = await loadPartQuestions(part_id, routeName);
 
-    if (cachedData) {
-      log.info(routeName, 'Returning cached questions', { part_id });
-      return res.json(cachedData);
+    log.info(routeName, 'Questions prepared successfully', {
+      totalQuestions: withAns.length,
+      demoQuestions: withAns.filter(q => q.is_demo).length,
+    });
+
+    const result = { ok:true, questions: withAns.map(withoutAnswers) };
+    res.json(result);
+  } catch (e) {
+    log.error(routeName, 'Unexpected error', e);
+    const message = process.env.NODE_ENV === 'production'
+      ? 'questions 取得に失敗'
+      : 'questions 取得に失敗';
+    res.status(500).json({ ok:false, message });
+  }
+});
+
+/**
+ * 復習のプレイを開始（クリア済みのパートで間違えた問題のうち、復習の時期が来たものを優先度順に出題）
+ * クリアに必要な正解数は出題数（全問正解でクリア）、制限時間は問題のパートで最も長いもの
+ */
+async function startReviewSession(req, res, routeName, input_mode) {
+  const repo = getRepository();
+  const userId = req.user.userId;
+  const { due, next_due_at } = await reviewSchedule(repo, userId);
+
+  // 削除・デモに変更された問題は除く
+  const partQuestions = new Map();
+  const picked = [];
+  for (const item of due) {
+    if (picked.length >= REVIEW_QUESTION_COUNT) break;
+    if (!partQuestions.has(item.part_id)) {
+      partQuestions.set(item.part_id, await loadPartQuestions(item.part_id, routeName));
     }
+    const q = partQuestions.get(item.part_id).find(q => q.question_id === item.question_id && !q.is_demo);
+    if (q) picked.push(q);
+  }
+
+  if (picked.length === 0) {
+    log.info(routeName, 'Nothing to review', { userId, due: due.length });
+    return res.status(404).json({
+      ok:false,
+      message: next_due_at ? `次の復習は ${formatTS(next_due_at)} からです` : '復習する問題はありません',
+    });
+  }
 
-    const sheets = await getSheetsClient(true);
+  const questions = shuffleQuestions(picked);
+  const partIds = [...new Set(questions.map(q => q.part_id))];
+  let time_limit = 0;
+  for (const partId of partIds) {
+    time_limit = Math.max(time_limit, partSettings(await repo.parts.findById(partId)).time_limit);
+  }
 
-    // 問題
-    const q = await sheets.spreadsheets.values.get({
-      spreadsheetId: SPREADSHEET_ID,
-      range: `${QUESTIONS_SHEET}!A1:F`,
-      valueRenderOption: 'UNFORMATTED_VALUE',
+  const session = await repo.sessions.start({
+    user_id: userId,
+    part_id: '',
+    total: questions.length,
+    input_mode,
+    mode: 'review',
+    question_ids: questions.map(q => q.question_id),
+  });
+
+  log.info(routeName, 'Review session started', { session_id: session.session_id, userId, questions: questions.length, due: due.length });
+
+  res.json({
+    ok:true,
+    session_id: session.session_id,
+    mode: 'review',
+    part_id: '',
+    input_mode,
+    correct_to_clear: questions.length,
+    time_limit,
+    questions: questions.map(withoutAnswers),
+  });
+}
+
+/* =========================
+   GET /game/review
+   復習の時期が来た問題の数（SelectPage の復習ボタン用）
+   ========================= */
+router.get('/review',
+  authenticateToken,
+  async (req, res) => {
+  const routeName = 'GET /game/review';
+  try {
+    const { due, next_due_at } = await reviewSchedule(getRepository(), req.user.userId);
+    res.json({
+      ok:true,
+      due_count: due.length,
+      question_count: Math.min(due.length, REVIEW_QUESTION_COUNT),
+      next_due_at: next_due_at ? formatTS(next_due_at) : null,
     });
-    const qRows = q.data.values || [];
-    log.info(routeName, 'Questions data fetched', { totalRows: qRows.length });
-
-    const qHeader = (qRows[0]||[]).map(v=>String(v??'').trim());
-    const qOk = qHeader.length===QUESTIONS_HEADER.length && QUESTIONS_HEADER.every((h,i)=>h===qHeader[i]);
-    if (!qOk) {
-      log.error(routeName, 'Questions header mismatch', { expected: QUESTIONS_HEADER, actual: qHeader });
-      return res.status(500).json({ ok:false, message:'questions ヘッダ不一致' });
-    }
+  } catch (e) {
+    log.error(routeName, 'Unexpected error', e);
+    res.status(500).json({ ok:false, message:'復習の取得に失敗' });
+  }
+});
+
+/* =========================
+   POST /game/session  { part_id, input_mode, mode }
+   プレイ開始。問題は解答を除いて返す
+   input_mode: 'voice'（音声・既定） | 'typed'（キーボード入力。同じ判定で、スコアは別に記録）
+   mode: 'play'（既定。part_id は必須） | 'practice'（練習。part_id は必須） | 'review'（復習。part_id は不要）
+   play / practice は進捗までのパートのみ（先生によるロック・解放・上限を反映。progression/access.js）
+   パートの shuffle が true の場合、デモ以外の問題を並べ替えて返す
+   ========================= */
+router.post('/session',
+  authenticateToken,
+  validateBody({
+    part_id: { type: 'string', required: false, minLength: 1, maxLength: 100 },
+    input_mode: { type: 'string', required: false, pattern: new RegExp(`^(${INPUT_MODES.join('|')})$`) },
+    mode: { type: 'string', required: false, pattern: new RegExp(`^(${SESSION_MODES.join('|')})$`) }
+  }),
+  async (req, res) => {
+  const routeName = 'POST /game/session';
+  try {
+    const { part_id, input_mode = 'voice', mode = 'play' } = req.body || {};
+    const userId = req.user.userId;
+    log.info(routeName, 'Request received', { userId, part_id, input_mode, mode });
 
-    let questions = qRows.slice(1)
-      .filter(r => String(r[1])===String(part_id))
-      .map(r => ({
-        question_id: String(r[0]),
-        part_id: String(r[1]),
-        display_order: Number(r[2] ?? 0),
-        is_demo: String(r[3] ?? '').toLowerCase()==='true',
-        question_text: String(r[4] ?? ''),
-        image_url: String(r[5] ?? ''),
-      }))
-      .sort((a,b)=>a.display_order-b.display_order);
-
-    // 8問に調整
-    if (questions.length > 8) {
-      log.warn(routeName, 'Too many questions, trimming to 8', { original: questions.length });
-      questions = questions.slice(0, 8);
-    } else if (questions.length < 8) {
-      log.warn(routeName, 'Less than 8 questions found', { actual: questions.length });
+    if (mode === 'review') {
+      return await startReviewSession(req, res, routeName, input_mode);
+    }
+    if (!part_id) {
+      log.warn(routeName, 'Missing part_id');
+      return res.status(400).json({ ok:false, message:'part_id は必須' });
     }
 
-    // 解答
-    const a = await sheets.spreadsheets.values.get({
-      spreadsheetId: SPREADSHEET_ID,
-      range: `${ANSWERS_SHEET}!A1:C`,
-      valueRenderOption: 'UNFORMATTED_VALUE',
-    });
-    const aRows = a.data.values || [];
-    const aHeader = (aRows[0]||[]).map(v=>String(v??'').trim());
-    const aOk = aHeader.length===ANSWERS_HEADER.length && ANSWERS_HEADER.every((h,i)=>h===aHeader[i]);
-    if (!aOk) {
-      log.error(routeName, 'Answers header mismatch', { expected: ANSWERS_HEADER, actual: aHeader });
-      return res.status(500).json({ ok:false, message:'answer_patterns ヘッダ不一致' });
+    const repo = getRepository();
+    const part = await repo.parts.findById(part_id);
+
+    // ★ 進捗より先のパート・先生がロックしたパートはプレイ・練習できない
+    const user = await repo.users.findByUserId(userId);
+    const access = part && user ? await checkPartAccess(repo, user, part) : { unlocked: false, reason: 'progress' };
+    if (!access.unlocked) {
+      log.warn(routeName, 'Part is locked', { userId, part_id, mode, access });
+      return res.status(403).json({ ok:false, message: accessMessage(access), reason: access.reason });
     }
 
-    const answersByQ = new Map();
-    for (const r of aRows.slice(1)) {
-      const qid = String(r[1] ?? '');
-      const txt = String(r[2] ?? '');
-      if (!qid) continue;
-      (answersByQ.get(qid) ?? answersByQ.set(qid, []).get(qid)).push(txt);
+    const questions = await loadPartQuestions(part_id, routeName);
+    if (questions.length === 0) {
+      log.warn(routeName, 'No questions for part', { part_id });
+      return res.status(404).json({ ok:false, message:'問題が見つかりません' });
     }
 
-    const withAns = questions.map(q => ({
-      ...q,
-      answers: answersByQ.get(q.question_id) || []
-    }));
+    const { correct_to_clear, time_limit, shuffle } = partSettings(part);
+    const served = shuffle ? shuffleQuestions(questions) : questions;
+    const session = await repo.sessions.start({
+      user_id: userId,
+      part_id,
+      total: served.filter(q => !q.is_demo).length,
+      input_mode,
+      mode,
+      question_ids: served.map(q => q.question_id),
+    });
 
-    log.info(routeName, 'Questions prepared successfully', {
-      totalQuestions: withAns.length,
-      demoQuestions: withAns.filter(q => q.is_demo).length,
+    log.info(routeName, 'Session started', { session_id: session.session_id, userId, part_id, input_mode, mode, shuffle });
+
+    res.json({
+      ok:true,
+      session_id: session.session_id,
+      mode,
+      part_id,
+      input_mode,
+      correct_to_clear,
+      time_limit,
+      questions: served.map(withoutAnswers),
     });
+  } catch (e) {
+    log.error(routeName, 'Unexpected error', e);
+    res.status(500).json({ ok:false, message:'プレイ開始に失敗' });
+  }
+});
 
-    // Redisキャッシュに保存
-    const result = { ok:true, questions: withAns };
-    await setCache(cacheKey, result, DEFAULT_TTL.SHEETS_DATA);
+/* =========================
+   POST /game/session/:sessionId/answer  { question_id, transcripts, confidences, time_ms }
+   認識結果（候補すべてと信頼度）をサーバー側で判定し、回答ログに記録
+   正解の場合のみ解答を返す。信頼度が低い不正解は retry（言い直し）として返す
+   不正解の場合は feedback（単語ごとの一致・言い間違い・抜け・余分）を返す
+   ========================= */
+router.post('/session/:sessionId/answer',
+  authenticateToken,
+  validateBody({
+    question_id: { type: 'string', required: true, minLength: 1, maxLength: 100 },
+    transcripts: { type: 'array', required: true, maxItems: 50 },
+    confidences: { type: 'array', required: false, maxItems: 50 },
+    time_ms: { type: 'number', required: false, min: 0, max: 3600000 }
+  }),
+  serializeSession,
+  async (req, res) => {
+  const routeName = 'POST /game/session/:sessionId/answer';
+  try {
+    const session = await loadActiveSession(req, res, routeName);
+    if (!session) return;
+
+    const { question_id, transcripts, confidences, time_ms } = req.body || {};
+    const { questions, question, attempts, closed } = await loadSessionQuestion(session, question_id, routeName);
+    if (!question) {
+      log.warn(routeName, 'Question not in session', { session_id: session.session_id, question_id });
+      return res.status(404).json({ ok:false, message:'問題が見つかりません' });
+    }
+    if (closed) {
+      log.warn(routeName, 'Question already closed', { session_id: session.session_id, question_id });
+      return res.status(409).json({ ok:false, message:'この問題は終了しています' });
+    }
 
-    res.json(result);
+    const heard = transcripts.map(t => String(t).slice(0, 500));
+    const match = evaluateAnswer(
+      // キーボード入力は聞き取りの信頼度が無いため、言い直し（retry）にはならない
+      heard.map((transcript, i) => ({ transcript, confidence: session.input_mode === 'typed' ? null : confidences?.[i] })),
+      question.patterns
+    );
+    const result = match.correct ? 'correct' : match.retry ? 'unclear' : 'wrong';
+    // ★ 正誤とは別に、answers[0] との発音の近さを記録
+    const pronunciation = scorePronunciation(question.patterns[0], heard);
+
+    await getRepository().attempts.add({
+      session_id: session.session_id,
+      user_id: session.user_id,
+      // ★ 復習では問題ごとにパートが異なるため、問題のパートを記録する
+      part_id: question.part_id,
+      question_id: question.question_id,
+      attempt_no: attempts.length + 1,
+      result,
+      transcripts: heard,
+      matched_answer: match.matchedAnswer,
+      levenshtein: match.levenshtein,
+      jaccard: match.jaccard,
+      time_ms: Number(time_ms) || 0,
+      confidence: match.confidence ?? 0,
+      pronunciation: pronunciation?.score ?? 0,
+      word_diff: pronunciation?.words,
+    });
+
+    // デモ以外の正解数（今回の回答を含む）
+    const correctIds = new Set(attempts.filter(a => a.result === 'correct').map(a => a.question_id));
+    if (match.correct) correctIds.add(question.question_id);
+    const correctCount = questions.filter(q => !q.is_demo && correctIds.has(q.question_id)).length;
+
+    log.info(routeName, 'Answer evaluated', {
+      session_id: session.session_id,
+      question_id,
+      result,
+      strategy: match.strategy,
+      confidence: match.confidence,
+      correctCount,
+    });
+
+    res.json({
+      ok:true,
+      correct: match.correct,
+      retry: match.retry,
+      correct_count: correctCount,
+      answers: match.correct ? question.answers : undefined,
+      // 正解の単語を含むため、解答と同じく正解時のみ返す
+      pronunciation: match.correct ? pronunciation : undefined,
+      // 不正解時は、最も近い正解と比べてどの単語が違ったか（正解の単語は含まない）
+      feedback: result === 'wrong' ? wrongAnswerFeedback(question.patterns, heard) : undefined,
+    });
   } catch (e) {
     log.error(routeName, 'Unexpected error', e);
-    const message = process.env.NODE_ENV === 'production'
-      ? 'questions 取得に失敗'
-      : 'questions 取得に失敗';
-    res.status(500).json({ ok:false, message });
+    res.status(500).json({ ok:false, message:'判定に失敗' });
   }
 });
 
 /* =========================
-   POST /game/score  { userId, part_id, scores, clear }
+   POST /game/session/:sessionId/reveal  { question_id, transcripts, time_ms }
+   デモ問題・時間切れで解答を公開（デモ以外は時間切れとして記録し、以降の回答は受け付けない）
    ========================= */
-router.post('/score',
+router.post('/session/:sessionId/reveal',
   authenticateToken,
   validateBody({
-    userId: { type: 'string', required: true, minLength: 1, maxLength: 100 },
-    part_id: { type: 'string', required: true, minLength: 1, maxLength: 100 },
-    scores: { type: 'number', required: true, min: 0, max: 1000 },
-    clear: { type: 'boolean', required: false }
+    question_id: { type: 'string', required: true, minLength: 1, maxLength: 100 },
+    transcripts: { type: 'array', required: false, maxItems: 50 },
+    time_ms: { type: 'number', required: false, min: 0, max: 3600000 }
   }),
+  serializeSession,
   async (req, res) => {
-  const routeName = 'POST /game/score';
+  const routeName = 'POST /game/session/:sessionId/reveal';
   try {
-    const { userId, part_id, scores, clear } = req.body || {};
+    const session = await loadActiveSession(req, res, routeName);
+    if (!session) return;
+
+    const { question_id, transcripts, time_ms } = req.body || {};
+    const { question, attempts, closed } = await loadSessionQuestion(session, question_id, routeName);
+    const heard = (transcripts || []).map(t => String(t).slice(0, 500));
+    if (!question) {
+      log.warn(routeName, 'Question not in session', { session_id: session.session_id, question_id });
+      return res.status(404).json({ ok:false, message:'問題が見つかりません' });
+    }
 
-    // 認証されたユーザーと送信されたuserIdが一致するか確認
-    if (req.user.userId !== userId) {
-      log.warn(routeName, 'User ID mismatch', {
-        authenticated: req.user.userId,
-        requested: userId
+    // 時間切れまでに聞き取れていた内容があれば、その発音スコアも返す
+    const pronunciation = scorePronunciation(question.patterns[0], heard);
+
+    if (!question.is_demo && !closed) {
+      await getRepository().attempts.add({
+        session_id: session.session_id,
+        user_id: session.user_id,
+        part_id: question.part_id,
+        question_id: question.question_id,
+        attempt_no: attempts.length + 1,
+        result: 'timeout',
+        transcripts: heard,
+        time_ms: Number(time_ms) || 0,
+        pronunciation: pronunciation?.score ?? 0,
+        word_diff: pronunciation?.words,
       });
-      return res.status(403).json({ ok:false, message:'権限がありません' });
+      log.info(routeName, 'Timeout recorded', { session_id: session.session_id, question_id });
     }
 
-    log.info(routeName, 'Request received', { userId, part_id, scores, clear });
+    res.json({ ok:true, answers: question.answers, pronunciation });
+  } catch (e) {
+    log.error(routeName, 'Unexpected error', e);
+    res.status(500).json({ ok:false, message:'解答の取得に失敗' });
+  }
+});
 
-    if (!SPREADSHEET_ID) {
-      log.error(routeName, 'SHEET_ID not configured');
-      return res.status(500).json({ ok:false, message:'SHEET_ID 未設定' });
+/* =========================
+   POST /game/session/:sessionId/finish
+   回答ログから正解数を集計し、scores に記録
+   練習（mode: 'practice'）は scores に mode: practice で記録、復習（mode: 'review'）は記録しない（全問正解でクリア）
+   ========================= */
+router.post('/session/:sessionId/finish',
+  authenticateToken,
+  serializeSession,
+  async (req, res) => {
+  const routeName = 'POST /game/session/:sessionId/finish';
+  try {
+    const repo = getRepository();
+    const existing = await repo.sessions.findById(req.params.sessionId);
+
+    // ★ 二重送信の場合は記録済みの結果を返す
+    if (existing && existing.user_id === req.user.userId && existing.status === 'finished') {
+      log.info(routeName, 'Session already finished - returning saved result', { session_id: existing.session_id });
+      return res.json({
+        ok:true,
+        score_id: existing.score_id,
+        correct: existing.correct,
+        total: existing.total,
+        clear: existing.clear,
+        mode: existing.mode || 'play',
+        correct_to_clear: existing.mode === 'review'
+          ? existing.total
+          : partSettings(await repo.parts.findById(existing.part_id)).correct_to_clear,
+      });
     }
 
-    const scoreValue = Number(scores);
+    const session = await loadActiveSession(req, res, routeName);
+    if (!session) return;
 
-    const sheets = await getSheetsClient(false);
+    const questions = await loadSessionQuestions(session, routeName);
+    const attempts = await repo.attempts.listBySession(session.session_id);
+    const correctIds = new Set(attempts.filter(a => a.result === 'correct').map(a => a.question_id));
+    const correct = questions.filter(q => !q.is_demo && correctIds.has(q.question_id)).length;
 
-    // 次の score_id
-    // ★ FORMATTED_VALUE を使用して user_id の先頭ゼロを保持（例: 00002）
-    const s = await sheets.spreadsheets.values.get({
-      spreadsheetId: SPREADSHEET_ID,
-      range: `${SCORES_SHEET}!A1:F`,
-      valueRenderOption: 'FORMATTED_VALUE',
-    });
-    const sRows = s.data.values || [];
-    
-    // ★ ヘッダーチェックを追加
-    if (sRows.length > 0) {
-      const sHeader = (sRows[0]||[]).map(v=>String(v??'').trim());
-      const sOk = sHeader.length===SCORES_HEADER.length && SCORES_HEADER.every((h,i)=>h===sHeader[i]);
-      if (!sOk) {
-        log.error(routeName, 'Scores header mismatch', { expected: SCORES_HEADER, actual: sHeader });
-        return res.status(500).json({ ok:false, message:'scores ヘッダ不一致' });
-      }
-    }
-    
-    let nextId = 1;
-    if (sRows.length >= 2) {
-      const ids = sRows.slice(1).map(r => Number(r[0]||0)).filter(n=>Number.isFinite(n));
-      if (ids.length) nextId = Math.max(...ids)+1;
+    if (session.mode === 'review') {
+      const clear = correct >= session.total;
+      await repo.sessions.finish(session.session_id, { correct, clear, score_id: 0 });
+      log.info(routeName, 'Review finished', { session_id: session.session_id, userId: session.user_id, correct, total: session.total });
+      return res.json({
+        ok:true,
+        score_id: 0,
+        correct,
+        total: session.total,
+        clear,
+        mode: 'review',
+        correct_to_clear: session.total,
+      });
     }
-
-    // ★ clear を boolean として確実に処理
-    const clearValue = clear === true || clear === 'true' || clear === 1 || clear === '1';
-    const row = [ 
-      String(nextId), 
-      String(userId), 
-      String(part_id), 
-      scoreValue,  // ★ 数値として保存
-      clearValue,  // ★ boolean として保存
-      nowTS() 
-    ];
-    
-    log.info(routeName, 'Appending score row', { row });
-    
-    await sheets.spreadsheets.values.append({
-      spreadsheetId: SPREADSHEET_ID,
-      range: `${SCORES_SHEET}!A:F`,
-      valueInputOption: 'USER_ENTERED',  // ★ RAW から USER_ENTERED に変更（数値・booleanを適切に解釈）
-      requestBody: { values: [row] },
+    const { correct_to_clear } = partSettings(await repo.parts.findById(session.part_id));
+    const clear = correct >= correct_to_clear;
+
+    const mode = session.mode || 'play';
+    const saved = await repo.scores.add({
+      user_id: session.user_id,
+      part_id: session.part_id,
+      scores: correct,
+      clear,
+      input_mode: session.input_mode || 'voice',
+      mode,
     });
-
-    log.info(routeName, 'Score saved successfully', { 
-      score_id: nextId, 
-      userId, 
-      part_id, 
-      scores: scoreValue, 
-      clear: clearValue 
+    await repo.sessions.finish(session.session_id, { correct, clear, score_id: saved.score_id });
+
+    log.info(routeName, 'Score saved successfully', {
+      score_id: saved.score_id,
+      session_id: session.session_id,
+      userId: session.user_id,
+      part_id: session.part_id,
+      scores: correct,
+      clear,
+      mode
     });
-    
-    res.json({ 
-      ok:true, 
-      score_id: nextId,
-      saved: {
-        userId,
-        part_id,
-        scores: scoreValue,
-        clear: clearValue,
-        play_date: row[5]
-      }
+
+    res.json({
+      ok:true,
+      score_id: saved.score_id,
+      correct,
+      total: session.total,
+      clear,
+      mode,
+      correct_to_clear,
+      play_date: saved.play_date,
     });
   } catch (e) {
     log.error(routeName, 'Unexpected error', e);
-    const message = process.env.NODE_ENV === 'production'
-      ? 'score 追加に失敗'
-      : 'score 追加に失敗';
-    res.status(500).json({ ok:false, message });
+    res.status(500).json({ ok:false, message:'score 追加に失敗' });
   }
 });
 
 /* =========================
    POST /game/advance
-   body: { userId, current:{grade,part,subpart}, part_id, clear }
-   クリア済み or 同partの attempts>=10 で進捗更新
+   body: { userId, current:{grade,part,subpart}, part_id, session_id }
+   パートの進級ルール（progression/。クリア回数・平均正答率・挑戦回数・先生の承認）を満たせば進捗更新
+   progression には満たしたルール、または残りの条件を返す
+   判定は記録済みのスコア・プレイから行う（練習・復習は使わない）
+   session_id が練習・復習のプレイの場合は進めない
    ========================= */
 router.post('/advance',
   authenticateToken,
@@ -355,12 +699,12 @@ router.post('/advance',
     userId: { type: 'string', required: true, minLength: 1, maxLength: 100 },
     current: { type: 'object', required: true },
     part_id: { type: 'string', required: true, minLength: 1, maxLength: 100 },
-    clear: { type: 'boolean', required: false }
+    session_id: { type: 'string', required: false, maxLength: 100 }
   }),
   async (req, res) => {
   const routeName = 'POST /game/advance';
   try {
-    const { userId, current, part_id, clear } = req.body || {};
+    const { userId, current, part_id, session_id } = req.body || {};
 
     // 認証されたユーザーと送信されたuserIdが一致するか確認
     if (req.user.userId !== userId) {
@@ -371,12 +715,7 @@ router.post('/advance',
       return res.status(403).json({ ok:false, message:'権限がありません' });
     }
 
-    log.info(routeName, 'Request received', { userId, current, part_id, clear });
-
-    if (!SPREADSHEET_ID) {
-      log.error(routeName, 'SHEET_ID not configured');
-      return res.status(500).json({ ok:false, message:'SHEET_ID 未設定' });
-    }
+    log.info(routeName, 'Request received', { userId, current, part_id, session_id });
 
     // current オブジェクトの検証
     if (!current.grade || !current.part || current.subpart === undefined) {
@@ -384,76 +723,55 @@ router.post('/advance',
       return res.status(400).json({ ok:false, message:'current に grade/part/subpart が必要です' });
     }
 
-    const sheets = await getSheetsClient(true);
+    const repo = getRepository();
 
-    // 1) attempts をカウント
-    // ★ FORMATTED_VALUE を使用して user_id の先頭ゼロを保持（例: 00002）
-    const sResp = await sheets.spreadsheets.values.get({
-      spreadsheetId: SPREADSHEET_ID,
-      range: `${SCORES_SHEET}!A1:F`,
-      valueRenderOption: 'FORMATTED_VALUE',
-    });
-    const sRows = sResp.data.values || [];
-    const sHeader = (sRows[0]||[]).map(v=>String(v??'').trim().toLowerCase());
-    const idxUser = sHeader.indexOf('user_id');
-    const idxPart = sHeader.indexOf('part_id');
-    if (idxUser < 0 || idxPart < 0) {
-      log.error(routeName, 'scores header mismatch', { header: sHeader });
-      return res.status(500).json({ ok:false, message:'scores ヘッダ不一致' });
+    // 0) 練習・復習のプレイからは進めない
+    if (session_id) {
+      const session = await repo.sessions.findById(session_id);
+      if (session && session.user_id === userId && session.mode && session.mode !== 'play') {
+        log.info(routeName, 'Not advancing from non-play session', { session_id, mode: session.mode });
+        return res.json({ ok:true, advanced:false, reason: session.mode });
+      }
+    }
+
+    // 1) 進級ルールを判定（★ クライアントの申告ではなく、記録済みのスコア・プレイを使う）
+    const currentPart = await repo.parts.findById(part_id);
+    if (!currentPart) {
+      log.warn(routeName, 'Current part not found', { part_id });
+      return res.status(404).json({ ok:false, message:'現在のpartが見つかりません' });
     }
-    const attempts = sRows.slice(1).filter(r =>
-      String(r[idxUser]||'') === String(userId) &&
-      String(r[idxPart]||'') === String(part_id)
-    ).length;
-
-    const clearValue = clear === true || clear === 'true' || clear === 1 || clear === '1';
-    const canAdvanceByAttempts = attempts >= REQUIRED_ATTEMPTS;
-    const canAdvance = clearValue || canAdvanceByAttempts;
-
-    log.info(routeName, 'Advance decision', { 
-      clear: clearValue, 
-      attempts, 
-      canAdvanceByAttempts, 
-      canAdvance 
+    const { rule_id, stats, ...evaluation } = await checkProgression(repo, userId, currentPart);
+    const progression = { rule_id, ...evaluation };
+
+    log.info(routeName, 'Advance decision', {
+      rule_id,
+      mode: evaluation.mode,
+      satisfied: evaluation.satisfied,
+      satisfied_by: evaluation.satisfied_by?.type,
+      stats: { attempts: stats.attempts, clears: stats.clears, plays: stats.accuracies.length, approved: stats.approved },
     });
 
-    if (!canAdvance) {
+    if (!evaluation.satisfied) {
       return res.json({
         ok:true,
         advanced:false,
-        reason:'not enough attempts',
-        attempts,
-        required: REQUIRED_ATTEMPTS,
-        remaining: Math.max(0, REQUIRED_ATTEMPTS - attempts),
+        reason:'rules not satisfied',
+        attempts: stats.attempts,
+        progression,
+        message: `次のパートに進むには: ${evaluation.message}`,
       });
     }
 
     // 2) users 読み込み
-    // ★ FORMATTED_VALUE を使用して user_id の先頭ゼロを保持（例: 00002）
-    const u = await sheets.spreadsheets.values.get({
-      spreadsheetId: SPREADSHEET_ID,
-      range: `${USERS_SHEET}!A1:K`,
-      valueRenderOption: 'FORMATTED_VALUE',
-    });
-    const uRows = u.data.values || [];
-    const uHeader = (uRows[0]||[]).map(v=>String(v??'').trim());
-    const uOk = uHeader.length===USERS_HEADER.length && USERS_HEADER.every((h,i)=>h===uHeader[i]);
-    if (!uOk) {
-      log.error(routeName, 'Users header mismatch', { expected: USERS_HEADER, actual: uHeader });
-      return res.status(500).json({ ok:false, message:'users ヘッダ不一致' });
-    }
-
-    const rowIdx = uRows.slice(1).findIndex(r => String(r[1]) === String(userId));
-    if (rowIdx < 0) {
+    const user = await repo.users.findByUserId(userId);
+    if (!user) {
       log.warn(routeName, 'User not found', { userId });
       return res.status(404).json({ ok:false, message:'ユーザーが見つかりません' });
     }
 
-    const absRow = rowIdx + 2;
-    const row = uRows[rowIdx+1];
-    const cg = String(row[5] ?? '');
-    const cp = String(row[6] ?? '');
-    const cs = String(row[7] ?? '');
+    const cg = String(user.current_grade);
+    const cp = String(user.current_part);
+    const cs = String(user.current_subpart);
 
     // 現在位置一致確認（ズレている場合は更新しない）
     const isSameProgress =
@@ -464,90 +782,69 @@ router.post('/advance',
       });
       return res.json({
         ok:true, advanced:false, reason:'progress mismatch',
-        attempts, required: REQUIRED_ATTEMPTS,
-        remaining: Math.max(0, REQUIRED_ATTEMPTS - attempts),
+        attempts: stats.attempts,
+        progression,
         current_in_db: { grade: cg, part: cp, subpart: cs },
         current_sent: current
       });
     }
 
     // 3) parts から次を決定
-    const p = await sheets.spreadsheets.values.get({
-      spreadsheetId: SPREADSHEET_ID,
-      range: `${PARTS_SHEET}!A1:E`,
-      valueRenderOption: 'UNFORMATTED_VALUE',
-    });
-    const pRows = p.data.values || [];
-    const pHeader = (pRows[0]||[]).map(v=>String(v??'').trim());
-    const pOk = pHeader.length===PARTS_HEADER.length && PARTS_HEADER.every((h,i)=>h===pHeader[i]);
-    if (!pOk) {
-      log.error(routeName, 'Parts header mismatch', { expected: PARTS_HEADER, actual: pHeader });
-      return res.status(500).json({ ok:false, message:'parts ヘッダ不一致' });
-    }
-
-    const parts = pRows.slice(1).map(r => ({
-      part_id: String(r[0]),
-      grade_id: Number(r[1]||0),
-      part_no: Number(r[2]||0),
-      subpart_no: Number(r[3]||0),
-    })).sort((a,b)=>
-      (a.grade_id-b.grade_id) || (a.part_no-b.part_no) || (a.subpart_no-b.subpart_no)
-    );
-
+    const parts = await repo.parts.list();
     const curIdx = parts.findIndex(p => p.part_id === String(part_id));
-    if (curIdx < 0) {
-      log.warn(routeName, 'Current part not found in parts list', { part_id });
-      return res.status(404).json({ ok:false, message:'現在のpartが見つかりません' });
-    }
-    
+
     if (curIdx === parts.length-1) {
       log.info(routeName, 'Last part reached - no next part available', { part_id });
       return res.json({
         ok:true, advanced:false, reason:'last part reached',
-        attempts, required: REQUIRED_ATTEMPTS, remaining: 0,
+        attempts: stats.attempts,
+        progression,
         message: '最終ステージをクリアしました！'
       });
     }
 
     const next = parts[curIdx+1];
 
+    // ★ 次のパートが先生にロックされている（上限を含む）場合は進めない（解放後、次にプレイを終えたときに判定）
+    const nextAccess = await checkPartAccess(repo, user, next);
+    if (nextAccess.reason === 'lock' || nextAccess.reason === 'ceiling') {
+      log.info(routeName, 'Next part is locked', { userId, next: next.part_id, access: nextAccess });
+      return res.json({
+        ok:true, advanced:false, reason:'locked',
+        attempts: stats.attempts,
+        progression,
+        message: '次のステージは先生が解放するまで待ってね',
+      });
+    }
+
     // 4) users を更新
-    const sheetsWrite = await getSheetsClient(false);
-    
     log.info(routeName, 'Updating user progress', {
       userId,
-      absRow,
       previous: { grade: cg, part: cp, subpart: cs },
       next: { grade: next.grade_id, part: next.part_no, subpart: next.subpart_no }
     });
-    
-    await sheetsWrite.spreadsheets.values.update({
-      spreadsheetId: SPREADSHEET_ID,
-      range: `${USERS_SHEET}!F${absRow}:H${absRow}`,
-      valueInputOption: 'USER_ENTERED',  // ★ RAW から USER_ENTERED に変更
-      requestBody: { values: [[ next.grade_id, next.part_no, next.subpart_no ]] },
-    });
-    await sheetsWrite.spreadsheets.values.update({
-      spreadsheetId: SPREADSHEET_ID,
-      range: `${USERS_SHEET}!K${absRow}:K${absRow}`,
-      valueInputOption: 'RAW',
-      requestBody: { values: [[ nowTS() ]] },
+
+    await repo.users.update(userId, {
+      current_grade: next.grade_id,
+      current_part: next.part_no,
+      current_subpart: next.subpart_no,
+      updated_at: nowTS(),
     });
 
     log.info(routeName, 'User progress updated successfully', {
       userId, 
       previous: { grade: cg, part: cp, subpart: cs }, 
       next: { grade: next.grade_id, part: next.part_no, subpart: next.subpart_no }, 
-      reason: clearValue ? 'cleared' : 'attempts'
+      reason: evaluation.satisfied_by.type
     });
 
     res.json({
       ok:true,
       advanced:true,
-      reason: clearValue ? 'cleared' : 'attempts',
-      attempts,
-      required: REQUIRED_ATTEMPTS,
-      remaining: Math.max(0, REQUIRED_ATTEMPTS - attempts),
+      reason: evaluation.satisfied_by.type,
+      attempts: stats.attempts,
+      progression,
+      message: evaluation.message,
       previous: { grade: cg, part: cp, subpart: cs },
       next: {
         grade_id: next.grade_id,
@@ -1,12 +1,10 @@
 // backend/src/routes/ranking.js
 const express = require('express');
 const router = express.Router();
-const { getSheetsClient, SPREADSHEET_ID } = require('../services/google');
+const { getRepository } = require('../repositories');
 const { optionalAuth } = require('../middleware/auth');
 const { getCache, setCache, getRankingKey, getSheetsKey, DEFAULT_TTL } = require('../services/redis');
-
-const USERS_SHEET  = 'users';
-const SCORES_SHEET = 'scores';
+const { partSettings } = require('../content/rules');
 
 const nowMonthKey = () => {
   const d = new Date();
@@ -27,18 +25,56 @@ const toMonthKey = (v) => {
   return '';
 };
 
-// ヘッダ配列から大小無視・前後空白無視で列位置を取る
-function idxOf(header, name) {
-  const target = String(name).trim().toLowerCase();
-  return header.findIndex(h => String(h ?? '').trim().toLowerCase() === target);
+// 平均正答率（プレイごとの 正解数 / 問題数）の高い順に上位3人
+// ★ scores は正解数なので、問題数の違うパートのプレイを比べられるよう totalOf（そのプレイの問題数）で割る
+//   問題数の分からないプレイ（削除したパートなど）は数えない
+const rankByAverage = (rows, usersMap, totalOf) => {
+  const sum = new Map();
+  const cnt = new Map();
+  for (const r of rows) {
+    const uid = r.user_id.trim();
+    const total = totalOf(r);
+    if (!uid || !(total > 0)) continue;
+    const val = Number.isFinite(r.scores) ? Math.min(1, r.scores / total) : 0;
+    sum.set(uid, (sum.get(uid) || 0) + val);
+    cnt.set(uid, (cnt.get(uid) || 0) + 1);
+  }
+  return [...sum.entries()]
+    .map(([uid, total]) => {
+      const plays = cnt.get(uid) || 1;
+      const avg   = total / plays;
+      return { userId: uid, name: usersMap.get(uid) || uid, _avg: avg, _plays: plays };
+    })
+    .sort((a, b) =>
+      b._avg - a._avg ||
+      b._plays - a._plays ||
+      (a.name || '').localeCompare(b.name || '') ||
+      a.userId.localeCompare(b.userId)
+    )
+    .slice(0, 3)
+    .map(({ userId, name }) => ({ userId, name }));
+};
+
+// パートごとの出題する問題の数（POST /game/session と同じく、表示順で問題数までの問題のうちデモ以外）
+async function servedCounts(repo) {
+  const byPart = new Map();
+  for (const q of await repo.questions.list()) {
+    if (!byPart.has(q.part_id)) byPart.set(q.part_id, []);
+    byPart.get(q.part_id).push(q);
+  }
+  const counts = new Map();
+  for (const part of await repo.parts.list()) {
+    const { question_count } = partSettings(part);
+    const served = (byPart.get(part.part_id) || [])
+      .sort((a, b) => a.display_order - b.display_order)
+      .slice(0, question_count);
+    counts.set(part.part_id, served.filter(q => !q.is_demo).length);
+  }
+  return counts;
 }
 
 router.get('/', optionalAuth, async (_req, res) => {
   try {
-    if (!SPREADSHEET_ID) {
-      return res.status(500).json({ ok: false, message: 'SHEET_ID が未設定です' });
-    }
-
     const mk = nowMonthKey();
 
     // Redisキャッシュをチェック（60秒）
@@ -50,38 +86,19 @@ router.get('/', optionalAuth, async (_req, res) => {
       return res.json(cachedRanking);
     }
 
-    const sheets = await getSheetsClient(true);
+    const repo = getRepository();
 
     // ===== users 読み込み（user_id と nickname だけ使う）=====
-    const usersCacheKey = getSheetsKey(USERS_SHEET, 'all');
+    const usersCacheKey = getSheetsKey('users', 'all');
     let usersMap = await getCache(usersCacheKey); // user_id -> nickname
 
     if (!usersMap) {
-      const uResp = await sheets.spreadsheets.values.get({
-        spreadsheetId: SPREADSHEET_ID,
-        range: `${USERS_SHEET}!A1:K`, // 幅広く取得（id〜updated_at まで想定）
-        valueRenderOption: 'FORMATTED_VALUE',
-        dateTimeRenderOption: 'FORMATTED_STRING',
-      });
-      const uRows = uResp.data.values || [];
-      if (uRows.length < 2) {
-        console.error('[ranking] users: rows < 2');
-        return res.json({ month: mk, items: { challenge: [], accuracy: [] } });
-      }
-
-      const uHeader = uRows[0].map(v => String(v ?? ''));
-      const idxUserId = idxOf(uHeader, 'user_id');
-      const idxNick = idxOf(uHeader, 'nickname');
-
-      if (idxUserId < 0 || idxNick < 0) {
-        console.error('[ranking] users header not found', { uHeader });
-        return res.json({ month: mk, items: { challenge: [], accuracy: [] } });
-      }
+      const users = await repo.users.list();
 
       usersMap = new Map();
-      for (const r of uRows.slice(1)) {
-        const userId = String(r[idxUserId] ?? '').trim();
-        const nick = String(r[idxNick] ?? '').trim();
+      for (const u of users) {
+        const userId = u.user_id.trim();
+        const nick = u.nickname.trim();
         if (userId) usersMap.set(userId, nick || userId);
       }
 
@@ -96,34 +113,17 @@ router.get('/', optionalAuth, async (_req, res) => {
     }
 
     // ===== scores 読み込み（当月抽出）=====
-    const sResp = await sheets.spreadsheets.values.get({
-      spreadsheetId: SPREADSHEET_ID,
-      range: `${SCORES_SHEET}!A1:Z`, // 念のため広めに取得
-      valueRenderOption: 'FORMATTED_VALUE',
-      dateTimeRenderOption: 'FORMATTED_STRING',
-    });
-    const sRows = sResp.data.values || [];
-    if (sRows.length < 2) {
-      return res.json({ month: mk, items: { challenge: [], accuracy: [] } });
-    }
-
-    const sHeader = sRows[0].map(v => String(v ?? ''));
-    const idxUser = idxOf(sHeader, 'user_id');
-    const idxScore = idxOf(sHeader, 'scores');
-    let idxDate = idxOf(sHeader, 'play_date');
-    if (idxDate < 0) idxDate = idxOf(sHeader, 'play date'); // 表記ゆれ吸収
-
-    if (idxUser < 0 || idxScore < 0 || idxDate < 0) {
-      console.error('[ranking] scores header not found', { sHeader });
-      return res.json({ month: mk, items: { challenge: [], accuracy: [] } });
-    }
-
-    const monthRows = sRows.slice(1).filter(r => toMonthKey(r[idxDate]) === mk);
+    const scores = await repo.scores.list();
+    // ★ 練習（mode: 'practice'）はどのランキングにも数えない（クリア済みのパートの繰り返しで回数・正答率を稼げないように）
+    const monthScores = scores.filter(r => toMonthKey(r.play_date) === mk && r.mode !== 'practice');
+    // ★ キーボード入力のプレイは別カテゴリ（音声のランキングには含めない）
+    const monthRows = monthScores.filter(r => r.input_mode !== 'typed');
+    const typedRows = monthScores.filter(r => r.input_mode === 'typed');
 
     // ① 挑戦回数（多い順）
     const countByUser = new Map();
     for (const r of monthRows) {
-      const uid = String(r[idxUser] ?? '').trim();
+      const uid = r.user_id.trim();
       if (!uid) continue;
       countByUser.set(uid, (countByUser.get(uid) || 0) + 1);
     }
@@ -137,32 +137,20 @@ router.get('/', optionalAuth, async (_req, res) => {
       .slice(0, 3)
       .map(({ userId, name }) => ({ userId, name }));
 
-    // ② 正答率（平均 scores の高い順）
-    const sum = new Map();
-    const cnt = new Map();
-    for (const r of monthRows) {
-      const uid = String(r[idxUser] ?? '').trim();
-      if (!uid) continue;
-      const val = Number(r[idxScore] ?? 0);
-      sum.set(uid, (sum.get(uid) || 0) + (Number.isFinite(val) ? val : 0));
-      cnt.set(uid, (cnt.get(uid) || 0) + 1);
-    }
-    const accuracy = [...sum.entries()]
-      .map(([uid, total]) => {
-        const plays = cnt.get(uid) || 1;
-        const avg   = total / plays;
-        return { userId: uid, name: usersMap.get(uid) || uid, _avg: avg, _plays: plays };
-      })
-      .sort((a, b) =>
-        b._avg - a._avg ||
-        b._plays - a._plays ||
-        (a.name || '').localeCompare(b.name || '') ||
-        a.userId.localeCompare(b.userId)
-      )
-      .slice(0, 3)
-      .map(({ userId, name }) => ({ userId, name }));
+    // 正答率の分母: プレイの記録（play_sessions）の問題数
+    // 記録が無い場合は、いまのパートで出題する問題（問題数までの問題のうちデモ以外）の数
+    const sessions = await repo.sessions.listAllFinished();
+    const totalByScore = new Map(sessions.filter(s => s.score_id && s.total > 0).map(s => [s.score_id, s.total]));
+    const totalByPart = await servedCounts(repo);
+    const totalOf = (r) => totalByScore.get(r.score_id) || totalByPart.get(r.part_id) || 0;
+
+    // ② 正答率（平均正答率の高い順）
+    const accuracy = rankByAverage(monthRows, usersMap, totalOf);
+
+    // ③ キーボード入力の正答率（平均正答率の高い順）
+    const typing = rankByAverage(typedRows, usersMap, totalOf);
 
-    const payload = { month: mk, items: { challenge, accuracy } };
+    const payload = { month: mk, items: { challenge, accuracy, typing } };
 
     // Redisキャッシュに保存（60秒）
     await setCache(rankingCacheKey, payload, DEFAULT_TTL.RANKING_DATA);
@@ -1,12 +1,10 @@
 // backend/src/routes/select.js
 const express = require('express');
 const router = express.Router();
-const { getSheetsClient, SPREADSHEET_ID } = require('../services/google');
+const { getRepository } = require('../repositories');
 const { authenticateToken } = require('../middleware/auth');
 const { validateQuery } = require('../middleware/validation');
-
-const PARTS_SHEET = 'parts';
-const PARTS_HEADER = ['part_id', 'grade_id', 'part_no', 'subpart_no', 'requirement'];
+const { loadPartLocks, partAccess, accessMessage } = require('../progression');
 
 // デバッグ用のログヘルパー
 const log = {
@@ -23,7 +21,7 @@ const log = {
 
 // GET /select/options?user_id=xxx
 // 学年・パート・サブパートの選択可能なオプションを階層構造で返す
-// ユーザーの現在の進捗以下のみを返す
+// ユーザーの現在の進捗以下のみを返す（先生によるロック・解放・上限を反映）
 router.get('/options',
   authenticateToken,
   validateQuery({
@@ -46,30 +44,13 @@ router.get('/options',
     }
 
     log.info('Options request received', { user_id });
-    
-    if (!SPREADSHEET_ID) {
-      log.error('SHEET_ID not configured');
-      return res.status(500).json({ 
-        ok: false, 
-        message: 'SHEET_ID が未設定です' 
-      });
-    }
 
-    const sheets = await getSheetsClient(true);
-    
-    // 1. usersシートからユーザーの現在の進捗を取得
-    // ★ FORMATTED_VALUE を使用して user_id の先頭ゼロを保持（例: 00002）
-    const userResponse = await sheets.spreadsheets.values.get({
-      spreadsheetId: SPREADSHEET_ID,
-      range: 'users!A:K',
-      valueRenderOption: 'FORMATTED_VALUE',
-    });
-    
-    const userRows = userResponse.data.values || [];
-    const userHeader = userRows[0] || [];
-    const userData = userRows.slice(1).find(row => String(row[1]) === String(user_id));
+    const repo = getRepository();
+
+    // 1. ユーザーの現在の進捗を取得
+    const user = await repo.users.findByUserId(user_id);
     
-    if (!userData) {
+    if (!user) {
       log.warn('User not found', { user_id });
       return res.status(404).json({ 
         ok: false, 
@@ -77,11 +58,9 @@ router.get('/options',
       });
     }
     
-    // 列インデックスは logInPage.js の COL 定義に基づく
-    // COL.current_grade: 5, COL.current_part: 6, COL.current_subpart: 7
-    const currentGrade = Number(userData[5] ?? 0);
-    const currentPart = Number(userData[6] ?? 0);
-    const currentSubpart = Number(userData[7] ?? 0);
+    const currentGrade = user.current_grade;
+    const currentPart = user.current_part;
+    const currentSubpart = user.current_subpart;
     
     log.info('User progress fetched', { 
       user_id, 
@@ -90,40 +69,10 @@ router.get('/options',
       currentSubpart 
     });
     
-    // 2. partsシートからデータを取得
-    const response = await sheets.spreadsheets.values.get({
-      spreadsheetId: SPREADSHEET_ID,
-      range: `${PARTS_SHEET}!A1:E`,
-      valueRenderOption: 'UNFORMATTED_VALUE',
-    });
-    
-    const rows = response.data.values || [];
-    log.info('Parts data fetched', { totalRows: rows.length });
-    
-    // ヘッダーチェック
-    const header = (rows[0] || []).map(v => String(v ?? '').trim());
-    const headerValid = header.length === PARTS_HEADER.length && 
-                       PARTS_HEADER.every((h, i) => h === header[i]);
-    
-    if (!headerValid) {
-      log.error('Header mismatch', { 
-        expected: PARTS_HEADER, 
-        actual: header 
-      });
-      return res.status(500).json({ 
-        ok: false, 
-        message: 'parts ヘッダが想定と異なります' 
-      });
-    }
-
-    // データ行を構造化
-    const parts = rows.slice(1).map(row => ({
-      part_id: String(row[0] ?? ''),
-      grade_id: Number(row[1] ?? 0),
-      part_no: Number(row[2] ?? 0),
-      subpart_no: Number(row[3] ?? 0),
-      requirement: String(row[4] ?? '')
-    }));
+    // 2. パート一覧と、先生によるロック・解放・上限を取得
+    const parts = await repo.parts.list();
+    const locks = await loadPartLocks(repo, user);
+    log.info('Parts data fetched', { totalRows: parts.length, locks: locks.length });
 
     // 3. 有効なデータで、かつ現在の進捗以下のもののみフィルタ
     const validParts = parts.filter(p => {
@@ -131,26 +80,8 @@ router.get('/options',
         return false;
       }
       
-      // 進捗制限のロジック
-      if (p.grade_id < currentGrade) {
-        // 過去の学年は全て選択可能
-        return true;
-      } else if (p.grade_id === currentGrade) {
-        // 現在の学年の場合
-        if (p.part_no < currentPart) {
-          // 過去のパートは全て選択可能
-          return true;
-        } else if (p.part_no === currentPart) {
-          // 現在のパートの場合、現在のサブパート以下のみ選択可能
-          return p.subpart_no <= currentSubpart;
-        } else {
-          // 未来のパートは選択不可
-          return false;
-        }
-      } else {
-        // 未来の学年は選択不可
-        return false;
-      }
+      // 進捗制限のロジック（過去の学年・パートは全て、現在のパートは現在のサブパート以下。先生の設定で変わる）
+      return partAccess(user, p, locks).unlocked;
     });
 
     log.info('Valid parts filtered with progress limit', { 
@@ -209,6 +140,7 @@ router.get('/options',
 
 // GET /select/validate
 // 選択された組み合わせが有効かチェック（オプション）
+// 存在しても、進捗より先・先生がロックしたパートは valid: false（unlocked / reason で区別）
 router.get('/validate',
   authenticateToken,
   validateQuery({
@@ -229,40 +161,27 @@ router.get('/validate',
       });
     }
     
-    if (!SPREADSHEET_ID) {
-      log.error('SHEET_ID not configured');
-      return res.status(500).json({ 
-        ok: false, 
-        message: 'SHEET_ID が未設定です' 
-      });
-    }
-
-    const sheets = await getSheetsClient(true);
-    
-    const response = await sheets.spreadsheets.values.get({
-      spreadsheetId: SPREADSHEET_ID,
-      range: `${PARTS_SHEET}!A1:E`,
-      valueRenderOption: 'UNFORMATTED_VALUE',
-    });
-    
-    const rows = response.data.values || [];
-    
     // 指定された組み合わせが存在するかチェック
-    const exists = rows.slice(1).some(row => 
-      String(row[1]) === String(grade) &&
-      String(row[2]) === String(part) &&
-      String(row[3]) === String(subpart)
-    );
+    const repo = getRepository();
+    const hit = await repo.parts.findByPosition(grade, part, subpart);
+    const exists = !!hit;
+    const user = exists ? await repo.users.findByUserId(req.user.userId) : null;
+    const access = user ? partAccess(user, hit, await loadPartLocks(repo, user)) : { unlocked: false, reason: 'progress' };
     
     log.info('Validation result', { 
       grade, part, subpart, 
-      valid: exists 
+      valid: exists,
+      access
     });
     
+    let message = '無効な組み合わせです';
+    if (exists) message = access.unlocked ? '有効な組み合わせです' : accessMessage(access);
     res.json({
       ok: true,
-      valid: exists,
-      message: exists ? '有効な組み合わせです' : '無効な組み合わせです'
+      valid: exists && access.unlocked,
+      unlocked: access.unlocked,
+      reason: access.reason,
+      message
     });
     
   } catch (error) {
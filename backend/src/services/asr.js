@@ -0,0 +1,139 @@
+// backend/src/services/asr.js
+// サーバー側の音声認識（Web Speech API が使えないブラウザ向け）
+// ブラウザで録音した音声（webm / ogg / mp4）を ffmpeg で 16kHz モノラル WAV に変換し、
+// ローカルで動く認識エンジンに渡す
+//   whisper : whisper.cpp（WHISPER_CPP_BIN, WHISPER_MODEL）
+//   vosk    : Vosk（vosk-transcriber コマンド。VOSK_TRANSCRIBER_BIN, VOSK_MODEL）
+const { execFile } = require('child_process');
+const fs = require('fs/promises');
+const os = require('os');
+const path = require('path');
+
+const ASR_ENGINE = (process.env.ASR_ENGINE || '').trim().toLowerCase();
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+const ASR_TIMEOUT_MS = parseInt(process.env.ASR_TIMEOUT_MS || '20000', 10);
+
+// 音声の最大サイズ（バイト）。30秒程度の録音で十分な大きさ
+const ASR_MAX_AUDIO_BYTES = parseInt(process.env.ASR_MAX_AUDIO_BYTES || String(5 * 1024 * 1024), 10);
+
+// 同時に実行する認識（ffmpeg と認識エンジン）の数と、空きを待てるリクエストの数
+// ★ 認識エンジンは CPU とメモリを多く使うため、リクエストごとに起動するとクラス全員の録音が重なったときにサーバーが止まる
+const ASR_CONCURRENCY = Math.max(1, parseInt(process.env.ASR_CONCURRENCY || '2', 10) || 1);
+const ASR_QUEUE_LIMIT = Math.max(0, parseInt(process.env.ASR_QUEUE_LIMIT || '8', 10) || 0);
+
+let running = 0;
+const waiting = [];
+
+/**
+ * 認識の実行枠を確保する（空きが無ければ順番を待つ）
+ * 待っているリクエストが ASR_QUEUE_LIMIT に達している場合は err.code = 'ASR_BUSY' のエラー
+ */
+function acquireSlot() {
+  if (running < ASR_CONCURRENCY) {
+    running++;
+    return Promise.resolve();
+  }
+  if (waiting.length >= ASR_QUEUE_LIMIT) {
+    const err = new Error('Speech recognition is busy');
+    err.code = 'ASR_BUSY';
+    return Promise.reject(err);
+  }
+  return new Promise(resolve => waiting.push(resolve));
+}
+
+// 枠を次に待っているリクエストに渡す（いなければ空ける）
+function releaseSlot() {
+  const next = waiting.shift();
+  if (next) next();
+  else running--;
+}
+
+/**
+ * 外部コマンドを実行して標準出力を返す
+ */
+function run(command, args) {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { timeout: ASR_TIMEOUT_MS, maxBuffer: 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        error.message = `${path.basename(command)} failed: ${error.message}${stderr ? ` (${String(stderr).trim().slice(-300)})` : ''}`;
+        return reject(error);
+      }
+      resolve(String(stdout));
+    });
+  });
+}
+
+// 認識結果の整形（タイムスタンプや [BLANK_AUDIO] などの注記を除く）
+function cleanTranscript(text) {
+  return String(text || '')
+    .replace(/\[[^\]]*\]|\([^)]*\)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/* ---------- エンジン ---------- */
+
+const ENGINES = {
+  whisper: {
+    configured: () => !!process.env.WHISPER_MODEL,
+    async transcribe(wavPath) {
+      const bin = process.env.WHISPER_CPP_BIN || 'whisper-cli';
+      // -nt: タイムスタンプなし / -np: 進捗などを出力しない
+      const stdout = await run(bin, ['-m', process.env.WHISPER_MODEL, '-f', wavPath, '-l', 'en', '-nt', '-np']);
+      return cleanTranscript(stdout);
+    },
+  },
+  vosk: {
+    configured: () => !!process.env.VOSK_MODEL,
+    async transcribe(wavPath) {
+      const bin = process.env.VOSK_TRANSCRIBER_BIN || 'vosk-transcriber';
+      const stdout = await run(bin, ['-m', process.env.VOSK_MODEL, '-i', wavPath, '-t', 'txt', '--log-level', 'ERROR']);
+      return cleanTranscript(stdout);
+    },
+  },
+};
+
+/**
+ * 使用するエンジン名（未設定・未対応の場合は null）
+ */
+function getEngineName() {
+  const engine = ENGINES[ASR_ENGINE];
+  return engine && engine.configured() ? ASR_ENGINE : null;
+}
+
+/**
+ * 録音データを認識する（同時に実行するのは ASR_CONCURRENCY まで）
+ * @param {Buffer} audio - ブラウザで録音した音声
+ * @returns {Promise<{ engine: string, transcripts: string[] }>}
+ *   混み合っている場合は err.code = 'ASR_BUSY' のエラー
+ */
+async function recognize(audio) {
+  const engineName = getEngineName();
+  if (!engineName) {
+    throw new Error('Speech recognition engine is not configured');
+  }
+
+  await acquireSlot();
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'asr-')).catch((err) => {
+    releaseSlot();
+    throw err;
+  });
+  try {
+    const inputPath = path.join(dir, 'input');
+    const wavPath = path.join(dir, 'input.wav');
+    await fs.writeFile(inputPath, audio);
+    await run(FFMPEG_PATH, ['-hide_banner', '-loglevel', 'error', '-y', '-i', inputPath, '-ar', '16000', '-ac', '1', '-f', 'wav', wavPath]);
+
+    const transcript = await ENGINES[engineName].transcribe(wavPath);
+    return { engine: engineName, transcripts: transcript ? [transcript] : [] };
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true }).catch(() => {});
+    releaseSlot();
+  }
+}
+
+module.exports = {
+  ASR_MAX_AUDIO_BYTES,
+  getEngineName,
+  recognize,
+};
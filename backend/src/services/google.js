@@ -61,6 +61,16 @@ async function getSheetsClient(readonly = true) {
   return sheetsClient;
 }
 
+// Cloud Storage（JSON API）クライアント（問題画像の保存用）
+let storageClient = null;
+async function getStorageClient() {
+  if (storageClient) return storageClient;
+
+  const client = await getAuthClient(['https://www.googleapis.com/auth/devstorage.read_write']);
+  storageClient = google.storage({ version: 'v1', auth: client });
+  return storageClient;
+}
+
 // ✅ Text-to-Speech API クライアント(修正版)
 let ttsClient = null;
 async function getTTSClient() {
@@ -74,6 +84,7 @@ async function getTTSClient() {
 
 module.exports = {
   getSheetsClient,
+  getStorageClient,
   getTTSClient,
   SPREADSHEET_ID,
 };
\ No newline at end of file
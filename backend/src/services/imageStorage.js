@@ -0,0 +1,185 @@
+// backend/src/services/imageStorage.js
+// 問題画像の保存（管理画面からのアップロード用）
+// アップロードされた画像を幅ごとの WebP に変換し、IMAGE_STORAGE で選んだ保存先に置く
+//   local : サーバーのディスク（IMAGE_UPLOAD_DIR）。バックエンドの /uploads で配信する
+//   gcs   : Google Cloud Storage（IMAGE_BUCKET）。公開 URL（IMAGE_PUBLIC_URL）で配信する
+const crypto = require('crypto');
+const fs = require('fs/promises');
+const path = require('path');
+const { Readable } = require('stream');
+
+const IMAGE_UPLOAD_DIR = process.env.IMAGE_UPLOAD_DIR || path.join(__dirname, '../../uploads');
+const UPLOADS_PATH = '/uploads';
+
+// アップロードできる画像の最大サイズ（バイト）
+const IMAGE_MAX_BYTES = parseInt(process.env.IMAGE_MAX_BYTES || String(5 * 1024 * 1024), 10);
+
+// 生成する幅（px）。元画像より大きい幅は作らない
+const VARIANT_WIDTHS = [320, 640, 1280];
+// image_url に使う幅（srcset に対応しない環境向け）
+const DEFAULT_WIDTH = 640;
+
+/* ---------- 保存先 ---------- */
+
+function createLocalStorage(dir) {
+  return {
+    kind: 'local',
+    async put(key, data) {
+      const file = path.join(dir, key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, data);
+      return `${UPLOADS_PATH}/${key}`;
+    },
+    async remove(key) {
+      await fs.rm(path.join(dir, key), { force: true });
+    },
+  };
+}
+
+function createGcsStorage(bucket, publicUrl) {
+  // 認証情報は Sheets と同じもの（services/google.js）を使う
+  const { getStorageClient } = require('./google');
+  const base = (publicUrl || `https://storage.googleapis.com/${bucket}`).replace(/\/+$/, '');
+  return {
+    kind: 'gcs',
+    async put(key, data, contentType) {
+      const storage = await getStorageClient();
+      await storage.objects.insert({
+        bucket,
+        name: key,
+        requestBody: { name: key, contentType, cacheControl: 'public, max-age=31536000, immutable' },
+        media: { mimeType: contentType, body: Readable.from(data) },
+      });
+      return `${base}/${key}`;
+    },
+    async remove(key) {
+      const storage = await getStorageClient();
+      await storage.objects.delete({ bucket, object: key }).catch((err) => {
+        if (err?.code !== 404) throw err;
+      });
+    },
+  };
+}
+
+/**
+ * 環境変数から保存先を作成
+ */
+function createStorageFromEnv(env = process.env) {
+  const kind = String(env.IMAGE_STORAGE || 'local').trim().toLowerCase();
+  switch (kind) {
+    case 'local':
+      return createLocalStorage(IMAGE_UPLOAD_DIR);
+    case 'gcs':
+      if (!env.IMAGE_BUCKET) {
+        throw new Error('IMAGE_BUCKET が未設定です');
+      }
+      return createGcsStorage(env.IMAGE_BUCKET, env.IMAGE_PUBLIC_URL);
+    default:
+      throw new Error(`未対応の IMAGE_STORAGE です: ${kind}`);
+  }
+}
+
+let storage = null;
+function getStorage() {
+  if (!storage) storage = createStorageFromEnv();
+  return storage;
+}
+
+/* ---------- 変換 ---------- */
+
+// sharp は任意の依存（インストールされていない環境ではアップロードを無効にする）
+let sharp;
+function loadSharp() {
+  if (sharp === undefined) {
+    try {
+      sharp = require('sharp');
+    } catch {
+      sharp = null;
+    }
+  }
+  return sharp;
+}
+
+/**
+ * 画像のアップロードが使えるか
+ */
+function isImageUploadAvailable() {
+  return !!loadSharp();
+}
+
+/**
+ * 保存した URL から保存先のキーを取り出す（この仕組みで保存したものでなければ null）
+ */
+function keyOf(url) {
+  const match = String(url || '').match(/(questions\/[\w-]+\/[0-9a-f]+-\d+\.webp)$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * 問題画像を変換して保存する
+ * @param {string} questionId
+ * @param {Buffer} image - アップロードされた画像（PNG / JPEG / WebP / GIF）
+ * @returns {Promise<{ image_url: string, image_variants: Array<{ width: number, url: string }> }>}
+ *   画像として読めない場合は err.code = 'INVALID_IMAGE' のエラー
+ */
+async function storeQuestionImage(questionId, image) {
+  const sharpLib = loadSharp();
+  if (!sharpLib) {
+    throw new Error('sharp is not installed');
+  }
+
+  let metadata;
+  try {
+    metadata = await sharpLib(image).metadata();
+  } catch (err) {
+    err.code = 'INVALID_IMAGE';
+    throw err;
+  }
+  if (!metadata.width || !metadata.height) {
+    const err = new Error('Image has no size');
+    err.code = 'INVALID_IMAGE';
+    throw err;
+  }
+
+  // ★ 同じ URL でも差し替え後の画像が表示されるよう、内容のハッシュをファイル名に含める
+  const hash = crypto.createHash('sha256').update(image).digest('hex').slice(0, 12);
+  const widths = VARIANT_WIDTHS.filter(w => w < metadata.width);
+  if (widths.length < VARIANT_WIDTHS.length) widths.push(Math.min(metadata.width, VARIANT_WIDTHS.at(-1)));
+
+  const store = getStorage();
+  const variants = [];
+  for (const width of widths) {
+    const data = await sharpLib(image).rotate().resize({ width, withoutEnlargement: true }).webp({ quality: 82 }).toBuffer();
+    const url = await store.put(`questions/${questionId}/${hash}-${width}.webp`, data, 'image/webp');
+    variants.push({ width, url });
+  }
+
+  const fallback = variants.find(v => v.width >= DEFAULT_WIDTH) || variants.at(-1);
+  return { image_url: fallback.url, image_variants: variants };
+}
+
+/**
+ * 保存済みの画像を削除する（差し替え・問題の削除時。失敗しても処理は続ける）
+ * @param {Array<{ url: string }>} variants
+ */
+async function removeQuestionImages(variants) {
+  const store = getStorage();
+  for (const { url } of variants || []) {
+    const key = keyOf(url);
+    if (!key) continue;
+    try {
+      await store.remove(key);
+    } catch (err) {
+      console.warn('[ImageStorage] Failed to remove image:', key, err?.message);
+    }
+  }
+}
+
+module.exports = {
+  IMAGE_MAX_BYTES,
+  IMAGE_UPLOAD_DIR,
+  UPLOADS_PATH,
+  isImageUploadAvailable,
+  storeQuestionImage,
+  removeQuestionImages,
+};
@@ -0,0 +1,83 @@
+// backend/src/utils/csv.js
+// CSV の読み書き（RFC 4180。教材のインポート・エクスポートで使用）
+
+// 表計算ソフトが数式として読む先頭の文字（CSV インジェクション対策。' は文字列の印として先頭に付ける）
+// ★ ' で始まる文字列にも付け、読み込み（parseCsv）で 1 つ外せば元の値に戻るようにする
+const FORMULA_PREFIX = /^[=+\-@']/;
+
+/**
+ * 1 セルを CSV 用にエスケープする（, " 改行を含む場合は "" で囲む）
+ * = + - @ で始まる文字列は先頭に ' を付ける（数値はそのまま）
+ */
+function escapeCell(value) {
+  let s = value === undefined || value === null ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/**
+ * 行（配列の配列）を CSV 文字列にする
+ * @param {Array<Array<*>>} rows
+ * @returns {string}
+ */
+function toCsv(rows) {
+  return rows.map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * CSV 文字列を行（文字列の配列の配列）に分解する
+ * 空行は捨てる。先頭の BOM（Excel で保存した CSV）は無視する
+ * escapeCell() が数式の先頭に付けた ' は外す
+ * @param {string} text
+ * @returns {string[][]}
+ * @throws 引用符が閉じていない場合
+ */
+function parseCsv(text) {
+  const src = String(text || '').replace(/^\uFEFF/, '');
+  const rows = [];
+  let row = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (quoted) {
+    throw new Error('CSV の引用符が閉じていません');
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows
+    .filter(r => r.some(v => v.trim() !== ''))
+    .map(r => r.map(v => (v[0] === "'" && FORMULA_PREFIX.test(v.slice(1)) ? v.slice(1) : v)));
+}
+
+module.exports = {
+  toCsv,
+  parseCsv,
+};
@@ -0,0 +1,160 @@
+// backend/src/utils/pdf.js
+// 印刷用の PDF の書き出し（見出し・説明の行・表だけの A4 縦。レポートのエクスポートで使用）
+// 日本語は PDF 閲覧ソフトが持っている標準の日本語フォント（HeiseiKakuGo-W5）で表示し、フォントは埋め込まない
+//   UniJIS-UCS2-HW-H: 文字は UTF-16 で書き、ASCII は半角の字形になる
+// ★ 埋め込まないため、日本語フォント（Adobe-Japan1）を持たない閲覧ソフトでは日本語が表示されない・字形が変わることがある
+//   （Linux の poppler 系は poppler-data が必要）。どの環境でも同じ見た目が必要な場合は XLSX / CSV を使う
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const TITLE_SIZE = 16;
+const LINE_SIZE = 10;
+// 表の文字の大きさ（列が収まらない場合は MIN まで小さくする）
+const TABLE_SIZE = 9;
+const TABLE_MIN_SIZE = 6;
+const CELL_PADDING = 4;
+
+const FONT_NAME = 'HeiseiKakuGo-W5';
+
+// 1 文字の幅（1 を文字の大きさとして。ASCII と半角カナは半分）
+const charWidth = (ch) => {
+  const code = ch.codePointAt(0);
+  return (code >= 0x20 && code <= 0x7E) || (code >= 0xFF61 && code <= 0xFF9F) ? 0.5 : 1;
+};
+const textWidth = (s, size) => [...s].reduce((sum, ch) => sum + charWidth(ch), 0) * size;
+
+// 幅に収まらない文字列は末尾を … にする
+function fitText(s, width, size) {
+  if (textWidth(s, size) <= width) return s;
+  const chars = [...s];
+  while (chars.length > 0 && textWidth(chars.join('') + '…', size) > width) chars.pop();
+  return chars.join('') + '…';
+}
+
+// UTF-16BE の 16 進文字列（BMP 外の文字と制御文字は ? にする）
+function hexString(s) {
+  let hex = '';
+  for (const ch of s) {
+    const code = ch.codePointAt(0);
+    const c = code > 0xFFFF || code < 0x20 ? 0x3F : code;
+    hex += c.toString(16).padStart(4, '0');
+  }
+  return `<${hex.toUpperCase()}>`;
+}
+
+const num = (n) => (Math.round(n * 100) / 100).toString();
+
+const text = (s, x, y, size) => `BT /F1 ${size} Tf ${num(x)} ${num(y)} Td ${hexString(s)} Tj ET`;
+
+/**
+ * 表のある PDF を作る
+ * @param {{ title: string, lines?: string[], columns: string[], rows: Array<Array<*>> }} doc
+ *   lines: 見出しの下に出す説明の行（対象・期間など）。数値のセルは右寄せ
+ * @returns {Buffer}
+ */
+function toPdf({ title, lines = [], columns, rows }) {
+  const cellText = (v) => (v === undefined || v === null ? '' : String(v));
+  const available = PAGE_WIDTH - MARGIN * 2;
+
+  // 列の幅は中身に合わせ、収まらなければ文字を小さくし、それでも収まらなければ列の幅を比率で縮める
+  const natural = columns.map((c, i) =>
+    Math.max(textWidth(c, 1), ...rows.map(r => textWidth(cellText(r[i]), 1)))
+  );
+  const naturalTotal = natural.reduce((sum, w) => sum + w, 0) || 1;
+  const size = Math.max(TABLE_MIN_SIZE, Math.min(TABLE_SIZE, (available - CELL_PADDING * 2 * columns.length) / naturalTotal));
+  let widths = natural.map(w => w * size + CELL_PADDING * 2);
+  const total = widths.reduce((sum, w) => sum + w, 0);
+  if (total > available) widths = widths.map(w => (w * available) / total);
+  const rowHeight = size * 1.8;
+
+  // ページごとの描画命令
+  const pages = [];
+  let ops = [];
+  let y = PAGE_HEIGHT - MARGIN;
+  const newPage = () => {
+    ops = ['0.5 w'];
+    pages.push(ops);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  const drawRow = (cells, header) => {
+    let x = MARGIN;
+    if (header) {
+      ops.push(`0.9 g ${num(MARGIN)} ${num(y - rowHeight)} ${num(widths.reduce((s, w) => s + w, 0))} ${num(rowHeight)} re f 0 g`);
+    }
+    cells.forEach((v, i) => {
+      const s = fitText(cellText(v), widths[i] - CELL_PADDING * 2, size);
+      const right = !header && typeof v === 'number';
+      const tx = right ? x + widths[i] - CELL_PADDING - textWidth(s, size) : x + CELL_PADDING;
+      ops.push(text(s, tx, y - rowHeight + (rowHeight - size) / 2 + size * 0.15, size));
+      ops.push(`${num(x)} ${num(y)} m ${num(x)} ${num(y - rowHeight)} l S`);
+      x += widths[i];
+    });
+    ops.push(`${num(x)} ${num(y)} m ${num(x)} ${num(y - rowHeight)} l S`);
+    ops.push(`${num(MARGIN)} ${num(y)} m ${num(x)} ${num(y)} l S`);
+    ops.push(`${num(MARGIN)} ${num(y - rowHeight)} m ${num(x)} ${num(y - rowHeight)} l S`);
+    y -= rowHeight;
+  };
+
+  newPage();
+  y -= TITLE_SIZE;
+  ops.push(text(fitText(title, available, TITLE_SIZE), MARGIN, y, TITLE_SIZE));
+  y -= TITLE_SIZE * 0.8;
+  for (const line of lines) {
+    y -= LINE_SIZE * 1.6;
+    ops.push(text(fitText(line, available, LINE_SIZE), MARGIN, y, LINE_SIZE));
+  }
+  y -= LINE_SIZE * 1.5;
+
+  drawRow(columns, true);
+  for (const row of rows) {
+    // 下の余白（ページ番号の分）に入る場合は次のページに、見出しの行から
+    if (y - rowHeight < MARGIN + LINE_SIZE * 2) {
+      newPage();
+      drawRow(columns, true);
+    }
+    drawRow(row, false);
+  }
+
+  // ページ番号
+  pages.forEach((pageOps, i) => {
+    const label = `${i + 1} / ${pages.length}`;
+    pageOps.push(text(label, (PAGE_WIDTH - textWidth(label, LINE_SIZE)) / 2, MARGIN / 2, LINE_SIZE));
+  });
+
+  // オブジェクト: 1 カタログ, 2 ページ一覧, 3-5 フォント, 以降ページごとに ページ・描画命令
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${6 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    `<< /Type /Font /Subtype /Type0 /BaseFont /${FONT_NAME} /Encoding /UniJIS-UCS2-HW-H /DescendantFonts [4 0 R] >>`,
+    `<< /Type /Font /Subtype /CIDFontType0 /BaseFont /${FONT_NAME}`
+      + ' /CIDSystemInfo << /Registry (Adobe) /Ordering (Japan1) /Supplement 2 >>'
+      + ' /FontDescriptor 5 0 R /DW 1000 /W [231 389 500 631 631 500] >>',
+    `<< /Type /FontDescriptor /FontName /${FONT_NAME} /Flags 4 /FontBBox [-92 -250 1010 922]`
+      + ' /ItalicAngle 0 /Ascent 880 /Descent -120 /CapHeight 737 /StemV 93 >>',
+  ];
+  pages.forEach((pageOps, i) => {
+    const stream = pageOps.join('\n');
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}]`
+      + ` /Resources << /Font << /F1 3 0 R >> >> /Contents ${7 + i * 2} 0 R >>`);
+    objects.push(`<< /Length ${Buffer.byteLength(stream)} >>\nstream\n${stream}\nendstream`);
+  });
+
+  // 本文はすべて ASCII（文字は 16 進で書く）なので、文字数がそのままバイト数になる
+  let out = '%PDF-1.4\n';
+  const offsets = objects.map((body, i) => {
+    const offset = out.length;
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(out, 'latin1');
+}
+
+module.exports = {
+  toPdf,
+};
@@ -0,0 +1,54 @@
+// backend/src/utils/time.js
+// 日時フォーマットのユーティリティ関数
+
+/**
+ * 現在時刻を "YYYY/MM/DD HH:mm:ss" 形式で返す（scores.play_date などで使用）
+ * @returns {string}
+ */
+function nowTS() {
+  return formatTS(Date.now());
+}
+
+/**
+ * ミリ秒（Date.getTime()）を nowTS() と同じ形式で返す
+ * @returns {string}
+ */
+function formatTS(ms) {
+  const d = new Date(ms);
+  const z = (n) => String(n).padStart(2,'0');
+  return `${d.getFullYear()}/${z(d.getMonth()+1)}/${z(d.getDate())} ${z(d.getHours())}:${z(d.getMinutes())}:${z(d.getSeconds())}`;
+}
+
+/**
+ * nowTS() 形式の日時をミリ秒（Date.getTime()）に変換する
+ * @returns {number} 読み取れない場合は NaN
+ */
+function parseTS(value) {
+  const m = String(value || '').match(/^(\d{4})\/(\d{1,2})\/(\d{1,2})(?: (\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (!m) return NaN;
+  const [, y, mo, d, h = 0, mi = 0, s = 0] = m;
+  return new Date(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s)).getTime();
+}
+
+/**
+ * 期間（'YYYY-MM-DD'。省略した端は制限なし）に日時が入るかを判定する関数を返す
+ * ★ シートの日付は "2026/1/5" のように 0 埋めされないことがあるため、文字列ではなく parseTS() の値で比べる
+ * @returns {(ts: string) => boolean} 期間を指定していて日時が読み取れない場合は false
+ */
+function withinDays(from = '', to = '') {
+  const start = from ? parseTS(from.replace(/-/g, '/')) : -Infinity;
+  const last = to ? new Date(parseTS(to.replace(/-/g, '/'))) : null;
+  const end = last ? last.setDate(last.getDate() + 1) : Infinity; // 終了日の翌日 0 時（含まない）
+  return (ts) => {
+    if (!from && !to) return true;
+    const ms = parseTS(ts);
+    return ms >= start && ms < end;
+  };
+}
+
+module.exports = {
+  nowTS,
+  formatTS,
+  parseTS,
+  withinDays,
+};
@@ -0,0 +1,75 @@
+// backend/test/access.test.js
+// パートを選択・プレイできるか（進捗・ロック・上限・解放と、その優先順位）
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createMemoryStore } = require('../src/repositories/drivers/memory');
+const { createRepository } = require('../src/repositories');
+const { isPartUnlocked, partAccess, checkPartAccess, accessMessage } = require('../src/progression');
+
+// 進捗: 1 年 2 パート 1 サブパート
+const USER = { user_id: '10001', current_grade: 1, current_part: 2, current_subpart: 1 };
+const part = (grade_id, part_no, subpart_no) => ({ part_id: `${grade_id}_${part_no}_${subpart_no}`, grade_id, part_no, subpart_no });
+const lock = (fields) => ({ lock_id: fields.kind, scope: 'all', target: '', part_no: 0, subpart_no: 0, expires_at: '', ...fields });
+
+test('進捗までのパートだけを選べる', () => {
+  assert.equal(isPartUnlocked(USER, part(1, 1, 3)), true);
+  assert.equal(isPartUnlocked(USER, part(1, 2, 1)), true);
+  assert.equal(isPartUnlocked(USER, part(1, 2, 2)), false);
+  assert.equal(isPartUnlocked(USER, part(2, 1, 1)), false);
+  assert.deepEqual(partAccess(USER, part(1, 1, 1), []), { unlocked: true, reason: 'progress' });
+});
+
+test('ロックは進捗までのパートも選べなくする（0 はその学年・パートのすべて）', () => {
+  const locks = [lock({ kind: 'lock', grade_id: 1, part_no: 1 })];
+  assert.deepEqual(partAccess(USER, part(1, 1, 2), locks), { unlocked: false, reason: 'lock', lock_id: 'lock' });
+  assert.equal(partAccess(USER, part(1, 2, 1), locks).unlocked, true);
+  assert.equal(accessMessage(partAccess(USER, part(1, 1, 2), locks)), 'このステージは先生がロックしています');
+});
+
+test('上限より先のパートは選べない', () => {
+  const locks = [lock({ kind: 'ceiling', grade_id: 1, part_no: 1, subpart_no: 2 })];
+  assert.equal(partAccess(USER, part(1, 1, 2), locks).unlocked, true);
+  assert.deepEqual(partAccess(USER, part(1, 1, 3), locks), { unlocked: false, reason: 'ceiling', lock_id: 'ceiling' });
+  assert.equal(partAccess(USER, part(1, 2, 1), locks).reason, 'ceiling');
+  // パートを省略した上限は、その学年の最後まで
+  const gradeCeiling = [lock({ kind: 'ceiling', grade_id: 1 })];
+  assert.equal(partAccess(USER, part(1, 2, 1), gradeCeiling).unlocked, true);
+});
+
+test('解放は進捗より先のパートも選べるようにする', () => {
+  const locks = [lock({ kind: 'unlock', grade_id: 2, part_no: 1 })];
+  assert.deepEqual(partAccess(USER, part(2, 1, 3), locks), { unlocked: true, reason: 'unlock', lock_id: 'unlock' });
+  assert.equal(partAccess(USER, part(2, 2, 1), locks).unlocked, false);
+});
+
+test('同じ範囲では ロック → 上限 → 解放 の順、範囲は 全員 → クラス → 生徒 の順で個別の設定を優先する', () => {
+  const sameScope = [
+    lock({ kind: 'unlock', grade_id: 1, part_no: 1 }),
+    lock({ kind: 'lock', grade_id: 1, part_no: 1 }),
+  ];
+  assert.equal(partAccess(USER, part(1, 1, 1), sameScope).reason, 'lock');
+
+  const layered = [
+    lock({ lock_id: 'all-lock', kind: 'lock', grade_id: 1 }),
+    lock({ lock_id: 'user-unlock', scope: 'user', target: '10001', kind: 'unlock', grade_id: 1, part_no: 1 }),
+  ];
+  assert.deepEqual(partAccess(USER, part(1, 1, 1), layered), { unlocked: true, reason: 'unlock', lock_id: 'user-unlock' });
+  assert.equal(partAccess(USER, part(1, 2, 1), layered).reason, 'lock');
+});
+
+test('かかる設定だけを読み込む（他のクラス・他の生徒・期限切れは除く）', async () => {
+  const repo = createRepository(createMemoryStore());
+  const cls = await repo.classes.create({ name: '1組', created_by: 'admin' });
+  await repo.classes.addMember({ class_id: cls.class_id, user_id: '10001', role: 'student' });
+  const other = await repo.classes.create({ name: '2組', created_by: 'admin' });
+
+  await repo.partLocks.create({ scope: 'class', target: cls.class_id, kind: 'ceiling', grade_id: 1, part_no: 1, created_by: 'admin' });
+  await repo.partLocks.create({ scope: 'class', target: other.class_id, kind: 'lock', grade_id: 1, created_by: 'admin' });
+  await repo.partLocks.create({ scope: 'user', target: '10002', kind: 'lock', grade_id: 1, created_by: 'admin' });
+  await repo.partLocks.create({ scope: 'all', kind: 'lock', grade_id: 1, part_no: 1, expires_at: '2000/01/01 00:00:00', created_by: 'admin' });
+
+  assert.equal((await checkPartAccess(repo, USER, part(1, 1, 1))).unlocked, true);
+  const access = await checkPartAccess(repo, USER, part(1, 2, 1));
+  assert.equal(access.unlocked, false);
+  assert.equal(access.reason, 'ceiling');
+});
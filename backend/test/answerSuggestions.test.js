@@ -0,0 +1,110 @@
+// backend/test/answerSuggestions.test.js
+// 正解パターンの候補（src/analytics/suggestions.js と GET /admin/analytics/suggestions）
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+process.env.JWT_SECRET = 'test';
+const { createMemoryStore } = require('../src/repositories/drivers/memory');
+const { createRepository, setRepository } = require('../src/repositories');
+const { generateToken } = require('../src/middleware/auth');
+const { suggestAnswerPatterns } = require('../src/analytics');
+
+console.log = () => {};
+console.info = () => {};
+console.warn = () => {};
+const app = require('../src/app');
+
+const student = (user_id) => ({ user_id, nickname: `n${user_id}`, real_name: `生徒${user_id}`, is_admin: false, role: 'student' });
+const question = (question_id, display_order, question_text) => ({ question_id, part_id: '1_1_1', display_order, is_demo: false, question_text });
+let attemptNo = 0;
+const attempt = (user_id, question_id, text, result = 'wrong') => ({
+  attempt_id: `a${++attemptNo}`, session_id: `s${attemptNo}`, user_id, part_id: '1_1_1', question_id, attempt_no: 1,
+  result, transcripts: JSON.stringify([text, 'other']), time_ms: 0, created_at: '2026/01/05 09:00:00',
+});
+const times = (n, make) => Array.from({ length: n }, make);
+
+const SEED = {
+  users: [student('60001'), student('60002'), student('60003')],
+  parts: [
+    // 候補が既定の判定で正解にならないよう、文字の類似度だけで厳しく判定する
+    { part_id: '1_1_1', grade_id: 1, part_no: 1, subpart_no: 1, match_config: '{"strategies":["exact","levenshtein"],"levenshtein":0.95}' },
+  ],
+  questions: [question('1_1_1_02', 2, 'I have two dogs'), question('1_1_1_03', 3, 'Hello'), question('1_1_1_04', 4, 'We play soccer')],
+  answer_patterns: [
+    { id: 1, question_id: '1_1_1_02', expected_text: 'I have two dogs' },
+    { id: 2, question_id: '1_1_1_02', expected_text: 'I have got two dogs' },
+    { id: 3, question_id: '1_1_1_03', expected_text: 'Hello' },
+  ],
+  attempts: [
+    attempt('60001', '1_1_1_02', 'I have two dog'),
+    attempt('60002', '1_1_1_02', 'i have two dog.'),
+    attempt('60001', '1_1_1_02', 'I have two dogg'),
+    attempt('60002', '1_1_1_02', 'We have two dogs'),
+    attempt('60001', '1_1_1_02', 'I have a dog'),
+    attempt('60001', '1_1_1_02', 'I have a dog'),
+    // 正解パターンから遠い・いまの正解パターンで正解になる・不正解ではない回答は候補にしない
+    ...times(3, () => attempt('60001', '1_1_1_02', 'banana')),
+    ...times(3, () => attempt('60002', '1_1_1_02', 'I have got two dogs')),
+    attempt('60001', '1_1_1_02', 'I have two dog', 'timeout'),
+    // 1 回だけのものは候補にしない
+    attempt('60001', '1_1_1_03', 'hallo'),
+    attempt('60002', '1_1_1_03', 'hallo'),
+    attempt('60001', '1_1_1_03', 'yellow'),
+    // 正解パターンの無い問題
+    ...times(2, () => attempt('60001', '1_1_1_04', 'we play socks')),
+    // 対象外の生徒
+    ...times(5, () => attempt('60003', '1_1_1_03', 'hullo')),
+  ],
+};
+
+const repoOf = () => createRepository(createMemoryStore(structuredClone(SEED)));
+const students = new Set(['60001', '60002']);
+
+test('正解パターンに近い不正解の認識結果を、似たものどうしまとめて回数の多い順に返す', async () => {
+  const rows = await suggestAnswerPatterns(repoOf(), { userIds: students });
+  assert.deepEqual(rows.map(r => r.question_id), ['1_1_1_02', '1_1_1_03']);
+
+  const [dogs, hello] = rows;
+  assert.deepEqual(dogs.answers, ['I have two dogs', 'I have got two dogs']);
+  assert.equal(dogs.question_text, 'I have two dogs');
+  assert.deepEqual(dogs.suggestions, [
+    {
+      text: 'i have two dog',
+      count: 4,
+      students: 2,
+      similarity: 0.93,
+      variants: [{ text: 'i have two dogg', count: 1 }, { text: 'we have two dogs', count: 1 }],
+    },
+    { text: 'i have a dog', count: 2, students: 1, similarity: 0.73, variants: [] },
+  ]);
+  assert.deepEqual(hello.suggestions.map(s => [s.text, s.count, s.students]), [['hallo', 2, 2]]);
+});
+
+test('学年・パートで絞り込む', async () => {
+  const repo = repoOf();
+  assert.equal((await suggestAnswerPatterns(repo, { userIds: students, partId: '1_1_1' })).length, 2);
+  assert.deepEqual(await suggestAnswerPatterns(repo, { userIds: students, grade: 2 }), []);
+  assert.deepEqual(await suggestAnswerPatterns(repo, { userIds: new Set() }), []);
+});
+
+test('GET /admin/analytics/suggestions は範囲内の生徒の回答から候補を返し、範囲外のクラスは 404', async () => {
+  setRepository(repoOf());
+  const server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  const get = async (query, token) => {
+    const r = await fetch(`http://localhost:${server.address().port}/admin/analytics/suggestions?${query}`, { headers: { Cookie: `authToken=${token}` } });
+    return { status: r.status, body: await r.json() };
+  };
+  try {
+    const admin = generateToken({ userId: '69999', is_admin: true, role: 'admin' });
+    const all = await get('', admin);
+    assert.equal(all.status, 200);
+    // 範囲内のすべての生徒（60003 を含む）
+    assert.deepEqual(all.body.questions.map(q => [q.question_id, q.suggestions[0].text]), [['1_1_1_03', 'hullo'], ['1_1_1_02', 'i have two dog']]);
+
+    assert.equal((await get('class_id=c9', admin)).status, 404);
+    assert.equal((await get('', generateToken({ userId: '60001', is_admin: false }))).status, 403);
+  } finally {
+    server.close();
+  }
+});
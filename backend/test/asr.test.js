@@ -0,0 +1,60 @@
+// backend/test/asr.test.js
+// サーバー側の音声認識（同時に実行する数と、順番待ちがいっぱいのときの ASR_BUSY）
+// ffmpeg と whisper.cpp は、同時に動いている数を記録する小さなスクリプトに差し替える（services/asr を読み込む前に設定する）
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const TMP = fs.mkdtempSync(path.join(os.tmpdir(), 'asr-test-'));
+const LOG = path.join(TMP, 'log');
+const script = (name, body) => {
+  const file = path.join(TMP, name);
+  fs.writeFileSync(file, `#!/bin/sh\n${body}\n`, { mode: 0o755 });
+  return file;
+};
+// 開始・終了を記録し、少し待つ
+process.env.FFMPEG_PATH = script('ffmpeg', `echo start >> "${LOG}"; sleep 0.2; echo end >> "${LOG}"`);
+process.env.WHISPER_CPP_BIN = script('whisper', 'echo "[00:00] I like cats"');
+process.env.WHISPER_MODEL = path.join(TMP, 'model.bin');
+process.env.ASR_ENGINE = 'whisper';
+process.env.ASR_CONCURRENCY = '1';
+process.env.ASR_QUEUE_LIMIT = '1';
+test.after(() => fs.rmSync(TMP, { recursive: true, force: true }));
+// 差し替えのスクリプトは sh で動かす
+const options = { skip: process.platform === 'win32' && 'sh が必要', timeout: 10000 };
+
+const { getEngineName, recognize } = require('../src/services/asr');
+
+// ログから、同時に動いていた数の最大を求める
+function maxRunning() {
+  let running = 0;
+  let max = 0;
+  for (const line of fs.readFileSync(LOG, 'utf8').trim().split('\n')) {
+    running += line === 'start' ? 1 : -1;
+    max = Math.max(max, running);
+  }
+  return max;
+}
+
+test('認識は同時に ASR_CONCURRENCY までで、待ちが ASR_QUEUE_LIMIT を超えた分は ASR_BUSY で断る', options, async () => {
+  assert.equal(getEngineName(), 'whisper');
+  const audio = Buffer.from('audio');
+  const results = await Promise.allSettled([recognize(audio), recognize(audio), recognize(audio)]);
+
+  assert.deepEqual(results.map(r => r.status), ['fulfilled', 'fulfilled', 'rejected']);
+  assert.deepEqual(results[0].value, { engine: 'whisper', transcripts: ['I like cats'] });
+  assert.equal(results[2].reason.code, 'ASR_BUSY');
+  assert.equal(maxRunning(), 1);
+
+  // 終わった後は枠が空いている
+  assert.deepEqual((await recognize(audio)).transcripts, ['I like cats']);
+});
+
+test('コマンドが失敗しても枠を返す', options, async () => {
+  const ffmpeg = process.env.FFMPEG_PATH;
+  fs.writeFileSync(ffmpeg, '#!/bin/sh\nexit 1\n');
+  await assert.rejects(recognize(Buffer.from('audio')), /ffmpeg failed/);
+  await assert.rejects(recognize(Buffer.from('audio')), /ffmpeg failed/);
+});
@@ -0,0 +1,112 @@
+// backend/test/contentLint.test.js
+// 教材のチェック（src/content/lint.js）
+// 画像は一時ディレクトリを CONTENT_PUBLIC_DIR にして確かめる（lint.js を読み込む前に設定する）
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const TMP = fs.mkdtempSync(path.join(os.tmpdir(), 'content-lint-'));
+const PUBLIC_DIR = path.join(TMP, 'public');
+fs.mkdirSync(path.join(PUBLIC_DIR, 'questions'), { recursive: true });
+fs.writeFileSync(path.join(PUBLIC_DIR, 'questions', 'cat.png'), '');
+// 画像のディレクトリの外にあるファイル（チェックで有無を調べてはいけない）
+fs.writeFileSync(path.join(TMP, 'secret.txt'), '');
+process.env.CONTENT_PUBLIC_DIR = PUBLIC_DIR;
+test.after(() => fs.rmSync(TMP, { recursive: true, force: true }));
+
+const { createMemoryStore } = require('../src/repositories/drivers/memory');
+const { createRepository } = require('../src/repositories');
+const { lintContent } = require('../src/content/lint');
+
+const part = (part_id, grade_id, part_no, subpart_no, extra = {}) => ({ part_id, grade_id, part_no, subpart_no, question_count: 3, ...extra });
+const question = (part_id, n, extra = {}) => ({
+  question_id: `${part_id}_0${n}`, part_id, display_order: n, is_demo: n === 1, question_text: `Q${n}`, image_url: '', ...extra,
+});
+let answerId = 0;
+const answersFor = (questions) => questions.map(q => ({ id: ++answerId, question_id: q.question_id, expected_text: 'I like cats' }));
+
+// 問題がそろった 1 パート分
+function partContent(p) {
+  const questions = [1, 2, 3].map(n => question(p.part_id, n));
+  return { parts: [p], questions, answer_patterns: answersFor(questions) };
+}
+
+async function lint(seed, options) {
+  return lintContent(createRepository(createMemoryStore(seed)), options);
+}
+
+const codes = (result) => result.issues.map(i => i.code).sort();
+
+test('問題のそろった教材は問題なし', async () => {
+  const a = partContent(part('1_1_1', 1, 1, 1));
+  const b = partContent(part('1_1_2', 1, 1, 2));
+  const result = await lint({
+    parts: [...a.parts, ...b.parts],
+    questions: [...a.questions, ...b.questions],
+    answer_patterns: [...a.answer_patterns, ...b.answer_patterns],
+  });
+  assert.deepEqual(result.issues, []);
+  assert.deepEqual(result.summary, { parts: 2, questions: 6, answer_patterns: 6, errors: 0, warnings: 0 });
+});
+
+test('問題数・1 問目のデモ・display_order の重複・正解パターンをパートと問題ごとに調べる', async () => {
+  const p = part('1_1_1', 1, 1, 1, { question_count: 4, match_config: '[1]' });
+  const questions = [
+    question('1_1_1', 1, { is_demo: false }),
+    question('1_1_1', 2),
+    question('1_1_1', 3, { display_order: 2, question_text: ' ' }),
+  ];
+  const answer_patterns = [
+    { id: 1, question_id: '1_1_1_01', expected_text: 'Hello' },
+    { id: 2, question_id: '1_1_1_02', expected_text: ' ' },
+    { id: 3, question_id: '1_1_1_03', expected_text: 'I like cats', match_config: '{' },
+    { id: 4, question_id: 'gone', expected_text: 'I like dogs' },
+  ];
+  const result = await lint({ parts: [p], questions, answer_patterns });
+  assert.deepEqual(codes(result), [
+    'duplicate_display_order',
+    'empty_answer',
+    'empty_question_text',
+    'first_not_demo',
+    'invalid_match_config',
+    'invalid_match_config',
+    'no_answers',
+    'orphan_answer',
+    'question_count',
+  ]);
+  assert.equal(result.issues.find(i => i.code === 'question_count').message, '問題が 3 問しかありません（4 問必要です）');
+  assert.deepEqual(result.summary, { parts: 1, questions: 3, answer_patterns: 4, errors: 7, warnings: 2 });
+});
+
+test('パートの並び: 位置の重複はエラー、抜けは警告', async () => {
+  const parts = [part('1_1_1', 1, 1, 1), part('1_1_2', 1, 1, 2), part('1_1_2b', 1, 1, 2), part('1_3_1', 1, 3, 1)];
+  const contents = parts.map(partContent);
+  const result = await lint({
+    parts,
+    questions: contents.flatMap(c => c.questions),
+    answer_patterns: contents.flatMap(c => c.answer_patterns),
+  });
+  assert.deepEqual(result.issues.map(i => [i.code, i.part_id]), [
+    ['duplicate_position', '1_1_2b'],
+    ['sequence_gap', '1_3_1'],
+  ]);
+});
+
+test('画像: 無いファイルはエラー。ディレクトリの外を指す URL は有無を調べずにエラー', async () => {
+  const content = partContent(part('1_1_1', 1, 1, 1));
+  content.questions[0].image_url = '/questions/cat.png';
+  content.questions[1].image_url = '/questions/dog.png';
+  content.questions[2].image_url = '/questions/../../secret.txt';
+  const result = await lint(content);
+  assert.deepEqual(result.issues.map(i => [i.code, i.question_id]), [
+    ['missing_image', '1_1_1_02'],
+    ['invalid_image_url', '1_1_1_03'],
+  ]);
+
+  content.questions[0].image_url = '//etc/passwd';
+  content.questions[1].image_url = 'https://example.com/dog.png';
+  const outside = await lint(content, { checkImages: false });
+  assert.deepEqual(codes(outside), ['invalid_image_url', 'invalid_image_url']);
+});
@@ -0,0 +1,164 @@
+// backend/test/contentTransfer.test.js
+// 教材のインポート・エクスポート（src/content/transfer.js）
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createMemoryStore } = require('../src/repositories/drivers/memory');
+const { createRepository } = require('../src/repositories');
+const { exportContent, tableToCsv, planImport, applyImport } = require('../src/content/transfer');
+
+const SEED = {
+  parts: [
+    { part_id: '1_1_2', grade_id: 1, part_no: 1, subpart_no: 2, requirement: 'like', question_count: 2 },
+    { part_id: '1_1_1', grade_id: 1, part_no: 1, subpart_no: 1, requirement: 'greeting', question_count: 2, match_config: '{"levenshtein":0.8}' },
+  ],
+  questions: [
+    { question_id: '1_1_1_02', part_id: '1_1_1', display_order: 2, is_demo: false, question_text: 'Q2', image_url: '' },
+    { question_id: '1_1_1_01', part_id: '1_1_1', display_order: 1, is_demo: true, question_text: 'Q1', image_url: '/questions/1.png' },
+    { question_id: '1_1_2_01', part_id: '1_1_2', display_order: 1, is_demo: true, question_text: 'Q3, "quoted"', image_url: '' },
+  ],
+  answer_patterns: [
+    { id: 1, question_id: '1_1_1_01', expected_text: 'Hello' },
+    { id: 2, question_id: '1_1_1_02', expected_text: 'I like cats' },
+    { id: 3, question_id: '1_1_1_02', expected_text: 'I love cats', match_config: '{"keywords":["cats"]}' },
+    { id: 4, question_id: '1_1_2_01', expected_text: '-5 degrees' },
+  ],
+};
+
+const repoOf = (seed) => createRepository(createMemoryStore(structuredClone(seed)));
+
+// 指定した追加で失敗するストレージ（途中で失敗したインポートの取り消しの確認用）
+function failingStore(seed, shouldFail) {
+  const store = createMemoryStore(structuredClone(seed));
+  return {
+    ...store,
+    async insert(table, row) {
+      if (shouldFail(table, row)) throw new Error('quota exceeded');
+      return store.insert(table, row);
+    },
+  };
+}
+
+test('エクスポートはパートの位置順・表示順で、指定したパートの問題と正解パターンだけを返す', async () => {
+  const repo = repoOf(SEED);
+  const all = await exportContent(repo);
+  assert.deepEqual(all.parts.map(p => p.part_id), ['1_1_1', '1_1_2']);
+  assert.deepEqual(all.questions.map(q => q.question_id), ['1_1_1_01', '1_1_1_02', '1_1_2_01']);
+  assert.deepEqual(Object.keys(all.answer_patterns[0]), ['id', 'question_id', 'expected_text', 'match_config']);
+
+  const one = await exportContent(repo, { partIds: ['1_1_2'] });
+  assert.deepEqual(one.questions.map(q => q.question_id), ['1_1_2_01']);
+  assert.deepEqual(one.answer_patterns.map(a => a.id), [4]);
+});
+
+test('CSV でエクスポートした教材を空の教材にインポートすると同じ内容になる', async () => {
+  const exported = await exportContent(repoOf(SEED));
+  const input = Object.fromEntries(Object.entries(exported).map(([table, rows]) => [table, tableToCsv(table, rows)]));
+
+  const target = repoOf({});
+  const plan = await planImport(target, input);
+  assert.deepEqual(plan.errors, []);
+  assert.deepEqual(plan.diff.parts.create, ['1_1_1', '1_1_2']);
+  assert.equal(plan.diff.answer_patterns.create.length, 4);
+  await applyImport(target, plan.ops);
+
+  const imported = await exportContent(target);
+  assert.deepEqual(imported.parts, exported.parts);
+  assert.deepEqual(imported.questions, exported.questions);
+  assert.deepEqual(imported.answer_patterns.map(({ id: _id, ...a }) => a), exported.answer_patterns.map(({ id: _id, ...a }) => a));
+
+  // もう一度インポートしても変わらない
+  const again = await planImport(target, input);
+  assert.deepEqual(again.ops, []);
+  assert.equal(again.diff.parts.unchanged, 2);
+});
+
+test('既存の行は入力に含まれる列だけ更新し、正解パターンは問題ごとにファイルの内容にそろえる', async () => {
+  const repo = repoOf(SEED);
+  const plan = await planImport(repo, {
+    parts: 'part_id,grade_id,part_no,subpart_no,requirement\r\n1_1_1,1,1,1,greetings\r\n',
+    answer_patterns: [
+      { id: '', question_id: '1_1_1_02', expected_text: 'I love cats', match_config: '' },
+      { id: '', question_id: '1_1_1_02', expected_text: 'I like cat' },
+    ],
+  });
+  assert.deepEqual(plan.errors, []);
+  assert.deepEqual(plan.diff.parts.update, [{ key: '1_1_1', changes: { requirement: { from: 'greeting', to: 'greetings' } } }]);
+  assert.deepEqual(plan.diff.answer_patterns.remove.map(a => a.expected_text), ['I like cats']);
+  assert.deepEqual(plan.diff.answer_patterns.create.map(a => a.expected_text), ['I like cat']);
+  assert.equal(plan.diff.answer_patterns.update[0].key, 3);
+
+  await applyImport(repo, plan.ops);
+  const part = await repo.parts.findById('1_1_1');
+  assert.equal(part.requirement, 'greetings');
+  assert.equal(part.match_config, '{"levenshtein":0.8}');
+  const answers = (await repo.answers.list()).filter(a => a.question_id === '1_1_1_02');
+  assert.deepEqual(answers.map(a => [a.id, a.expected_text, a.match_config]), [[3, 'I love cats', ''], [5, 'I like cat', '']]);
+  // ファイルに無い問題の正解パターンはそのまま
+  assert.equal((await repo.answers.list()).filter(a => a.question_id === '1_1_1_01').length, 1);
+});
+
+test('不正な入力はすべてエラーとして返し、何も書き込まない', async () => {
+  const repo = repoOf(SEED);
+  assert.equal((await planImport(repo, {})).errors.length, 1);
+  assert.match((await planImport(repo, { parts: 'id,part_id\r\n1,x\r\n' })).errors[0].message, /ヘッダーが一致しません/);
+  assert.match((await planImport(repo, { parts: '"part_id\r\n' })).errors[0].message, /引用符/);
+
+  const plan = await planImport(repo, {
+    parts: [
+      { part_id: '1_2_1', grade_id: 1, part_no: 2, subpart_no: 1, requirement: 'x' },
+      { part_id: '1_2_1', grade_id: 1, part_no: 2, subpart_no: 2, requirement: 'x' },
+      { part_id: 'bad id', grade_id: 1, part_no: 1, subpart_no: 1, requirement: '' },
+    ],
+    questions: [{ question_id: '9_9_9_01', part_id: '9_9_9', display_order: 1, is_demo: true, question_text: 'Q', image_url: '' }],
+    answer_patterns: [
+      { id: '', question_id: 'nope', expected_text: 'Hello' },
+      { id: '', question_id: '1_1_1_01', expected_text: 'Hi' },
+      { id: '', question_id: '1_1_1_01', expected_text: ' Hi ' },
+    ],
+  });
+  assert.equal(plan.diff, null);
+  assert.deepEqual(plan.ops, []);
+  const messages = plan.errors.map(e => `${e.table}:${e.line ?? '-'}`);
+  assert.ok(messages.includes('parts:2'), 'part_id の重複');
+  assert.ok(messages.includes('parts:3'), '不正な part_id と空の requirement');
+  assert.ok(messages.includes('parts:-'), '学年・パート番号の重複');
+  assert.ok(messages.includes('questions:1'), '無いパート');
+  assert.ok(messages.includes('answer_patterns:1'), '無い問題');
+  assert.ok(messages.includes('answer_patterns:3'), 'expected_text の重複');
+  assert.deepEqual(await exportContent(repo), await exportContent(repoOf(SEED)));
+});
+
+test('適用の途中で失敗した場合は、適用済みの手順を逆順に取り消す', async () => {
+  const repo = createRepository(failingStore(SEED, (table, row) => table === 'questions' && row.question_id === '1_2_1_02'));
+  const before = await exportContent(repo);
+  const plan = await planImport(repo, {
+    parts: [
+      { part_id: '1_1_1', grade_id: 1, part_no: 1, subpart_no: 1, requirement: 'changed' },
+      { part_id: '1_2_1', grade_id: 1, part_no: 2, subpart_no: 1, requirement: 'new' },
+    ],
+    questions: [
+      { question_id: '1_2_1_01', part_id: '1_2_1', display_order: 1, is_demo: true, question_text: 'Q', image_url: '' },
+      { question_id: '1_2_1_02', part_id: '1_2_1', display_order: 2, is_demo: false, question_text: 'Q', image_url: '' },
+    ],
+    answer_patterns: [{ id: '', question_id: '1_1_1_02', expected_text: 'I like cats' }],
+  });
+  assert.deepEqual(plan.errors, []);
+
+  await assert.rejects(applyImport(repo, plan.ops), /quota exceeded/);
+  assert.deepEqual(await exportContent(repo), before);
+});
+
+test('取り消しにも失敗した場合は rollbackFailed を付けて失敗する', async () => {
+  // 新しい正解パターンの追加と、削除した正解パターンの再追加（取り消し）が失敗する
+  const repo = createRepository(failingStore(SEED, (table, row) => table === 'answer_patterns' && [3, 5].includes(row.id)));
+  const plan = await planImport(repo, {
+    answer_patterns: [
+      { id: '', question_id: '1_1_1_02', expected_text: 'I like cats' },
+      { id: '', question_id: '1_1_1_02', expected_text: 'I like dogs' },
+    ],
+  });
+  console.error = () => {};
+  const err = await applyImport(repo, plan.ops).then(() => null, e => e);
+  assert.equal(err.message, 'quota exceeded');
+  assert.equal(err.rollbackFailed, true);
+});
@@ -0,0 +1,145 @@
+// backend/test/exportFormats.test.js
+// レポートの書き出し（CSV / XLSX / PDF）
+// XLSX は ZIP の構造（ローカルヘッダー・中央ディレクトリ・CRC）を、PDF は相互参照表のオフセットを読み戻して確かめる
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const zlib = require('zlib');
+const { toCsv, parseCsv } = require('../src/utils/csv');
+const { toXlsx } = require('../src/utils/xlsx');
+const { toPdf } = require('../src/utils/pdf');
+
+/* ---------- CSV ---------- */
+
+test('CSV: , " 改行を含むセルは "" で囲み、読み込むと元に戻る', () => {
+  const rows = [['a,b', 'say "hi"', 'line1\nline2', 3, '', null]];
+  const csv = toCsv(rows);
+  assert.equal(csv, '"a,b","say ""hi""","line1\nline2",3,,\r\n');
+  assert.deepEqual(parseCsv(csv), [['a,b', 'say "hi"', 'line1\nline2', '3', '', '']]);
+});
+
+test('CSV: = + - @ で始まる文字列は先頭に \' を付け、読み込むと外す', () => {
+  const rows = [['=HYPERLINK("http://x")', '+1', '-cmd', '@SUM(A1)', "'quoted", -3, 'I like cats']];
+  const csv = toCsv(rows);
+  assert.equal(csv, `"'=HYPERLINK(""http://x"")",'+1,'-cmd,'@SUM(A1),''quoted,-3,I like cats\r\n`);
+  assert.deepEqual(parseCsv(csv), [rows[0].map(String)]);
+});
+
+/* ---------- XLSX ---------- */
+
+// ZIP を中央ディレクトリから読み、ファイルごとにローカルヘッダーと CRC を確かめて中身を返す
+function unzip(buf) {
+  const end = buf.length - 22;
+  assert.equal(buf.readUInt32LE(end), 0x06054b50);
+  const count = buf.readUInt16LE(end + 10);
+  const centralSize = buf.readUInt32LE(end + 12);
+  let p = buf.readUInt32LE(end + 16);
+  assert.equal(p + centralSize, end);
+
+  const files = new Map();
+  for (let i = 0; i < count; i++) {
+    assert.equal(buf.readUInt32LE(p), 0x02014b50);
+    const crc = buf.readUInt32LE(p + 16);
+    const compressed = buf.readUInt32LE(p + 20);
+    const size = buf.readUInt32LE(p + 24);
+    const nameLength = buf.readUInt16LE(p + 28);
+    const offset = buf.readUInt32LE(p + 42);
+    const name = buf.toString('utf8', p + 46, p + 46 + nameLength);
+    p += 46 + nameLength;
+
+    assert.equal(buf.readUInt32LE(offset), 0x04034b50, name);
+    assert.equal(buf.readUInt32LE(offset + 14), crc, name);
+    assert.equal(buf.toString('utf8', offset + 30, offset + 30 + nameLength), name);
+    const start = offset + 30 + nameLength + buf.readUInt16LE(offset + 28);
+    const data = zlib.inflateRawSync(buf.subarray(start, start + compressed));
+    assert.equal(data.length, size, name);
+    assert.equal(zlib.crc32(data), crc, name);
+    files.set(name, data.toString('utf8'));
+  }
+  return files;
+}
+
+test('XLSX: ZIP の各ファイルが読み戻せ、ブックとシートがそろっている', () => {
+  const files = unzip(toXlsx([['名前', '点数'], ['山田 & <太郎>', 5]], 'レポート/3年'));
+  assert.deepEqual([...files.keys()], [
+    '[Content_Types].xml',
+    '_rels/.rels',
+    'xl/workbook.xml',
+    'xl/_rels/workbook.xml.rels',
+    'xl/worksheets/sheet1.xml',
+  ]);
+  assert.match(files.get('[Content_Types].xml'), /PartName="\/xl\/worksheets\/sheet1\.xml"/);
+  assert.match(files.get('_rels/.rels'), /Target="xl\/workbook\.xml"/);
+  assert.match(files.get('xl/workbook.xml'), /<sheet name="レポート3年" sheetId="1" r:id="rId1"\/>/);
+  assert.match(files.get('xl/_rels/workbook.xml.rels'), /Id="rId1"[^>]*Target="worksheets\/sheet1\.xml"/);
+
+  const sheet = files.get('xl/worksheets/sheet1.xml');
+  assert.match(sheet, /<c r="A1" t="inlineStr"><is><t xml:space="preserve">名前<\/t><\/is><\/c>/);
+  assert.match(sheet, /<c r="A2" t="inlineStr"><is><t xml:space="preserve">山田 &amp; &lt;太郎&gt;<\/t><\/is><\/c>/);
+  assert.match(sheet, /<c r="B2"><v>5<\/v><\/c>/);
+});
+
+test('XLSX: 27 列目は AA、空のセルは書かない', () => {
+  const row = Array.from({ length: 27 }, (_, i) => (i === 1 ? '' : i));
+  const sheet = unzip(toXlsx([row])).get('xl/worksheets/sheet1.xml');
+  assert.match(sheet, /<c r="Z1"><v>25<\/v><\/c><c r="AA1"><v>26<\/v><\/c>/);
+  assert.doesNotMatch(sheet, /r="B1"/);
+});
+
+/* ---------- PDF ---------- */
+
+// UTF-16BE の 16 進文字列（pdf.js の書き方と同じ）
+const hex = (s) => `<${[...s].map(ch => ch.codePointAt(0).toString(16).padStart(4, '0')).join('').toUpperCase()}>`;
+
+// 相互参照表のオフセットがそれぞれ "N 0 obj" を指すことを確かめ、オブジェクトの本文を返す
+function readPdf(buf) {
+  const pdf = buf.toString('latin1');
+  assert.ok(pdf.startsWith('%PDF-1.4\n'));
+  assert.ok(pdf.endsWith('%%EOF\n'));
+  const startxref = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(pdf)[1]);
+  assert.equal(pdf.slice(startxref, startxref + 5), 'xref\n');
+
+  const [, first, size] = /^xref\n(\d+) (\d+)\n/.exec(pdf.slice(startxref));
+  assert.equal(Number(first), 0);
+  assert.match(pdf, new RegExp(`trailer\\n<< /Size ${size} /Root 1 0 R >>`));
+  const entries = pdf.slice(startxref).split('\n').slice(2, 2 + Number(size));
+  assert.equal(entries[0], '0000000000 65535 f ');
+
+  return entries.slice(1).map((entry, i) => {
+    assert.match(entry, /^\d{10} 00000 n $/);
+    const offset = Number(entry.slice(0, 10));
+    const head = `${i + 1} 0 obj\n`;
+    assert.equal(pdf.slice(offset, offset + head.length), head);
+    return pdf.slice(offset + head.length, pdf.indexOf('\nendobj\n', offset));
+  });
+}
+
+test('PDF: 相互参照表・ページ一覧・描画命令の長さが本文と合う', () => {
+  const objects = readPdf(toPdf({ title: '学習レポート', lines: ['期間: すべて'], columns: ['名前', '点数'], rows: [['山田', 5]] }));
+  assert.equal(objects[0], '<< /Type /Catalog /Pages 2 0 R >>');
+  assert.equal(objects[1], '<< /Type /Pages /Kids [6 0 R] /Count 1 >>');
+  assert.match(objects[2], /\/BaseFont \/HeiseiKakuGo-W5 \/Encoding \/UniJIS-UCS2-HW-H/);
+  assert.match(objects[5], /\/Parent 2 0 R .*\/Contents 7 0 R/);
+
+  const [, length, stream] = /^<< \/Length (\d+) >>\nstream\n([\s\S]*)\nendstream$/.exec(objects[6]);
+  assert.equal(Buffer.byteLength(stream, 'latin1'), Number(length));
+  for (const s of ['学習レポート', '期間: すべて', '名前', '山田', '5', '1 / 1']) {
+    assert.ok(stream.includes(`${hex(s)} Tj`), s);
+  }
+});
+
+test('PDF: 1 ページに収まらない表は次のページに見出しの行から続ける', () => {
+  const rows = Array.from({ length: 120 }, (_, i) => [`生徒${i + 1}`, i]);
+  const objects = readPdf(toPdf({ title: 'クラスレポート', columns: ['名前', '点数'], rows }));
+  const pages = Number(/\/Count (\d+)/.exec(objects[1])[1]);
+  assert.ok(pages >= 2);
+  assert.equal(objects.length, 5 + pages * 2);
+
+  const streams = objects.slice(5).filter((_, i) => i % 2 === 1);
+  streams.forEach((stream, i) => {
+    assert.ok(stream.includes(`${hex('名前')} Tj`), `page ${i + 1}`);
+    assert.ok(stream.includes(`${hex(`${i + 1} / ${pages}`)} Tj`), `page ${i + 1}`);
+  });
+  const all = streams.join('\n');
+  assert.ok(all.includes(`${hex('生徒1')} Tj`));
+  assert.ok(all.includes(`${hex('生徒120')} Tj`));
+});
@@ -0,0 +1,100 @@
+// backend/test/failureStats.test.js
+// パート別ミス数（GET /admin/failure-stats の期間・学年・クラスの絞り込みとページ分け）
+// メモリのリポジトリでアプリを起動し、管理者のトークンで呼び出す
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+process.env.JWT_SECRET = 'test';
+const { createMemoryStore } = require('../src/repositories/drivers/memory');
+const { createRepository, setRepository } = require('../src/repositories');
+const { generateToken } = require('../src/middleware/auth');
+
+console.log = () => {};
+console.info = () => {};
+console.warn = () => {};
+const app = require('../src/app');
+
+const student = (user_id) => ({ user_id, nickname: `n${user_id}`, real_name: `生徒${user_id}`, is_admin: false, role: 'student' });
+let scoreId = 0;
+const score = (user_id, part_id, play_date, extra = {}) => ({ score_id: ++scoreId, user_id, part_id, scores: 1, clear: false, play_date, ...extra });
+
+const SEED = {
+  users: [student('20003'), student('20001'), student('20002'), { user_id: '20009', is_admin: true, role: 'admin' }],
+  parts: [
+    { part_id: '1_1_1', grade_id: 1, part_no: 1, subpart_no: 1 },
+    { part_id: '2_1_1', grade_id: 2, part_no: 1, subpart_no: 1 },
+  ],
+  classes: [{ class_id: 'c1', name: '1組' }],
+  class_members: [
+    { class_id: 'c1', user_id: '20001', role: 'student' },
+    { class_id: 'c1', user_id: '20003', role: 'student' },
+  ],
+  scores: [
+    // シートの日付は 0 埋めされないことがある
+    score('20001', '1_1_1', '2026/1/5 9:00:00'),
+    score('20001', '1_1_1', '2026/01/20 10:00:00'),
+    score('20001', '1_1_1', '2026/2/1 8:00:00'),
+    score('20001', '2_1_1', '2026/1/6 8:00:00'),
+    // クリアしたプレイ・練習は数えない
+    score('20001', '1_1_1', '2026/1/7 8:00:00', { clear: true }),
+    score('20001', '1_1_1', '2026/1/8 8:00:00', { mode: 'practice' }),
+    score('20002', '1_1_1', '2026/1/9 8:00:00'),
+    score('20003', '1_1_1', '2025/12/31 23:59:59'),
+  ],
+};
+
+const ADMIN = generateToken({ userId: '20009', is_admin: true, role: 'admin' });
+
+async function withServer(fn) {
+  setRepository(createRepository(createMemoryStore(structuredClone(SEED))));
+  const server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  const get = async (query) => {
+    const r = await fetch(`http://localhost:${server.address().port}/admin/failure-stats?${query}`, { headers: { Cookie: `authToken=${ADMIN}` } });
+    return { status: r.status, body: await r.json() };
+  };
+  try {
+    await fn(get);
+  } finally {
+    server.close();
+  }
+}
+
+test('期間は日付として比べる（0 埋めの無い日付も含める）。クリア・練習は数えない', () => withServer(async (get) => {
+  const all = await get('');
+  assert.deepEqual(all.body.stats['20001'], { '1_1_1': 3, '2_1_1': 1 });
+
+  const jan = await get('from=2026-01-01&to=2026-01-31');
+  assert.equal(jan.status, 200);
+  assert.deepEqual(jan.body.stats['20001'], { '1_1_1': 2, '2_1_1': 1 });
+  assert.deepEqual(jan.body.stats['20003'], { '1_1_1': 0, '2_1_1': 0 });
+
+  const day = await get('from=2026-01-05&to=2026-01-05');
+  assert.deepEqual(day.body.stats['20001'], { '1_1_1': 1, '2_1_1': 0 });
+
+  assert.deepEqual((await get('to=2025-12-31')).body.stats['20003'], { '1_1_1': 1, '2_1_1': 0 });
+  assert.equal((await get('from=2026-02-01&to=2026-01-01')).status, 400);
+}));
+
+test('学年でパートを、クラスで生徒を絞り込む', () => withServer(async (get) => {
+  const grade = await get('grade=2');
+  assert.deepEqual(grade.body.parts, ['2_1_1']);
+  assert.deepEqual(grade.body.stats['20001'], { '2_1_1': 1 });
+
+  const cls = await get('class_id=c1');
+  assert.deepEqual(cls.body.users.map(u => u.user_id), ['20001', '20003']);
+  assert.equal(cls.body.total, 2);
+  assert.equal((await get('class_id=nope')).status, 404);
+}));
+
+test('生徒は user_id 順にページ分けし、total は全体の人数', () => withServer(async (get) => {
+  const first = await get('page_size=2');
+  assert.deepEqual(first.body.users.map(u => u.user_id), ['20001', '20002']);
+  assert.equal(first.body.total, 3);
+  assert.deepEqual(Object.keys(first.body.stats), ['20001', '20002']);
+
+  const second = await get('page=2&page_size=2');
+  assert.deepEqual(second.body.users.map(u => u.user_id), ['20003']);
+  assert.equal(second.body.page, 2);
+  assert.deepEqual((await get('page=3&page_size=2')).body.users, []);
+}));
@@ -0,0 +1,114 @@
+// backend/test/matching.test.js
+// 正規化と正誤判定（src/matching）
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { normalizeText, evaluateAnswer, parseMatchConfig, resolveMatchConfig } = require('../src/matching');
+
+const judge = (heard, expected, config) => evaluateAnswer([heard], [{ text: expected, config }]);
+
+test('正規化: 小文字化・記号除去・短縮形・数字・同音異義語', () => {
+  assert.equal(normalizeText('  Hello,   World! '), 'hello world');
+  assert.equal(normalizeText("I'm fine. Don't worry, it's OK"), 'i am fine do not worry it is okay');
+  assert.equal(normalizeText("Tom's bag"), 'toms bag');
+  assert.equal(normalizeText('I have 2 dogs'), 'i have two dogs');
+  assert.equal(normalizeText('I get up at 7:30'), 'i get up at seven thirty');
+  assert.equal(normalizeText('the 3rd day'), 'the third day');
+  assert.equal(normalizeText('I want to go too'), 'i want two go two');
+});
+
+test('正規化: normalizers で処理を選べる', () => {
+  assert.equal(normalizeText('I want to go', ['contractions', 'numbers']), 'i want to go');
+  assert.equal(normalizeText("I'm 2", []), 'im 2');
+});
+
+test('正規化後に一致すれば exact で正解', () => {
+  const result = judge('i am happy', "I'm happy.");
+  assert.equal(result.correct, true);
+  assert.equal(result.strategy, 'exact');
+  assert.equal(judge('I have too dogs', 'I have two dogs').correct, true);
+});
+
+test('言い間違いが小さければ類似度で正解', () => {
+  assert.equal(judge('we play socker', 'We play soccer').correct, true);
+  assert.equal(judge('they are student', 'They are students').correct, true);
+});
+
+test('違う文は不正解で、最も近かった類似度を返す', () => {
+  const result = judge('good morning', 'I like cats');
+  assert.equal(result.correct, false);
+  assert.equal(result.matchedAnswer, '');
+  assert.ok(result.levenshtein < 0.62);
+});
+
+test('短い文で内容語が 1 語違う回答は、類似度が高くても不正解', () => {
+  const result = judge('I like dogs', 'I like cats');
+  assert.ok(result.levenshtein >= 0.62);
+  assert.equal(result.correct, false);
+  assert.equal(judge('I like', 'I like cats').correct, false);
+  assert.equal(judge('It is bed', 'It is red').correct, false);
+  assert.equal(judge('I like dogs', 'I like dogs and cats').correct, false);
+});
+
+test('発音キーが同じでも綴りの違う内容語は不正解（母音だけ違う単語）', () => {
+  assert.equal(judge('I like ducks', 'I like dogs').correct, false);
+  assert.equal(judge('I like kites', 'I like cats').correct, false);
+  assert.equal(judge('This is a bag', 'This is a big').correct, false);
+});
+
+test('否定語が正解とそろわない回答は不正解', () => {
+  assert.equal(judge('I can swim', 'I can not swim').correct, false);
+  assert.equal(judge('I can not swim', 'I can swim').correct, false);
+  assert.equal(judge('I cannot swim', 'I can swim').correct, false);
+  assert.equal(judge('He is tall', 'He is not tall').correct, false);
+  assert.equal(judge("I can't swim", 'I cannot swim').correct, true);
+});
+
+test('内容語は綴りが近ければ合っているとみなす', () => {
+  assert.equal(judge('I like cat', 'I like cats').correct, true);
+  assert.equal(judge('she is my sisters', 'She is my sister').correct, true);
+});
+
+test('content_words: 0 で内容語を確認しない', () => {
+  const config = resolveMatchConfig('{"content_words":0}');
+  assert.equal(judge('I like dogs', 'I like cats', config).correct, true);
+});
+
+test('候補のいずれかが正解パターンのいずれかに一致すれば正解', () => {
+  const result = evaluateAnswer(
+    [{ transcript: 'thank you', confidence: 0.9 }, { transcript: 'I like cats', confidence: 0.4 }],
+    [{ text: 'Good night' }, { text: 'I like cats' }]
+  );
+  assert.equal(result.correct, true);
+  assert.equal(result.matchedAnswer, 'i like cats');
+  assert.equal(result.confidence, 0.4);
+});
+
+test('不正解で信頼度が min_confidence 未満なら言い直し（retry）', () => {
+  const low = evaluateAnswer([{ transcript: 'mm', confidence: 0.3 }], [{ text: 'I like cats' }]);
+  assert.equal(low.correct, false);
+  assert.equal(low.retry, true);
+  const high = evaluateAnswer([{ transcript: 'good morning', confidence: 0.9 }], [{ text: 'I like cats' }]);
+  assert.equal(high.retry, false);
+  const unknown = evaluateAnswer(['good morning'], [{ text: 'I like cats' }]);
+  assert.equal(unknown.confidence, null);
+  assert.equal(unknown.retry, false);
+});
+
+test('keywords を含まない回答はどの判定方法でも不正解', () => {
+  const config = resolveMatchConfig('{"keywords":["cats"]}');
+  assert.equal(judge('I like cat', 'I like cats', config).correct, false);
+  assert.equal(judge('I really like cats', 'I like cats', config).correct, true);
+});
+
+test('match_config の読み込み: 不正な値は無視し、しきい値は 0〜1 にそろえる', () => {
+  assert.deepEqual(parseMatchConfig('not json'), {});
+  assert.deepEqual(parseMatchConfig('[1,2]'), {});
+  assert.deepEqual(
+    parseMatchConfig({ strategies: ['exact', 'magic'], levenshtein: 2, jaccard: 'x', content_words: -1, normalizers: ['numbers', 'other'] }),
+    { strategies: ['exact'], levenshtein: 1, content_words: 0, normalizers: ['numbers'] }
+  );
+  const config = resolveMatchConfig('{"levenshtein":0.7}', '', { levenshtein: 0.9, keywords: [' cats '] });
+  assert.equal(config.levenshtein, 0.9);
+  assert.deepEqual(config.keywords, ['cats']);
+  assert.equal(config.jaccard, 0.62);
+});
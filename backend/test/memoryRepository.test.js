@@ -0,0 +1,80 @@
+// backend/test/memoryRepository.test.js
+// メモリドライバとリポジトリ（型の正規化・検索・採番・更新・削除）
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createMemoryStore } = require('../src/repositories/drivers/memory');
+const { createRepository } = require('../src/repositories');
+
+const seed = () => ({
+  users: [
+    { id: '1', user_id: '10001', password: 'x', nickname: 'taro', real_name: '', current_grade: '1', current_part: '2', current_subpart: '1', is_admin: 'TRUE' },
+  ],
+  parts: [
+    { part_id: '1_1_1', grade_id: 1, part_no: 1, subpart_no: 1, requirement: '' },
+    { part_id: '1_1_2', grade_id: 1, part_no: 1, subpart_no: 2, requirement: '' },
+  ],
+});
+
+test('初期データは列の型に合わせて読み込み、無い列は既定値になる', async () => {
+  const repo = createRepository(createMemoryStore(seed()));
+  const user = await repo.users.findByUserId(10001);
+  assert.equal(user.id, 1);
+  assert.equal(user.current_part, 2);
+  assert.equal(user.is_admin, true);
+  assert.equal(user.role, '');
+  assert.equal(await repo.users.findByUserId('99999'), null);
+});
+
+test('未知のテーブルはエラー', async () => {
+  const store = createMemoryStore();
+  await assert.rejects(store.select('nothing'), /Unknown table/);
+});
+
+test('select の結果を書き換えても保存された行は変わらない', async () => {
+  const store = createMemoryStore(seed());
+  const [row] = await store.select('parts', { part_id: '1_1_1' });
+  row.requirement = 'changed';
+  const [again] = await store.select('parts', { part_id: '1_1_1' });
+  assert.equal(again.requirement, '');
+});
+
+test('ユーザーの作成は id と user_id を採番する', async () => {
+  const repo = createRepository(createMemoryStore(seed()));
+  const user = await repo.users.create({ password: 'x', nickname: 'hanako', real_name: '' });
+  assert.equal(user.id, 2);
+  assert.equal(user.user_id, '10002');
+  assert.equal(user.current_grade, 1);
+});
+
+test('update は一致した行だけを部分更新し、件数を返す', async () => {
+  const store = createMemoryStore(seed());
+  assert.equal(await store.update('parts', { grade_id: 1, part_no: 1 }, { time_limit: '20' }), 2);
+  assert.equal(await store.update('parts', { part_id: 'none' }, { time_limit: 20 }), 0);
+  const parts = await store.select('parts');
+  assert.deepEqual(parts.map(p => p.time_limit), [20, 20]);
+  assert.deepEqual(parts.map(p => p.requirement), ['', '']);
+});
+
+test('remove は一致した行を削除し、件数を返す', async () => {
+  const store = createMemoryStore(seed());
+  assert.equal(await store.remove('parts', { part_id: '1_1_2' }), 1);
+  assert.deepEqual((await store.select('parts')).map(p => p.part_id), ['1_1_1']);
+});
+
+test('スコアは採番して mode を記録し、プレイの終了で集計を保存する', async () => {
+  const repo = createRepository(createMemoryStore(seed()));
+  const first = await repo.scores.add({ user_id: '10001', part_id: '1_1_1', scores: 5, clear: true });
+  const second = await repo.scores.add({ user_id: '10001', part_id: '1_1_1', scores: 2, clear: false, mode: 'practice' });
+  assert.equal(first.score_id, 1);
+  assert.equal(second.score_id, 2);
+  assert.deepEqual((await repo.scores.listByUserPart('10001', '1_1_1')).map(s => s.mode), ['play', 'practice']);
+
+  const session = await repo.sessions.start({ user_id: '10001', part_id: '1_1_1', total: 7, question_ids: ['q1', 'q2'] });
+  assert.equal(session.status, 'active');
+  assert.deepEqual(JSON.parse(session.question_ids), ['q1', 'q2']);
+  assert.equal(await repo.sessions.finish(session.session_id, { correct: 5, clear: true, score_id: first.score_id }), true);
+  const [finished] = await repo.sessions.listFinished('10001', '1_1_1');
+  assert.equal(finished.status, 'finished');
+  assert.equal(finished.correct, 5);
+  assert.equal(finished.score_id, 1);
+});
@@ -0,0 +1,159 @@
+// backend/test/playSession.test.js
+// プレイの API（POST /game/session/:sessionId/answer・reveal・finish と POST /game/advance）
+// メモリのリポジトリでアプリを起動し、生徒のトークンで呼び出す
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+process.env.JWT_SECRET = 'test';
+const { createMemoryStore } = require('../src/repositories/drivers/memory');
+const { createRepository, setRepository } = require('../src/repositories');
+const { generateToken } = require('../src/middleware/auth');
+
+console.log = () => {};
+console.info = () => {};
+console.warn = () => {};
+const app = require('../src/app');
+
+const question = (n, text, is_demo = false) => ({
+  question_id: `1_1_1_0${n}`, part_id: '1_1_1', display_order: n, is_demo, question_text: text, image_url: '',
+});
+
+const SEED = {
+  users: [
+    { user_id: '30001', nickname: 'taro', real_name: '山田太郎', current_grade: 1, current_part: 1, current_subpart: 1, is_admin: false },
+    { user_id: '30002', nickname: 'hanako', real_name: '佐藤花子', current_grade: 1, current_part: 1, current_subpart: 1, is_admin: false },
+  ],
+  parts: [
+    { part_id: '1_1_1', grade_id: 1, part_no: 1, subpart_no: 1, question_count: 4, correct_to_clear: 2 },
+    { part_id: '1_1_2', grade_id: 1, part_no: 1, subpart_no: 2 },
+  ],
+  questions: [question(1, 'Hello', true), question(2, 'I like cats'), question(3, 'I have two dogs'), question(4, 'We play soccer')],
+  answer_patterns: [
+    { id: 1, question_id: '1_1_1_01', expected_text: 'Hello' },
+    { id: 2, question_id: '1_1_1_02', expected_text: 'I like cats' },
+    { id: 3, question_id: '1_1_1_03', expected_text: 'I have two dogs' },
+    { id: 4, question_id: '1_1_1_04', expected_text: 'We play soccer' },
+  ],
+};
+
+// Sheets などと同じく、読み書きの間に他のリクエストが割り込めるようにする
+function withLatency(store) {
+  const delay = () => new Promise(resolve => setTimeout(resolve, 5));
+  const slow = (method) => async (...args) => {
+    await delay();
+    return store[method](...args);
+  };
+  return { ...store, select: slow('select'), insert: slow('insert'), update: slow('update') };
+}
+
+async function withServer(fn) {
+  const repo = createRepository(withLatency(createMemoryStore(structuredClone(SEED))));
+  setRepository(repo);
+  const server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  const call = async (path, body = {}, userId = '30001') => {
+    const r = await fetch(`http://localhost:${server.address().port}/game${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: `authToken=${generateToken({ userId, is_admin: false })}` },
+      body: JSON.stringify(body),
+    });
+    return { status: r.status, body: await r.json() };
+  };
+  const start = async (mode = 'play') => (await call('/session', { part_id: '1_1_1', mode })).body.session_id;
+  try {
+    await fn({ call, start, repo });
+  } finally {
+    server.close();
+  }
+}
+
+test('answer: サーバー側で判定し、正解のときだけ解答を返す。終わった問題・他人のプレイは受け付けない', () => withServer(async ({ call, start }) => {
+  const sid = await start();
+  const answer = (question_id, transcripts, userId) => call(`/session/${sid}/answer`, { question_id, transcripts }, userId);
+
+  const wrong = await answer('1_1_1_02', ['I like dogs']);
+  assert.equal(wrong.status, 200);
+  assert.equal(wrong.body.correct, false);
+  assert.equal(wrong.body.answers, undefined);
+  assert.ok(wrong.body.feedback);
+
+  const right = await answer('1_1_1_02', ['thank you', 'I like cats']);
+  assert.equal(right.body.correct, true);
+  assert.deepEqual(right.body.answers, ['I like cats']);
+  assert.equal(right.body.correct_count, 1);
+
+  assert.equal((await answer('1_1_1_02', ['I like cats'])).status, 409);
+  assert.equal((await answer('9_9_9_01', ['I like cats'])).status, 404);
+  assert.equal((await answer('1_1_1_03', ['I have two dogs'], '30002')).status, 404);
+}));
+
+test('answer: 二重送信を同時に受けても回答ログの番号は重ならない', () => withServer(async ({ call, start, repo }) => {
+  const sid = await start();
+  const answer = (question_id, transcripts) => call(`/session/${sid}/answer`, { question_id, transcripts });
+
+  await Promise.all([
+    answer('1_1_1_02', ['I like dogs']),
+    answer('1_1_1_02', ['I like dogs']),
+    answer('1_1_1_03', ['I have two cats']),
+  ]);
+  const same = await Promise.all([answer('1_1_1_04', ['We play soccer']), answer('1_1_1_04', ['We play soccer'])]);
+  assert.deepEqual(same.map(r => r.status).sort(), [200, 409]);
+
+  const attempts = await repo.attempts.list({ session_id: sid });
+  assert.deepEqual(attempts.map(a => a.attempt_no).sort(), [1, 2, 3, 4]);
+  assert.equal(new Set(attempts.map(a => a.attempt_id)).size, 4);
+  assert.deepEqual((await repo.attempts.listBySession(sid)).map(a => a.attempt_no), [1, 2, 3, 4]);
+}));
+
+test('reveal: デモは記録せずに解答を返し、デモ以外は時間切れとして記録して以降の回答を受け付けない', () => withServer(async ({ call, start, repo }) => {
+  const sid = await start();
+  const demo = await call(`/session/${sid}/reveal`, { question_id: '1_1_1_01' });
+  assert.deepEqual(demo.body.answers, ['Hello']);
+  assert.equal((await repo.attempts.list({ session_id: sid })).length, 0);
+
+  const timeout = await call(`/session/${sid}/reveal`, { question_id: '1_1_1_02', transcripts: ['I like'] });
+  assert.deepEqual(timeout.body.answers, ['I like cats']);
+  assert.deepEqual((await repo.attempts.list({ session_id: sid })).map(a => a.result), ['timeout']);
+  assert.equal((await call(`/session/${sid}/answer`, { question_id: '1_1_1_02', transcripts: ['I like cats'] })).status, 409);
+}));
+
+test('finish: 正解数でクリアを判定してスコアを 1 回だけ記録し、二重送信には記録済みの結果を返す', () => withServer(async ({ call, start, repo }) => {
+  const sid = await start();
+  await call(`/session/${sid}/answer`, { question_id: '1_1_1_02', transcripts: ['I like cats'] });
+  await call(`/session/${sid}/answer`, { question_id: '1_1_1_03', transcripts: ['I have two dogs'] });
+
+  const [first, second] = await Promise.all([call(`/session/${sid}/finish`), call(`/session/${sid}/finish`)]);
+  assert.equal(first.body.correct, 2);
+  assert.equal(first.body.total, 3);
+  assert.equal(first.body.clear, true);
+  assert.equal(first.body.correct_to_clear, 2);
+  assert.equal(second.body.score_id, first.body.score_id);
+  assert.equal((await repo.scores.listByUser('30001')).length, 1);
+
+  assert.equal((await call(`/session/${sid}/answer`, { question_id: '1_1_1_04', transcripts: ['We play soccer'] })).status, 409);
+}));
+
+test('advance: 記録済みのプレイで進級ルールを満たせば次のパートに進み、練習からは進まない', () => withServer(async ({ call, start, repo }) => {
+  const current = { grade: 1, part: 1, subpart: 1 };
+  const advance = (session_id, userId = '30001') => call('/advance', { userId: '30001', current, part_id: '1_1_1', session_id }, userId);
+
+  const practice = await start('practice');
+  await call(`/session/${practice}/answer`, { question_id: '1_1_1_02', transcripts: ['I like cats'] });
+  await call(`/session/${practice}/answer`, { question_id: '1_1_1_03', transcripts: ['I have two dogs'] });
+  await call(`/session/${practice}/finish`);
+  assert.deepEqual((await advance(practice)).body, { ok: true, advanced: false, reason: 'practice' });
+  assert.equal((await advance('')).body.advanced, false);
+
+  const sid = await start();
+  await call(`/session/${sid}/answer`, { question_id: '1_1_1_02', transcripts: ['I like cats'] });
+  await call(`/session/${sid}/answer`, { question_id: '1_1_1_04', transcripts: ['We play soccer'] });
+  await call(`/session/${sid}/finish`);
+
+  assert.equal((await advance(sid, '30002')).status, 403);
+  const advanced = await advance(sid);
+  assert.equal(advanced.body.advanced, true);
+  assert.equal(advanced.body.reason, 'clear');
+  assert.deepEqual(advanced.body.next, { grade_id: 1, part_no: 1, subpart_no: 2 });
+  const user = await repo.users.findByUserId('30001');
+  assert.deepEqual([user.current_grade, user.current_part, user.current_subpart], [1, 1, 2]);
+}));
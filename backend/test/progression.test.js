@@ -0,0 +1,87 @@
+// backend/test/progression.test.js
+// 進級ルール（読み込み・判定・ルールの選択。練習のプレイは判定に使わない）
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createMemoryStore } = require('../src/repositories/drivers/memory');
+const { createRepository } = require('../src/repositories');
+const { DEFAULT_PROGRESSION, parseProgression, evaluateProgression, checkProgression } = require('../src/progression');
+
+const PART = { part_id: '1_1_1', grade_id: 1, part_no: 1, subpart_no: 1 };
+const stats = (overrides) => ({ attempts: 0, clears: 0, accuracies: [], approved: false, ...overrides });
+
+test('進級ルールの読み込み: 省略した値は既定値で補う', () => {
+  const { progression, problems } = parseProgression('{"rules":[{"type":"clear"},{"type":"accuracy","min":0.7}]}');
+  assert.deepEqual(problems, []);
+  assert.deepEqual(progression, {
+    mode: 'any',
+    rules: [{ type: 'clear', count: 1 }, { type: 'accuracy', min: 0.7, last: 3 }],
+  });
+});
+
+test('進級ルールの読み込み: 不正な値はすべて問題として返す', () => {
+  assert.equal(parseProgression('{').progression, null);
+  assert.equal(parseProgression('{"rules":[]}').problems.length, 1);
+  const { progression, problems } = parseProgression({
+    mode: 'some',
+    rules: [{ type: 'clear', count: 0 }, { type: 'magic' }, { type: 'attempts', count: 2.5 }, { type: 'approval' }, { type: 'approval' }],
+  });
+  assert.equal(progression, null);
+  assert.equal(problems.length, 5);
+});
+
+test('any はいずれか、all はすべてのルールを満たせば進める', () => {
+  const rules = [{ type: 'clear', count: 2 }, { type: 'approval' }];
+  const partial = stats({ clears: 2 });
+  assert.equal(evaluateProgression({ mode: 'any', rules }, partial).satisfied, true);
+  const all = evaluateProgression({ mode: 'all', rules }, partial);
+  assert.equal(all.satisfied, false);
+  assert.equal(all.message, '先生の承認');
+  assert.equal(evaluateProgression({ mode: 'all', rules }, stats({ clears: 2, approved: true })).satisfied, true);
+});
+
+test('既定値: 1 回クリアか 10 回挑戦で進める', () => {
+  const none = evaluateProgression(DEFAULT_PROGRESSION, stats({ attempts: 3 }));
+  assert.equal(none.satisfied, false);
+  assert.equal(none.message, 'あと 1 回クリア または あと 7 回挑戦');
+  const attempts = evaluateProgression(DEFAULT_PROGRESSION, stats({ attempts: 10 }));
+  assert.equal(attempts.satisfied, true);
+  assert.equal(attempts.satisfied_by.type, 'attempts');
+});
+
+test('accuracy は直近 last 回の平均正答率で判定し、回数が足りなければ未達', () => {
+  const progression = { mode: 'any', rules: [{ type: 'accuracy', min: 0.8, last: 3 }] };
+  const short = evaluateProgression(progression, stats({ accuracies: [1, 1] }));
+  assert.equal(short.satisfied, false);
+  assert.equal(short.results[0].remaining, 1);
+  assert.equal(evaluateProgression(progression, stats({ accuracies: [0, 0.8, 0.8, 0.9] })).satisfied, true);
+  const low = evaluateProgression(progression, stats({ accuracies: [1, 0.6, 0.8, 0.8] }));
+  assert.equal(low.satisfied, false);
+  assert.equal(low.results[0].current, 0.73);
+});
+
+test('ルールはパート → 学年 → 全体 の順で選び、練習のプレイは数えない', async () => {
+  const repo = createRepository(createMemoryStore());
+  await repo.progressionRules.save({ grade_id: 0, part_no: 0, rules: '{"rules":[{"type":"attempts","count":1}]}', updated_by: 'admin' });
+  await repo.progressionRules.save({ grade_id: 1, part_no: 0, rules: '{"rules":[{"type":"clear","count":2}]}', updated_by: 'admin' });
+
+  await repo.scores.add({ user_id: '10001', part_id: PART.part_id, scores: 5, clear: true });
+  await repo.scores.add({ user_id: '10001', part_id: PART.part_id, scores: 5, clear: true, mode: 'practice' });
+
+  const result = await checkProgression(repo, '10001', PART);
+  assert.equal(result.rule_id, 'g1');
+  assert.deepEqual(result.stats, { attempts: 1, clears: 1, accuracies: [], approved: false });
+  assert.equal(result.satisfied, false);
+
+  await repo.scores.add({ user_id: '10001', part_id: PART.part_id, scores: 5, clear: true });
+  assert.equal((await checkProgression(repo, '10001', PART)).satisfied, true);
+  assert.equal((await checkProgression(repo, '10001', { ...PART, grade_id: 2 })).rule_id, 'default');
+});
+
+test('保存済みのルールが壊れている場合は既定値を使う', async () => {
+  const repo = createRepository(createMemoryStore({
+    progression_rules: [{ rule_id: 'g1p1', grade_id: 1, part_no: 1, rules: 'broken' }],
+  }));
+  const result = await checkProgression(repo, '10001', PART);
+  assert.equal(result.rule_id, 'builtin');
+  assert.equal(result.mode, DEFAULT_PROGRESSION.mode);
+});
@@ -0,0 +1,118 @@
+// backend/test/questionDifficulty.test.js
+// 問題ごとの難しさ（src/analytics/questions.js と GET /admin/analytics/questions）
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+process.env.JWT_SECRET = 'test';
+const { createMemoryStore } = require('../src/repositories/drivers/memory');
+const { createRepository, setRepository } = require('../src/repositories');
+const { generateToken } = require('../src/middleware/auth');
+const { WRONG_TRANSCRIPT_LIMIT, questionDifficulty } = require('../src/analytics');
+
+console.log = () => {};
+console.info = () => {};
+console.warn = () => {};
+const app = require('../src/app');
+
+const student = (user_id) => ({ user_id, nickname: `n${user_id}`, real_name: `生徒${user_id}`, is_admin: false, role: 'student' });
+const question = (question_id, part_id, display_order, question_text) => ({ question_id, part_id, display_order, is_demo: false, question_text });
+let attemptNo = 0;
+const attempt = (session_id, user_id, question_id, result, extra = {}) => ({
+  attempt_id: `a${++attemptNo}`, session_id, user_id, part_id: question_id.slice(0, 5), question_id, attempt_no: attemptNo,
+  result, transcripts: '[]', time_ms: 0, created_at: '2026/01/05 09:00:00', ...extra,
+});
+const heard = (text) => ({ transcripts: JSON.stringify([text, 'other']) });
+
+const SEED = {
+  users: [student('50001'), student('50002'), student('50003')],
+  parts: [
+    { part_id: '1_1_1', grade_id: 1, part_no: 1, subpart_no: 1 },
+    { part_id: '2_1_1', grade_id: 2, part_no: 1, subpart_no: 1 },
+  ],
+  questions: [
+    question('1_1_1_02', '1_1_1', 2, 'I like cats'),
+    question('1_1_1_03', '1_1_1', 3, 'I have two dogs'),
+    question('1_1_1_04', '1_1_1', 4, 'We play soccer'),
+    question('2_1_1_01', '2_1_1', 1, 'Hello'),
+  ],
+  classes: [{ class_id: 'c1', name: '1組' }],
+  class_members: [{ member_id: 'm1', class_id: 'c1', user_id: '50001', role: 'student' }],
+  attempts: [
+    // 言い直して正解したプレイも「間違えた」に数える
+    attempt('s1', '50001', '1_1_1_02', 'wrong', heard('I like cat')),
+    attempt('s1', '50001', '1_1_1_02', 'correct', { time_ms: 3000 }),
+    attempt('s2', '50002', '1_1_1_02', 'unclear'),
+    attempt('s2', '50002', '1_1_1_02', 'correct', { time_ms: 5000 }),
+    attempt('s3', '50002', '1_1_1_02', 'wrong', heard('i like cat')),
+    attempt('s3', '50002', '1_1_1_02', 'timeout'),
+    // time_ms の無い正解は平均に含めない
+    attempt('s1', '50001', '1_1_1_03', 'correct'),
+    // 聞き取れなかった回答だけの問題は含めない
+    attempt('s1', '50001', '1_1_1_04', 'unclear'),
+    attempt('s5', '50001', '2_1_1_01', 'wrong', heard('hello hello')),
+    ...['b', 'f', 'e', 'd', 'c', 'hello hello'].map(text => attempt('s5', '50001', '2_1_1_01', 'wrong', heard(text))),
+    // 対象外の生徒
+    attempt('s4', '50003', '1_1_1_03', 'wrong', heard('I have two dog')),
+  ],
+};
+
+const repoOf = () => createRepository(createMemoryStore(structuredClone(SEED)));
+const students = new Set(['50001', '50002']);
+
+test('失敗率はプレイ単位、正解までの時間は正解の平均、よくある間違いは正規化した認識結果の多い順', async () => {
+  const rows = await questionDifficulty(repoOf(), { userIds: students });
+  assert.deepEqual(rows.map(r => [r.question_id, r.plays, r.missed, r.students]), [
+    ['2_1_1_01', 1, 1, 1],
+    ['1_1_1_02', 3, 2, 2],
+    ['1_1_1_03', 1, 0, 1],
+  ]);
+
+  const [hello, cats, dogs] = rows;
+  assert.equal(cats.failure_rate, 2 / 3);
+  assert.equal(cats.avg_correct_ms, 4000);
+  assert.deepEqual(cats.wrong_transcripts, [{ text: 'i like cat', count: 2 }]);
+  assert.deepEqual(
+    { grade_id: cats.grade_id, part_no: cats.part_no, subpart_no: cats.subpart_no, display_order: cats.display_order, question_text: cats.question_text },
+    { grade_id: 1, part_no: 1, subpart_no: 1, display_order: 2, question_text: 'I like cats' },
+  );
+  assert.equal(dogs.avg_correct_ms, null);
+  assert.deepEqual(dogs.wrong_transcripts, []);
+
+  assert.equal(hello.wrong_transcripts.length, WRONG_TRANSCRIPT_LIMIT);
+  assert.deepEqual(hello.wrong_transcripts.map(w => w.text), ['hello hello', 'b', 'c', 'd', 'e']);
+  assert.equal(hello.wrong_transcripts[0].count, 2);
+});
+
+test('学年・パートで絞り込む', async () => {
+  const repo = repoOf();
+  assert.deepEqual((await questionDifficulty(repo, { userIds: students, grade: 1 })).map(r => r.question_id), ['1_1_1_02', '1_1_1_03']);
+  assert.deepEqual((await questionDifficulty(repo, { userIds: students, partId: '2_1_1' })).map(r => r.question_id), ['2_1_1_01']);
+  assert.deepEqual(await questionDifficulty(repo, { userIds: students, grade: 3 }), []);
+});
+
+test('GET /admin/analytics/questions はクラスの生徒だけを集計し、範囲外のクラスは 404', async () => {
+  setRepository(repoOf());
+  const server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  const get = async (query, token) => {
+    const r = await fetch(`http://localhost:${server.address().port}/admin/analytics/questions?${query}`, { headers: { Cookie: `authToken=${token}` } });
+    return { status: r.status, body: await r.json() };
+  };
+  try {
+    const admin = generateToken({ userId: '59999', is_admin: true, role: 'admin' });
+    const all = await get('', admin);
+    assert.equal(all.status, 200);
+    assert.equal(all.body.students, 3);
+    assert.equal(all.body.questions.find(q => q.question_id === '1_1_1_03').missed, 1);
+
+    const cls = await get('class_id=c1&grade=1', admin);
+    assert.equal(cls.body.students, 1);
+    assert.deepEqual(cls.body.questions.map(q => [q.question_id, q.plays]), [['1_1_1_02', 1], ['1_1_1_03', 1]]);
+
+    assert.equal((await get('class_id=c9', admin)).status, 404);
+    assert.equal((await get('class_id=c1', generateToken({ userId: '59998', is_admin: true, role: 'teacher' }))).status, 404);
+    assert.equal((await get('grade=x', admin)).status, 400);
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,75 @@
+// backend/test/review.test.js
+// 復習のスケジュール（間違えた問題を間隔を空けて出題する）
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createMemoryStore } = require('../src/repositories/drivers/memory');
+const { createRepository } = require('../src/repositories');
+const { formatTS } = require('../src/utils/time');
+const { REVIEW_INTERVAL_DAYS, outcomesByQuestion, scheduleOf, reviewSchedule } = require('../src/review');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 3, 30, 12, 0, 0).getTime();
+const daysAgo = (n) => formatTS(NOW - n * DAY_MS);
+
+let attemptNo = 0;
+const attempt = (session_id, question_id, result, created_at, part_id = '1_1_1') => ({
+  attempt_id: `a${++attemptNo}`, session_id, user_id: '10001', part_id, question_id, result, created_at,
+});
+
+test('回答ログはプレイ × 問題ごとにまとめる（1 度でも間違えれば間違えた。言い直しは数えない）', () => {
+  const outcomes = outcomesByQuestion([
+    attempt('s1', 'q1', 'wrong', daysAgo(3)),
+    attempt('s1', 'q1', 'correct', daysAgo(3)),
+    attempt('s1', 'q2', 'unclear', daysAgo(3)),
+    attempt('s1', 'q2', 'correct', daysAgo(3)),
+    attempt('s2', 'q1', 'correct', daysAgo(1)),
+  ]);
+  assert.deepEqual(outcomes.get('q1').map(o => o.missed), [true, false]);
+  assert.deepEqual(outcomes.get('q2').map(o => o.missed), [false]);
+});
+
+test('間違えるとレベル 0、その後覚えていたプレイごとにレベルが上がる', () => {
+  assert.equal(scheduleOf([{ missed: false, at: 0 }, { missed: false, at: 1 }]), null);
+
+  const missed = scheduleOf([{ missed: true, at: NOW }]);
+  assert.deepEqual(missed, { level: 0, lapses: 1, last_at: NOW, due_at: NOW });
+
+  const recovered = scheduleOf([{ missed: true, at: 0 }, { missed: false, at: 1 }, { missed: false, at: NOW }]);
+  assert.equal(recovered.level, 2);
+  assert.equal(recovered.due_at, NOW + REVIEW_INTERVAL_DAYS[2] * DAY_MS);
+
+  const lapsed = scheduleOf([{ missed: true, at: 0 }, { missed: false, at: 1 }, { missed: true, at: NOW }]);
+  assert.equal(lapsed.level, 0);
+  assert.equal(lapsed.lapses, 2);
+});
+
+test('レベルは間隔の表の最後で止まる', () => {
+  const outcomes = [{ missed: true, at: 0 }, ...Array.from({ length: 10 }, (_, i) => ({ missed: false, at: i + 1 }))];
+  assert.equal(scheduleOf(outcomes).level, REVIEW_INTERVAL_DAYS.length - 1);
+});
+
+test('クリア済みのパートで時期が来た問題を、間違えた回数が多い順に返す', async () => {
+  const repo = createRepository(createMemoryStore({
+    scores: [
+      { score_id: 1, user_id: '10001', part_id: '1_1_1', scores: 5, clear: true },
+      { score_id: 2, user_id: '10001', part_id: '1_1_2', scores: 1, clear: false },
+    ],
+    attempts: [
+      // q1: 2 回間違えた（時期が来ている）
+      attempt('s1', 'q1', 'wrong', daysAgo(5)),
+      attempt('s2', 'q1', 'timeout', daysAgo(2)),
+      // q2: 1 回間違えた（時期が来ている）
+      attempt('s2', 'q2', 'wrong', daysAgo(2)),
+      // q3: 間違えた後に覚えていた（1 日後が復習の時期）
+      attempt('s1', 'q3', 'wrong', daysAgo(5)),
+      attempt('s3', 'q3', 'correct', formatTS(NOW - 60 * 60 * 1000)),
+      // q4: まだクリアしていないパートの問題は対象外
+      attempt('s4', 'q4', 'wrong', daysAgo(2), '1_1_2'),
+    ],
+  }));
+
+  const { due, next_due_at } = await reviewSchedule(repo, '10001', { now: NOW });
+  assert.deepEqual(due.map(d => d.question_id), ['q1', 'q2']);
+  assert.deepEqual(due.map(d => d.lapses), [2, 1]);
+  assert.equal(next_due_at, NOW - 60 * 60 * 1000 + DAY_MS);
+});
@@ -0,0 +1,168 @@
+// backend/test/sheetsDriver.test.js
+// Sheets ドライバ（ヘッダーの確認・任意列の追加）
+// Google Sheets API はメモリ上の偽のシートに差し替える（services/google を読み込む前に SHEET_ID を設定する）
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+process.env.SHEET_ID = 'test-sheet';
+delete process.env.REDIS_HOST;
+const google = require('../src/services/google');
+const { columnNames, requiredColumnCount } = require('../src/repositories/schema');
+
+/* ---------- 偽のシート ---------- */
+
+// "B" → 1, "AA" → 26
+const columnIndex = (letters) => [...letters].reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+
+// "users!L1:L1" → { table, col, row }（行番号は 0 始まり）
+function parseRange(range) {
+  const [table, cells = 'A1'] = range.split('!');
+  const [, letters, row] = /^([A-Z]+)(\d*)/.exec(cells);
+  return { table, col: columnIndex(letters), row: row ? Number(row) - 1 : 0 };
+}
+
+// Sheets は書き込んだ値を文字列で返す（FORMATTED_VALUE）
+const cell = (v) => (v === undefined || v === null ? '' : typeof v === 'boolean' ? String(v).toUpperCase() : String(v));
+
+function createFakeSheets(tables) {
+  const calls = [];
+  const write = (range, values) => {
+    const { table, col, row } = parseRange(range);
+    values.forEach((cells, i) => {
+      const target = tables[table][row + i] || (tables[table][row + i] = []);
+      cells.forEach((v, c) => { target[col + c] = cell(v); });
+    });
+  };
+  const values = {
+    async get({ range }) {
+      calls.push(['get', range]);
+      return { data: { values: tables[parseRange(range).table].map(r => [...r]) } };
+    },
+    async append({ range, requestBody }) {
+      calls.push(['append', range]);
+      tables[parseRange(range).table].push(...requestBody.values.map(r => r.map(cell)));
+    },
+    async update({ range, requestBody }) {
+      calls.push(['update', range]);
+      if (values.failUpdate) throw new Error('permission denied');
+      write(range, requestBody.values);
+    },
+    async batchUpdate({ requestBody }) {
+      calls.push(['batchUpdate']);
+      requestBody.data.forEach(d => write(d.range, d.values));
+    },
+    async batchClear({ requestBody }) {
+      calls.push(['batchClear']);
+      requestBody.ranges.forEach(range => {
+        const { table, row } = parseRange(range);
+        tables[table][row] = [];
+      });
+    },
+  };
+  return { calls, values, client: { spreadsheets: { values } } };
+}
+
+let fake;
+google.getSheetsClient = async () => fake.client;
+
+const { createSheetsStore, assertHeader } = require('../src/repositories/drivers/sheets');
+const { createRepository } = require('../src/repositories');
+
+// 任意列の無い（必須列だけの）シート
+const requiredHeader = (table) => columnNames(table).slice(0, requiredColumnCount(table));
+
+function setup(tables) {
+  fake = createFakeSheets(tables);
+  return createRepository(createSheetsStore());
+}
+
+const userRow = () => ['1', '10001', 'x', 'taro', '山田太郎', '1', '1', '1', 'FALSE', '', ''];
+
+test('assertHeader は任意列の省略を許し、列名の違いは拒否する', () => {
+  assert.equal(assertHeader('users', requiredHeader('users')), requiredColumnCount('users'));
+  assert.equal(assertHeader('users', [...columnNames('users'), '']), columnNames('users').length);
+  assert.throws(() => assertHeader('users', ['id', 'user_id']), /ヘッダ不一致/);
+  assert.throws(() => assertHeader('users', ['user_id', 'id', ...requiredHeader('users').slice(2)]), /ヘッダ不一致/);
+});
+
+test('任意列が無いシートは、その列を既定値で読み込む', async () => {
+  const repo = setup({ users: [requiredHeader('users'), userRow()] });
+  const user = await repo.users.findByUserId('10001');
+  assert.equal(user.role, '');
+  assert.equal(user.is_admin, false);
+  assert.equal(user.real_name, '山田太郎');
+});
+
+test('既定値だけの行はヘッダーを変えずに書き込む', async () => {
+  const tables = { parts: [requiredHeader('parts')] };
+  const repo = setup(tables);
+  await repo.parts.create({ part_id: '1_1_1', grade_id: 1, part_no: 1, subpart_no: 1, requirement: '' });
+  assert.deepEqual(tables.parts[0], requiredHeader('parts'));
+  assert.equal(tables.parts[1].length, requiredColumnCount('parts'));
+  assert.ok(!fake.calls.some(([kind]) => kind === 'update'));
+});
+
+test('更新で任意列に値を書き込むときは、ヘッダーに列を追加する（users.role）', async () => {
+  const tables = { users: [requiredHeader('users'), userRow()] };
+  const repo = setup(tables);
+  assert.equal(await repo.users.update('10001', { role: 'teacher', is_admin: true }), true);
+  assert.deepEqual(tables.users[0], columnNames('users'));
+  const user = await repo.users.findByUserId('10001');
+  assert.equal(user.role, 'teacher');
+  assert.equal(user.is_admin, true);
+});
+
+test('追加で任意列に値を書き込むときは、途中の列も含めてヘッダーに追加する（scores.mode）', async () => {
+  const tables = { scores: [requiredHeader('scores')] };
+  const repo = setup(tables);
+  await repo.scores.add({ user_id: '10001', part_id: '1_1_1', scores: 3, clear: false, mode: 'practice' });
+  assert.deepEqual(tables.scores[0], columnNames('scores'));
+  const [score] = await repo.scores.listByUser('10001');
+  assert.equal(score.mode, 'practice');
+  assert.equal(score.input_mode, 'voice');
+});
+
+test('play_sessions の question_ids を落とさずに記録する', async () => {
+  const tables = { play_sessions: [requiredHeader('play_sessions')] };
+  const repo = setup(tables);
+  const session = await repo.sessions.start({ user_id: '10001', part_id: '', total: 2, mode: 'review', question_ids: ['q1', 'q2'] });
+  const saved = await repo.sessions.findById(session.session_id);
+  assert.equal(saved.mode, 'review');
+  assert.deepEqual(JSON.parse(saved.question_ids), ['q1', 'q2']);
+});
+
+test('回答のたびにシート全体を読まない（列数とプレイ中の回答ログを覚えておく）', async () => {
+  const tables = { attempts: [requiredHeader('attempts')] };
+  const repo = setup(tables);
+  const answer = (attempt_no, result) => repo.attempts.add({ session_id: 's1', user_id: '10001', part_id: '1_1_1', question_id: 'q1', attempt_no, result, confidence: 0.9 });
+
+  assert.deepEqual(await repo.attempts.listBySession('s1'), []);
+  await answer(1, 'wrong');
+  await answer(2, 'correct');
+  assert.deepEqual((await repo.attempts.listBySession('s1')).map(a => a.attempt_id), ['s1-1', 's1-2']);
+  assert.equal(fake.calls.filter(([kind]) => kind === 'get').length, 1);
+  // 任意列（confidence）を追加したのは最初の 1 回だけ
+  assert.equal(fake.calls.filter(([kind]) => kind === 'update').length, 1);
+  assert.equal(tables.attempts.length, 3);
+});
+
+test('列を追加できない場合は、値を落として書き込まずに失敗する', async () => {
+  const tables = { users: [requiredHeader('users'), userRow()], scores: [requiredHeader('scores')] };
+  const repo = setup(tables);
+  fake.values.failUpdate = true;
+
+  await assert.rejects(repo.scores.add({ user_id: '10001', part_id: '1_1_1', scores: 3, clear: false, mode: 'practice' }), /mode/);
+  assert.equal(tables.scores.length, 1);
+
+  await assert.rejects(repo.users.update('10001', { role: 'teacher', is_admin: true }), /role/);
+  assert.equal(tables.users[1][8], 'FALSE');
+  assert.ok(!fake.calls.some(([kind]) => kind === 'append' || kind === 'batchUpdate'));
+});
+
+test('削除した行は空行になり、読み込み時に無視される', async () => {
+  const tables = { users: [columnNames('users'), userRow(), ['2', '10002', 'x', 'hanako', '', '1', '1', '1', 'FALSE', '', '']] };
+  const repo = setup(tables);
+  const store = createSheetsStore();
+  assert.equal(await store.remove('users', { user_id: '10001' }), 1);
+  assert.deepEqual((await repo.users.list()).map(u => u.user_id), ['10002']);
+});
@@ -0,0 +1,143 @@
+// backend/test/studentProgress.test.js
+// 生徒ごとの学習状況（src/analytics/student.js と GET /admin/analytics/students/:userId）
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+process.env.JWT_SECRET = 'test';
+const { createMemoryStore } = require('../src/repositories/drivers/memory');
+const { createRepository, setRepository } = require('../src/repositories');
+const { generateToken } = require('../src/middleware/auth');
+const { studentProgress } = require('../src/analytics');
+
+console.log = () => {};
+console.info = () => {};
+console.warn = () => {};
+const app = require('../src/app');
+
+const student = (user_id, current_grade, current_part, current_subpart) => ({
+  user_id, nickname: `n${user_id}`, real_name: `生徒${user_id}`, is_admin: false, role: 'student', current_grade, current_part, current_subpart,
+});
+const member = (class_id, user_id, role = 'student') => ({ member_id: `${class_id}-${user_id}`, class_id, user_id, role });
+const score = (score_id, part_id, scores, clear, play_date, mode = '') => ({ score_id, user_id: '40001', part_id, scores, clear, play_date, mode });
+const session = (session_id, part_id, score_id, started_at, finished_at, extra = {}) => ({
+  session_id, user_id: '40001', part_id, status: 'finished', correct: 0, total: 4, clear: false, score_id, started_at, finished_at, ...extra,
+});
+const attempt = (session_id, question_id, attempt_no, result, created_at, user_id = '40001') => ({
+  attempt_id: `${session_id}-${attempt_no}`, session_id, user_id, part_id: '1_1_1', question_id, attempt_no, result, created_at,
+});
+
+const SEED = {
+  users: [
+    student('40001', 1, 2, 1),
+    student('40002', 1, 1, 1),
+    student('40003', 2, 1, 1),
+    student('40004', 1, 1, 2),
+    { user_id: '40010', nickname: 't', real_name: '先生', is_admin: true, role: 'teacher' },
+  ],
+  parts: [
+    { part_id: '2_1_1', grade_id: 2, part_no: 1, subpart_no: 1 },
+    { part_id: '1_2_1', grade_id: 1, part_no: 2, subpart_no: 1 },
+    { part_id: '1_1_2', grade_id: 1, part_no: 1, subpart_no: 2 },
+    { part_id: '1_1_1', grade_id: 1, part_no: 1, subpart_no: 1 },
+  ],
+  questions: [
+    { question_id: '1_1_1_02', part_id: '1_1_1', display_order: 2, question_text: 'I like cats' },
+    { question_id: '1_1_1_03', part_id: '1_1_1', display_order: 3, question_text: 'I have two dogs' },
+  ],
+  classes: [{ class_id: 'c1', name: '1組' }, { class_id: 'c2', name: '2組' }],
+  class_members: [
+    member('c1', '40001'), member('c1', '40002'), member('c1', '40003'), member('c1', '40010', 'teacher'),
+    member('c2', '40001'), member('c2', '40004'), member('c2', '40010', 'teacher'),
+  ],
+  scores: [
+    // シートの日付は 0 埋めされないことがある
+    score(1, '1_1_1', 2, false, '2026/1/5 9:00:00'),
+    score(2, '1_1_1', 3, true, '2026/01/05 10:00:00'),
+    score(3, '1_1_1', 4, true, '2026/1/6 9:00:00', 'practice'),
+    score(4, '1_1_2', 1, false, '2026/1/6 10:00:00'),
+    { ...score(5, '1_1_1', 4, true, '2026/1/6 11:00:00'), user_id: '40002' },
+  ],
+  play_sessions: [
+    session('s1', '1_1_1', 1, '2026/1/5 8:58:00', '2026/1/5 9:00:00'),
+    session('s2', '1_1_1', 2, '2026/01/05 9:59:00', '2026/01/05 10:00:00'),
+    session('s3', '1_1_1', 3, '2026/1/6 8:59:30', '2026/1/6 9:00:00', { mode: 'practice', total: 3 }),
+    // 開始日時が読めないプレイの時間は 0
+    session('s4', '1_1_2', 4, '', '2026/1/6 10:00:00'),
+    session('s5', '1_1_1', 0, '2026/1/7 9:00:00', '', { status: 'active' }),
+  ],
+  attempts: [
+    attempt('s1', '1_1_1_02', 1, 'wrong', '2026/1/5 8:59:00'),
+    attempt('s1', '1_1_1_02', 2, 'correct', '2026/1/5 8:59:10'),
+    attempt('s1', '1_1_1_03', 3, 'timeout', '2026/1/5 8:59:30'),
+    attempt('s2', '1_1_1_02', 1, 'correct', '2026/1/5 9:59:10'),
+    attempt('s2', '1_1_1_03', 2, 'wrong', '2026/1/5 9:59:30'),
+    // 聞き取れなかった回答は数えない
+    attempt('s2', '1_1_1_04', 3, 'unclear', '2026/1/5 9:59:50'),
+    attempt('x1', '1_1_1_02', 1, 'wrong', '2026/1/5 9:00:00', '40002'),
+  ],
+};
+
+const repoOf = () => createRepository(createMemoryStore(structuredClone(SEED)));
+
+test('日ごと・パートごと・合計は練習を別に数え、プレイ時間は終了済みのプレイから求める', async () => {
+  const repo = repoOf();
+  const progress = await studentProgress(repo, await repo.users.findByUserId('40001'));
+
+  assert.deepEqual(progress.user, { user_id: '40001', nickname: 'n40001', real_name: '生徒40001', current: { grade: 1, part: 2, subpart: 1 } });
+  assert.deepEqual(progress.totals, { plays: 3, practice: 1, clears: 1, parts_played: 2, parts_cleared: 1, time_ms: 210000 });
+  assert.deepEqual(progress.daily, [
+    { date: '2026/01/05', plays: 2, practice: 0, clears: 1, time_ms: 180000 },
+    { date: '2026/01/06', plays: 1, practice: 1, clears: 0, time_ms: 30000 },
+  ]);
+
+  const [first, second] = progress.parts;
+  assert.deepEqual(progress.parts.map(p => p.part_id), ['1_1_1', '1_1_2']);
+  assert.deepEqual(
+    { plays: first.plays, practice: first.practice, clears: first.clears, attempts_to_clear: first.attempts_to_clear, best: first.best, time_ms: first.time_ms },
+    { plays: 2, practice: 1, clears: 1, attempts_to_clear: 2, best: 4, time_ms: 210000 },
+  );
+  assert.deepEqual(first.history.map(h => [h.score_id, h.scores, h.total, h.mode]), [[1, 2, 4, 'play'], [2, 3, 4, 'play'], [3, 4, 3, 'practice']]);
+  assert.equal(second.attempts_to_clear, null);
+  assert.equal(second.time_ms, 0);
+});
+
+test('クラスの中での進捗は、生徒だけの中央値（偶数人は下側）と比べる', async () => {
+  const repo = repoOf();
+  const { classes } = await studentProgress(repo, await repo.users.findByUserId('40001'));
+  assert.deepEqual(classes, [
+    { class_id: 'c1', name: '1組', students: 3, rank: 2, median: { grade: 1, part: 2, subpart: 1 }, parts_ahead: 0 },
+    { class_id: 'c2', name: '2組', students: 2, rank: 1, median: { grade: 1, part: 1, subpart: 2 }, parts_ahead: 1 },
+  ]);
+});
+
+test('よく間違える問題は、1 回のプレイで 1 度でも間違えた問題を回数の多い順に返す', async () => {
+  const repo = repoOf();
+  const { most_missed } = await studentProgress(repo, await repo.users.findByUserId('40001'));
+  assert.deepEqual(most_missed, [
+    { question_id: '1_1_1_03', part_id: '1_1_1', question_text: 'I have two dogs', plays: 2, missed: 2, miss_rate: 1, last_missed_at: '2026/01/05 09:59:30' },
+    { question_id: '1_1_1_02', part_id: '1_1_1', question_text: 'I like cats', plays: 2, missed: 1, miss_rate: 0.5, last_missed_at: '2026/01/05 08:59:10' },
+  ]);
+});
+
+test('GET /admin/analytics/students/:userId は先生には担当クラスの生徒だけを返す', async () => {
+  setRepository(repoOf());
+  const server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  const get = async (userId, token) => {
+    const r = await fetch(`http://localhost:${server.address().port}/admin/analytics/students/${userId}`, { headers: { Cookie: `authToken=${token}` } });
+    return { status: r.status, body: await r.json() };
+  };
+  try {
+    const teacher = generateToken({ userId: '40010', is_admin: true, role: 'teacher' });
+    const own = await get('40004', teacher);
+    assert.equal(own.status, 200);
+    assert.equal(own.body.user.user_id, '40004');
+
+    const other = generateToken({ userId: '40099', is_admin: true, role: 'teacher' });
+    assert.equal((await get('40004', other)).status, 404);
+    assert.equal((await get('49999', generateToken({ userId: '40010', is_admin: true, role: 'admin' }))).status, 404);
+    assert.equal((await get('40004', generateToken({ userId: '40001', is_admin: false }))).status, 403);
+  } finally {
+    server.close();
+  }
+});
@@ -6,6 +6,7 @@ import Ranking from './pages/Ranking';
 import PlayPage from './pages/PlayPage';
 import ResultPage from './pages/ResultPage';
 import AdminPage from './pages/AdminPage';
+import StudentProgressPage from './pages/StudentProgressPage';
 
 function App() {
   return (
@@ -17,6 +18,7 @@ function App() {
       <Route path="/play" element={<PlayPage />} />
       <Route path="/result"   element={<ResultPage />} />
       <Route path="/admin"    element={<AdminPage />} />
+      <Route path="/admin/students/:userId" element={<StudentProgressPage />} />
       <Route path="*"         element={<Navigate to="/" replace />} />
     </Routes>
   )
@@ -0,0 +1,145 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import Button from './Button'
+import { API_URL } from '../config'
+import type { ClassInfo } from './ClassEditor'
+import './ContentEditor.css'
+
+// 管理者画面の正解パターンの候補（不正解になったが正解に近かった認識結果。追加は管理者のみ）
+
+interface Suggestion {
+  text: string
+  count: number
+  students: number
+  similarity: number
+  variants: { text: string; count: number }[]
+}
+
+interface QuestionSuggestions {
+  question_id: string
+  part_id: string
+  grade_id: number
+  part_no: number
+  subpart_no: number
+  display_order: number
+  question_text: string
+  answers: string[]
+  suggestions: Suggestion[]
+}
+
+interface AnswerSuggestionsProps {
+  classes: ClassInfo[]
+  isSuperAdmin: boolean
+  onError: (message: string | null) => void
+  onSuccess: (message: string | null) => void
+}
+
+const AnswerSuggestions: React.FC<AnswerSuggestionsProps> = ({ classes, isSuperAdmin, onError, onSuccess }) => {
+  const [classId, setClassId] = useState('')
+  const [questions, setQuestions] = useState<QuestionSuggestions[]>([])
+
+  const fetchSuggestions = useCallback(async (targetClassId: string) => {
+    try {
+      const params = new URLSearchParams()
+      if (targetClassId) params.set('class_id', targetClassId)
+      const res = await fetch(`${API_URL}/admin/analytics/suggestions?${params}`, {
+        method: 'GET',
+        credentials: 'include',
+      })
+      const data = await res.json()
+      if (!res.ok || !data.ok) {
+        throw new Error(data.message || '正解パターンの候補の取得に失敗しました')
+      }
+      setQuestions(data.questions)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err))
+    }
+  }, [onError])
+
+  useEffect(() => {
+    fetchSuggestions('')
+  }, [fetchSuggestions])
+
+  // 候補を正解パターンとして追加（ワンクリック。追加した候補は次の集計から消え、教材編集で削除できる）
+  const handleAccept = async (q: QuestionSuggestions, s: Suggestion) => {
+    onError(null)
+    onSuccess(null)
+    try {
+      const res = await fetch(`${API_URL}/admin/content/questions/${encodeURIComponent(q.question_id)}/answers`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ expected_text: s.text }),
+      })
+      const data = await res.json()
+      if (!res.ok || !data.ok) {
+        throw new Error(data.message || '正解パターンの追加に失敗しました')
+      }
+      onSuccess(`「${s.text}」を正解パターンに追加しました`)
+      await fetchSuggestions(classId)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  return (
+    <div className="content-editor">
+      <div className="form-row">
+        <div className="field">
+          <label>クラス</label>
+          <select className="content-select" value={classId} onChange={(e) => setClassId(e.target.value)}>
+            <option value="">すべて</option>
+            {classes.map(c => <option key={c.class_id} value={c.class_id}>{c.name}</option>)}
+          </select>
+        </div>
+        <Button onClick={() => fetchSuggestions(classId)}>集計</Button>
+      </div>
+      {!isSuperAdmin && <p>正解パターンの追加は管理者に依頼してください</p>}
+
+      {questions.length > 0 ? (
+        <div className="users-table-container">
+          <table className="users-table content-table">
+            <thead>
+              <tr>
+                <th>問題</th>
+                <th>いまの正解パターン</th>
+                <th>候補（似た認識結果）</th>
+                <th>回数</th>
+                <th>生徒</th>
+                {isSuperAdmin && <th>操作</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {questions.flatMap(q => q.suggestions.map((s, i) => (
+                <tr key={`${q.question_id}-${s.text}`}>
+                  {i === 0 && (
+                    <>
+                      <td rowSpan={q.suggestions.length}>
+                        {q.question_text || q.question_id}（{q.grade_id}-{q.part_no}-{q.subpart_no} の {q.display_order} 問目）
+                      </td>
+                      <td rowSpan={q.suggestions.length}>{q.answers.join(' / ')}</td>
+                    </>
+                  )}
+                  <td>
+                    {s.text}
+                    {s.variants.length > 0 && `（${s.variants.map(v => v.text).join('、')}）`}
+                  </td>
+                  <td>{s.count}</td>
+                  <td>{s.students}</td>
+                  {isSuperAdmin && (
+                    <td>
+                      <button onClick={() => handleAccept(q, s)} className="save-btn">正解パターンに追加</button>
+                    </td>
+                  )}
+                </tr>
+              )))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p>候補はありません</p>
+      )}
+    </div>
+  )
+}
+
+export default AnswerSuggestions
@@ -0,0 +1,74 @@
+import React from 'react'
+
+// 管理画面の簡単なグラフ（SVG）
+
+const WIDTH = 600
+const HEIGHT = 160
+const PADDING = 24
+
+interface BarChartProps {
+  // label: 横軸のラベル、value: 棒の高さ、highlight: 棒の中の強調部分（value 以下）
+  data: { label: string; value: number; highlight?: number }[]
+  valueLabel?: string
+}
+
+// 棒グラフ（日ごとのプレイ数など。ラベルは最初と最後のみ表示）
+export const BarChart: React.FC<BarChartProps> = ({ data, valueLabel }) => {
+  if (data.length === 0) return <p>データがありません</p>
+  const max = Math.max(1, ...data.map(d => d.value))
+  const slot = (WIDTH - PADDING * 2) / data.length
+  const barWidth = Math.max(2, slot * 0.7)
+  const y = (v: number) => HEIGHT - PADDING - (v / max) * (HEIGHT - PADDING * 2)
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} width="100%" role="img" aria-label={valueLabel}>
+      <line x1={PADDING} y1={HEIGHT - PADDING} x2={WIDTH - PADDING} y2={HEIGHT - PADDING} stroke="rgba(255,255,255,0.5)" />
+      <text x={PADDING} y={PADDING - 8} fill="white" fontSize="12">{valueLabel ? `${valueLabel}（最大 ${max}）` : `最大 ${max}`}</text>
+      {data.map((d, i) => {
+        const x = PADDING + slot * i + (slot - barWidth) / 2
+        return (
+          <g key={`${d.label}-${i}`}>
+            <rect x={x} y={y(d.value)} width={barWidth} height={HEIGHT - PADDING - y(d.value)} fill="rgba(255,255,255,0.5)">
+              <title>{`${d.label}: ${d.value}${d.highlight !== undefined ? `（${d.highlight}）` : ''}`}</title>
+            </rect>
+            {d.highlight !== undefined && d.highlight > 0 && (
+              <rect x={x} y={y(d.highlight)} width={barWidth} height={HEIGHT - PADDING - y(d.highlight)} fill="#FFD700" />
+            )}
+          </g>
+        )
+      })}
+      <text x={PADDING} y={HEIGHT - 6} fill="white" fontSize="12">{data[0].label}</text>
+      {data.length > 1 && (
+        <text x={WIDTH - PADDING} y={HEIGHT - 6} fill="white" fontSize="12" textAnchor="end">{data[data.length - 1].label}</text>
+      )}
+    </svg>
+  )
+}
+
+interface LineChartProps {
+  // value: 0〜1（正答率など）、marked: 点を強調する（クリアなど）
+  data: { label: string; value: number; marked?: boolean }[]
+  height?: number
+}
+
+// 折れ線グラフ（0〜100% の推移。強調する点は黄色）
+export const LineChart: React.FC<LineChartProps> = ({ data, height = 80 }) => {
+  if (data.length === 0) return null
+  const step = data.length > 1 ? (WIDTH - PADDING * 2) / (data.length - 1) : 0
+  const x = (i: number) => PADDING + step * i
+  const y = (v: number) => height - 8 - v * (height - 16)
+  const points = data.map((d, i) => `${x(i)},${y(d.value)}`).join(' ')
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} width="100%" role="img">
+      <line x1={PADDING} y1={y(1)} x2={WIDTH - PADDING} y2={y(1)} stroke="rgba(255,255,255,0.2)" strokeDasharray="4 4" />
+      <line x1={PADDING} y1={y(0)} x2={WIDTH - PADDING} y2={y(0)} stroke="rgba(255,255,255,0.5)" />
+      <polyline points={points} fill="none" stroke="white" strokeWidth="2" />
+      {data.map((d, i) => (
+        <circle key={`${d.label}-${i}`} cx={x(i)} cy={y(d.value)} r="4" fill={d.marked ? '#FFD700' : 'white'}>
+          <title>{`${d.label}: ${Math.round(d.value * 100)}%`}</title>
+        </circle>
+      ))}
+    </svg>
+  )
+}
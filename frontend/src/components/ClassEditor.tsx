@@ -0,0 +1,200 @@
+import React, { useState } from 'react'
+import TextBox from './TextBox'
+import Button from './Button'
+import { API_URL } from '../config'
+import './ContentEditor.css'
+
+// 管理者画面のクラスと所属（クラスの作成・先生の割り当ては管理者のみ、先生は担当クラスの生徒のみ）
+
+export type MemberRole = 'student' | 'teacher'
+
+export interface ClassMember {
+  user_id: string
+  nickname: string
+  real_name: string
+}
+
+export interface ClassInfo {
+  class_id: string
+  name: string
+  created_by: string
+  created_at: string
+  teachers: ClassMember[]
+  students: ClassMember[]
+}
+
+const ROLE_LABELS: Record<MemberRole, string> = { student: '生徒', teacher: '先生' }
+
+// API 呼び出し（失敗時はサーバーのメッセージで例外）
+async function request(method: string, path: string, body?: unknown) {
+  const res = await fetch(`${API_URL}/admin/classes${path}`, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    credentials: 'include',
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  const data = await res.json()
+  if (!res.ok || !data.ok) {
+    throw new Error(data.message || 'クラスの保存に失敗しました')
+  }
+  return data
+}
+
+interface ClassEditorProps {
+  classes: ClassInfo[]
+  isSuperAdmin: boolean
+  onChange: () => void
+  onError: (message: string | null) => void
+  onSuccess: (message: string | null) => void
+}
+
+const ClassEditor: React.FC<ClassEditorProps> = ({ classes, isSuperAdmin, onChange, onError, onSuccess }) => {
+  const [newName, setNewName] = useState('')
+  const [memberClassId, setMemberClassId] = useState('')
+  const [memberUserId, setMemberUserId] = useState('')
+  const [memberRole, setMemberRole] = useState<MemberRole>('student')
+
+  const run = async (action: () => Promise<void>, successMessage: string) => {
+    onError(null)
+    onSuccess(null)
+    try {
+      await action()
+      onChange()
+      onSuccess(successMessage)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const handleCreate = () => {
+    if (!newName.trim()) {
+      onError('クラス名を入力してください')
+      return
+    }
+    run(async () => {
+      await request('POST', '', { name: newName.trim() })
+      setNewName('')
+    }, 'クラスを作成しました')
+  }
+
+  const handleRename = (c: ClassInfo) => {
+    const name = window.prompt('新しいクラス名', c.name)
+    if (!name || !name.trim() || name.trim() === c.name) return
+    run(async () => {
+      await request('PUT', `/${encodeURIComponent(c.class_id)}`, { name: name.trim() })
+    }, 'クラス名を変更しました')
+  }
+
+  const handleDelete = (c: ClassInfo) => {
+    if (!window.confirm(`${c.name} を削除しますか？（所属とクラスへのロックも削除されます）`)) return
+    run(async () => {
+      await request('DELETE', `/${encodeURIComponent(c.class_id)}`)
+    }, 'クラスを削除しました')
+  }
+
+  const handleAddMember = () => {
+    const classId = memberClassId || classes[0]?.class_id
+    if (!classId || !memberUserId.trim()) {
+      onError('クラスとユーザーIDを入力してください')
+      return
+    }
+    run(async () => {
+      await request('POST', `/${encodeURIComponent(classId)}/members`, { user_id: memberUserId.trim(), role: memberRole })
+      setMemberUserId('')
+    }, 'クラスに追加しました')
+  }
+
+  const handleRemoveMember = (c: ClassInfo, m: ClassMember) => {
+    if (!window.confirm(`${m.real_name || m.user_id} を ${c.name} から外しますか？`)) return
+    run(async () => {
+      await request('DELETE', `/${encodeURIComponent(c.class_id)}/members/${encodeURIComponent(m.user_id)}`)
+    }, 'クラスから外しました')
+  }
+
+  const memberList = (c: ClassInfo, members: ClassMember[], removable: boolean) => (
+    <div className="edit-buttons">
+      {members.map(m => (
+        <span key={m.user_id}>
+          {m.real_name || m.user_id}（{m.user_id}）
+          {removable && <button onClick={() => handleRemoveMember(c, m)} className="cancel-btn">外す</button>}
+        </span>
+      ))}
+    </div>
+  )
+
+  return (
+    <div className="content-editor">
+      {classes.length > 0 ? (
+        <div className="users-table-container">
+          <table className="users-table content-table">
+            <thead>
+              <tr>
+                <th>クラス</th>
+                <th>先生</th>
+                <th>生徒</th>
+                {isSuperAdmin && <th>操作</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {classes.map(c => (
+                <tr key={c.class_id}>
+                  <td>{c.name}</td>
+                  <td>{memberList(c, c.teachers, isSuperAdmin)}</td>
+                  <td>{memberList(c, c.students, true)}</td>
+                  {isSuperAdmin && (
+                    <td>
+                      <div className="edit-buttons">
+                        <button onClick={() => handleRename(c)} className="edit-btn">名前変更</button>
+                        <button onClick={() => handleDelete(c)} className="cancel-btn">削除</button>
+                      </div>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p>{isSuperAdmin ? 'クラスがありません' : '担当のクラスがありません'}</p>
+      )}
+
+      {/* クラスの作成 */}
+      {isSuperAdmin && (
+        <div className="form-row">
+          <div className="field">
+            <label>クラス名</label>
+            <TextBox value={newName} onChange={setNewName} placeholder="1年1組" />
+          </div>
+          <Button onClick={handleCreate}>クラス作成</Button>
+        </div>
+      )}
+
+      {/* 所属の追加 */}
+      {classes.length > 0 && (
+        <div className="form-row">
+          <div className="field">
+            <label>クラス</label>
+            <select className="content-select" value={memberClassId || classes[0].class_id} onChange={(e) => setMemberClassId(e.target.value)}>
+              {classes.map(c => <option key={c.class_id} value={c.class_id}>{c.name}</option>)}
+            </select>
+          </div>
+          <div className="field field-narrow">
+            <label>ユーザーID</label>
+            <TextBox value={memberUserId} onChange={setMemberUserId} placeholder="00002" />
+          </div>
+          {isSuperAdmin && (
+            <div className="field field-narrow">
+              <label>役割</label>
+              <select className="content-select" value={memberRole} onChange={(e) => setMemberRole(e.target.value as MemberRole)}>
+                {(Object.keys(ROLE_LABELS) as MemberRole[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+              </select>
+            </div>
+          )}
+          <Button onClick={handleAddMember}>クラスに追加</Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ClassEditor
@@ -0,0 +1,670 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import TextBox from './TextBox'
+import Button from './Button'
+import { API_URL } from '../config'
+import { resolveImageUrl, type ImageVariant } from '../utils/questionImage'
+import './ContentEditor.css'
+
+// 管理者画面の教材編集（パート・問題・正解パターン）
+
+interface Part {
+  part_id: string
+  grade_id: number
+  part_no: number
+  subpart_no: number
+  requirement: string
+  match_config: string
+  question_count: number
+  correct_to_clear: number
+  time_limit: number
+  shuffle: boolean
+}
+
+type PartDraft = {
+  requirement: string
+  match_config: string
+  question_count: string
+  correct_to_clear: string
+  time_limit: string
+  shuffle: boolean
+}
+
+// パートの設定（空欄は既定値。範囲はサーバーの PART_SETTING_LIMITS と合わせる）
+const PART_SETTINGS = [
+  { key: 'question_count', label: '問題数（デモを含む）', min: 2, max: 50, placeholder: '8' },
+  { key: 'correct_to_clear', label: 'クリアに必要な正解数', min: 1, max: 49, placeholder: '5' },
+  { key: 'time_limit', label: '制限時間（秒）', min: 5, max: 600, placeholder: '30' },
+] as const
+
+interface AnswerPattern {
+  id: number
+  question_id: string
+  expected_text: string
+  match_config: string
+}
+
+interface Question {
+  question_id: string
+  part_id: string
+  display_order: number
+  is_demo: boolean
+  question_text: string
+  image_url: string
+  image_variants: ImageVariant[]
+  match_config: string
+  answers: AnswerPattern[]
+}
+
+type QuestionDraft = {
+  display_order: string
+  question_text: string
+  image_url: string
+  is_demo: boolean
+  match_config: string
+}
+
+const EMPTY_QUESTION: QuestionDraft = { display_order: '', question_text: '', image_url: '', is_demo: false, match_config: '' }
+
+// 画像は public 配下のパス（/questions/1_10_1_01.png）か http(s) の URL（サーバーと同じ条件）
+const IMAGE_URL_PATTERN = /^(\/[\w\-./]+|https?:\/\/\S+)$/
+
+// アップロードできる画像（サーバーの IMAGE_MAX_BYTES の既定値と合わせる）
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif']
+const IMAGE_MAX_BYTES = 5 * 1024 * 1024
+
+/* ---------- 入力チェック（サーバーでも同じ内容を確認する） ---------- */
+const isValidMatchConfig = (raw: string) => {
+  if (!raw.trim()) return true
+  try {
+    const value = JSON.parse(raw)
+    return !!value && typeof value === 'object' && !Array.isArray(value)
+  } catch {
+    return false
+  }
+}
+
+const isNumberInRange = (raw: string, min: number, max: number) => {
+  const n = Number(raw)
+  return raw.trim() !== '' && Number.isInteger(n) && n >= min && n <= max
+}
+
+function validatePart(draft: PartDraft): string | null {
+  if (!draft.requirement.trim()) return 'パートの説明を入力してください'
+  if (!isValidMatchConfig(draft.match_config)) return '判定設定は JSON オブジェクトで入力してください'
+  for (const { key, label, min, max } of PART_SETTINGS) {
+    if (draft[key].trim() && !isNumberInRange(draft[key], min, max)) return `${label}は ${min}〜${max} の整数で入力してください`
+  }
+  const count = Number(draft.question_count) || 8
+  if (Number(draft.correct_to_clear) > count - 1) return `クリアに必要な正解数はデモを除いた問題数（${count - 1}）以下にしてください`
+  return null
+}
+
+function validateQuestion(draft: QuestionDraft, others: Question[]): string | null {
+  if (!isNumberInRange(draft.display_order, 1, 999)) return '出題順は 1〜999 の整数で入力してください'
+  if (others.some(q => q.display_order === Number(draft.display_order))) return `出題順 ${draft.display_order} は既に使われています`
+  if (!draft.question_text.trim()) return '問題文を入力してください'
+  if (draft.image_url.trim() && !IMAGE_URL_PATTERN.test(draft.image_url.trim())) return '画像は /questions/... のパスか URL で入力してください'
+  if (!isValidMatchConfig(draft.match_config)) return '判定設定は JSON オブジェクトで入力してください'
+  return null
+}
+
+const toDraft = (q: Question): QuestionDraft => ({
+  display_order: String(q.display_order),
+  question_text: q.question_text,
+  image_url: q.image_url,
+  is_demo: q.is_demo,
+  match_config: q.match_config,
+})
+
+const fromDraft = (draft: QuestionDraft) => ({
+  display_order: Number(draft.display_order),
+  question_text: draft.question_text.trim(),
+  image_url: draft.image_url.trim(),
+  is_demo: draft.is_demo,
+  match_config: draft.match_config.trim(),
+})
+
+// API 呼び出し（失敗時はサーバーのメッセージで例外）
+async function request(method: string, path: string, body?: unknown) {
+  const res = await fetch(`${API_URL}/admin/content${path}`, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    credentials: 'include',
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  const data = await res.json()
+  if (!res.ok || !data.ok) {
+    throw new Error(data.message || '教材の保存に失敗しました')
+  }
+  return data
+}
+
+interface ContentEditorProps {
+  onError: (message: string | null) => void
+  onSuccess: (message: string | null) => void
+}
+
+const ContentEditor: React.FC<ContentEditorProps> = ({ onError, onSuccess }) => {
+  const [parts, setParts] = useState<Part[]>([])
+  const [selectedPartId, setSelectedPartId] = useState('')
+  const [questions, setQuestions] = useState<Question[]>([])
+
+  // パート追加
+  const [newGrade, setNewGrade] = useState('')
+  const [newPart, setNewPart] = useState('')
+  const [newSubpart, setNewSubpart] = useState('')
+  const [newRequirement, setNewRequirement] = useState('')
+
+  // 問題追加・編集
+  const [newQuestion, setNewQuestion] = useState<QuestionDraft>(EMPTY_QUESTION)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editDraft, setEditDraft] = useState<QuestionDraft>(EMPTY_QUESTION)
+
+  const selectedPart = parts.find(p => p.part_id === selectedPartId) || null
+
+  const run = async (action: () => Promise<void>, successMessage: string) => {
+    onError(null)
+    onSuccess(null)
+    try {
+      await action()
+      onSuccess(successMessage)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const fetchParts = useCallback(async () => {
+    try {
+      const data = await request('GET', '/parts')
+      setParts(data.parts)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err))
+    }
+  }, [onError])
+
+  const fetchQuestions = useCallback(async (partId: string) => {
+    if (!partId) {
+      setQuestions([])
+      return
+    }
+    try {
+      const data = await request('GET', `/parts/${encodeURIComponent(partId)}/questions`)
+      setQuestions(data.questions)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err))
+    }
+  }, [onError])
+
+  useEffect(() => {
+    fetchParts()
+  }, [fetchParts])
+
+  useEffect(() => {
+    setEditingId(null)
+    fetchQuestions(selectedPartId)
+  }, [selectedPartId, fetchQuestions])
+
+  /* ---------- パート ---------- */
+  const handleCreatePart = () => {
+    if (![newGrade, newPart, newSubpart].every(v => isNumberInRange(v, 1, 99))) {
+      onError('学年・パート・サブパートは 1〜99 の整数で入力してください')
+      return
+    }
+    if (!newRequirement.trim()) {
+      onError('パートの説明を入力してください')
+      return
+    }
+    run(async () => {
+      const data = await request('POST', '/parts', {
+        grade_id: Number(newGrade),
+        part_no: Number(newPart),
+        subpart_no: Number(newSubpart),
+        requirement: newRequirement.trim(),
+      })
+      setNewGrade('')
+      setNewPart('')
+      setNewSubpart('')
+      setNewRequirement('')
+      await fetchParts()
+      setSelectedPartId(data.part.part_id)
+    }, 'パートを追加しました')
+  }
+
+  const handleUpdatePart = (draft: PartDraft) => {
+    if (!selectedPart) return
+    const invalid = validatePart(draft)
+    if (invalid) {
+      onError(invalid)
+      return
+    }
+    run(async () => {
+      await request('PUT', `/parts/${encodeURIComponent(selectedPart.part_id)}`, {
+        requirement: draft.requirement.trim(),
+        match_config: draft.match_config.trim(),
+        // 空欄は 0（既定値）
+        question_count: Number(draft.question_count) || 0,
+        correct_to_clear: Number(draft.correct_to_clear) || 0,
+        time_limit: Number(draft.time_limit) || 0,
+        shuffle: draft.shuffle,
+      })
+      await fetchParts()
+    }, 'パートを更新しました')
+  }
+
+  const handleDeletePart = () => {
+    if (!selectedPart) return
+    if (!window.confirm(`${selectedPart.part_id} を削除しますか？`)) return
+    run(async () => {
+      await request('DELETE', `/parts/${encodeURIComponent(selectedPart.part_id)}`)
+      setSelectedPartId('')
+      await fetchParts()
+    }, 'パートを削除しました')
+  }
+
+  /* ---------- 問題 ---------- */
+  const handleCreateQuestion = () => {
+    if (!selectedPart) return
+    const invalid = validateQuestion(newQuestion, questions)
+    if (invalid) {
+      onError(invalid)
+      return
+    }
+    run(async () => {
+      await request('POST', '/questions', { part_id: selectedPart.part_id, ...fromDraft(newQuestion) })
+      setNewQuestion(EMPTY_QUESTION)
+      await fetchQuestions(selectedPart.part_id)
+    }, '問題を追加しました')
+  }
+
+  const handleUpdateQuestion = (questionId: string) => {
+    const invalid = validateQuestion(editDraft, questions.filter(q => q.question_id !== questionId))
+    if (invalid) {
+      onError(invalid)
+      return
+    }
+    run(async () => {
+      await request('PUT', `/questions/${encodeURIComponent(questionId)}`, fromDraft(editDraft))
+      setEditingId(null)
+      await fetchQuestions(selectedPartId)
+    }, '問題を更新しました')
+  }
+
+  const handleDeleteQuestion = (questionId: string) => {
+    if (!window.confirm(`問題 ${questionId} と正解パターンを削除しますか？`)) return
+    run(async () => {
+      await request('DELETE', `/questions/${encodeURIComponent(questionId)}`)
+      await fetchQuestions(selectedPartId)
+    }, '問題を削除しました')
+  }
+
+  // 画像のアップロード（サーバーで幅ごとに変換され、image_url が書き換わる）
+  const handleUploadImage = (questionId: string, file: File) => {
+    if (!IMAGE_TYPES.includes(file.type)) {
+      onError('画像は PNG / JPEG / WebP / GIF を選んでください')
+      return
+    }
+    if (file.size > IMAGE_MAX_BYTES) {
+      onError('画像は 5MB 以下にしてください')
+      return
+    }
+    run(async () => {
+      const res = await fetch(`${API_URL}/admin/content/questions/${encodeURIComponent(questionId)}/image`, {
+        method: 'POST',
+        headers: { 'Content-Type': file.type },
+        credentials: 'include',
+        body: file,
+      })
+      const data = await res.json()
+      if (!res.ok || !data.ok) {
+        throw new Error(data.message || '画像のアップロードに失敗しました')
+      }
+      await fetchQuestions(selectedPartId)
+    }, '画像をアップロードしました')
+  }
+
+  /* ---------- 正解パターン ---------- */
+  const handleCreateAnswer = (questionId: string, expectedText: string) => {
+    if (!expectedText.trim()) {
+      onError('正解の文を入力してください')
+      return
+    }
+    run(async () => {
+      await request('POST', `/questions/${encodeURIComponent(questionId)}/answers`, { expected_text: expectedText.trim() })
+      await fetchQuestions(selectedPartId)
+    }, '正解パターンを追加しました')
+  }
+
+  const handleUpdateAnswer = (id: number, expectedText: string) => {
+    if (!expectedText.trim()) {
+      onError('正解の文を入力してください')
+      return
+    }
+    run(async () => {
+      await request('PUT', `/answers/${id}`, { expected_text: expectedText.trim() })
+      await fetchQuestions(selectedPartId)
+    }, '正解パターンを更新しました')
+  }
+
+  const handleDeleteAnswer = (id: number) => {
+    run(async () => {
+      await request('DELETE', `/answers/${id}`)
+      await fetchQuestions(selectedPartId)
+    }, '正解パターンを削除しました')
+  }
+
+  return (
+    <div className="content-editor">
+      {/* パート選択・追加 */}
+      <div className="form-row">
+        <div className="field">
+          <label>パート</label>
+          <select
+            className="content-select"
+            value={selectedPartId}
+            onChange={(e) => setSelectedPartId(e.target.value)}
+          >
+            <option value="">選択してください</option>
+            {parts.map(p => (
+              <option key={p.part_id} value={p.part_id}>
+                {`${p.grade_id}-${p.part_no}-${p.subpart_no} ${p.requirement}`}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="form-row">
+        <div className="field field-narrow">
+          <label>学年</label>
+          <TextBox value={newGrade} onChange={setNewGrade} placeholder="1" />
+        </div>
+        <div className="field field-narrow">
+          <label>パート</label>
+          <TextBox value={newPart} onChange={setNewPart} placeholder="10" />
+        </div>
+        <div className="field field-narrow">
+          <label>サブパート</label>
+          <TextBox value={newSubpart} onChange={setNewSubpart} placeholder="1" />
+        </div>
+        <div className="field">
+          <label>説明</label>
+          <TextBox value={newRequirement} onChange={setNewRequirement} placeholder="色を答えよう" />
+        </div>
+        <Button onClick={handleCreatePart}>パート追加</Button>
+      </div>
+
+      {selectedPart && (
+        <>
+          <PartForm
+            key={selectedPart.part_id}
+            part={selectedPart}
+            onSave={handleUpdatePart}
+            onDelete={handleDeletePart}
+          />
+
+          {/* 問題一覧 */}
+          <div className="users-table-container">
+            <table className="users-table content-table">
+              <thead>
+                <tr>
+                  <th>順番</th>
+                  <th>問題文</th>
+                  <th>画像</th>
+                  <th>デモ</th>
+                  <th>判定設定</th>
+                  <th>正解パターン</th>
+                  <th>操作</th>
+                </tr>
+              </thead>
+              <tbody>
+                {questions.map(q => (
+                  editingId === q.question_id ? (
+                    <tr key={q.question_id}>
+                      <QuestionCells draft={editDraft} onChange={setEditDraft} />
+                      <td>
+                        <AnswerList
+                          answers={q.answers}
+                          onCreate={(text) => handleCreateAnswer(q.question_id, text)}
+                          onUpdate={handleUpdateAnswer}
+                          onDelete={handleDeleteAnswer}
+                        />
+                      </td>
+                      <td>
+                        <div className="edit-buttons">
+                          <button onClick={() => handleUpdateQuestion(q.question_id)} className="save-btn">保存</button>
+                          <button onClick={() => setEditingId(null)} className="cancel-btn">キャンセル</button>
+                        </div>
+                      </td>
+                    </tr>
+                  ) : (
+                    <tr key={q.question_id}>
+                      <td>{q.display_order}</td>
+                      <td>{q.question_text}</td>
+                      <td>
+                        {q.image_url && <img src={resolveImageUrl(q.image_url)} alt="" className="content-thumb" />}
+                        <label className="content-upload">
+                          画像を選ぶ
+                          <input
+                            type="file"
+                            accept={IMAGE_TYPES.join(',')}
+                            onChange={(e) => {
+                              const file = e.target.files?.[0]
+                              e.target.value = ''
+                              if (file) handleUploadImage(q.question_id, file)
+                            }}
+                          />
+                        </label>
+                      </td>
+                      <td>{q.is_demo ? '○' : ''}</td>
+                      <td className="content-config">{q.match_config}</td>
+                      <td>
+                        <AnswerList
+                          answers={q.answers}
+                          onCreate={(text) => handleCreateAnswer(q.question_id, text)}
+                          onUpdate={handleUpdateAnswer}
+                          onDelete={handleDeleteAnswer}
+                        />
+                      </td>
+                      <td>
+                        <div className="edit-buttons">
+                          <button
+                            onClick={() => {
+                              setEditDraft(toDraft(q))
+                              setEditingId(q.question_id)
+                            }}
+                            className="edit-btn"
+                          >
+                            編集
+                          </button>
+                          <button onClick={() => handleDeleteQuestion(q.question_id)} className="cancel-btn">削除</button>
+                        </div>
+                      </td>
+                    </tr>
+                  )
+                ))}
+                <tr className="content-new-row">
+                  <QuestionCells draft={newQuestion} onChange={setNewQuestion} />
+                  <td>追加後に入力できます</td>
+                  <td>
+                    <button onClick={handleCreateQuestion} className="save-btn">追加</button>
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+// 選択中のパートの説明・判定設定・問題数などの設定
+interface PartFormProps {
+  part: Part
+  onSave: (draft: PartDraft) => void
+  onDelete: () => void
+}
+
+const PartForm: React.FC<PartFormProps> = ({ part, onSave, onDelete }) => {
+  const [draft, setDraft] = useState<PartDraft>({
+    requirement: part.requirement,
+    match_config: part.match_config,
+    // 0 は既定値なので空欄で表示
+    question_count: part.question_count ? String(part.question_count) : '',
+    correct_to_clear: part.correct_to_clear ? String(part.correct_to_clear) : '',
+    time_limit: part.time_limit ? String(part.time_limit) : '',
+    shuffle: part.shuffle,
+  })
+
+  return (
+    <div className="form-row">
+      <div className="field">
+        <label>説明（{part.part_id}）</label>
+        <TextBox value={draft.requirement} onChange={(v) => setDraft({ ...draft, requirement: v })} />
+      </div>
+      <div className="field">
+        <label>判定設定（JSON）</label>
+        <TextBox value={draft.match_config} onChange={(v) => setDraft({ ...draft, match_config: v })} placeholder='{"phonetic":0.85}' />
+      </div>
+      {PART_SETTINGS.map(({ key, label, min, max, placeholder }) => (
+        <div key={key} className="field field-narrow">
+          <label>{label}</label>
+          <input
+            type="number"
+            value={draft[key]}
+            onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+            className="edit-input"
+            min={min}
+            max={max}
+            placeholder={placeholder}
+          />
+        </div>
+      ))}
+      <label>
+        <input type="checkbox" checked={draft.shuffle} onChange={(e) => setDraft({ ...draft, shuffle: e.target.checked })} />
+        問題の順番を並べ替える（デモ以外）
+      </label>
+      <div className="edit-buttons">
+        <button onClick={() => onSave(draft)} className="save-btn">保存</button>
+        <button onClick={onDelete} className="cancel-btn">削除</button>
+      </div>
+    </div>
+  )
+}
+
+// 問題の入力欄（追加・編集で共通）
+interface QuestionCellsProps {
+  draft: QuestionDraft
+  onChange: (draft: QuestionDraft) => void
+}
+
+const QuestionCells: React.FC<QuestionCellsProps> = ({ draft, onChange }) => (
+  <>
+    <td>
+      <input
+        type="number"
+        value={draft.display_order}
+        onChange={(e) => onChange({ ...draft, display_order: e.target.value })}
+        className="edit-input"
+        min="1"
+      />
+    </td>
+    <td>
+      <input
+        value={draft.question_text}
+        onChange={(e) => onChange({ ...draft, question_text: e.target.value })}
+        className="edit-input content-input"
+        placeholder="What color is this?"
+      />
+    </td>
+    <td>
+      <input
+        value={draft.image_url}
+        onChange={(e) => onChange({ ...draft, image_url: e.target.value })}
+        className="edit-input content-input"
+        placeholder="/questions/1_10_1_01.png"
+      />
+    </td>
+    <td>
+      <input
+        type="checkbox"
+        checked={draft.is_demo}
+        onChange={(e) => onChange({ ...draft, is_demo: e.target.checked })}
+      />
+    </td>
+    <td>
+      <input
+        value={draft.match_config}
+        onChange={(e) => onChange({ ...draft, match_config: e.target.value })}
+        className="edit-input content-input"
+        placeholder='{"keywords":["red"]}'
+      />
+    </td>
+  </>
+)
+
+// 正解パターンの一覧・追加
+interface AnswerListProps {
+  answers: AnswerPattern[]
+  onCreate: (expectedText: string) => void
+  onUpdate: (id: number, expectedText: string) => void
+  onDelete: (id: number) => void
+}
+
+const AnswerList: React.FC<AnswerListProps> = ({ answers, onCreate, onUpdate, onDelete }) => {
+  const [newText, setNewText] = useState('')
+  const [editing, setEditing] = useState<{ id: number; text: string } | null>(null)
+
+  return (
+    <ul className="answer-list">
+      {answers.map(a => (
+        <li key={a.id}>
+          {editing?.id === a.id ? (
+            <>
+              <input
+                value={editing.text}
+                onChange={(e) => setEditing({ id: a.id, text: e.target.value })}
+                className="edit-input content-input"
+              />
+              <button
+                onClick={() => {
+                  onUpdate(a.id, editing.text)
+                  setEditing(null)
+                }}
+                className="save-btn"
+              >
+                保存
+              </button>
+              <button onClick={() => setEditing(null)} className="cancel-btn">キャンセル</button>
+            </>
+          ) : (
+            <>
+              <span className="answer-text">{a.expected_text}</span>
+              <button onClick={() => setEditing({ id: a.id, text: a.expected_text })} className="edit-btn">編集</button>
+              <button onClick={() => onDelete(a.id)} className="cancel-btn">削除</button>
+            </>
+          )}
+        </li>
+      ))}
+      <li>
+        <input
+          value={newText}
+          onChange={(e) => setNewText(e.target.value)}
+          className="edit-input content-input"
+          placeholder="It is red"
+        />
+        <button
+          onClick={() => {
+            onCreate(newText)
+            setNewText('')
+          }}
+          className="save-btn"
+        >
+          追加
+        </button>
+      </li>
+    </ul>
+  )
+}
+
+export default ContentEditor
@@ -0,0 +1,79 @@
+import React, { useState } from 'react'
+import Button from './Button'
+import { API_URL } from '../config'
+import './ContentEditor.css'
+
+// 管理者画面の教材チェック（問題数・デモ・正解パターン・画像・パートの並びなど）
+
+interface LintIssue {
+  level: 'error' | 'warning'
+  code: string
+  part_id?: string
+  question_id?: string
+  answer_id?: number
+  message: string
+}
+interface LintSummary {
+  parts: number
+  questions: number
+  answer_patterns: number
+  errors: number
+  warnings: number
+}
+
+interface ContentLintProps {
+  onError: (message: string | null) => void
+}
+
+const ContentLint: React.FC<ContentLintProps> = ({ onError }) => {
+  const [checking, setChecking] = useState(false)
+  const [summary, setSummary] = useState<LintSummary | null>(null)
+  const [issues, setIssues] = useState<LintIssue[]>([])
+
+  const handleCheck = async () => {
+    if (checking) return
+    onError(null)
+    setChecking(true)
+    try {
+      const res = await fetch(`${API_URL}/admin/content/lint`, { credentials: 'include' })
+      const data = await res.json()
+      if (!res.ok || !data.ok) throw new Error(data.message || '教材のチェックに失敗しました')
+      setSummary(data.summary)
+      setIssues(data.issues)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  return (
+    <div className="content-editor">
+      <div className="form-row">
+        <Button onClick={handleCheck}>{checking ? 'チェック中...' : 'チェック'}</Button>
+      </div>
+
+      {summary && (
+        <div className="transfer-diff">
+          <p className="result-title">
+            パート {summary.parts} / 問題 {summary.questions} / 正解パターン {summary.answer_patterns}（エラー {summary.errors} / 警告 {summary.warnings}）
+          </p>
+          {issues.length === 0 ? (
+            <p>問題は見つかりませんでした</p>
+          ) : (
+            <ul>
+              {issues.map((issue, i) => (
+                <li key={i} className={issue.level === 'error' ? 'diff-remove' : 'diff-update'}>
+                  {issue.level === 'error' ? 'エラー' : '警告'}{' '}
+                  {[issue.part_id, issue.question_id, issue.answer_id !== undefined ? `#${issue.answer_id}` : null].filter(Boolean).join(' / ')}: {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ContentLint
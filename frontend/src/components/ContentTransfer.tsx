@@ -0,0 +1,236 @@
+import React, { useState } from 'react'
+import Button from './Button'
+import { API_URL } from '../config'
+import './ContentEditor.css'
+
+// 管理者画面の教材インポート・エクスポート（CSV / JSON）
+
+const TABLES = ['parts', 'questions', 'answer_patterns'] as const
+type Table = typeof TABLES[number]
+type ImportPayload = Partial<Record<Table, string | object[]>>
+
+type KeyDiff = {
+  create: string[]
+  update: { key: string; changes: Record<string, { from: unknown; to: unknown }> }[]
+  unchanged: number
+}
+type AnswerRef = { key?: number; question_id: string; expected_text: string }
+type AnswerDiff = {
+  create: AnswerRef[]
+  update: (AnswerRef & { changes: Record<string, { from: unknown; to: unknown }> })[]
+  remove: AnswerRef[]
+  unchanged: number
+}
+interface ImportDiff {
+  parts?: KeyDiff
+  questions?: KeyDiff
+  answer_patterns?: AnswerDiff
+}
+interface ImportError {
+  table?: string
+  line?: number
+  message: string
+}
+
+const isTable = (name: string): name is Table => (TABLES as readonly string[]).includes(name)
+
+/**
+ * 選んだファイルを読み込んでインポートの本文にする
+ * - .json : エクスポートした JSON（parts / questions / answer_patterns）
+ * - .csv  : ファイル名がテーブル名（parts.csv / questions.csv / answer_patterns.csv）
+ */
+async function readFiles(files: File[]): Promise<ImportPayload> {
+  const payload: ImportPayload = {}
+  for (const file of files) {
+    const text = await file.text()
+    const name = file.name.replace(/\.[^.]+$/, '')
+    if (/\.json$/i.test(file.name)) {
+      let data: Record<string, unknown>
+      try {
+        data = JSON.parse(text)
+      } catch {
+        throw new Error(`${file.name} を JSON として読み込めませんでした`)
+      }
+      for (const table of TABLES) {
+        if (Array.isArray(data[table])) payload[table] = data[table] as object[]
+      }
+    } else if (/\.csv$/i.test(file.name) && isTable(name)) {
+      payload[name] = text
+    } else {
+      throw new Error(`${file.name}: CSV のファイル名は ${TABLES.map(t => `${t}.csv`).join(' / ')} にしてください`)
+    }
+  }
+  if (!TABLES.some(t => payload[t] !== undefined)) {
+    throw new Error('インポートする内容がありません')
+  }
+  return payload
+}
+
+// ダウンロード（fetch で認証クッキーを送るため、リンクではなく Blob で保存する）
+async function download(query: string, filename: string) {
+  const res = await fetch(`${API_URL}/admin/content/export?${query}`, { credentials: 'include' })
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}))
+    throw new Error(data.message || 'エクスポートに失敗しました')
+  }
+  const url = URL.createObjectURL(await res.blob())
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+interface ContentTransferProps {
+  onError: (message: string | null) => void
+  onSuccess: (message: string | null) => void
+}
+
+const ContentTransfer: React.FC<ContentTransferProps> = ({ onError, onSuccess }) => {
+  const [partIds, setPartIds] = useState('')
+  const [payload, setPayload] = useState<ImportPayload | null>(null)
+  const [diff, setDiff] = useState<ImportDiff | null>(null)
+  const [importErrors, setImportErrors] = useState<ImportError[]>([])
+
+  const handleExport = async (format: 'json' | 'csv', table?: Table) => {
+    onError(null)
+    const params = new URLSearchParams({ format })
+    if (table) params.set('table', table)
+    if (partIds.trim()) params.set('part_id', partIds.trim())
+    try {
+      await download(params.toString(), table ? `${table}.csv` : 'content.json')
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  // インポート（dryRun: 差分の確認だけ）
+  const sendImport = async (body: ImportPayload, dryRun: boolean) => {
+    onError(null)
+    onSuccess(null)
+    setImportErrors([])
+    try {
+      const res = await fetch(`${API_URL}/admin/content/import?dry_run=${dryRun}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(body),
+      })
+      const data = await res.json()
+      if (!res.ok || !data.ok) {
+        setImportErrors(data.errors || [])
+        setDiff(null)
+        throw new Error(data.message || 'インポートに失敗しました')
+      }
+      setDiff(data.diff)
+      if (!dryRun) {
+        setPayload(null)
+        onSuccess('インポートしました')
+      }
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const handleFiles = async (files: File[]) => {
+    setDiff(null)
+    setPayload(null)
+    if (files.length === 0) return
+    try {
+      const body = await readFiles(files)
+      setPayload(body)
+      await sendImport(body, true)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const hasChanges = !!diff && (
+    TABLES.some(t => (diff[t]?.create.length ?? 0) + (diff[t]?.update.length ?? 0) > 0) ||
+    (diff.answer_patterns?.remove.length ?? 0) > 0
+  )
+
+  return (
+    <div className="content-editor">
+      {/* エクスポート */}
+      <div className="form-row">
+        <div className="field">
+          <label>対象のパート（part_id をカンマ区切り。空欄ならすべて）</label>
+          <input
+            value={partIds}
+            onChange={(e) => setPartIds(e.target.value)}
+            className="edit-input content-input"
+            placeholder="part_1_10_1,part_1_10_2"
+          />
+        </div>
+        <div className="edit-buttons">
+          <button onClick={() => handleExport('json')} className="edit-btn">JSON</button>
+          {TABLES.map(t => (
+            <button key={t} onClick={() => handleExport('csv', t)} className="edit-btn">{`${t}.csv`}</button>
+          ))}
+        </div>
+      </div>
+
+      {/* インポート */}
+      <div className="form-row">
+        <div className="field">
+          <label>インポート（content.json、または parts.csv / questions.csv / answer_patterns.csv）</label>
+          <input
+            type="file"
+            multiple
+            accept=".json,.csv"
+            onChange={(e) => {
+              const files = Array.from(e.target.files || [])
+              e.target.value = ''
+              handleFiles(files)
+            }}
+          />
+        </div>
+        {payload && hasChanges && (
+          <Button onClick={() => sendImport(payload, false)}>適用</Button>
+        )}
+      </div>
+
+      {importErrors.length > 0 && (
+        <ul className="transfer-errors">
+          {importErrors.map((e, i) => (
+            <li key={i}>{[e.table, e.line ? `${e.line}行目` : ''].filter(Boolean).join(' ')} {e.message}</li>
+          ))}
+        </ul>
+      )}
+
+      {diff && (
+        <div className="transfer-diff">
+          {!hasChanges && <p>変更はありません</p>}
+          {(['parts', 'questions'] as const).map(t => diff[t] && (
+            <div key={t}>
+              <p className="result-title">{t}（追加 {diff[t].create.length} / 更新 {diff[t].update.length} / 変更なし {diff[t].unchanged}）</p>
+              <ul>
+                {diff[t].create.map(key => <li key={`c-${key}`} className="diff-create">+ {key}</li>)}
+                {diff[t].update.map(u => (
+                  <li key={`u-${u.key}`} className="diff-update">
+                    ~ {u.key}: {Object.entries(u.changes).map(([col, c]) => `${col}: ${JSON.stringify(c.from)} → ${JSON.stringify(c.to)}`).join(', ')}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+          {diff.answer_patterns && (
+            <div>
+              <p className="result-title">
+                answer_patterns（追加 {diff.answer_patterns.create.length} / 更新 {diff.answer_patterns.update.length} / 削除 {diff.answer_patterns.remove.length} / 変更なし {diff.answer_patterns.unchanged}）
+              </p>
+              <ul>
+                {diff.answer_patterns.create.map((a, i) => <li key={`c-${i}`} className="diff-create">+ {a.question_id}: {a.expected_text}</li>)}
+                {diff.answer_patterns.update.map(a => <li key={`u-${a.key}`} className="diff-update">~ {a.question_id}: {a.expected_text}（match_config）</li>)}
+                {diff.answer_patterns.remove.map(a => <li key={`r-${a.key}`} className="diff-remove">- {a.question_id}: {a.expected_text}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ContentTransfer
@@ -0,0 +1,283 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import TextBox from './TextBox'
+import Button from './Button'
+import { API_URL } from '../config'
+import type { ClassInfo } from './ClassEditor'
+import './ContentEditor.css'
+
+// 管理者画面のパートのロック・解放・上限（全員、クラスごと、または生徒ごと。全員への設定は管理者のみ）
+
+type Scope = 'all' | 'class' | 'user'
+type Kind = 'lock' | 'unlock' | 'ceiling'
+
+interface PartLock {
+  lock_id: string
+  scope: Scope
+  target: string
+  kind: Kind
+  grade_id: number
+  part_no: number
+  subpart_no: number
+  expires_at: string
+  note: string
+  created_by: string
+  created_at: string
+}
+
+interface PartAccess {
+  part_id: string
+  grade_id: number
+  part_no: number
+  subpart_no: number
+  unlocked: boolean
+  reason: 'progress' | Kind
+}
+
+const SCOPE_LABELS: Record<Scope, string> = { all: '全員', class: 'クラス', user: '生徒' }
+const KIND_LABELS: Record<Kind, string> = { lock: 'ロック', unlock: '解放', ceiling: 'ここまで（上限）' }
+const REASON_LABELS: Record<PartAccess['reason'], string> = { progress: '進捗', lock: 'ロック', unlock: '解放', ceiling: '上限' }
+
+// 学年・パート・サブパート（0 は「すべて」）
+const positionLabel = (l: { grade_id: number; part_no: number; subpart_no: number }) =>
+  `学年${l.grade_id}` + (l.part_no ? ` パート${l.part_no}` : '') + (l.subpart_no ? `-${l.subpart_no}` : '')
+
+// API 呼び出し（失敗時はサーバーのメッセージで例外）
+async function request(method: string, path: string, body?: unknown) {
+  const res = await fetch(`${API_URL}/admin/progression${path}`, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    credentials: 'include',
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  const data = await res.json()
+  if (!res.ok || !data.ok) {
+    throw new Error(data.message || 'ロックの保存に失敗しました')
+  }
+  return data
+}
+
+interface PartLockEditorProps {
+  classes: ClassInfo[]
+  isSuperAdmin: boolean
+  onError: (message: string | null) => void
+  onSuccess: (message: string | null) => void
+}
+
+const PartLockEditor: React.FC<PartLockEditorProps> = ({ classes, isSuperAdmin, onError, onSuccess }) => {
+  const scopes = (Object.keys(SCOPE_LABELS) as Scope[]).filter(s => isSuperAdmin || s !== 'all')
+  const [locks, setLocks] = useState<PartLock[]>([])
+  const [scope, setScope] = useState<Scope>(scopes[0])
+  const [classId, setClassId] = useState('')
+  const [userId, setUserId] = useState('')
+  const [kind, setKind] = useState<Kind>('ceiling')
+  const [grade, setGrade] = useState('')
+  const [partNo, setPartNo] = useState('')
+  const [subpartNo, setSubpartNo] = useState('')
+  const [expiresOn, setExpiresOn] = useState('')
+  const [note, setNote] = useState('')
+
+  // 生徒が選択できるパートの確認
+  const [accessUserId, setAccessUserId] = useState('')
+  const [access, setAccess] = useState<PartAccess[] | null>(null)
+
+  const fetchLocks = useCallback(async () => {
+    try {
+      const data = await request('GET', '/locks')
+      setLocks(data.locks)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err))
+    }
+  }, [onError])
+
+  useEffect(() => {
+    fetchLocks()
+  }, [fetchLocks])
+
+  // 設定の対象（クラスはクラス名、生徒はユーザーID）
+  const targetLabel = (l: PartLock) => {
+    if (l.scope === 'class') return classes.find(c => c.class_id === l.target)?.name ?? l.target
+    return l.scope === 'user' ? l.target : SCOPE_LABELS[l.scope]
+  }
+
+  const handleAdd = async () => {
+    onError(null)
+    onSuccess(null)
+    if (!Number(grade)) {
+      onError('学年を入力してください')
+      return
+    }
+    try {
+      await request('POST', '/locks', {
+        scope,
+        class_id: scope === 'class' ? classId || classes[0]?.class_id : undefined,
+        user_id: scope === 'user' ? userId.trim() : undefined,
+        kind,
+        grade_id: Number(grade),
+        part_no: Number(partNo) || 0,
+        subpart_no: Number(subpartNo) || 0,
+        // 期限の日の終わりまで有効
+        expires_at: expiresOn ? `${expiresOn.replace(/-/g, '/')} 23:59:59` : undefined,
+        note: note.trim() || undefined,
+      })
+      setNote('')
+      await fetchLocks()
+      onSuccess('ロックを追加しました')
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const handleDelete = async (l: PartLock) => {
+    if (!window.confirm(`${positionLabel(l)} の${KIND_LABELS[l.kind]}を削除しますか？`)) return
+    onError(null)
+    onSuccess(null)
+    try {
+      await request('DELETE', `/locks/${encodeURIComponent(l.lock_id)}`)
+      await fetchLocks()
+      onSuccess('ロックを削除しました')
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const handleCheckAccess = async () => {
+    onError(null)
+    setAccess(null)
+    if (!accessUserId.trim()) {
+      onError('ユーザーIDを入力してください')
+      return
+    }
+    try {
+      const data = await request('GET', `/access?user_id=${encodeURIComponent(accessUserId.trim())}`)
+      setAccess(data.parts)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  return (
+    <div className="content-editor">
+      {/* 設定一覧（生徒 → クラス → 全員 の順で優先。同じ対象では ロック → 上限 → 解放 の順） */}
+      {locks.length > 0 && (
+        <div className="users-table-container">
+          <table className="users-table content-table">
+            <thead>
+              <tr>
+                <th>対象</th>
+                <th>種類</th>
+                <th>位置</th>
+                <th>期限</th>
+                <th>メモ</th>
+                <th>操作</th>
+              </tr>
+            </thead>
+            <tbody>
+              {locks.map(l => (
+                <tr key={l.lock_id}>
+                  <td>{targetLabel(l)}</td>
+                  <td>{KIND_LABELS[l.kind]}</td>
+                  <td>{positionLabel(l)}</td>
+                  <td>{l.expires_at || 'なし'}</td>
+                  <td>{l.note}</td>
+                  <td>
+                    {(isSuperAdmin || l.scope !== 'all') && (
+                      <button onClick={() => handleDelete(l)} className="cancel-btn">削除</button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* 設定の追加 */}
+      <div className="form-row">
+        <div className="field field-narrow">
+          <label>対象</label>
+          <select className="content-select" value={scope} onChange={(e) => setScope(e.target.value as Scope)}>
+            {scopes.map(s => <option key={s} value={s}>{SCOPE_LABELS[s]}</option>)}
+          </select>
+        </div>
+        {scope === 'class' && (
+          <div className="field">
+            <label>クラス</label>
+            <select className="content-select" value={classId || classes[0]?.class_id || ''} onChange={(e) => setClassId(e.target.value)}>
+              {classes.map(c => <option key={c.class_id} value={c.class_id}>{c.name}</option>)}
+            </select>
+          </div>
+        )}
+        {scope === 'user' && (
+          <div className="field field-narrow">
+            <label>ユーザーID</label>
+            <TextBox value={userId} onChange={setUserId} placeholder="00002" />
+          </div>
+        )}
+        <div className="field">
+          <label>種類</label>
+          <select className="content-select" value={kind} onChange={(e) => setKind(e.target.value as Kind)}>
+            {(Object.keys(KIND_LABELS) as Kind[]).map(k => <option key={k} value={k}>{KIND_LABELS[k]}</option>)}
+          </select>
+        </div>
+        <div className="field field-narrow">
+          <label>学年</label>
+          <TextBox value={grade} onChange={setGrade} placeholder="1" />
+        </div>
+        <div className="field field-narrow">
+          <label>パート（空欄はすべて）</label>
+          <TextBox value={partNo} onChange={setPartNo} placeholder="12" />
+        </div>
+        <div className="field field-narrow">
+          <label>サブパート（空欄はすべて）</label>
+          <TextBox value={subpartNo} onChange={setSubpartNo} placeholder="" />
+        </div>
+      </div>
+      <div className="form-row">
+        <div className="field">
+          <label>期限（空欄は無期限）</label>
+          <input type="date" value={expiresOn} onChange={(e) => setExpiresOn(e.target.value)} className="edit-input" />
+        </div>
+        <div className="field">
+          <label>メモ</label>
+          <TextBox value={note} onChange={setNote} placeholder="今週はパート12まで" />
+        </div>
+        <Button onClick={handleAdd}>追加</Button>
+      </div>
+
+      {/* 生徒が選択できるパートの確認 */}
+      <div className="form-row">
+        <div className="field field-narrow">
+          <label>ユーザーID</label>
+          <TextBox value={accessUserId} onChange={setAccessUserId} placeholder="00002" />
+        </div>
+        <Button onClick={handleCheckAccess}>選択できるパートを確認</Button>
+      </div>
+      {access && (
+        <div className="users-table-container">
+          <table className="users-table content-table">
+            <thead>
+              <tr>
+                <th>part_id</th>
+                <th>位置</th>
+                <th>選択</th>
+                <th>理由</th>
+              </tr>
+            </thead>
+            <tbody>
+              {access.map(p => (
+                <tr key={p.part_id}>
+                  <td>{p.part_id}</td>
+                  <td>{positionLabel(p)}</td>
+                  <td>{p.unlocked ? '○' : '×'}</td>
+                  <td>{REASON_LABELS[p.reason]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default PartLockEditor
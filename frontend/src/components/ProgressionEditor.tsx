@@ -0,0 +1,367 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import TextBox from './TextBox'
+import Button from './Button'
+import { API_URL } from '../config'
+import './ContentEditor.css'
+
+// 管理者画面の進級ルール（次のパートに進む条件）と先生の承認
+
+type RuleType = 'clear' | 'accuracy' | 'attempts' | 'approval'
+type Mode = 'any' | 'all'
+
+interface Rule {
+  type: RuleType
+  count?: number
+  min?: number
+  last?: number
+}
+
+interface Progression {
+  mode: Mode
+  rules: Rule[]
+}
+
+interface ProgressionRule {
+  rule_id: string
+  grade_id: number
+  part_no: number
+  rules: Progression | null
+  updated_by: string
+  updated_at: string
+}
+
+interface Approval {
+  approval_id: string
+  user_id: string
+  part_id: string
+  approved_by: string
+  created_at: string
+}
+
+// 入力欄（チェックの付いたルールだけを保存する）
+type RuleDraft = {
+  clear: { on: boolean; count: string }
+  accuracy: { on: boolean; min: string; last: string }
+  attempts: { on: boolean; count: string }
+  approval: { on: boolean }
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  clear: { on: true, count: '1' },
+  accuracy: { on: false, min: '80', last: '3' },
+  attempts: { on: true, count: '10' },
+  approval: { on: false },
+}
+
+const MODE_LABELS: Record<Mode, string> = { any: 'いずれかを満たす', all: 'すべて満たす' }
+
+const scopeLabel = (r: { grade_id: number; part_no: number }) =>
+  !r.grade_id ? '全体' : r.part_no ? `学年${r.grade_id} パート${r.part_no}` : `学年${r.grade_id}`
+
+function describeRule(rule: Rule): string {
+  switch (rule.type) {
+    case 'clear': return `${rule.count} 回クリア`
+    case 'accuracy': return `直近 ${rule.last} 回の平均正答率 ${Math.round((rule.min ?? 0) * 100)}% 以上`
+    case 'attempts': return `${rule.count} 回挑戦`
+    case 'approval': return '先生の承認'
+  }
+}
+
+const describe = (p: Progression | null) =>
+  p ? p.rules.map(describeRule).join(p.mode === 'all' ? ' かつ ' : ' または ') : '（読み込めません）'
+
+function toDraft(p: Progression): RuleDraft {
+  const find = (type: RuleType) => p.rules.find(r => r.type === type)
+  const clear = find('clear'), accuracy = find('accuracy'), attempts = find('attempts')
+  return {
+    clear: { on: !!clear, count: String(clear?.count ?? 1) },
+    accuracy: { on: !!accuracy, min: String(Math.round((accuracy?.min ?? 0.8) * 100)), last: String(accuracy?.last ?? 3) },
+    attempts: { on: !!attempts, count: String(attempts?.count ?? 10) },
+    approval: { on: !!find('approval') },
+  }
+}
+
+function fromDraft(draft: RuleDraft): Rule[] {
+  const rules: Rule[] = []
+  if (draft.clear.on) rules.push({ type: 'clear', count: Number(draft.clear.count) })
+  if (draft.accuracy.on) rules.push({ type: 'accuracy', min: Number(draft.accuracy.min) / 100, last: Number(draft.accuracy.last) })
+  if (draft.attempts.on) rules.push({ type: 'attempts', count: Number(draft.attempts.count) })
+  if (draft.approval.on) rules.push({ type: 'approval' })
+  return rules
+}
+
+// API 呼び出し（失敗時はサーバーのメッセージで例外）
+async function request(method: string, path: string, body?: unknown) {
+  const res = await fetch(`${API_URL}/admin/progression${path}`, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    credentials: 'include',
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  const data = await res.json()
+  if (!res.ok || !data.ok) {
+    throw new Error(data.message || '進級ルールの保存に失敗しました')
+  }
+  return data
+}
+
+interface ProgressionEditorProps {
+  // ルールは全クラス共通のため、変更は管理者のみ（先生は承認のみ）
+  canEditRules: boolean
+  onError: (message: string | null) => void
+  onSuccess: (message: string | null) => void
+}
+
+const ProgressionEditor: React.FC<ProgressionEditorProps> = ({ canEditRules, onError, onSuccess }) => {
+  const [rules, setRules] = useState<ProgressionRule[]>([])
+  const [defaultProgression, setDefaultProgression] = useState<Progression | null>(null)
+  const [grade, setGrade] = useState('')
+  const [partNo, setPartNo] = useState('')
+  const [mode, setMode] = useState<Mode>('any')
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT)
+
+  // 承認
+  const [approvals, setApprovals] = useState<Approval[]>([])
+  const [approveUserId, setApproveUserId] = useState('')
+  const [approvePartId, setApprovePartId] = useState('')
+
+  const run = async (action: () => Promise<void>, successMessage: string) => {
+    onError(null)
+    onSuccess(null)
+    try {
+      await action()
+      onSuccess(successMessage)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const data = await request('GET', '/rules')
+      setRules(data.rules)
+      setDefaultProgression(data.default)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err))
+    }
+  }, [onError])
+
+  const fetchApprovals = useCallback(async () => {
+    try {
+      const data = await request('GET', '/approvals')
+      setApprovals(data.approvals)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err))
+    }
+  }, [onError])
+
+  useEffect(() => {
+    fetchRules()
+    fetchApprovals()
+  }, [fetchRules, fetchApprovals])
+
+  const handleEdit = (r: ProgressionRule) => {
+    if (!r.rules) return
+    setGrade(r.grade_id ? String(r.grade_id) : '')
+    setPartNo(r.part_no ? String(r.part_no) : '')
+    setMode(r.rules.mode)
+    setDraft(toDraft(r.rules))
+  }
+
+  const handleSave = () => {
+    const rulesToSave = fromDraft(draft)
+    if (rulesToSave.length === 0) {
+      onError('ルールを 1 つ以上選んでください')
+      return
+    }
+    run(async () => {
+      await request('PUT', '/rules', {
+        grade_id: Number(grade) || 0,
+        part_no: Number(partNo) || 0,
+        mode,
+        rules: rulesToSave,
+      })
+      await fetchRules()
+    }, '進級ルールを保存しました')
+  }
+
+  const handleDelete = (r: ProgressionRule) => {
+    if (!window.confirm(`${scopeLabel(r)} のルールを削除しますか？`)) return
+    run(async () => {
+      await request('DELETE', `/rules/${encodeURIComponent(r.rule_id)}`)
+      await fetchRules()
+    }, '進級ルールを削除しました')
+  }
+
+  const handleApprove = () => {
+    if (!approveUserId.trim() || !approvePartId.trim()) {
+      onError('ユーザーIDと part_id を入力してください')
+      return
+    }
+    run(async () => {
+      await request('POST', '/approvals', { user_id: approveUserId.trim(), part_id: approvePartId.trim() })
+      setApproveUserId('')
+      setApprovePartId('')
+      await fetchApprovals()
+    }, '承認しました')
+  }
+
+  const handleRevoke = (a: Approval) => {
+    run(async () => {
+      await request('DELETE', `/approvals/${encodeURIComponent(a.approval_id)}`)
+      await fetchApprovals()
+    }, '承認を取り消しました')
+  }
+
+  return (
+    <div className="content-editor">
+      {/* ルール一覧（パート → 学年 → 全体 の順で最初に見つかったものを使う） */}
+      <div className="users-table-container">
+        <table className="users-table content-table">
+          <thead>
+            <tr>
+              <th>対象</th>
+              <th>条件</th>
+              <th>更新</th>
+              {canEditRules && <th>操作</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {rules.map(r => (
+              <tr key={r.rule_id}>
+                <td>{scopeLabel(r)}</td>
+                <td>{describe(r.rules)}</td>
+                <td>{r.updated_at}（{r.updated_by}）</td>
+                {canEditRules && (
+                  <td>
+                    <div className="edit-buttons">
+                      <button onClick={() => handleEdit(r)} className="edit-btn">編集</button>
+                      <button onClick={() => handleDelete(r)} className="cancel-btn">削除</button>
+                    </div>
+                  </td>
+                )}
+              </tr>
+            ))}
+            <tr>
+              <td>既定値</td>
+              <td>{describe(defaultProgression)}</td>
+              <td colSpan={canEditRules ? 2 : 1}>ルールが無い場合に使用</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {/* ルールの保存（同じ対象のルールは置き換える） */}
+      {canEditRules && (
+        <>
+          <div className="form-row">
+            <div className="field field-narrow">
+              <label>学年（空欄は全体）</label>
+              <TextBox value={grade} onChange={setGrade} placeholder="1" />
+            </div>
+            <div className="field field-narrow">
+              <label>パート（空欄は学年全体）</label>
+              <TextBox value={partNo} onChange={setPartNo} placeholder="10" />
+            </div>
+            <div className="field">
+              <label>条件</label>
+              <select className="content-select" value={mode} onChange={(e) => setMode(e.target.value as Mode)}>
+                {(Object.keys(MODE_LABELS) as Mode[]).map(m => <option key={m} value={m}>{MODE_LABELS[m]}</option>)}
+              </select>
+            </div>
+          </div>
+          <div className="form-row">
+            <label>
+              <input type="checkbox" checked={draft.clear.on} onChange={(e) => setDraft({ ...draft, clear: { ...draft.clear, on: e.target.checked } })} />
+              クリア回数
+            </label>
+            <input
+              type="number"
+              value={draft.clear.count}
+              onChange={(e) => setDraft({ ...draft, clear: { ...draft.clear, count: e.target.value } })}
+              className="edit-input"
+              min="1"
+            />
+            <label>
+              <input type="checkbox" checked={draft.accuracy.on} onChange={(e) => setDraft({ ...draft, accuracy: { ...draft.accuracy, on: e.target.checked } })} />
+              直近
+            </label>
+            <input
+              type="number"
+              value={draft.accuracy.last}
+              onChange={(e) => setDraft({ ...draft, accuracy: { ...draft.accuracy, last: e.target.value } })}
+              className="edit-input"
+              min="1"
+            />
+            <span>回の平均正答率（%）</span>
+            <input
+              type="number"
+              value={draft.accuracy.min}
+              onChange={(e) => setDraft({ ...draft, accuracy: { ...draft.accuracy, min: e.target.value } })}
+              className="edit-input"
+              min="0"
+              max="100"
+            />
+            <label>
+              <input type="checkbox" checked={draft.attempts.on} onChange={(e) => setDraft({ ...draft, attempts: { ...draft.attempts, on: e.target.checked } })} />
+              挑戦回数
+            </label>
+            <input
+              type="number"
+              value={draft.attempts.count}
+              onChange={(e) => setDraft({ ...draft, attempts: { ...draft.attempts, count: e.target.value } })}
+              className="edit-input"
+              min="1"
+            />
+            <label>
+              <input type="checkbox" checked={draft.approval.on} onChange={(e) => setDraft({ ...draft, approval: { on: e.target.checked } })} />
+              先生の承認
+            </label>
+            <Button onClick={handleSave}>ルール保存</Button>
+          </div>
+        </>
+      )}
+
+      {/* 先生の承認 */}
+      <div className="form-row">
+        <div className="field field-narrow">
+          <label>ユーザーID</label>
+          <TextBox value={approveUserId} onChange={setApproveUserId} placeholder="00002" />
+        </div>
+        <div className="field">
+          <label>part_id</label>
+          <TextBox value={approvePartId} onChange={setApprovePartId} placeholder="part_1_10_1" />
+        </div>
+        <Button onClick={handleApprove}>承認</Button>
+      </div>
+      {approvals.length > 0 && (
+        <div className="users-table-container">
+          <table className="users-table content-table">
+            <thead>
+              <tr>
+                <th>ユーザーID</th>
+                <th>part_id</th>
+                <th>承認</th>
+                <th>操作</th>
+              </tr>
+            </thead>
+            <tbody>
+              {approvals.map(a => (
+                <tr key={a.approval_id}>
+                  <td>{a.user_id}</td>
+                  <td>{a.part_id}</td>
+                  <td>{a.created_at}（{a.approved_by}）</td>
+                  <td>
+                    <button onClick={() => handleRevoke(a)} className="cancel-btn">取消</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ProgressionEditor
@@ -0,0 +1,183 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import TextBox from './TextBox'
+import Button from './Button'
+import { API_URL } from '../config'
+import type { ClassInfo } from './ClassEditor'
+import './ContentEditor.css'
+import './QuestionDifficulty.css'
+
+// 管理者画面の問題ごとの難しさ（パート × 問題の順番のヒートマップと、失敗率の高い順の一覧）
+
+interface QuestionStat {
+  question_id: string
+  part_id: string
+  grade_id: number
+  part_no: number
+  subpart_no: number
+  display_order: number
+  is_demo: boolean
+  question_text: string
+  plays: number
+  students: number
+  missed: number
+  failure_rate: number
+  avg_correct_ms: number | null
+  wrong_transcripts: { text: string; count: number }[]
+}
+
+// 一覧に表示する問題数（失敗率の高い順）
+const TABLE_LIMIT = 20
+
+const partLabel = (q: QuestionStat) => `${q.grade_id}-${q.part_no}-${q.subpart_no}`
+const percent = (rate: number) => `${Math.round(rate * 100)}%`
+
+// 失敗率が高いほど濃い赤
+const heatColor = (rate: number) => `rgba(255, 80, 80, ${0.15 + rate * 0.85})`
+
+interface QuestionDifficultyProps {
+  classes: ClassInfo[]
+  onError: (message: string | null) => void
+}
+
+const QuestionDifficulty: React.FC<QuestionDifficultyProps> = ({ classes, onError }) => {
+  const [classId, setClassId] = useState('')
+  const [grade, setGrade] = useState('')
+  const [questions, setQuestions] = useState<QuestionStat[] | null>(null)
+  const [students, setStudents] = useState(0)
+  const [selected, setSelected] = useState<QuestionStat | null>(null)
+
+  const fetchStats = useCallback(async (targetClassId: string, targetGrade: string) => {
+    try {
+      const params = new URLSearchParams()
+      if (targetClassId) params.set('class_id', targetClassId)
+      if (Number(targetGrade)) params.set('grade', String(Number(targetGrade)))
+      const res = await fetch(`${API_URL}/admin/analytics/questions?${params}`, {
+        method: 'GET',
+        credentials: 'include',
+      })
+      const data = await res.json()
+      if (!res.ok || !data.ok) {
+        throw new Error(data.message || '問題ごとの集計の取得に失敗しました')
+      }
+      setQuestions(data.questions)
+      setStudents(data.students)
+      setSelected(null)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err))
+    }
+  }, [onError])
+
+  useEffect(() => {
+    fetchStats('', '')
+  }, [fetchStats])
+
+  // ヒートマップの行（パート）と列（問題の順番）
+  const partIds = [...new Set((questions ?? []).map(q => q.part_id))]
+  const orders = [...new Set((questions ?? []).map(q => q.display_order))].sort((a, b) => a - b)
+  const cell = (partId: string, order: number) =>
+    questions?.find(q => q.part_id === partId && q.display_order === order)
+  const rowLabel = (partId: string) => {
+    const q = questions?.find(q => q.part_id === partId)
+    return q ? partLabel(q) : partId
+  }
+  const sortedPartIds = partIds.sort((a, b) => rowLabel(a).localeCompare(rowLabel(b), undefined, { numeric: true }))
+
+  return (
+    <div className="content-editor">
+      <div className="form-row">
+        <div className="field">
+          <label>クラス</label>
+          <select className="content-select" value={classId} onChange={(e) => setClassId(e.target.value)}>
+            <option value="">すべて</option>
+            {classes.map(c => <option key={c.class_id} value={c.class_id}>{c.name}</option>)}
+          </select>
+        </div>
+        <div className="field field-narrow">
+          <label>学年（空欄はすべて）</label>
+          <TextBox value={grade} onChange={setGrade} placeholder="1" />
+        </div>
+        <Button onClick={() => fetchStats(classId, grade)}>集計</Button>
+      </div>
+
+      {questions && questions.length > 0 ? (
+        <>
+          <p>対象の生徒: {students} 人（色が濃いほど失敗率が高い。マスを選ぶと詳細を表示）</p>
+          <div className="users-table-container">
+            <table className="difficulty-heatmap">
+              <thead>
+                <tr>
+                  <th>パート</th>
+                  {orders.map(o => <th key={o}>{o}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {sortedPartIds.map(partId => (
+                  <tr key={partId}>
+                    <th>{rowLabel(partId)}</th>
+                    {orders.map(o => {
+                      const q = cell(partId, o)
+                      return q ? (
+                        <td
+                          key={o}
+                          style={{ background: heatColor(q.failure_rate) }}
+                          className={selected?.question_id === q.question_id ? 'selected' : undefined}
+                          title={`${q.question_text}\n失敗率 ${percent(q.failure_rate)}（${q.missed} / ${q.plays}）`}
+                          onClick={() => setSelected(q)}
+                        >
+                          {percent(q.failure_rate)}
+                        </td>
+                      ) : (
+                        <td key={o} />
+                      )
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {selected && (
+            <div className="register-result">
+              <p className="result-title">{selected.question_text || selected.question_id}（{partLabel(selected)} の {selected.display_order} 問目）</p>
+              <p>失敗率 {percent(selected.failure_rate)}（{selected.missed} / {selected.plays} プレイ、{selected.students} 人）</p>
+              <p>正解までの平均時間: {selected.avg_correct_ms !== null ? `${(selected.avg_correct_ms / 1000).toFixed(1)} 秒` : 'なし'}</p>
+              <p>よくある間違い: {selected.wrong_transcripts.length > 0
+                ? selected.wrong_transcripts.map(w => `"${w.text}"（${w.count}）`).join('、')
+                : 'なし'}</p>
+            </div>
+          )}
+
+          {/* 失敗率の高い順 */}
+          <div className="users-table-container">
+            <table className="users-table content-table">
+              <thead>
+                <tr>
+                  <th>問題</th>
+                  <th>パート</th>
+                  <th>失敗率</th>
+                  <th>正解までの平均時間</th>
+                  <th>よくある間違い</th>
+                </tr>
+              </thead>
+              <tbody>
+                {questions.slice(0, TABLE_LIMIT).map(q => (
+                  <tr key={q.question_id}>
+                    <td>{q.question_text || q.question_id}</td>
+                    <td>{partLabel(q)} の {q.display_order} 問目</td>
+                    <td>{percent(q.failure_rate)}（{q.missed} / {q.plays}）</td>
+                    <td>{q.avg_correct_ms !== null ? `${(q.avg_correct_ms / 1000).toFixed(1)} 秒` : '-'}</td>
+                    <td>{q.wrong_transcripts.map(w => `"${w.text}"（${w.count}）`).join('、')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : (
+        <p>データがありません</p>
+      )}
+    </div>
+  )
+}
+
+export default QuestionDifficulty
@@ -0,0 +1,103 @@
+import React, { useState } from 'react'
+import TextBox from './TextBox'
+import Button from './Button'
+import { API_URL } from '../config'
+import type { ClassInfo } from './ClassEditor'
+import './ContentEditor.css'
+
+// 管理者画面のレポートの出力（クラスごと・生徒ごと。期間を指定して CSV / Excel / 印刷用 PDF）
+
+type Target = 'class' | 'student'
+type Format = 'csv' | 'xlsx' | 'pdf'
+
+const FORMAT_LABELS: Record<Format, string> = { csv: 'CSV', xlsx: 'Excel', pdf: 'PDF（印刷用）' }
+
+// ダウンロード（fetch で認証クッキーを送るため、リンクではなく Blob で保存する）
+async function download(path: string, query: string) {
+  const res = await fetch(`${API_URL}/admin/reports${path}?${query}`, { credentials: 'include' })
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}))
+    throw new Error(data.message || 'レポートの出力に失敗しました')
+  }
+  // ファイル名はサーバーが付けたもの
+  const filename = /filename="([^"]+)"/.exec(res.headers.get('Content-Disposition') || '')?.[1] || 'report'
+  const url = URL.createObjectURL(await res.blob())
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+interface ReportExportProps {
+  classes: ClassInfo[]
+  onError: (message: string | null) => void
+}
+
+const ReportExport: React.FC<ReportExportProps> = ({ classes, onError }) => {
+  const [target, setTarget] = useState<Target>('class')
+  const [classId, setClassId] = useState('')
+  const [userId, setUserId] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+
+  const handleExport = async (format: Format) => {
+    onError(null)
+    const id = target === 'class' ? classId : userId.trim()
+    if (!id) {
+      onError(target === 'class' ? 'クラスを選択してください' : 'ユーザーIDを入力してください')
+      return
+    }
+    const params = new URLSearchParams({ format })
+    if (from) params.set('from', from)
+    if (to) params.set('to', to)
+    try {
+      await download(`/${target === 'class' ? 'classes' : 'students'}/${encodeURIComponent(id)}`, params.toString())
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  return (
+    <div className="content-editor">
+      <div className="form-row">
+        <div className="field field-narrow">
+          <label>対象</label>
+          <select className="content-select" value={target} onChange={(e) => setTarget(e.target.value as Target)}>
+            <option value="class">クラス</option>
+            <option value="student">生徒</option>
+          </select>
+        </div>
+        {target === 'class' ? (
+          <div className="field">
+            <label>クラス</label>
+            <select className="content-select" value={classId} onChange={(e) => setClassId(e.target.value)}>
+              <option value="">選択してください</option>
+              {classes.map(c => <option key={c.class_id} value={c.class_id}>{c.name}</option>)}
+            </select>
+          </div>
+        ) : (
+          <div className="field">
+            <label>ユーザーID</label>
+            <TextBox value={userId} onChange={setUserId} placeholder="10001" />
+          </div>
+        )}
+        <div className="field">
+          <label>開始日（空欄は最初から）</label>
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="edit-input" />
+        </div>
+        <div className="field">
+          <label>終了日（空欄は今日まで）</label>
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="edit-input" />
+        </div>
+      </div>
+      <div className="form-row">
+        {(Object.keys(FORMAT_LABELS) as Format[]).map(f => (
+          <Button key={f} onClick={() => handleExport(f)}>{FORMAT_LABELS[f]}</Button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default ReportExport
@@ -0,0 +1,27 @@
+import React from 'react';
+import './WordDiff.css'; // 専用CSS
+
+// サーバーの単語単位の対応付け（match: 一致 / substitute: 言い間違い / missing: 抜け / extra: 余分）
+// 不正解時のフィードバックでは正解側の単語（expected）は渡されない
+export type WordOp = {
+  op: 'match' | 'substitute' | 'missing' | 'extra';
+  expected?: string;
+  heard?: string;
+};
+
+type Props = {
+  words: WordOp[];
+};
+
+const WordDiff: React.FC<Props> = React.memo(({ words }) => (
+  <div className="word-diff">
+    {words.map((w, i) => (
+      <span key={i} className={`word-diff-word word-${w.op}`}>
+        {w.op === 'extra' ? w.heard : (w.expected ?? (w.op === 'missing' ? '___' : w.heard))}
+        {w.op === 'substitute' && w.expected && <span className="word-diff-heard">{w.heard}</span>}
+      </span>
+    ))}
+  </div>
+));
+
+export default WordDiff;
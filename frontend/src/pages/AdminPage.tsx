@@ -1,6 +1,16 @@
 import React, { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
 import TextBox from '../components/TextBox'
 import Button from '../components/Button'
+import ContentEditor from '../components/ContentEditor'
+import ContentTransfer from '../components/ContentTransfer'
+import ContentLint from '../components/ContentLint'
+import ProgressionEditor from '../components/ProgressionEditor'
+import PartLockEditor from '../components/PartLockEditor'
+import ClassEditor, { type ClassInfo } from '../components/ClassEditor'
+import QuestionDifficulty from '../components/QuestionDifficulty'
+import AnswerSuggestions from '../components/AnswerSuggestions'
+import ReportExport from '../components/ReportExport'
 import { API_URL } from '../config'
 import '../App.css'
 import './AdminPage.css'
@@ -8,7 +18,6 @@ import './AdminPage.css'
 interface User {
   id: number
   user_id: string
-  password: string
   nickname: string
   real_name: string
   current_grade: number
@@ -17,29 +26,51 @@ interface User {
   is_admin: boolean
   created_at: string
   updated_at: string
+  role: Role
+  class_ids: string[]
 }
 
+type Role = 'student' | 'teacher' | 'admin'
+
+const ROLE_LABELS: Record<Role, string> = { student: '生徒', teacher: '先生', admin: '管理者' }
+
 interface RegisterResult {
   user_id: string
   password: string
 }
 
 interface FailureStats {
-  users: string[]
+  users: { user_id: string; real_name: string; nickname: string }[]
   parts: string[]
   stats: Record<string, Record<string, number>>
+  total: number
+  page: number
+  page_size: number
 }
 
 const AdminPage: React.FC = () => {
+  // 先生は担当クラスの生徒のみ（教材・進級ルールなど全体の設定は管理者のみ）
+  const isSuperAdmin = localStorage.getItem('role') !== 'teacher'
+
   const [nickname, setNickname] = useState('')
   const [realName, setRealName] = useState('')
+  const [registerClassId, setRegisterClassId] = useState('')
   const [registerResult, setRegisterResult] = useState<RegisterResult | null>(null)
   const [users, setUsers] = useState<User[]>([])
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
 
+  // クラス
+  const [classes, setClasses] = useState<ClassInfo[]>([])
+
   // パート別ミス数
   const [failureStats, setFailureStats] = useState<FailureStats | null>(null)
+  const [failureClassId, setFailureClassId] = useState('')
+  const [failureGrade, setFailureGrade] = useState('')
+  const [failureFrom, setFailureFrom] = useState('')
+  const [failureTo, setFailureTo] = useState('')
+  // 表示中の結果の絞り込み条件（ページ送りは入力中の条件ではなくこれを使う）
+  const [failureQuery, setFailureQuery] = useState('')
 
   // パスワード変更
   const [resetUserId, setResetUserId] = useState('')
@@ -59,8 +90,8 @@ const AdminPage: React.FC = () => {
 
       const data = await res.json()
       if (data.ok && data.users) {
-        // is_admin=trueのユーザーを除外
-        const nonAdminUsers = data.users.filter((user: User) => !user.is_admin)
+        // 管理者を除外
+        const nonAdminUsers = data.users.filter((user: User) => user.role !== 'admin')
         setUsers(nonAdminUsers)
       }
     } catch (err) {
@@ -68,31 +99,75 @@ const AdminPage: React.FC = () => {
     }
   }
 
-  // パート別ミス数を取得
-  const fetchFailureStats = async () => {
+  // クラス一覧を取得（先生は担当クラスのみ）
+  const fetchClasses = async () => {
     try {
-      const res = await fetch(`${API_URL}/admin/failure-stats`, {
+      const res = await fetch(`${API_URL}/admin/classes`, {
         method: 'GET',
         credentials: 'include',
       })
 
       if (!res.ok) {
-        throw new Error('パート別ミス数の取得に失敗しました')
+        throw new Error('クラス一覧の取得に失敗しました')
+      }
+
+      const data = await res.json()
+      if (data.ok) {
+        setClasses(data.classes)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  // クラスの変更後（所属が変わるとユーザー一覧・ミス数も変わる）
+  const handleClassesChange = () => {
+    fetchClasses()
+    fetchUsers()
+    fetchFailureStats(failureQuery)
+  }
+
+  // 入力中の絞り込み条件
+  const failureFilters = () => {
+    const params = new URLSearchParams()
+    if (failureClassId) params.set('class_id', failureClassId)
+    if (Number(failureGrade)) params.set('grade', String(Number(failureGrade)))
+    if (failureFrom) params.set('from', failureFrom)
+    if (failureTo) params.set('to', failureTo)
+    return params.toString()
+  }
+
+  // パート別ミス数を取得（query は絞り込み条件、page は 1 から）
+  const fetchFailureStats = async (query: string, page = 1) => {
+    try {
+      const params = new URLSearchParams(query)
+      params.set('page', String(page))
+      const res = await fetch(`${API_URL}/admin/failure-stats?${params}`, {
+        method: 'GET',
+        credentials: 'include',
+      })
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error(data.message || 'パート別ミス数の取得に失敗しました')
       }
 
       const data = await res.json()
       if (data.ok) {
         setFailureStats(data)
+        setFailureQuery(query)
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : String(err))
     }
   }
 
-  // 初回ロード時にユーザー一覧とパート別ミス数を取得
+  // 初回ロード時にユーザー一覧・クラス一覧とパート別ミス数を取得
   useEffect(() => {
     fetchUsers()
-    fetchFailureStats()
+    fetchClasses()
+    fetchFailureStats('')
+    // 初回だけ（絞り込みを変えたときは「絞り込み」で取得し直す）
   }, [])
 
   // 新規ユーザー登録
@@ -111,7 +186,7 @@ const AdminPage: React.FC = () => {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify({ nickname, real_name: realName }),
+        body: JSON.stringify({ nickname, real_name: realName, class_id: registerClassId || undefined }),
       })
 
       const data = await res.json()
@@ -131,13 +206,14 @@ const AdminPage: React.FC = () => {
 
       // ユーザー一覧を再取得
       fetchUsers()
+      fetchClasses()
     } catch (err) {
       setError(err instanceof Error ? err.message : String(err))
     }
   }
 
-  // ユーザー情報更新
-  const handleUpdate = async (userId: string, currentGrade: number, currentPart: number, currentSubpart: number) => {
+  // ユーザー情報更新（role は変更した場合のみ）
+  const handleUpdate = async (userId: string, currentGrade: number, currentPart: number, currentSubpart: number, role?: Role) => {
     setError(null)
     setSuccess(null)
 
@@ -146,7 +222,7 @@ const AdminPage: React.FC = () => {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify({ current_grade: currentGrade, current_part: currentPart, current_subpart: currentSubpart}),
+        body: JSON.stringify({ current_grade: currentGrade, current_part: currentPart, current_subpart: currentSubpart, role }),
       })
 
       const data = await res.json()
@@ -219,6 +295,14 @@ const AdminPage: React.FC = () => {
               <label>ニックネーム</label>
               <TextBox value={nickname} onChange={setNickname} placeholder="taro" />
             </div>
+            <div className="field">
+              <label>クラス</label>
+              <select className="content-select" value={registerClassId} onChange={(e) => setRegisterClassId(e.target.value)}>
+                {isSuperAdmin && <option value="">なし</option>}
+                {!isSuperAdmin && !registerClassId && <option value="">選択してください</option>}
+                {classes.map(c => <option key={c.class_id} value={c.class_id}>{c.name}</option>)}
+              </select>
+            </div>
             <Button onClick={handleRegister}>登録</Button>
           </div>
 
@@ -272,6 +356,8 @@ const AdminPage: React.FC = () => {
                 <th>ユーザーID</th>
                 <th>ニックネーム</th>
                 <th>名前</th>
+                <th>クラス</th>
+                <th>権限</th>
                 <th>解いている最新の学年</th>
                 <th>解いている最新のパート</th>
                 <th>解いている最新のサブパート</th>
@@ -283,6 +369,8 @@ const AdminPage: React.FC = () => {
                 <UserRow
                   key={user.user_id}
                   user={user}
+                  classes={classes}
+                  canEditRole={isSuperAdmin}
                   onUpdate={handleUpdate}
                 />
               ))}
@@ -291,32 +379,128 @@ const AdminPage: React.FC = () => {
         </div>
       </section>
 
+      {/* クラスセクション */}
+      <section className="admin-section">
+        <h2 className="section-title">クラス</h2>
+        <ClassEditor classes={classes} isSuperAdmin={isSuperAdmin} onChange={handleClassesChange} onError={setError} onSuccess={setSuccess} />
+      </section>
+
+      {/* 教材編集セクション（管理者のみ） */}
+      {isSuperAdmin && (
+        <section className="admin-section">
+          <h2 className="section-title">教材編集</h2>
+          <ContentEditor onError={setError} onSuccess={setSuccess} />
+        </section>
+      )}
+
+      {/* 教材のインポート・エクスポートセクション（管理者のみ） */}
+      {isSuperAdmin && (
+        <section className="admin-section">
+          <h2 className="section-title">教材のインポート・エクスポート</h2>
+          <ContentTransfer onError={setError} onSuccess={setSuccess} />
+        </section>
+      )}
+
+      {/* 教材チェックセクション */}
+      <section className="admin-section">
+        <h2 className="section-title">教材チェック</h2>
+        <ContentLint onError={setError} />
+      </section>
+
+      {/* 進級ルールセクション */}
+      <section className="admin-section">
+        <h2 className="section-title">進級ルール</h2>
+        <ProgressionEditor canEditRules={isSuperAdmin} onError={setError} onSuccess={setSuccess} />
+      </section>
+
+      {/* パートのロックセクション */}
+      <section className="admin-section">
+        <h2 className="section-title">パートのロック</h2>
+        <PartLockEditor classes={classes} isSuperAdmin={isSuperAdmin} onError={setError} onSuccess={setSuccess} />
+      </section>
+
+      {/* 問題ごとの難しさセクション */}
+      <section className="admin-section">
+        <h2 className="section-title">問題ごとの難しさ</h2>
+        <QuestionDifficulty classes={classes} onError={setError} />
+      </section>
+
+      {/* 正解パターンの候補セクション */}
+      <section className="admin-section">
+        <h2 className="section-title">正解パターンの候補</h2>
+        <AnswerSuggestions classes={classes} isSuperAdmin={isSuperAdmin} onError={setError} onSuccess={setSuccess} />
+      </section>
+
+      {/* レポートセクション */}
+      <section className="admin-section">
+        <h2 className="section-title">レポート</h2>
+        <ReportExport classes={classes} onError={setError} />
+      </section>
+
       {/* パート別ミス数セクション */}
       <section className="admin-section failure-stats-section">
         <h2 className="section-title">パート別ミス数</h2>
+        <div className="form-row">
+          <div className="field">
+            <label>クラス</label>
+            <select className="content-select" value={failureClassId} onChange={(e) => setFailureClassId(e.target.value)}>
+              <option value="">すべて</option>
+              {classes.map(c => <option key={c.class_id} value={c.class_id}>{c.name}</option>)}
+            </select>
+          </div>
+          <div className="field">
+            <label>学年（空欄はすべて）</label>
+            <TextBox value={failureGrade} onChange={setFailureGrade} placeholder="1" />
+          </div>
+          <div className="field">
+            <label>開始日</label>
+            <input type="date" value={failureFrom} onChange={(e) => setFailureFrom(e.target.value)} className="edit-input" />
+          </div>
+          <div className="field">
+            <label>終了日</label>
+            <input type="date" value={failureTo} onChange={(e) => setFailureTo(e.target.value)} className="edit-input" />
+          </div>
+          <Button onClick={() => fetchFailureStats(failureFilters())}>絞り込み</Button>
+        </div>
         {failureStats && failureStats.users.length > 0 && failureStats.parts.length > 0 ? (
-          <div className="failure-stats-table-container">
-            <table className="failure-stats-table">
-              <thead>
-                <tr>
-                  <th className="fixed-column">ユーザー名</th>
-                  {failureStats.parts.map((part, index) => (
-                    <th key={`header-${part}-${index}`}>{part}</th>
-                  ))}
-                </tr>
-              </thead>
-              <tbody>
-                {failureStats.users.map((userName) => (
-                  <tr key={userName}>
-                    <td className="fixed-column">{userName}</td>
+          <>
+            <div className="failure-stats-table-container">
+              <table className="failure-stats-table">
+                <thead>
+                  <tr>
+                    <th className="fixed-column">ユーザー名</th>
                     {failureStats.parts.map((part, index) => (
-                      <td key={`${userName}-${part}-${index}`}>{failureStats.stats[userName]?.[part] || 0}</td>
+                      <th key={`header-${part}-${index}`}>{part}</th>
                     ))}
                   </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
+                </thead>
+                <tbody>
+                  {failureStats.users.map((u) => (
+                    <tr key={u.user_id}>
+                      <td className="fixed-column">{u.real_name}（{u.user_id}）</td>
+                      {failureStats.parts.map((part, index) => (
+                        <td key={`${u.user_id}-${part}-${index}`}>{failureStats.stats[u.user_id]?.[part] || 0}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {/* ページ送り（生徒は user_id 順） */}
+            <div className="form-row">
+              <button onClick={() => fetchFailureStats(failureQuery, failureStats.page - 1)} disabled={failureStats.page <= 1} className="edit-btn">前へ</button>
+              <span>
+                {failureStats.page} / {Math.max(1, Math.ceil(failureStats.total / failureStats.page_size))} ページ（全 {failureStats.total} 人）
+              </span>
+              <button
+                onClick={() => fetchFailureStats(failureQuery, failureStats.page + 1)}
+                disabled={failureStats.page * failureStats.page_size >= failureStats.total}
+                className="edit-btn"
+              >
+                次へ
+              </button>
+            </div>
+          </>
         ) : (
           <p>データがありません</p>
         )}
@@ -328,17 +512,20 @@ const AdminPage: React.FC = () => {
 // ユーザー行コンポーネント
 interface UserRowProps {
   user: User
-  onUpdate: (userId: string, currentGrade: number, currentPart: number, currentSubpart: number) => void
+  classes: ClassInfo[]
+  canEditRole: boolean
+  onUpdate: (userId: string, currentGrade: number, currentPart: number, currentSubpart: number, role?: Role) => void
 }
 
-const UserRow: React.FC<UserRowProps> = ({ user, onUpdate }) => {
+const UserRow: React.FC<UserRowProps> = ({ user, classes, canEditRole, onUpdate }) => {
   const [currentGrade, setCurrentGrade] = useState(user.current_grade)
   const [currentPart, setCurrentPart] = useState(user.current_part)
   const [currentSubpart, setCurrentSubpart] = useState(user.current_subpart)
+  const [role, setRole] = useState<Role>(user.role)
   const [isEditing, setIsEditing] = useState(false)
 
   const handleSave = () => {
-    onUpdate(user.user_id, currentGrade, currentPart, currentSubpart)
+    onUpdate(user.user_id, currentGrade, currentPart, currentSubpart, role !== user.role ? role : undefined)
     setIsEditing(false)
   }
 
@@ -346,14 +533,27 @@ const UserRow: React.FC<UserRowProps> = ({ user, onUpdate }) => {
     setCurrentGrade(user.current_grade)
     setCurrentPart(user.current_part)
     setCurrentSubpart(user.current_subpart)
+    setRole(user.role)
     setIsEditing(false)
   }
 
+  const classNames = user.class_ids.map(id => classes.find(c => c.class_id === id)?.name ?? id).join('、')
+
   return (
     <tr>
       <td>{user.user_id}</td>
       <td>{user.nickname}</td>
       <td>{user.real_name}</td>
+      <td>{classNames}</td>
+      <td>
+        {isEditing && canEditRole ? (
+          <select value={role} onChange={(e) => setRole(e.target.value as Role)} className="edit-input">
+            {(Object.keys(ROLE_LABELS) as Role[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+          </select>
+        ) : (
+          ROLE_LABELS[role]
+        )}
+      </td>
       <td>
         {isEditing ? (
           <input
@@ -400,7 +600,10 @@ const UserRow: React.FC<UserRowProps> = ({ user, onUpdate }) => {
             <button onClick={handleCancel} className="cancel-btn">キャンセル</button>
           </div>
         ) : (
-          <button onClick={() => setIsEditing(true)} className="edit-btn">編集</button>
+          <div className="edit-buttons">
+            <button onClick={() => setIsEditing(true)} className="edit-btn">編集</button>
+            <Link to={`/admin/students/${encodeURIComponent(user.user_id)}`} className="edit-btn">詳細</Link>
+          </div>
         )}
       </td>
     </tr>
@@ -15,6 +15,7 @@ interface LoginResponse {
     current_grade: number
     current_part: number
     is_admin: boolean
+    role?: 'student' | 'teacher' | 'admin'
   }
 }
 
@@ -49,13 +50,15 @@ const LoginPage: React.FC = () => {
       localStorage.setItem('current_grade', String(user.current_grade ?? ''))
       localStorage.setItem('current_part',  String(user.current_part  ?? ''))
       localStorage.setItem('is_admin', String(user.is_admin ?? false))
+      localStorage.setItem('role', user.role ?? (user.is_admin ? 'admin' : 'student'))
 
       console.log('Login successful, user info:', {
         userId: user.userId,
         name: user.name,
         current_grade: user.current_grade,
         current_part: user.current_part,
-        is_admin: user.is_admin
+        is_admin: user.is_admin,
+        role: user.role
       })
 
       // クッキーが設定されているか確認（開発者ツールで確認用）
@@ -2,7 +2,10 @@ import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
 import axios from 'axios';
 import Button from '../components/Button';
+import WordDiff, { type WordOp } from '../components/WordDiff';
 import { API_URL } from '../config';
+import { createSpeechRecognizer, getRecognizerKind, type RecognizerKind, type SpeechRecognizer } from '../utils/speechRecognizer';
+import { resolveImageUrl, imageSrcSet, preloadQuestionImages, type ImageVariant } from '../utils/questionImage';
 import '../App.css';
 import './PlayPage.css';
 
@@ -14,12 +17,30 @@ type Q = {
   is_demo: boolean;
   question_text: string;
   image_url: string;
-  answers: string[];
+  image_variants?: ImageVariant[]; // ★ 管理画面からアップロードした画像の幅ごとの URL
+  answers?: string[]; // ★ 正解・時間切れ・デモで公開されるまでサーバーから渡されない
+  pronunciation?: Pronunciation | null; // ★ 解答の公開時にサーバーから返る発音スコア
 };
-type PartInfo = { part_id: string; requirement: string };
+// answers[0] と聞き取った内容の単語単位の比較（score: 0〜100）
+type Pronunciation = { score: number; transcript: string; words: WordOp[] };
+// question_count / correct_to_clear / time_limit はパートごとの設定（サーバーが既定値で補って返す）
+type PartInfo = { part_id: string; requirement: string; question_count: number; correct_to_clear: number; time_limit: number };
+// 回答方法（SelectPage で選択。キーボード入力は同じ判定で、スコアは別に記録される）
+type InputMode = 'voice' | 'typed';
+// プレイの種類（進捗を更新するのは play のみ）
+//   practice: 練習。進捗までのパートを選んでプレイし、スコアは練習として別に記録される
+//   review  : 復習。クリア済みのパートで間違えた問題を出題する
+type PlayMode = 'play' | 'practice' | 'review';
 type EnemyVariant = 'normal' | 'ko' | 'attack';
 
 // State Machine Types
+// 音声認識の候補（alternatives を含む）
+type CapturedSpeech = {
+  transcript: string;
+  confidence: number;
+  isFinal: boolean;
+};
+
 type IntermissionSnapshot = {
   text: string;
   answer: string;
@@ -61,42 +82,11 @@ type GameAction =
 // Legacy type for backward compatibility
 type Status = GamePhase;
 
-interface SpeechRecognitionEvent extends Event {
-  resultIndex: number;
-  results: SpeechRecognitionResultList;
-}
-
-interface SpeechRecognitionErrorEvent extends Event {
-  error: string;
-}
-
-interface SpeechRecognition extends EventTarget {
-  lang: string;
-  continuous: boolean;
-  interimResults: boolean;
-  maxAlternatives: number;
-  start(): void;
-  stop(): void;
-  onresult: ((event: SpeechRecognitionEvent) => void) | null;
-  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
-  onend: (() => void) | null;
-}
-
-interface SpeechRecognitionConstructor {
-  new(): SpeechRecognition;
-}
-
-declare global {
-  interface Window {
-    webkitSpeechRecognition?: SpeechRecognitionConstructor;
-    SpeechRecognition?: SpeechRecognitionConstructor;
-  }
-}
-
 // --------------------------- Consts ---------------------------
-const CORRECT_TO_CLEAR = 5;
-const MAX_QUESTIONS = 8;
-const TIME_LIMIT = 30; // 制限時間（秒）
+const DEFAULT_TIME_LIMIT = 30; // 制限時間（秒）。パートの time_limit を読み込むまでの値
+const REVIEW_REQUIREMENT = 'Review: try the questions you missed before!';
+// 問題画像の表示幅（PlayPage.css の .question-image の max-width と合わせる）
+const QUESTION_IMAGE_SIZES = '(max-width: 768px) 150px, 300px';
 
 const DLY = {
   betweenSpeaks: 1200,
@@ -115,64 +105,6 @@ const SOUND_EFFECT_VOLUME = 0.2;
 const TTS_VOLUME = 1.0;
 
 // ------------------------ Utilities --------------------------
-// 正規表現を事前にコンパイル（性能最適化）
-const NORMALIZE_REGEX_1 = /[^a-z0-9\s]/g;
-const NORMALIZE_REGEX_2 = /\s+/g;
-
-const normalize = (s: string) =>
-  s.toLowerCase().replace(NORMALIZE_REGEX_1, '').replace(NORMALIZE_REGEX_2, ' ').trim();
-
-function lev(a: string, b: string, maxDistance?: number) {
-  const m = a.length, n = b.length;
-
-  // 性能最適化: 長さの差が大きすぎる場合は早期終了
-  if (maxDistance !== undefined && Math.abs(m - n) > maxDistance) {
-    return maxDistance + 1;
-  }
-
-  // 性能最適化: 空文字列のケース
-  if (m === 0) return n;
-  if (n === 0) return m;
-
-  const dp = Array.from({ length: m + 1 }, () => new Array(n + 1).fill(0));
-  for (let i = 0; i <= m; i++) dp[i][0] = i;
-  for (let j = 0; j <= n; j++) dp[0][j] = j;
-
-  for (let i = 1; i <= m; i++) {
-    let minInRow = Infinity;
-    for (let j = 1; j <= n; j++) {
-      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
-      dp[i][j] = Math.min(
-        dp[i - 1][j] + 1,
-        dp[i][j - 1] + 1,
-        dp[i - 1][j - 1] + cost
-      );
-      minInRow = Math.min(minInRow, dp[i][j]);
-    }
-    // 性能最適化: この行の最小値が閾値を超えたら早期終了
-    if (maxDistance !== undefined && minInRow > maxDistance) {
-      return maxDistance + 1;
-    }
-  }
-  return dp[m][n];
-}
-
-const simLevenshtein = (a: string, b: string) => {
-  if (!a.length && !b.length) return 1;
-  const d = lev(a, b);
-  return 1 - d / Math.max(a.length, b.length);
-};
-
-const jaccard = (a: string, b: string) => {
-  const A = new Set(a.split(' ').filter(Boolean));
-  const B = new Set(b.split(' ').filter(Boolean));
-  if (A.size === 0 && B.size === 0) return 1;
-  let inter = 0;
-  A.forEach(w => { if (B.has(w)) inter++; });
-  const uni = A.size + B.size - inter;
-  return inter / uni;
-};
-
 function playSound(filename: string) {
   const audio = new Audio(`/${filename}`);
   audio.volume = SOUND_EFFECT_VOLUME;
@@ -284,9 +216,11 @@ const delay = (ms: number, signal?: AbortSignal): Promise<void> => {
 const PlayPage: React.FC = () => {
   const nav = useNavigate();
   const loc = useLocation();
-  const { grade, part, subpart } =
-    (loc.state as { grade?: string; part?: string; subpart?: string } | null) || 
-    { grade: undefined, part: undefined, subpart: undefined };
+  const { grade, part, subpart, inputMode: selectedInputMode, mode: selectedMode } =
+    (loc.state as { grade?: string; part?: string; subpart?: string; inputMode?: InputMode; mode?: PlayMode } | null) || 
+    { grade: undefined, part: undefined, subpart: undefined, inputMode: undefined, mode: undefined };
+  const inputMode: InputMode = (selectedInputMode ?? localStorage.getItem('input_mode')) === 'typed' ? 'typed' : 'voice';
+  const playMode: PlayMode = selectedMode === 'review' || selectedMode === 'practice' ? selectedMode : 'play';
 
   const [loading, setLoading] = useState(true);
   const [partInfo, setPartInfo] = useState<PartInfo | null>(null);
@@ -296,7 +230,7 @@ const PlayPage: React.FC = () => {
   const [showText, setShowText] = useState(false);
   const [realCorrect, setRealCorrect] = useState(0);
   const [error, setError] = useState<string | null>(null);
-  const [remainingTime, setRemainingTime] = useState(TIME_LIMIT); // カウントダウンタイマー
+  const [remainingTime, setRemainingTime] = useState(DEFAULT_TIME_LIMIT); // カウントダウンタイマー
 
   // State Machine
   const [gameState, dispatch] = React.useReducer(gameStateReducer, initialGameState);
@@ -304,13 +238,28 @@ const PlayPage: React.FC = () => {
 
   const [micActive, setMicActive] = useState(false);
   const [lastRecognized, setLastRecognized] = useState<string>('');
-
-  const recognitionRef = useRef<SpeechRecognition | null>(null);
-  const capturedRef = useRef<string[]>([]);
+  // ★ 認識の信頼度が低く、言い直しを求めている
+  const [sayAgain, setSayAgain] = useState(false);
+  // ★ 不正解だった回答と最も近い正解との単語の違い（次の回答を始めるまで表示）
+  const [wrongFeedback, setWrongFeedback] = useState<WordOp[] | null>(null);
+  // キーボード入力モードの入力中の回答
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const typedInputRef = useRef<HTMLInputElement | null>(null);
+
+  const recognitionRef = useRef<SpeechRecognizer | null>(null);
+  const capturedRef = useRef<CapturedSpeech[]>([]);
   const stoppingRef = useRef(false);
   const micActiveRef = useRef(false);
   useEffect(() => { micActiveRef.current = micActive; }, [micActive]);
 
+  // 使う音声認識の種類（undefined は確認中、null は使えない）
+  // ★ サーバー側の認識は GET /asr/status の確認が要るため、マイクを押す前に確認しておく
+  const recognizerKindRef = useRef<RecognizerKind | null | undefined>(undefined);
+  useEffect(() => {
+    if (inputMode !== 'voice') return;
+    getRecognizerKind().then(kind => { recognizerKindRef.current = kind; });
+  }, [inputMode]);
+
   const [bannerText, setBannerText] = useState<string | null>(null);
 
   // AbortController for cancellable async operations
@@ -328,18 +277,67 @@ const PlayPage: React.FC = () => {
   const idxRef = useRef(0);
   const statusRef = useRef<Status>('idle');
   const realCorrectRef = useRef(0);
-  const remainingTimeRef = useRef(TIME_LIMIT);
+  const remainingTimeRef = useRef(DEFAULT_TIME_LIMIT);
+  const timeLimitRef = useRef(DEFAULT_TIME_LIMIT); // パートの制限時間（秒）
+  const correctToClearRef = useRef(0); // パートのクリアに必要な正解数（リザルト画面で表示）
   const timerIntervalRef = useRef<number | null>(null);
 
+  // プレイセッション（正誤判定・集計はサーバー側）
+  const sessionIdRef = useRef<string>('');
+  const questionStartedAtRef = useRef<number>(Date.now());
+
   useEffect(() => { questionsRef.current = questions; }, [questions]);
   useEffect(() => { idxRef.current = idx; }, [idx]);
   useEffect(() => { statusRef.current = status; }, [status]);
   useEffect(() => { realCorrectRef.current = realCorrect; }, [realCorrect]);
   useEffect(() => { remainingTimeRef.current = remainingTime; }, [remainingTime]);
 
+  // ★ キーボード入力モードでは、回答できる状態になったら入力欄にフォーカス
+  useEffect(() => {
+    if (inputMode === 'typed' && ['speaking', 'listening', 'wrong'].includes(status)) {
+      typedInputRef.current?.focus();
+    }
+  }, [inputMode, status]);
+
   const current = questions[idx];
   const questionNo = idx + 1;
 
+  // ---------------------- Play Session ----------------------
+  // ★ 公開された解答を問題データに反映
+  const storeAnswers = useCallback((questionId: string, answers: string[], pronunciation: Pronunciation | null = null) => {
+    const next = questionsRef.current.map(q => (q.question_id === questionId ? { ...q, answers, pronunciation } : q));
+    questionsRef.current = next;
+    setQuestions(next);
+  }, []);
+
+  // ★ 解答を公開してもらう（デモ問題・時間切れ。時間切れはサーバー側で記録される）
+  const revealAnswers = useCallback(async (q: Q, transcripts: string[] = []): Promise<string[]> => {
+    if (q.answers) return q.answers;
+    try {
+      const r = await fetch(`${API_URL}/game/session/${encodeURIComponent(sessionIdRef.current)}/reveal`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          question_id: q.question_id,
+          transcripts,
+          time_ms: Date.now() - questionStartedAtRef.current,
+        }),
+      });
+      if (!r.ok) {
+        console.warn('[Session] Reveal failed:', r.status);
+        return [];
+      }
+      const data = await r.json();
+      const answers: string[] = data.answers || [];
+      storeAnswers(q.question_id, answers, data.pronunciation ?? null);
+      return answers;
+    } catch (err) {
+      console.warn('[Session] Reveal failed:', err);
+      return [];
+    }
+  }, [storeAnswers]);
+
   // ---------------------- Countdown Timer ----------------------
   const handleTimeUp = useCallback(async () => {
     // 既に処理中の場合はスキップ
@@ -354,6 +352,10 @@ const PlayPage: React.FC = () => {
     // 音声認識を完全停止
     forceStopRecognition();
 
+    // ★ 時間切れをサーバーに通知して解答を受け取る（評価前に聞き取れていた内容も記録される）
+    const timedOut = questionsRef.current[idxRef.current];
+    const revealPromise = timedOut ? revealAnswers(timedOut, capturedRef.current.map(c => c.transcript)) : Promise.resolve([]);
+
     // ★ 音量を確実に復元（マイクオン中にタイムアップした場合の対策）
     originalVolumeRef.current = TTS_VOLUME;
     console.log('[Timer] Audio volume restored after force stopping mic');
@@ -377,9 +379,9 @@ const PlayPage: React.FC = () => {
       dispatch({ type: 'REVEAL_ANSWER' });
       statusRef.current = 'reveal';
 
-      const q = questionsRef.current[idxRef.current];
-      if (q?.answers?.[0]) {
-        await speakAwaitTTS(q.answers[0], true);
+      const answers = await revealPromise;
+      if (answers[0]) {
+        await speakAwaitTTS(answers[0], true);
       }
 
       if (!isProcessingRef.current) {
@@ -412,8 +414,8 @@ const PlayPage: React.FC = () => {
     }
 
     // タイマーをリセット
-    setRemainingTime(TIME_LIMIT);
-    remainingTimeRef.current = TIME_LIMIT;
+    setRemainingTime(timeLimitRef.current);
+    remainingTimeRef.current = timeLimitRef.current;
 
     // 1秒ごとにカウントダウン
     timerIntervalRef.current = window.setInterval(() => {
@@ -486,7 +488,7 @@ const PlayPage: React.FC = () => {
         recognitionRef.current.onend = null;
         recognitionRef.current.onerror = null;
         recognitionRef.current.onresult = null;
-        recognitionRef.current.stop();
+        recognitionRef.current.abort();
         recognitionRef.current = null;
       }
     } catch (e) {
@@ -538,28 +540,54 @@ const PlayPage: React.FC = () => {
         const p = part ?? localStorage.getItem('current_part') ?? '1';
         const s = subpart ?? localStorage.getItem('current_subpart') ?? '1';
 
-        console.log('[Load] Fetching data for:', { grade: g, part: p, subpart: s });
+        // ★ 復習はパートに属さないため、パート情報は取得しない（問題はサーバーが選ぶ）
+        let partData: PartInfo | null = null;
+        if (playMode !== 'review') {
+          console.log('[Load] Fetching data for:', { grade: g, part: p, subpart: s, mode: playMode });
 
-        const r1 = await fetch(`${API_URL}/game/part?grade=${g}&part=${p}&subpart=${s}`, {
-          credentials: 'include'
-        });
-        if (!r1.ok) {
-          const errorData = await r1.json().catch(() => ({ message: 'part 取得失敗' }));
-          throw new Error(errorData.message || 'part 取得失敗');
+          const r1 = await fetch(`${API_URL}/game/part?grade=${g}&part=${p}&subpart=${s}`, {
+            credentials: 'include'
+          });
+          if (!r1.ok) {
+            const errorData = await r1.json().catch(() => ({ message: 'part 取得失敗' }));
+            throw new Error(errorData.message || 'part 取得失敗');
+          }
+          const j1 = await r1.json();
+          partData = j1.part as PartInfo;
+          console.log('[Load] Part info loaded:', j1.part);
         }
-        const j1 = await r1.json();
-        setPartInfo(j1.part);
-        console.log('[Load] Part info loaded:', j1.part);
 
-        const r2 = await fetch(`${API_URL}/game/questions?part_id=${encodeURIComponent(j1.part.part_id)}`, {
-          credentials: 'include'
+        // ★ プレイ開始（問題は解答なしで返る）
+        const r2 = await fetch(`${API_URL}/game/session`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify(
+            partData
+              ? { part_id: partData.part_id, input_mode: inputMode, mode: playMode }
+              : { mode: 'review', input_mode: inputMode }
+          ),
         });
         if (!r2.ok) {
           const errorData = await r2.json().catch(() => ({ message: 'questions 取得失敗' }));
           throw new Error(errorData.message || 'questions 取得失敗');
         }
         const j2 = await r2.json();
-        const qs: Q[] = (j2.questions || []).slice(0, MAX_QUESTIONS);
+        sessionIdRef.current = j2.session_id;
+        if (!partData) {
+          partData = {
+            part_id: '',
+            requirement: REVIEW_REQUIREMENT,
+            question_count: (j2.questions || []).length,
+            correct_to_clear: Number(j2.correct_to_clear ?? 0),
+            time_limit: Number(j2.time_limit ?? DEFAULT_TIME_LIMIT),
+          };
+        }
+        setPartInfo(partData);
+        timeLimitRef.current = partData.time_limit || DEFAULT_TIME_LIMIT;
+        setRemainingTime(timeLimitRef.current);
+        correctToClearRef.current = Number(j2.correct_to_clear ?? partData.correct_to_clear ?? 0);
+        const qs: Q[] = (j2.questions || []).slice(0, partData.question_count || undefined);
 
         console.log('[Load] Questions loaded:', {
           total: qs.length,
@@ -569,6 +597,7 @@ const PlayPage: React.FC = () => {
 
         setQuestions(qs);
         questionsRef.current = qs;
+        preloadQuestionImages(qs, QUESTION_IMAGE_SIZES);
         setIdx(0);
         idxRef.current = 0;
         setRealCorrect(0);
@@ -591,7 +620,7 @@ const PlayPage: React.FC = () => {
       stopTimer();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [grade, part, subpart, forceStopRecognition, stopTimer]);
+  }, [grade, part, subpart, playMode, forceStopRecognition, stopTimer]);
 
   // ---------------------- Audio Control ----------------------
   const muteCurrentAudio = useCallback(() => {
@@ -912,6 +941,9 @@ const PlayPage: React.FC = () => {
     setShowText(false);
     dispatch({ type: 'RESET_TO_IDLE' });
     setLastRecognized('');
+    setSayAgain(false);
+    setWrongFeedback(null);
+    setTypedAnswer('');
     capturedRef.current = [];
 
     stopCurrentAudio();
@@ -928,6 +960,7 @@ const PlayPage: React.FC = () => {
 
       dispatch({ type: 'START_SPEAKING' });
       statusRef.current = 'speaking';
+      questionStartedAtRef.current = Date.now();
 
       // ★ 1回目の読み上げ
       await speakAwaitTTS(q.question_text);
@@ -958,6 +991,9 @@ const PlayPage: React.FC = () => {
         isProcessingRef.current = true;
         stopCurrentAudio();
 
+        // ★ デモの解答を取得（演出と並行）
+        const revealPromise = revealAnswers(q);
+
         // ★ 攻撃音を再生（非同期で開始）
         const attackSoundPromise = playSoundAwait('attack.mp3');
         dispatch({ type: 'START_BEAM' });
@@ -976,8 +1012,9 @@ const PlayPage: React.FC = () => {
         await attackSoundPromise;
         console.log('[Sound] Attack sound finished, now playing answer');
 
-        if (q.answers?.[0]) {
-          await speakAwaitTTS(q.answers[0], true);
+        const demoAnswers = await revealPromise;
+        if (demoAnswers[0]) {
+          await speakAwaitTTS(demoAnswers[0], true);
         }
 
         await delay(DLY.afterReveal, abortControllerRef.current.signal);
@@ -1000,7 +1037,7 @@ const PlayPage: React.FC = () => {
       }
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [speakAwaitTTS, stopCurrentAudio, forceStopRecognition, startFreezeDetection, updateActivity, startTimer]);
+  }, [speakAwaitTTS, stopCurrentAudio, forceStopRecognition, startFreezeDetection, updateActivity, startTimer, revealAnswers]);
 
   // ---------------------- Intermission => Next ----------------------
   const startIntermissionThenNext = useCallback(async () => {
@@ -1086,9 +1123,16 @@ const PlayPage: React.FC = () => {
   }, [status, micActive]);
 
   const startRecognition = useCallback(() => {
-    const SR = window.webkitSpeechRecognition || window.SpeechRecognition;
-    if (!SR) {
-      alert('このブラウザは音声認識に未対応です(Chrome 推奨)');
+    // ★ Web Speech API が無いブラウザでは録音してサーバー側で認識する
+    const kind = recognizerKindRef.current;
+    if (kind === undefined) {
+      console.log('[ASR] Recognizer check in progress');
+      return;
+    }
+    const rec = createSpeechRecognizer(kind);
+    if (!rec) {
+      // 録音を始める前に知らせる（ステージ選択でキーボード入力を選べる）
+      alert('このブラウザでは音声認識を使えません。ステージ選択で「Keyboard」を選んでください');
       return;
     }
 
@@ -1102,36 +1146,48 @@ const PlayPage: React.FC = () => {
       updateActivity();
     }
 
-    const rec = new SR();
     recognitionRef.current = rec;
     capturedRef.current = [];
     setLastRecognized('');
+    setSayAgain(false);
+    setWrongFeedback(null);
     stoppingRef.current = false;
 
-    rec.lang = 'en-US';
-    rec.continuous = true;
-    rec.interimResults = true;
-    rec.maxAlternatives = 3;
-
-    rec.onresult = (e: SpeechRecognitionEvent) => {
-      for (let i = e.resultIndex; i < e.results.length; i++) {
-        const result = e.results[i];
-        const alt = result[0];
-        const text = alt?.transcript ?? '';
-        if (text && text.trim()) {
-          const t = text.trim();
-          if (!capturedRef.current.includes(t)) {
-            capturedRef.current.push(t);
+    rec.onresult = (results) => {
+      for (const result of results) {
+        // ★ 第1候補だけでなく、すべての候補を判定に使う
+        for (let k = 0; k < result.alternatives.length; k++) {
+          const alt = result.alternatives[k];
+          const t = alt.transcript.trim();
+          if (!t) continue;
+          const confidence = alt.confidence;
+          const existing = capturedRef.current.find(c => c.transcript === t);
+          if (existing) {
+            existing.confidence = Math.max(existing.confidence, confidence);
+            existing.isFinal = existing.isFinal || result.isFinal;
+            continue;
+          }
+          capturedRef.current.push({ transcript: t, confidence, isFinal: result.isFinal });
+          if (k === 0) {
             setLastRecognized(t);
             dispatch({ type: 'RECOGNITION_DETECTED' });
-            console.log('[ASR] Captured:', { text: t, confidence: alt?.confidence, isFinal: result.isFinal });
           }
+          console.log('[ASR] Captured:', { text: t, alternative: k, confidence, isFinal: result.isFinal });
         }
       }
     };
 
-    rec.onerror = (e: SpeechRecognitionErrorEvent) => {
-      console.warn('[ASR] Error:', e.error);
+    rec.onerror = (error) => {
+      console.warn('[ASR] Error:', { kind: rec.kind, error });
+      // ★ マイクが使えない・認識サーバーが無い場合は、マイクをオフにして知らせる
+      if (['not-allowed', 'audio-capture', 'service-not-allowed'].includes(error)) {
+        stoppingRef.current = true;
+        setMicActive(false);
+        micActiveRef.current = false;
+        alert(error === 'service-not-allowed'
+          ? '音声認識サーバーが利用できません。先生に確認してください'
+          : 'マイクが使えません。ブラウザのマイクの許可を確認してください');
+      }
     };
 
     rec.onend = () => {
@@ -1191,10 +1247,11 @@ const PlayPage: React.FC = () => {
     console.log('[ASR] Stopping for evaluation');
     stoppingRef.current = true;
 
+    let stopped: Promise<void> = Promise.resolve();
     try {
       if (recognitionRef.current) {
         recognitionRef.current.onend = null;
-        recognitionRef.current.stop();
+        stopped = recognitionRef.current.stop();
       }
     } catch (err) {
       console.warn('[ASR] Error during stop:', err);
@@ -1203,6 +1260,13 @@ const PlayPage: React.FC = () => {
     setMicActive(false);
     micActiveRef.current = false;
 
+    // ★ サーバー側で認識する場合は、録音をアップロードして結果が届くまで待つ
+    try {
+      await stopped;
+    } catch (err) {
+      console.warn('[ASR] Error while waiting for recognition:', err);
+    }
+
     // ★ 何も認識されていない場合は評価をスキップ
     if (capturedRef.current.length === 0) {
       console.log('[ASR] No speech captured - skipping evaluation, staying in listening state');
@@ -1238,49 +1302,66 @@ const PlayPage: React.FC = () => {
     }
 
     const heardRaw = [...capturedRef.current];
-    const heard = heardRaw.map(normalize).filter(Boolean);
-    const answersRaw = (q.answers || []);
-    const answers = answersRaw.map(normalize).filter(Boolean);
 
     console.groupCollapsed(`[Eval] Question ${idxRef.current + 1}`);
     console.log('Heard (raw):', heardRaw);
-    console.log('Heard (normalized):', heard);
-    console.log('Answers (normalized):', answers);
     console.log('Is Demo:', q.is_demo);
 
+    // ★ 正誤判定はサーバー側で行う（解答はクライアントに渡さない）
     let isCorrect = false;
-    let matchDetails = '';
-
-    // ★ 性能最適化: 完全一致チェックを先に実行
-    outer: for (const h of heard) {
-      for (const a of answers) {
-        if (h === a) {
-          isCorrect = true;
-          matchDetails = `Exact match: "${h}" === "${a}"`;
-          break outer;
-        }
+    let retry = false;
+    let correctCount = realCorrectRef.current;
+    let revealed: string[] = [];
+    let pronunciation: Pronunciation | null = null;
+    let feedback: WordOp[] | null = null;
+    try {
+      const r = await fetch(`${API_URL}/game/session/${encodeURIComponent(sessionIdRef.current)}/answer`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          question_id: q.question_id,
+          transcripts: heardRaw.map(c => c.transcript),
+          confidences: heardRaw.map(c => c.confidence),
+          time_ms: Date.now() - questionStartedAtRef.current,
+        }),
+      });
+      if (!r.ok) {
+        throw new Error(`判定失敗: ${r.status}`);
       }
-    }
+      const data = await r.json();
+      isCorrect = Boolean(data.correct);
+      retry = Boolean(data.retry);
+      correctCount = Number(data.correct_count ?? correctCount);
+      revealed = data.answers || [];
+      pronunciation = data.pronunciation ?? null;
+      feedback = data.feedback ?? null;
+    } catch (err) {
+      console.error('[Eval] Evaluation request failed:', err);
+      console.groupEnd();
 
-    // ★ 完全一致しなかった場合のみ、ファジーマッチを実行
-    if (!isCorrect) {
-      outer2: for (const h of heard) {
-        for (const a of answers) {
-          const s = simLevenshtein(h, a);
-          const j = jaccard(h, a);
-          if (s >= 0.62 || j >= 0.62) {
-            isCorrect = true;
-            matchDetails = `Fuzzy match: "${h}" ≈ "${a}" (Levenshtein: ${s.toFixed(2)}, Jaccard: ${j.toFixed(2)})`;
-            break outer2;
-          }
-        }
-      }
+      // ★ 判定できなかった場合は不正解扱いにせず、もう一度回答できるようにする
+      capturedRef.current = [];
+      setLastRecognized('');
+      isProcessingRef.current = false;
+      stoppingRef.current = false;
+      return;
     }
 
-    console.log('Result:', isCorrect ? '✓ CORRECT' : '✗ WRONG');
-    if (isCorrect) console.log('Match:', matchDetails);
+    console.log('Result:', isCorrect ? '✓ CORRECT' : retry ? '? UNCLEAR' : '✗ WRONG');
     console.groupEnd();
 
+    if (retry) {
+      // ★ 聞き取りの信頼度が低い場合はミスにせず、もう一度言ってもらう
+      console.log('[Eval] Low confidence - asking to say it again');
+      capturedRef.current = [];
+      setLastRecognized('');
+      setSayAgain(true);
+      isProcessingRef.current = false;
+      stoppingRef.current = false;
+      return;
+    }
+
     if (isCorrect) {
       console.log('[Eval] Correct answer!');
 
@@ -1297,17 +1378,11 @@ const PlayPage: React.FC = () => {
       // ★ 音声認識を完全停止
       forceStopRecognition();
 
-      // ★ デモ問題でない場合のみカウント
-      if (!q.is_demo) {
-        setRealCorrect(c => {
-          const newCount = c + 1;
-          console.log(`[Score] Correct answers: ${newCount} (non-demo)`);
-          realCorrectRef.current = newCount;
-          return newCount;
-        });
-      } else {
-        console.log('[Score] Demo question - not counting toward score');
-      }
+      // ★ 正解数はサーバーの集計（デモ問題は含まれない）
+      storeAnswers(q.question_id, revealed, pronunciation);
+      realCorrectRef.current = correctCount;
+      setRealCorrect(correctCount);
+      console.log(`[Score] Correct answers: ${correctCount} (non-demo)`);
 
       try {
         // ★ 攻撃音を再生（非同期で開始）
@@ -1340,8 +1415,8 @@ const PlayPage: React.FC = () => {
         await attackSoundPromise;
         console.log('[Sound] Attack sound finished, now playing answer');
 
-        if (q.answers?.[0]) {
-          await speakAwaitTTS(q.answers[0], true);
+        if (revealed[0]) {
+          await speakAwaitTTS(revealed[0], true);
         }
 
         // ★ 処理中断チェック
@@ -1367,9 +1442,10 @@ const PlayPage: React.FC = () => {
         }
       }
     } else {
-      // ★ 不正解の場合
+      // ★ 不正解の場合（どの単語が違ったかを表示）
       dispatch({ type: 'WRONG_ANSWER' });
       statusRef.current = 'wrong';
+      setWrongFeedback(feedback);
       playSound('miss.mp3');
 
       try {
@@ -1395,23 +1471,49 @@ const PlayPage: React.FC = () => {
         }
       }
     }
-  }, [waitForCurrentAudioToFinish, forceStopRecognition, speakAwaitTTS, startIntermissionThenNext, updateActivity, stopTimer]);
+  }, [waitForCurrentAudioToFinish, forceStopRecognition, speakAwaitTTS, startIntermissionThenNext, updateActivity, stopTimer, storeAnswers]);
+
+  // ---------------------- Typed Answer ----------------------
+  // ★ キーボード入力の回答も音声と同じ判定（evaluateCaptured）に渡す
+  const submitTypedAnswer = useCallback(() => {
+    if (!['speaking', 'listening', 'wrong'].includes(statusRef.current)) return;
+    const text = typedAnswer.trim();
+    if (!text || isProcessingRef.current) return;
+
+    // ★ 問題の音声再生中に回答した場合、音声を停止してlistening状態に移行
+    if (statusRef.current === 'speaking') {
+      console.log('[Typed] Stopping question audio to accept answer');
+      stopCurrentAudio();
+      dispatch({ type: 'START_LISTENING' });
+      statusRef.current = 'listening';
+    }
+
+    console.log('[Typed] Submitted:', text);
+    setWrongFeedback(null);
+    capturedRef.current = [{ transcript: text, confidence: 0, isFinal: true }];
+    setLastRecognized(text);
+    setTypedAnswer('');
+    evaluateCaptured();
+  }, [typedAnswer, stopCurrentAudio, evaluateCaptured]);
 
   // ---------------------- Finish Game ----------------------
   const finishGame = useCallback(async () => {
-    const nonDemoCount = questionsRef.current.filter(q => !q.is_demo).length;
-    const finalCorrect = realCorrectRef.current;
-    const clear = finalCorrect >= CORRECT_TO_CLEAR;
+    // ★ 表示用の暫定値。正式な結果はサーバーの集計で上書きする
+    let nonDemoCount = questionsRef.current.filter(q => !q.is_demo).length;
+    let finalCorrect = realCorrectRef.current;
+    let clear = false;
+    let advanced = false;
+    let progressMessage = ''; // 進級ルールの説明（満たしたルール、または残りの条件）
 
     console.log('[Game] Finished!', {
       totalQuestions: questionsRef.current.length,
       nonDemoQuestions: nonDemoCount,
       correctAnswers: finalCorrect,
-      cleared: clear
+      sessionId: sessionIdRef.current
     });
 
     const userId = localStorage.getItem('userId') || '';
-    // ★ questionsから part_id を取得（全ての質問は同じpart_idを持つ）
+    // ★ questionsから part_id を取得（全ての質問は同じpart_idを持つ。復習は問題ごとに異なる）
     const part_id = questionsRef.current[0]?.part_id || partInfo?.part_id || '';
 
     try {
@@ -1419,7 +1521,7 @@ const PlayPage: React.FC = () => {
         console.error('[API] No userId found in localStorage');
         throw new Error('ユーザーIDが見つかりません');
       }
-      if (!part_id) {
+      if (playMode !== 'review' && !part_id) {
         console.error('[API] No part_id found', {
           questionsCount: questionsRef.current.length,
           firstQuestionPartId: questionsRef.current[0]?.part_id,
@@ -1428,25 +1530,18 @@ const PlayPage: React.FC = () => {
         throw new Error('パートIDが見つかりません');
       }
 
-      // ★ スコア送信
-      console.log('📤 [REQUEST] Sending score to backend...', {
+      // ★ プレイ終了（スコアはサーバーが回答ログから集計して記録）
+      console.log('📤 [REQUEST] Finishing play session...', {
         userId,
         part_id,
-        scores: finalCorrect,
-        clear,
-        endpoint: 'POST /game/score'
+        sessionId: sessionIdRef.current,
+        endpoint: 'POST /game/session/:sessionId/finish'
       });
 
-      const scoreResponse = await fetch(`${API_URL}/game/score`, {
+      const scoreResponse = await fetch(`${API_URL}/game/session/${encodeURIComponent(sessionIdRef.current)}/finish`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify({
-          userId,
-          part_id,
-          scores: finalCorrect,
-          clear
-        }),
       });
 
       if (!scoreResponse.ok) {
@@ -1461,13 +1556,21 @@ const PlayPage: React.FC = () => {
 
       const scoreData = await scoreResponse.json();
       console.log('[API] Score saved successfully:', scoreData);
+      finalCorrect = Number(scoreData.correct ?? finalCorrect);
+      nonDemoCount = Number(scoreData.total ?? nonDemoCount);
+      clear = Boolean(scoreData.clear);
+      correctToClearRef.current = Number(scoreData.correct_to_clear ?? correctToClearRef.current);
 
       // ★ スコア保存成功をコンソールに明示的にログ
       console.log(`✅ [SUCCESS] Score saved to sheets! Score ID: ${scoreData.score_id}`);
 
-      // ★ クリアした場合のみ進捗を更新
-      if (clear) {
-        console.log('📈 [PROGRESS] Game cleared! Attempting to advance user progress...');
+      // ★ 練習・復習は進捗を更新しない
+      if (playMode === 'practice') {
+        progressMessage = '練習のため、進捗は更新されません';
+      }
+      if (playMode === 'play') {
+        // ★ 進捗の更新（クリア以外でも、挑戦回数・先生の承認などの進級ルールで進める場合がある）
+        console.log('📈 [PROGRESS] Attempting to advance user progress...', { clear });
 
         const currentGrade = grade ?? localStorage.getItem('current_grade') ?? '1';
         const currentPart = part ?? localStorage.getItem('current_part') ?? '1';
@@ -1481,7 +1584,7 @@ const PlayPage: React.FC = () => {
             subpart: currentSubpart,
           },
           part_id,
-          clear: true
+          session_id: sessionIdRef.current
         };
 
         console.log('📤 [REQUEST] Sending progress update to backend...', {
@@ -1508,6 +1611,8 @@ const PlayPage: React.FC = () => {
 
         const advanceData = await advanceResponse.json();
         console.log('[API] Advance response:', advanceData);
+        advanced = Boolean(advanceData.ok && advanceData.advanced);
+        progressMessage = advanceData.message || '';
 
         if (advanceData.ok && advanceData.advanced) {
           console.log('✅ [SUCCESS] Progress advanced successfully!', {
@@ -1527,15 +1632,12 @@ const PlayPage: React.FC = () => {
             });
           }
         } else {
-          console.log('ℹ️ [INFO] Progress not advanced (need more attempts):', {
+          console.log('ℹ️ [INFO] Progress not advanced:', {
             reason: advanceData.reason,
             attempts: advanceData.attempts,
-            required: advanceData.required,
-            remaining: advanceData.remaining
+            progression: advanceData.progression
           });
         }
-      } else {
-        console.log('[API] Not cleared - skipping advance request');
       }
 
     } catch (err) {
@@ -1587,10 +1689,13 @@ const PlayPage: React.FC = () => {
       state: { 
         clear, 
         correct: finalCorrect, 
-        total: nonDemoCount 
+        total: nonDemoCount,
+        correctToClear: correctToClearRef.current,
+        advanced,
+        progressMessage
       } 
     });
-  }, [partInfo, grade, part, subpart, nav]);
+  }, [partInfo, grade, part, subpart, playMode, nav]);
 
   // ---------------------- Start Button ----------------------
   const handleStartClick = useCallback(() => {
@@ -1654,23 +1759,36 @@ const PlayPage: React.FC = () => {
     <div className="play-page">
 
       {/* 左上: 選択情報 */}
-      <div className="selection-info-container">
-        <div className="selection-info-item">
-          <span className="selection-info-label">Grade:</span>
-          <span className="selection-info-value">{grade || '1'}</span>
-        </div>
-        <div className="selection-info-item">
-          <span className="selection-info-label">Part:</span>
-          <span className="selection-info-value">{part || '1'}</span>
+      {playMode === 'review' ? (
+        <div className="selection-info-container">
+          <div className="selection-info-item">
+            <span className="selection-info-value">Review</span>
+          </div>
         </div>
-        <div className="selection-info-item">
-          <span className="selection-info-label">Subpart:</span>
-          <span className="selection-info-value">{subpart || '1'}</span>
+      ) : (
+        <div className="selection-info-container">
+          <div className="selection-info-item">
+            <span className="selection-info-label">Grade:</span>
+            <span className="selection-info-value">{grade || '1'}</span>
+          </div>
+          <div className="selection-info-item">
+            <span className="selection-info-label">Part:</span>
+            <span className="selection-info-value">{part || '1'}</span>
+          </div>
+          <div className="selection-info-item">
+            <span className="selection-info-label">Subpart:</span>
+            <span className="selection-info-value">{subpart || '1'}</span>
+          </div>
+          {playMode === 'practice' && (
+            <div className="selection-info-item">
+              <span className="selection-info-value">Practice</span>
+            </div>
+          )}
         </div>
-      </div>
+      )}
 
       {/* 右上: マイク状態 */}
-      {['speaking', 'listening', 'wrong'].includes(status) && (
+      {inputMode === 'voice' && ['speaking', 'listening', 'wrong'].includes(status) && (
         <div className="mic-status-container">
           <div className={`mic-status-badge ${micActive ? 'active' : 'inactive'}`}>
             <span className="mic-icon">{micActive ? '🎤' : '🔇'}</span>
@@ -1679,6 +1797,9 @@ const PlayPage: React.FC = () => {
           {!!lastRecognized && (
             <div className="mic-heard-text">Heard: {lastRecognized}</div>
           )}
+          {sayAgain && !lastRecognized && (
+            <div className="mic-say-again">Say it again!</div>
+          )}
         </div>
       )}
 
@@ -1746,21 +1867,57 @@ const PlayPage: React.FC = () => {
           {/* 問題画像 */}
           {current?.image_url && (
             <div className="question-image-container">
-              <img src={current.image_url} alt="" className="question-image" />
+              <img
+                src={resolveImageUrl(current.image_url)}
+                srcSet={imageSrcSet(current.image_variants)}
+                sizes={QUESTION_IMAGE_SIZES}
+                alt=""
+                className="question-image"
+              />
+            </div>
+          )}
+
+          {/* 不正解のフィードバック（聞き取った単語と、違った・抜けた単語） */}
+          {wrongFeedback && wrongFeedback.length > 0 && ['speaking', 'listening', 'wrong'].includes(status) && (
+            <div className="wrong-feedback">
+              <div className="wrong-feedback-badge">TRY AGAIN</div>
+              <WordDiff words={wrongFeedback} />
             </div>
           )}
 
           {/* 正解ビーム */}
           {status === 'beam' && <div className="beam-effect" />}
 
-          {/* ガンボタン（マイク） */}
+          {/* キーボード入力（Enter またはガンボタンで回答） */}
+          {inputMode === 'typed' && (
+            <form
+              className="typed-answer-form"
+              onSubmit={e => { e.preventDefault(); submitTypedAnswer(); }}
+            >
+              <input
+                ref={typedInputRef}
+                className="typed-answer-input"
+                type="text"
+                value={typedAnswer}
+                onChange={e => setTypedAnswer(e.target.value)}
+                disabled={!gunBtnEnabled}
+                placeholder="Type your answer"
+                autoComplete="off"
+                autoCapitalize="off"
+                spellCheck={false}
+                maxLength={200}
+              />
+            </form>
+          )}
+
+          {/* ガンボタン（マイク / キーボード入力では送信） */}
           <div className="gun-button-container">
             <button
-              onClick={toggleMic}
+              onClick={inputMode === 'typed' ? submitTypedAnswer : toggleMic}
               disabled={!gunBtnEnabled}
               className={gunBtnClass}
               aria-pressed={micActive}
-              title={micActive ? 'Stop & Evaluate' : 'Start Recording'}
+              title={inputMode === 'typed' ? 'Fire!' : micActive ? 'Stop & Evaluate' : 'Start Recording'}
             >
               <img src="/gun.png" alt="gun" className="gun-img" />
               {micActive && <span className="pulse-ring"></span>}
@@ -1775,6 +1932,15 @@ const PlayPage: React.FC = () => {
                 <span className="answer-mark">✓</span>
                 <span className="answer-text">{current.answers?.[0] ?? ''}</span>
               </div>
+              {/* 発音スコア（聞き取れた内容がある場合） */}
+              {current.pronunciation && (
+                <div className="pronunciation-score">
+                  <div className="pronunciation-label">
+                    Pronunciation <span className="pronunciation-value">{current.pronunciation.score}</span>
+                  </div>
+                  <WordDiff words={current.pronunciation.words} />
+                </div>
+              )}
             </div>
           )}
         </>
@@ -11,6 +11,8 @@ const Ranking: React.FC = () => {
   const navigate = useNavigate()
   const [challenge, setChallenge] = useState<RankItem[] | null>(null)
   const [accuracy, setAccuracy] = useState<RankItem[] | null>(null)
+  // キーボード入力でのプレイ（音声とは別に集計）
+  const [typing, setTyping] = useState<RankItem[] | null>(null)
   const [month, setMonth] = useState<string>('')
   const [error, setError] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
@@ -31,6 +33,7 @@ const Ranking: React.FC = () => {
         setMonth(json.month ?? '')
         setChallenge(json.items?.challenge ?? [])
         setAccuracy(json.items?.accuracy ?? [])
+        setTyping(json.items?.typing ?? [])
       } catch {
         if (cancelled) return
         setError('ランキング取得に失敗しました')
@@ -45,6 +48,11 @@ const Ranking: React.FC = () => {
           { userId: '', name: '' },
           { userId: '', name: '' },
         ])
+        setTyping([
+          { userId: '', name: '' },
+          { userId: '', name: '' },
+          { userId: '', name: '' },
+        ])
       } finally {
         if (!cancelled) setLoading(false)
       }
@@ -91,6 +99,18 @@ const Ranking: React.FC = () => {
             ))}
           </ol>
         </section>
+
+        <section className="panel">
+          <h2 className="rank-heading">Best Scores (Keyboard)</h2>
+          <ol className="rank-list">
+            {(typing ?? []).slice(0, 3).map((it, i) => (
+              <li key={`${it.userId || 'u'}-${i}`} className="rank-row">
+                <span className="rank-no">No.{i + 1}</span>
+                <span className="rank-name">{it.name}</span>
+              </li>
+            ))}
+          </ol>
+        </section>
       </div>
     </div>
   )
@@ -7,11 +7,23 @@ import '../App.css';
 const ResultPage: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
-  const state = location.state as { clear?: boolean; correct?: number; total?: number } | null;
+  const state = location.state as {
+    clear?: boolean;
+    correct?: number;
+    total?: number;
+    correctToClear?: number;
+    advanced?: boolean;
+    progressMessage?: string; // 進級ルールの説明（サーバーの /game/advance の message）
+  } | null;
 
   const clear = state?.clear ?? false;
   const correct = state?.correct ?? 0;
   const total = state?.total ?? 0;
+  // クリアに必要な正解数（パートごとの設定）
+  const correctToClear = state?.correctToClear ?? 0;
+  const remaining = Math.max(0, correctToClear - correct);
+  const advanced = state?.advanced ?? false;
+  const progressMessage = state?.progressMessage ?? '';
 
   const percentage = total > 0 ? Math.round((correct / total) * 100) : 0;
 
@@ -62,17 +74,18 @@ const ResultPage: React.FC = () => {
           <div style={{ fontSize: 36, color: getScoreColor() }}>{percentage}%</div>
         </div>
 
-        {clear ? (
+        {advanced ? (
           <div style={{ fontSize: 18, color: '#94a3b8', marginBottom: 30 }}>次のステージが解放されました！</div>
         ) : (
           <div style={{ fontSize: 18, color: '#94a3b8', marginBottom: 30 }}>
-            {total > 0 && Math.max(0, 10 - correct) > 0 && <>あと {Math.max(0, 10 - correct)} 問正解でクリア！</>}
+            {!clear && total > 0 && remaining > 0 && <div>あと {remaining} 問正解でクリア！</div>}
+            {progressMessage && <div>{progressMessage}</div>}
           </div>
         )}
 
         <div style={{ display: 'flex', gap: 15, justifyContent: 'center' }}>
           <Button onClick={handleLogout}>LOGOUT</Button>
-          <Button onClick={() => navigate('/select')}>{clear ? 'NEXT' : 'Retry'}</Button>
+          <Button onClick={() => navigate('/select')}>{advanced ? 'NEXT' : 'Retry'}</Button>
         </div>
       </div>
     </div>
@@ -4,8 +4,34 @@ import { useNavigate } from 'react-router-dom'
 import Button from '../components/Button'
 import Dropdown from '../components/Dropdown'
 import { API_URL } from '../config'
+import { getRecognizerKind } from '../utils/speechRecognizer'
 import '../App.css'
 
+// 回答方法（表示名 → PlayPage に渡す値）
+const INPUT_MODES: { [label: string]: 'voice' | 'typed' } = {
+  Voice: 'voice',
+  Keyboard: 'typed',
+}
+
+// 復習の時期が来た問題（/game/review）
+type ReviewInfo = {
+  due_count: number
+  question_count: number
+  next_due_at: string | null
+}
+
+// ブラウザの音声自動再生ブロックを解除するため、ユーザーアクション時に無音を再生
+function unlockAudio() {
+  try {
+    // 超短い無音のWAVデータ
+    const silentAudio = new Audio('data:audio/wav;base64,UklGRigAAABXQVZFZm10IBIAAAABAAEARKwAAIhYAQACABAAAABkYXRhAgAAAAEA')
+    silentAudio.volume = 0
+    silentAudio.play().catch(() => {})
+  } catch (e) {
+    console.warn('Audio unlock failed:', e)
+  }
+}
+
 // partsテーブルから取得したオプションの型
 type PartOptions = {
   [grade: string]: {
@@ -24,12 +50,18 @@ const SelectPage: React.FC = () => {
   const [grade, setGrade] = useState(initialGrade)
   const [part, setPart] = useState(initialPart)
   const [subpart, setSubpart] = useState(initialSubpart)
+  // マイクが使えない場合はキーボード入力で遊べる（前回の選択を保持）
+  const [inputModeLabel, setInputModeLabel] = useState(
+    localStorage.getItem('input_mode') === 'typed' ? 'Keyboard' : 'Voice'
+  )
+  const [voiceAvailable, setVoiceAvailable] = useState(true)
 
   const [gradeOptions, setGradeOptions] = useState<string[]>(['1'])
   const [partOptions, setPartOptions] = useState<string[]>(['1'])
   const [subpartOptions, setSubpartOptions] = useState<string[]>(['1'])
 
   const [allOptions, setAllOptions] = useState<PartOptions | null>(null)
+  const [review, setReview] = useState<ReviewInfo | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -105,7 +137,26 @@ const SelectPage: React.FC = () => {
     }
 
     fetchOptions()
-    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  // 音声認識が使えない（Web Speech API が無く、サーバー側の認識も未設定）場合はキーボード入力にする
+  useEffect(() => {
+    getRecognizerKind().then(kind => {
+      if (!kind) {
+        setVoiceAvailable(false)
+        setInputModeLabel('Keyboard')
+      }
+    })
+  }, [])
+
+  // 復習できる問題の数を取得（取得できなくてもステージ選択には影響しない）
+  useEffect(() => {
+    fetch(`${API_URL}/game/review`, { credentials: 'include' })
+      .then(res => res.json())
+      .then(data => {
+        if (data.ok) setReview(data)
+      })
+      .catch(e => console.warn('Failed to fetch review info:', e))
   }, [])
 
   // 初期値の設定（オプション取得後）
@@ -241,16 +292,9 @@ const SelectPage: React.FC = () => {
     })
   }
 
-  const onGameStart = async () => {
-    // ブラウザの音声自動再生ブロックを解除するため、ユーザーアクション時に無音を再生
-    try {
-      // 超短い無音のWAVデータ
-      const silentAudio = new Audio('data:audio/wav;base64,UklGRigAAABXQVZFZm10IBIAAAABAAEARKwAAIhYAQACABAAAABkYXRhAgAAAAEA')
-      silentAudio.volume = 0
-      silentAudio.play().catch(() => {})
-    } catch (e) {
-      console.warn('Audio unlock failed:', e)
-    }
+  // practice: 練習（進捗までのパートをプレイ。進捗は更新されず、挑戦回数のランキングにも数えない）
+  const onGameStart = async (mode: 'play' | 'practice' = 'play') => {
+    unlockAudio()
 
     // 組み合わせの検証（オプション）
     try {
@@ -264,7 +308,8 @@ const SelectPage: React.FC = () => {
       if (validateRes.ok) {
         const validateData = await validateRes.json()
         if (!validateData.valid) {
-          setError('選択された組み合わせは無効です')
+          // 先生がロックしたステージは、その理由を表示
+          setError(validateData.unlocked === false ? validateData.message : '選択された組み合わせは無効です')
           console.error('Invalid combination:', validateData.message)
           return
         }
@@ -273,8 +318,21 @@ const SelectPage: React.FC = () => {
       console.warn('Validation check failed, proceeding anyway:', e)
     }
     
-    console.log('Starting game with:', { grade, part, subpart })
-    navigate('/play', { state: { grade, part, subpart } })
+    const inputMode = INPUT_MODES[inputModeLabel] || 'voice'
+    localStorage.setItem('input_mode', inputMode)
+
+    console.log('Starting game with:', { grade, part, subpart, inputMode, mode })
+    navigate('/play', { state: { grade, part, subpart, inputMode, mode } })
+  }
+
+  // 復習（クリア済みのパートで間違えた問題。問題はサーバーが選ぶ）
+  const onReviewStart = () => {
+    unlockAudio()
+    const inputMode = INPUT_MODES[inputModeLabel] || 'voice'
+    localStorage.setItem('input_mode', inputMode)
+
+    console.log('Starting review with:', { inputMode, review })
+    navigate('/play', { state: { mode: 'review', inputMode } })
   }
 
   return (
@@ -326,9 +384,38 @@ const SelectPage: React.FC = () => {
           />
         </div>
 
-        <Button onClick={onGameStart}>
+        <div className="field">
+          <label>Answer by</label>
+          <Dropdown 
+            value={inputModeLabel} 
+            onChange={setInputModeLabel} 
+            options={voiceAvailable ? Object.keys(INPUT_MODES) : ['Keyboard']} 
+          />
+          {!voiceAvailable && (
+            <div style={{ marginTop: 4, color: '#94a3b8', fontSize: 14 }}>
+              Voice is not available in this browser
+            </div>
+          )}
+        </div>
+
+        <Button onClick={() => onGameStart()}>
           Game Start
         </Button>
+
+        <Button onClick={() => onGameStart('practice')}>
+          Practice
+        </Button>
+
+        {review && review.question_count > 0 && (
+          <Button onClick={onReviewStart}>
+            Review ({review.question_count})
+          </Button>
+        )}
+        {review && review.question_count === 0 && review.next_due_at && (
+          <div style={{ marginTop: 12, color: '#94a3b8', fontSize: 14 }}>
+            Next review: {review.next_due_at}
+          </div>
+        )}
         
       </div>
     </div>
@@ -0,0 +1,259 @@
+import React, { useState, useEffect } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { BarChart, LineChart } from '../components/Charts'
+import { API_URL } from '../config'
+import '../App.css'
+import './AdminPage.css'
+import './StudentProgressPage.css'
+
+// 生徒の学習状況（管理画面のユーザー一覧の「詳細」から）
+
+interface Position {
+  grade: number
+  part: number
+  subpart: number
+}
+
+interface DailyRow {
+  date: string
+  plays: number
+  practice: number
+  clears: number
+  time_ms: number
+}
+
+interface PartRow {
+  part_id: string
+  grade_id: number
+  part_no: number
+  subpart_no: number
+  plays: number
+  practice: number
+  clears: number
+  attempts_to_clear: number | null
+  best: number
+  time_ms: number
+  history: {
+    score_id: number
+    play_date: string
+    scores: number
+    total: number | null
+    clear: boolean
+    mode: 'play' | 'practice'
+  }[]
+}
+
+interface ClassComparison {
+  class_id: string
+  name: string
+  students: number
+  rank: number
+  median: Position
+  parts_ahead: number
+}
+
+interface MissedQuestion {
+  question_id: string
+  part_id: string
+  question_text: string
+  plays: number
+  missed: number
+  miss_rate: number
+  last_missed_at: string
+}
+
+interface StudentProgress {
+  user: { user_id: string; nickname: string; real_name: string; current: Position }
+  totals: { plays: number; practice: number; clears: number; parts_played: number; parts_cleared: number; time_ms: number }
+  daily: DailyRow[]
+  parts: PartRow[]
+  classes: ClassComparison[]
+  most_missed: MissedQuestion[]
+}
+
+// 日ごとのグラフに表示する日数（最新から）
+const DAILY_CHART_DAYS = 30
+
+const positionLabel = (p: Position) => `${p.grade}-${p.part}-${p.subpart}`
+
+// ミリ秒 → 「1時間5分」「12分」
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000)
+  if (minutes < 60) return `${minutes}分`
+  return `${Math.floor(minutes / 60)}時間${minutes % 60}分`
+}
+
+const aheadLabel = (n: number) => (n > 0 ? `${n} パート先` : n < 0 ? `${-n} パート後ろ` : '中央値と同じ')
+
+const StudentProgressPage: React.FC = () => {
+  const { userId = '' } = useParams()
+  const [progress, setProgress] = useState<StudentProgress | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchProgress = async () => {
+      try {
+        const res = await fetch(`${API_URL}/admin/analytics/students/${encodeURIComponent(userId)}`, {
+          method: 'GET',
+          credentials: 'include',
+        })
+        const data = await res.json()
+        if (!res.ok || !data.ok) {
+          throw new Error(data.message || '学習状況の取得に失敗しました')
+        }
+        setProgress(data)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err))
+      }
+    }
+    fetchProgress()
+  }, [userId])
+
+  if (error || !progress) {
+    return (
+      <div className="admin-page">
+        <h1 className="admin-title">学習状況</h1>
+        {error ? <div className="message error-message">{error}</div> : <p className="student-loading">読み込み中...</p>}
+        <p className="student-back"><Link to="/admin">管理者画面に戻る</Link></p>
+      </div>
+    )
+  }
+
+  const { user, totals, daily, parts, classes, most_missed } = progress
+  const recentDays = daily.slice(-DAILY_CHART_DAYS)
+
+  return (
+    <div className="admin-page">
+      <h1 className="admin-title">学習状況</h1>
+      <p className="student-back"><Link to="/admin">管理者画面に戻る</Link></p>
+
+      {/* 概要 */}
+      <section className="admin-section">
+        <h2 className="section-title">{user.real_name}（{user.nickname} / {user.user_id}）</h2>
+        <div className="student-summary">
+          <div><span>現在の位置</span><strong>{positionLabel(user.current)}</strong></div>
+          <div><span>プレイ</span><strong>{totals.plays}</strong></div>
+          <div><span>クリア</span><strong>{totals.clears}</strong></div>
+          <div><span>練習</span><strong>{totals.practice}</strong></div>
+          <div><span>クリアしたパート</span><strong>{totals.parts_cleared} / {totals.parts_played}</strong></div>
+          <div><span>プレイ時間</span><strong>{formatDuration(totals.time_ms)}</strong></div>
+        </div>
+
+        {/* クラスの中での進捗 */}
+        {classes.length > 0 && (
+          <div className="users-table-container">
+            <table className="users-table">
+              <thead>
+                <tr>
+                  <th>クラス</th>
+                  <th>順位</th>
+                  <th>クラスの中央値</th>
+                  <th>中央値との差</th>
+                </tr>
+              </thead>
+              <tbody>
+                {classes.map(c => (
+                  <tr key={c.class_id}>
+                    <td>{c.name}</td>
+                    <td>{c.rank} / {c.students} 人</td>
+                    <td>{positionLabel(c.median)}</td>
+                    <td>{aheadLabel(c.parts_ahead)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {/* 日ごとのプレイ */}
+      <section className="admin-section">
+        <h2 className="section-title">日ごとのプレイ</h2>
+        <BarChart
+          data={recentDays.map(d => ({ label: d.date, value: d.plays + d.practice, highlight: d.clears }))}
+          valueLabel="プレイ数（黄色はクリア）"
+        />
+      </section>
+
+      {/* パートごと */}
+      <section className="admin-section">
+        <h2 className="section-title">パートごとの推移</h2>
+        {parts.length > 0 ? (
+          <div className="users-table-container">
+            <table className="users-table">
+              <thead>
+                <tr>
+                  <th>パート</th>
+                  <th>プレイ</th>
+                  <th>クリア</th>
+                  <th>クリアまでの挑戦回数</th>
+                  <th>最高正解数</th>
+                  <th>プレイ時間</th>
+                  <th className="student-trend">正答率の推移（黄色はクリア）</th>
+                </tr>
+              </thead>
+              <tbody>
+                {parts.map(p => (
+                  <tr key={p.part_id}>
+                    <td>{p.grade_id}-{p.part_no}-{p.subpart_no}</td>
+                    <td>{p.plays}{p.practice > 0 && `（練習 ${p.practice}）`}</td>
+                    <td>{p.clears}</td>
+                    <td>{p.attempts_to_clear ?? '未クリア'}</td>
+                    <td>{p.best}</td>
+                    <td>{formatDuration(p.time_ms)}</td>
+                    <td className="student-trend">
+                      <LineChart
+                        data={p.history.filter(h => h.total).map(h => ({
+                          label: `${h.play_date}${h.mode === 'practice' ? '（練習）' : ''}`,
+                          value: h.scores / (h.total || 1),
+                          marked: h.clear,
+                        }))}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p>データがありません</p>
+        )}
+      </section>
+
+      {/* よく間違える問題 */}
+      <section className="admin-section">
+        <h2 className="section-title">よく間違える問題</h2>
+        {most_missed.length > 0 ? (
+          <div className="users-table-container">
+            <table className="users-table">
+              <thead>
+                <tr>
+                  <th>問題</th>
+                  <th>パート</th>
+                  <th>間違えた回数</th>
+                  <th>間違えた割合</th>
+                  <th>最後に間違えた日時</th>
+                </tr>
+              </thead>
+              <tbody>
+                {most_missed.map(q => (
+                  <tr key={q.question_id}>
+                    <td>{q.question_text || q.question_id}</td>
+                    <td>{q.part_id}</td>
+                    <td>{q.missed} / {q.plays}</td>
+                    <td>{Math.round(q.miss_rate * 100)}%</td>
+                    <td>{q.last_missed_at}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p>データがありません</p>
+        )}
+      </section>
+    </div>
+  )
+}
+
+export default StudentProgressPage
@@ -0,0 +1,44 @@
+// frontend/src/utils/questionImage.ts
+/**
+ * 問題画像の URL
+ * - /questions/...（frontend/public）はそのまま
+ * - /uploads/...（管理画面からアップロードした画像）はバックエンドから配信されるため API_URL を付ける
+ * - Cloud Storage などの絶対 URL はそのまま
+ */
+import { API_URL } from '../config';
+
+// 幅ごとの画像（アップロードした画像のみ。サーバーで変換済み）
+export type ImageVariant = { width: number; url: string };
+
+/**
+ * 表示に使う URL に変換
+ */
+export function resolveImageUrl(url: string): string {
+  return url.startsWith('/uploads/') ? `${API_URL}${url}` : url;
+}
+
+/**
+ * img の srcSet（幅ごとの画像が無い場合は undefined）
+ */
+export function imageSrcSet(variants: ImageVariant[] | undefined): string | undefined {
+  if (!variants || variants.length === 0) return undefined;
+  return variants.map(v => `${resolveImageUrl(v.url)} ${v.width}w`).join(', ');
+}
+
+/**
+ * 問題画像を先に読み込んでおく（問題が切り替わった瞬間に表示されるように）
+ * srcSet と sizes を指定して、表示時と同じ幅の画像をブラウザに選ばせる
+ */
+export function preloadQuestionImages(
+  questions: { image_url: string; image_variants?: ImageVariant[] }[],
+  sizes: string
+): void {
+  for (const q of questions) {
+    if (!q.image_url) continue;
+    const img = new Image();
+    img.sizes = sizes;
+    const srcSet = imageSrcSet(q.image_variants);
+    if (srcSet) img.srcset = srcSet;
+    img.src = resolveImageUrl(q.image_url);
+  }
+}
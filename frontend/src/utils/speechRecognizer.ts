@@ -0,0 +1,259 @@
+// src/utils/speechRecognizer.ts
+/**
+ * 音声認識の切り替え
+ * - web-speech : ブラウザの Web Speech API（Chrome / Edge）
+ * - server     : MediaRecorder で録音し、バックエンドの POST /asr/recognize で認識（Firefox / Safari）
+ *                バックエンドに認識エンジンが設定されている場合のみ（GET /asr/status で確認）
+ * VITE_SPEECH_RECOGNIZER（auto / web-speech / server）で固定することもできる
+ */
+import { API_URL } from '../config';
+
+// --------------------------- Types ---------------------------
+export type RecognizerKind = 'web-speech' | 'server';
+
+// 認識結果 1 件（候補は信頼度の高い順。信頼度が分からない場合は 0）
+export type RecognizedSpeech = {
+  alternatives: { transcript: string; confidence: number }[];
+  isFinal: boolean;
+};
+
+export interface SpeechRecognizer {
+  readonly kind: RecognizerKind;
+  onresult: ((results: RecognizedSpeech[]) => void) | null;
+  onerror: ((error: string) => void) | null;
+  // 認識が終了した（Web Speech は無音などで自動的に終了することがある）
+  onend: (() => void) | null;
+  start(): void;
+  // 停止する。最後の認識結果を onresult に渡し終えてから解決する
+  stop(): Promise<void>;
+  // 停止して、まだ返していない結果は捨てる
+  abort(): void;
+}
+
+interface SpeechRecognitionEvent extends Event {
+  resultIndex: number;
+  results: SpeechRecognitionResultList;
+}
+
+interface SpeechRecognitionErrorEvent extends Event {
+  error: string;
+}
+
+interface SpeechRecognition extends EventTarget {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  maxAlternatives: number;
+  start(): void;
+  stop(): void;
+  abort(): void;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+}
+
+interface SpeechRecognitionConstructor {
+  new(): SpeechRecognition;
+}
+
+declare global {
+  interface Window {
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+    SpeechRecognition?: SpeechRecognitionConstructor;
+  }
+}
+
+// --------------------------- Web Speech ---------------------------
+class WebSpeechRecognizer implements SpeechRecognizer {
+  readonly kind = 'web-speech';
+  onresult: ((results: RecognizedSpeech[]) => void) | null = null;
+  onerror: ((error: string) => void) | null = null;
+  onend: (() => void) | null = null;
+  private rec: SpeechRecognition;
+
+  constructor(SR: SpeechRecognitionConstructor) {
+    this.rec = new SR();
+    this.rec.lang = 'en-US';
+    this.rec.continuous = true;
+    this.rec.interimResults = true;
+    this.rec.maxAlternatives = 3;
+
+    this.rec.onresult = (e) => {
+      const results: RecognizedSpeech[] = [];
+      for (let i = e.resultIndex; i < e.results.length; i++) {
+        const result = e.results[i];
+        const alternatives = [];
+        for (let k = 0; k < result.length; k++) {
+          alternatives.push({ transcript: result[k].transcript, confidence: result[k].confidence ?? 0 });
+        }
+        results.push({ alternatives, isFinal: result.isFinal });
+      }
+      this.onresult?.(results);
+    };
+    this.rec.onerror = (e) => this.onerror?.(e.error);
+    this.rec.onend = () => this.onend?.();
+  }
+
+  start() {
+    this.rec.start();
+  }
+
+  // ★ 途中結果も受け取り済みのため、停止を待たずに解決する
+  async stop() {
+    this.rec.stop();
+  }
+
+  abort() {
+    this.rec.onresult = null;
+    this.rec.abort();
+  }
+}
+
+// --------------------------- Server ---------------------------
+class ServerSpeechRecognizer implements SpeechRecognizer {
+  readonly kind = 'server';
+  onresult: ((results: RecognizedSpeech[]) => void) | null = null;
+  onerror: ((error: string) => void) | null = null;
+  onend: (() => void) | null = null;
+  private recorder: MediaRecorder | null = null;
+  private stream: MediaStream | null = null;
+  private chunks: Blob[] = [];
+  private aborted = false;
+  private upload: AbortController | null = null;
+
+  start() {
+    this.aborted = false;
+    this.chunks = [];
+    navigator.mediaDevices.getUserMedia({ audio: true })
+      .then((stream) => {
+        // ★ マイクの許可を待っている間に停止された場合
+        if (this.aborted) {
+          stream.getTracks().forEach(t => t.stop());
+          return;
+        }
+        this.stream = stream;
+        this.recorder = new MediaRecorder(stream);
+        this.recorder.ondataavailable = (e) => {
+          if (e.data.size > 0) this.chunks.push(e.data);
+        };
+        this.recorder.start();
+      })
+      .catch((err: Error) => {
+        console.warn('[ASR] Microphone unavailable:', err);
+        this.onerror?.(err.name === 'NotAllowedError' ? 'not-allowed' : 'audio-capture');
+      });
+  }
+
+  async stop() {
+    const recorder = this.recorder;
+    if (!recorder || this.aborted) {
+      // ★ マイクの許可待ちの場合は、許可された後に録音を始めないようにする
+      this.aborted = true;
+      this.release();
+      return;
+    }
+
+    // 録音を止めて最後のデータを受け取る
+    await new Promise<void>((resolve) => {
+      recorder.onstop = () => resolve();
+      recorder.stop();
+    });
+    const audio = new Blob(this.chunks, { type: recorder.mimeType || 'audio/webm' });
+    this.release();
+    if (audio.size === 0 || this.aborted) return;
+
+    this.upload = new AbortController();
+    try {
+      const r = await fetch(`${API_URL}/asr/recognize`, {
+        method: 'POST',
+        headers: { 'Content-Type': audio.type.split(';')[0] },
+        credentials: 'include',
+        body: audio,
+        signal: this.upload.signal,
+      });
+      if (!r.ok) {
+        console.warn('[ASR] Server recognition failed:', r.status);
+        // ★ 混み合っている（busy）だけの 503 は一時的なエラー（マイクは止めずに言い直してもらう）
+        const busy = r.status === 503 && (await r.json().catch(() => ({}))).busy === true;
+        this.onerror?.(r.status === 503 && !busy ? 'service-not-allowed' : 'network');
+        return;
+      }
+      const data = await r.json();
+      const transcripts: string[] = data.transcripts || [];
+      const confidences: number[] = data.confidences || [];
+      if (transcripts.length > 0 && !this.aborted) {
+        this.onresult?.([{
+          alternatives: transcripts.map((transcript, i) => ({ transcript, confidence: confidences[i] ?? 0 })),
+          isFinal: true,
+        }]);
+      }
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        console.warn('[ASR] Server recognition failed:', err);
+        this.onerror?.('network');
+      }
+    } finally {
+      this.upload = null;
+    }
+  }
+
+  abort() {
+    this.aborted = true;
+    this.upload?.abort();
+    if (this.recorder && this.recorder.state !== 'inactive') {
+      this.recorder.ondataavailable = null;
+      this.recorder.stop();
+    }
+    this.release();
+  }
+
+  private release() {
+    this.stream?.getTracks().forEach(t => t.stop());
+    this.stream = null;
+    this.recorder = null;
+  }
+}
+
+// --------------------------- Factory ---------------------------
+function webSpeechConstructor(): SpeechRecognitionConstructor | undefined {
+  return window.webkitSpeechRecognition || window.SpeechRecognition;
+}
+
+function canRecord(): boolean {
+  return typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+}
+
+// サーバー側の音声認識が使えるか（ページを開いている間は 1 回だけ確認する。通信エラーは次回もう一度確認する）
+let serverAvailable: Promise<boolean> | null = null;
+
+function isServerRecognizerAvailable(): Promise<boolean> {
+  serverAvailable ??= fetch(`${API_URL}/asr/status`, { credentials: 'include' })
+    .then(r => (r.ok ? r.json() : { available: false }))
+    .then(data => !!data.available)
+    .catch((err) => {
+      console.warn('[ASR] Status check failed:', err);
+      serverAvailable = null;
+      return false;
+    });
+  return serverAvailable;
+}
+
+/**
+ * このブラウザで使う音声認識の種類（使えない場合は null）
+ * ★ server は認識エンジンが設定されている場合のみ（録音し終えてから 503 で失敗しないように）
+ */
+export async function getRecognizerKind(): Promise<RecognizerKind | null> {
+  const preferred = import.meta.env.VITE_SPEECH_RECOGNIZER;
+  if (preferred === 'web-speech') return webSpeechConstructor() ? 'web-speech' : null;
+  if (preferred !== 'server' && webSpeechConstructor()) return 'web-speech';
+  return canRecord() && await isServerRecognizerAvailable() ? 'server' : null;
+}
+
+/**
+ * 音声認識を作成する（kind は getRecognizerKind の結果。使えない場合は null）
+ */
+export function createSpeechRecognizer(kind: RecognizerKind | null): SpeechRecognizer | null {
+  if (kind === 'web-speech') return new WebSpeechRecognizer(webSpeechConstructor()!);
+  if (kind === 'server') return new ServerSpeechRecognizer();
+  return null;
+}